@@ -0,0 +1,123 @@
+/**
+ * Headless Simulator CLI
+ * Runs N complete games in memory and prints results + hand histories as JSON
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - --limit picks the betting structure
+ * Updated: Oct 19, 2026 - --variant holdem|omaha
+ *
+ * Usage:
+ *   npm run simulate -- --games 100 --seed regression-1
+ *   npm run simulate -- --seat tag=bot:tight-aggressive --seat chamath=gpt-4o-mini --out run.json
+ *
+ * Options:
+ *   --games <n>        Games to play (default 1)
+ *   --hands <n>        Max hands per game (default 25)
+ *   --chips <n>        Starting stack (default 1000)
+ *   --seed <text>      Master seed; same seed + bots = same games (default random)
+ *   --variant <name>   holdem or omaha (default holdem)
+ *   --limit <type>     no_limit, pot_limit or fixed_limit (default no_limit, pot_limit for omaha)
+ *   --seat name=model  Repeatable. Seat an agent on a registered model id. LLM seats
+ *                      must be named after a personality (chamath, sacks, jason,
+ *                      friedberg). Default: one of each scripted bot.
+ *   --out <file>       Write JSON here instead of stdout
+ *   --summary          Leave hand histories out of the output
+ */
+
+import { randomBytes } from 'crypto'
+import { writeFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { AGENT_PERSONALITIES } from '@/types/agents'
+import { getModelConfig, listModels } from '@/lib/ai/models'
+import { BOT_STRATEGY_IDS, isBotStrategy } from '@/lib/bots'
+import { BETTING_LIMITS, isBettingLimit, parseBettingStructure } from '@/lib/poker/betting'
+import { GAME_VARIANTS, isGameVariant } from '@/lib/poker/variants'
+import { botPolicy, modelPolicy, runSimulation, type SimulatedAgent } from '@/lib/simulator'
+
+const DEFAULT_SEATS = BOT_STRATEGY_IDS.map(id => `${id}=bot:${id}`)
+
+function toNumber(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`--${name} must be a positive integer`)
+  return parsed
+}
+
+/**
+ * "name=model" (or just "model") into a simulated agent
+ */
+function parseSeat(spec: string, seed: string): SimulatedAgent {
+  const [name, modelId = name] = spec.split('=')
+  if (!listModels().some(m => m.id === modelId)) {
+    throw new Error(`Unknown model "${modelId}" for seat "${spec}". Known: ${listModels().map(m => m.id).join(', ')}`)
+  }
+
+  const model = getModelConfig(modelId)
+  if (model.provider === 'bot' && isBotStrategy(model.modelName)) {
+    return { id: name, name, policy: botPolicy(model.modelName, seed) }
+  }
+  if (!AGENT_PERSONALITIES[name]) {
+    throw new Error(`LLM seat "${spec}" must be named after a personality: ${Object.keys(AGENT_PERSONALITIES).join(', ')}`)
+  }
+  return { id: name, name: AGENT_PERSONALITIES[name].name, policy: modelPolicy(name, modelId) }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: 'string' },
+      hands: { type: 'string' },
+      chips: { type: 'string' },
+      seed: { type: 'string' },
+      variant: { type: 'string' },
+      limit: { type: 'string' },
+      seat: { type: 'string', multiple: true },
+      out: { type: 'string' },
+      summary: { type: 'boolean', default: false },
+    },
+  })
+
+  const seed = values.seed ?? randomBytes(8).toString('hex')
+  const agents = (values.seat?.length ? values.seat : DEFAULT_SEATS).map(spec => parseSeat(spec, seed))
+  const games = toNumber(values.games, 'games', 1)
+  const variant = values.variant ?? 'holdem'
+  if (!isGameVariant(variant)) throw new Error(`--variant must be one of ${GAME_VARIANTS.join(', ')}`)
+  const limit = values.limit
+  if (limit !== undefined && !isBettingLimit(limit)) throw new Error(`--limit must be one of ${BETTING_LIMITS.join(', ')}`)
+
+  const startedAt = Date.now()
+  const result = await runSimulation(agents, {
+    games,
+    maxHands: toNumber(values.hands, 'hands', 25),
+    startingChips: toNumber(values.chips, 'chips', 1000),
+    seed,
+    variant,
+    bettingStructure: limit ? parseBettingStructure({ limit }) : undefined,
+    onHand: (gameNumber, hand) => {
+      if (hand.handNumber === 1) process.stderr.write(`${gameNumber > 1 ? '\n' : ''}[Sim] Game ${gameNumber}/${games} `)
+      process.stderr.write('.')
+    },
+  })
+  process.stderr.write('\n')
+
+  for (const s of result.summary) {
+    console.error(`[Sim] ${s.name}: ${s.wins}/${s.games} wins, avg place ${s.averagePlace.toFixed(2)}, avg chips ${Math.round(s.averageChips)}, busted ${s.busts}x`)
+  }
+  console.error(`[Sim] ${games} game(s), seed "${seed}", ${((Date.now() - startedAt) / 1000).toFixed(1)}s`)
+
+  const output = values.summary
+    ? { ...result, games: result.games.map(game => ({ ...game, hands: undefined })) }
+    : result
+  const json = JSON.stringify(output, null, 2)
+  if (values.out) {
+    writeFileSync(values.out, json)
+    console.error(`[Sim] Wrote ${values.out}`)
+  } else {
+    console.log(json)
+  }
+}
+
+main().catch(error => {
+  console.error(`[Sim] ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+})
@@ -0,0 +1,156 @@
+/**
+ * Offline Verifier CLI
+ * Checks a finished game's fairness from a JSON file, without our servers
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Reports every discrepancy per hand and checks a declared winnerId
+ * Updated: Oct 19, 2026 - Checks the entropy block came after the commitment (--commitment-block, --entropy-block)
+ * Updated: Oct 19, 2026 - Reports hand-to-hand chip continuity; the simulator's startingChips applies to every game
+ * Updated: Oct 19, 2026 - --rpc checks the public entropy is the entropy block's hash on-chain
+ *
+ * Usage:
+ *   npm run verify -- game-12-hands.json --commitment <hex> --salt <hex> --shuffle-version 2 \
+ *     --entropy <hash> --commitment-block <n> --entropy-block <n> --rpc https://mainnet.base.org
+ *   npm run verify -- run.json
+ *
+ * The file is either a hand history export (GET /api/v1/games/:id/hands),
+ * optionally with commitment / salt / shuffleVersion / publicEntropy /
+ * commitmentBlock / publicEntropyBlock / winnerId / actionLog / handDigests /
+ * startingChips added at the top level, or the simulator's output
+ * (every game in it is verified). Flags override the file's values. Use the
+ * commitment you saw before the game started, not one served afterwards.
+ *
+ * Options:
+ *   --commitment <hex>       Deck commitment published before the game
+ *   --salt <hex>             Salt revealed after the game
+ *   --shuffle-version <n>    The game's shuffle version (default 1, the legacy shuffle)
+ *   --entropy <text>         The game's public entropy, if it has any
+ *   --commitment-block <n>   Chain head once the commitment was stored (required with --entropy)
+ *   --entropy-block <n>      Block whose hash is the entropy - must come after the commitment block
+ *   --rpc <url>              JSON-RPC endpoint of the game's chain, to check the entropy is that
+ *                            block's hash (without it, the entropy value itself is taken on trust)
+ *   --json                   Print the full report as JSON
+ *
+ * Exits with status 1 if anything fails to verify.
+ */
+
+import { readFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { verifyGame, type GameVerificationInput, type GameVerificationReport } from '@/lib/verifier'
+
+type VerificationFile = Partial<GameVerificationInput> & {
+  gameNumber?: number | null
+  games?: (Partial<GameVerificationInput> & { gameNumber?: number })[]
+}
+
+/**
+ * One input per game in the file, with flags filled in
+ */
+function toInputs(file: VerificationFile, overrides: Partial<GameVerificationInput>) {
+  const games = file.games ?? [file]
+  return games.map(game => {
+    const input = { startingChips: file.startingChips, ...game, ...overrides }
+    if (!input.commitment) throw new Error('Missing the commitment (--commitment)')
+    if (!input.salt) throw new Error('Missing the revealed salt (--salt)')
+    if (!Array.isArray(input.hands)) throw new Error('The file has no hand histories')
+    return { gameNumber: game.gameNumber ?? null, input: input as GameVerificationInput }
+  })
+}
+
+/**
+ * A block's hash from a JSON-RPC node, or null if it has none
+ */
+async function fetchBlockHash(rpcUrl: string, blockNumber: number): Promise<string | null> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_getBlockByNumber', params: [`0x${blockNumber.toString(16)}`, false] }),
+  })
+  if (!response.ok) throw new Error(`RPC request failed: ${response.status} ${response.statusText}`)
+  const { result, error } = await response.json() as { result?: { hash?: string } | null; error?: { message: string } }
+  if (error) throw new Error(`RPC error: ${error.message}`)
+  return result?.hash ?? null
+}
+
+function printReport(gameNumber: number | null, report: GameVerificationReport) {
+  console.log(`Game ${gameNumber ?? '?'}: ${report.valid ? 'VERIFIED' : 'FAILED'}`)
+  console.log(`  Commitment: ${report.commitment.valid ? 'matches the salt' : report.commitment.error}`)
+  if (report.entropyTiming) {
+    const { valid, commitmentBlock, entropyBlock, error } = report.entropyTiming
+    console.log(`  Entropy: ${valid ? `block ${entropyBlock}, after the commitment (block ${commitmentBlock})` : error}`)
+    console.log(`  Entropy block hash: ${report.entropyBlock
+      ? report.entropyBlock.valid ? 'matches the chain' : report.entropyBlock.error
+      : 'not checked against the chain (--rpc <url>)'}`)
+  }
+  console.log(`  Hands: ${report.handsVerified}/${report.handsTotal} verified`)
+  for (const hand of report.hands) {
+    if (hand.valid) continue
+    for (const error of hand.errors) console.log(`    Hand ${hand.handNumber}: ${error}`)
+  }
+  console.log(`  Continuity: ${report.continuity.valid ? 'every hand starts on the stacks the previous one ended with' : 'FAILED'}`)
+  for (const error of report.continuity.errors) console.log(`    ${error}`)
+  if (report.winner) {
+    const { valid, declared, chipLeaders } = report.winner
+    console.log(`  Winner: ${valid ? `${declared} is the chip leader` : `declared ${declared ?? 'nobody'}, chip leader ${chipLeaders.join(', ')}`}`)
+  }
+  if (report.actionLog) {
+    const log = report.actionLog
+    console.log(`  Action log: ${log.entriesVerified}/${log.entriesTotal} entries verified`)
+    if (log.firstDivergence) console.log(`    ${log.firstDivergence.error}`)
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      commitment: { type: 'string' },
+      salt: { type: 'string' },
+      'shuffle-version': { type: 'string' },
+      entropy: { type: 'string' },
+      'commitment-block': { type: 'string' },
+      'entropy-block': { type: 'string' },
+      rpc: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  })
+
+  const [path] = positionals
+  if (!path) throw new Error('Usage: npm run verify -- <file.json> [--commitment <hex>] [--salt <hex>]')
+
+  const overrides: Partial<GameVerificationInput> = {}
+  if (values.commitment) overrides.commitment = values.commitment
+  if (values.salt) overrides.salt = values.salt
+  if (values['shuffle-version']) overrides.shuffleVersion = Number(values['shuffle-version'])
+  if (values.entropy) overrides.publicEntropy = values.entropy
+  if (values['commitment-block']) overrides.commitmentBlock = Number(values['commitment-block'])
+  if (values['entropy-block']) overrides.publicEntropyBlock = Number(values['entropy-block'])
+
+  const file = JSON.parse(readFileSync(path, 'utf8')) as VerificationFile
+  const inputs = toInputs(file, overrides)
+  const rpcUrl = values.rpc
+  if (rpcUrl) {
+    for (const { input } of inputs) {
+      if (input.publicEntropy && input.publicEntropyBlock != null) {
+        input.entropyBlockHash = await fetchBlockHash(rpcUrl, input.publicEntropyBlock)
+      }
+    }
+  }
+  const results = inputs.map(({ gameNumber, input }) => ({
+    gameNumber,
+    report: verifyGame(input),
+  }))
+
+  if (values.json) {
+    console.log(JSON.stringify(results, null, 2))
+  } else {
+    for (const { gameNumber, report } of results) printReport(gameNumber, report)
+  }
+
+  if (results.some(r => !r.report.valid)) process.exit(1)
+}
+
+main().catch(error => {
+  console.error(`[Verify] ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+})
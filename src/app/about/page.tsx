@@ -7,6 +7,7 @@
  * Updated: Feb 16, 2026 - Restructured for V1 launch: reordered sections,
  *   added V2 roadmap preview, moved smart contract + repo links from docs page,
  *   condensed layout with cleaner information hierarchy. Removed max-w-4xl to match other pages.
+ * Updated: Oct 19, 2026 - Verifiable games section mentions the public entropy (on-chain block hash)
  */
 
 import { POKER_BASE_PROMPT } from '@/types/agents'
@@ -138,7 +139,7 @@ export default function AboutPage() {
               </div>
               <h3 className="text-sm font-bold text-white mb-2">During Game</h3>
               <p className="text-neutral-500 text-sm">
-                Cards are dealt from the pre-shuffled deck - the salt stays secret so no one can predict upcoming cards
+                Each deck is shuffled from the salt mixed with the on-chain game&apos;s block hash - unknown when the salt was committed - and the salt stays secret so no one can predict upcoming cards
               </p>
             </div>
             <div className="bg-black border border-neutral-800 rounded-xl p-5">
@@ -31,6 +31,29 @@
  * Updated: Feb 16, 2026 - BUGFIX: Update hand_agents chip_count after pot distribution
  *                        - Previously only updated agents table, leaving hand_agents stale
  *                        - GameFinished UI reads from hand_agents, showing pre-pot chip counts
+ * Updated: Oct 19, 2026 - Hands are driven by the pure engine reducer (lib/poker/game-engine)
+ *                        - Removed route-local applyAction/findNextToAct/calculateSidePots/runOutBoard
+ *                        - Engine GameState persisted via lib/supabase/hand-store (hands.engine_state)
+ *                        - Uncalled bets are returned by the engine when a betting round closes
+ * Updated: Oct 19, 2026 - Persist per-pot award breakdown (hands.pot_awards) at resolution
+ * Updated: Oct 19, 2026 - Blinds/antes come from the game's blind_structure level for each hand
+ * Updated: Oct 19, 2026 - Supports 2-9 seat tables
+ *                        - Agent positions come from the offset to the button (lib/poker/positions)
+ * Updated: Oct 19, 2026 - Decisions use each agent's model_id from the model registry
+ * Updated: Oct 19, 2026 - Pass legal actions to the decision, record fallback reasons
+ * Updated: Oct 19, 2026 - Record decision telemetry (model, latency, tokens, cost) with each action
+ * Updated: Oct 19, 2026 - Opponent stats (observedStyle) in the decision context, lifetime stats bumped per hand
+ * Updated: Oct 19, 2026 - Per-game agent memory written after each hand and passed to decisions
+ * Updated: Oct 19, 2026 - Dealer rotation uses getNextDealerSeat (shared with the simulator)
+ * Updated: Oct 19, 2026 - Games play their stored betting_structure (no-limit, pot-limit or fixed-limit)
+ * Updated: Oct 19, 2026 - Games play their stored variant (Hold'em or Omaha)
+ * Updated: Oct 19, 2026 - Button and blinds from the seat manager (dead-button rule); hands store
+ *                        their blind seats so the big blind moves on one player per hand
+ * Updated: Oct 19, 2026 - Decisions are time-limited (budget + per-game time bank); a timeout
+ *                        checks or folds and hands.action_deadline drives the UI countdown
+ * Updated: Oct 19, 2026 - Verifiable decks use the game's shuffle_version
+ * Updated: Oct 19, 2026 - Verifiable decks mix in the game's public_entropy
+ * Updated: Oct 19, 2026 - Opponent stats count showdown wins from contested pots only
  * Purpose: Server-side game loop orchestration
  * 
  * FIX #1 (Jan 7): Added total_contributed tracking to fix side pot calculation.
@@ -51,30 +74,77 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
 import { createServiceClient } from '@/lib/supabase/server'
+import {
+  loadHand,
+  saveHandState,
+  insertHandAgents,
+  recordAction,
+  type StoredHand,
+} from '@/lib/supabase/hand-store'
+import { loadOpponentStyles, recordHandStats } from '@/lib/supabase/opponent-store'
+import { loadAgentMemory, recordHandMemories } from '@/lib/supabase/memory-store'
+import { loadTimeBank, saveTimeBank } from '@/lib/supabase/time-bank-store'
 import { getAgentDecision } from '@/lib/ai/agent-decision'
-import { 
-  createShuffledDeck, 
-  dealHoleCards,
-  dealFlop,
-  dealTurn,
-  dealRiver 
-} from '@/lib/poker/deck'
-import { getDeckForHand, createActionLogEntry, type ActionLogEntry } from '@/lib/poker/verifiable'
-import { determineWinners, evaluateHand } from '@/lib/poker/hand-evaluator'
+import { getDecisionTimeLimit, spendTimeBank } from '@/lib/ai/time-bank'
+import { toActionTelemetry } from '@/lib/ai/telemetry'
+import { createShuffledDeck } from '@/lib/poker/deck'
+import { getBlindLevel, FLAT_BLIND_STRUCTURE } from '@/lib/poker/blinds'
+import { getTablePosition, MAX_PLAYERS } from '@/lib/poker/positions'
+import { getHandSeating, getNextButtonPositions } from '@/lib/poker/seats'
+import { NO_LIMIT, parseBettingStructure } from '@/lib/poker/betting'
+import { parseGameVariant } from '@/lib/poker/variants'
+import { getDeckForHand, parseShuffleVersion } from '@/lib/poker/verifiable'
+import { evaluateHand } from '@/lib/poker/hand-evaluator'
+import { getShowdownWinnerIds } from '@/lib/poker/opponent-stats'
+import {
+  initializeHand,
+  applyAction,
+  reduceHand,
+  getNextStep,
+  isAllInRunout,
+  getBlindIndices,
+  getMinRaiseTotal,
+  getMaxRaiseTotal,
+  getValidActions,
+  getRunout,
+  type GameConfig,
+} from '@/lib/poker/game-engine'
 import type { DecisionContext, OpponentState, RecentAction } from '@/types/agents'
-import type { Hand, HandAgent, Agent, AgentAction } from '@/types/database'
-import type { CardNotation, Round } from '@/types/poker'
+import type { BlindStructure, BettingStructure, GameVariant } from '@/types/poker'
+import type { Hand, Agent, AgentAction, Json } from '@/types/database'
 import { closeOnChainBetting, resolveOnChainGame, agentIdToContractIndex, isServerWalletConfigured, getOnChainGameStatus, OnChainGameStatus } from '@/lib/contracts/admin'
 import { getCurrentConfig } from '@/lib/contracts/config'
 import '@/lib/agents'
 
-const SMALL_BLIND = 10
-const BIG_BLIND = 20
 const STARTING_CHIPS = 1000
 const BETTING_WINDOW_SECONDS = 20
 const BETTING_CLOSES_AFTER_HAND = 2 // Must match session route - betting closes after hand 2
 
+/**
+ * Engine config for a hand, using the game's blind level for that hand number
+ * Games without a stored structure play flat 10/20 with no ante, no-limit
+ */
+function getEngineConfig(
+  blindStructure: BlindStructure | null,
+  bettingStructure: BettingStructure,
+  variant: GameVariant,
+  handNumber: number
+): GameConfig {
+  const level = getBlindLevel(blindStructure ?? FLAT_BLIND_STRUCTURE, handNumber)
+  return {
+    smallBlind: level.smallBlind,
+    bigBlind: level.bigBlind,
+    ante: level.ante,
+    anteType: blindStructure?.anteType ?? 'none',
+    startingChips: STARTING_CHIPS,
+    bettingWindowSeconds: BETTING_WINDOW_SECONDS,
+    bettingStructure,
+    variant,
+  }
+}
+
 interface OrchestratorRequest {
   action: 'start_hand' | 'next_action' | 'advance_round' | 'auto_play'
   lobbyId?: string
@@ -139,7 +209,7 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
   const chainId = getCurrentConfig().chainId
   const activeGameResult = await supabase
     .from('games')
-    .select('id, game_number, status, current_hand_number, max_hands, salt_reveal, on_chain_game_id')
+    .select('id, game_number, status, current_hand_number, max_hands, salt_reveal, shuffle_version, public_entropy, on_chain_game_id, blind_structure, betting_structure, variant')
     .eq('lobby_id', currentLobbyId)
     .eq('chain_id', chainId)
     .in('status', ['waiting', 'betting_open', 'betting_closed'])
@@ -154,7 +224,12 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
     current_hand_number: number;
     max_hands: number;
     salt_reveal: string | null;
+    shuffle_version: number | null;
+    public_entropy: string | null;
     on_chain_game_id: number | null;
+    blind_structure: BlindStructure | null;
+    betting_structure: Json | null;
+    variant: string | null;
   } | null
   
   // If no active game, return error - games must be created via /api/game/session
@@ -187,6 +262,11 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
   
   // Filter out bust agents (chip_count <= 0) - they can't participate
   const agents = allAgents.filter(a => (a.chip_count ?? STARTING_CHIPS) > 0)
+  if (agents.length > MAX_PLAYERS) {
+    return NextResponse.json({ 
+      error: `Too many active agents (table seats at most ${MAX_PLAYERS})`,
+    }, { status: 400 })
+  }
   if (agents.length < 2) {
     return NextResponse.json({ 
       error: 'Not enough active agents (need at least 2 with chips)',
@@ -194,17 +274,22 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
     }, { status: 400 })
   }
 
-  // Get previous hand info FOR THIS GAME (hand number and dealer position)
+  // Get previous hand info FOR THIS GAME (hand number, button and blind seats)
   // Hand numbers are PER-GAME (1-25), not global
   const lastHandResult = await supabase
     .from('hands')
-    .select('hand_number, dealer_position')
+    .select('hand_number, dealer_position, small_blind_position, big_blind_position')
     .eq('game_id', activeGame.id)
     .order('hand_number', { ascending: false })
     .limit(1)
     .single()
   
-  const lastHand = lastHandResult.data as { hand_number: number; dealer_position: number } | null
+  const lastHand = lastHandResult.data as {
+    hand_number: number
+    dealer_position: number
+    small_blind_position: number | null
+    big_blind_position: number | null
+  } | null
 
   // Hand number within THIS game (1-25)
   const handNumber = (lastHand?.hand_number || 0) + 1
@@ -220,44 +305,64 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
   
   console.log(`[Game #${activeGame.game_number}] Starting hand ${handNumber}/${maxHands}`)
   
-  // Get active seat positions (seats with non-bust agents)
-  const activeSeatPositions = agents.map(a => (a as Agent & { seat_position: number }).seat_position ?? 0).sort((a, b) => a - b)
-  
-  // Find next dealer position (rotating among ACTIVE seats only)
-  // dealer_position stores the SEAT number (0-3), not array index
-  let dealerSeatPosition: number
-  if (lastHand) {
-    const lastDealerSeat = lastHand.dealer_position
-    // Find the next active seat after the last dealer
-    const nextSeats = activeSeatPositions.filter(s => s > lastDealerSeat)
-    const wrapSeats = activeSeatPositions.filter(s => s <= lastDealerSeat)
-    // Prefer next higher seat, wrap around if needed
-    dealerSeatPosition = nextSeats.length > 0 ? nextSeats[0] : wrapSeats[0]
-  } else {
-    // First hand - dealer is the first active seat
-    dealerSeatPosition = activeSeatPositions[0]
-  }
+  // Button and blinds move on from the last hand's seats (dead-button rule, lib/poker/seats)
+  // dealer_position and the blind positions store SEAT numbers (0-8), not array indices
+  const activeSeatPositions = agents.map(a => (a as Agent & { seat_position: number }).seat_position ?? 0)
+  const buttonPositions = getNextButtonPositions(
+    activeSeatPositions,
+    lastHand && {
+      buttonSeat: lastHand.dealer_position,
+      smallBlindSeat: lastHand.small_blind_position,
+      bigBlindSeat: lastHand.big_blind_position,
+    }
+  )
+  const dealerSeatPosition = buttonPositions.buttonSeat
   
-  // Find the index within the filtered agents array for this dealer seat
-  const dealerIndex = agents.findIndex(a => (a as Agent & { seat_position: number }).seat_position === dealerSeatPosition)
+  // Dealer index within the filtered agents array (the closest player before a dead button)
+  const { dealerIndex, button } = getHandSeating(activeSeatPositions, buttonPositions)
 
   // Create deck - use seeded shuffle if game has salt_reveal (verifiable game)
   // Otherwise fall back to random shuffle (for backwards compatibility)
   const deck = activeGame?.salt_reveal 
-    ? getDeckForHand(activeGame.salt_reveal, handNumber)
+    ? getDeckForHand(
+        activeGame.salt_reveal,
+        handNumber,
+        parseShuffleVersion(activeGame.shuffle_version),
+        activeGame.public_entropy
+      )
     : createShuffledDeck()
   
   if (activeGame?.salt_reveal) {
     console.log(`[Hand #${handNumber}] Using verifiable seeded deck (commitment: ${activeGame.salt_reveal.slice(0, 8)}...)`)
   }
   
-  const [holeCards, afterHoleCards] = dealHoleCards(deck, agents.length)
-  const [flopCards, afterFlop] = dealFlop(afterHoleCards)
-  const [turnCard, afterTurn] = dealTurn(afterFlop)
-  const [riverCard] = dealRiver(afterTurn)
+  // Deal hole cards and post blinds through the engine
+  // Use persistent chip counts from agents table
+  // IMPORTANT: Use ?? (nullish coalescing) NOT || to avoid resetting 0 chips to STARTING_CHIPS
+  // Use the agent's FIXED seat_position so agents always appear in the same corner of the table
+  const handId = randomUUID()
+  const engineConfig = getEngineConfig(
+    activeGame.blind_structure,
+    parseBettingStructure(activeGame.betting_structure),
+    parseGameVariant(activeGame.variant),
+    handNumber
+  )
+  const state = initializeHand(
+    handId,
+    agents.map((agent, index) => ({
+      id: agent.id,
+      name: agent.name,
+      chipCount: agent.chip_count ?? STARTING_CHIPS,
+      seatPosition: agent.seat_position ?? index,
+    })),
+    dealerIndex,
+    engineConfig,
+    deck,
+    button
+  )
   
   // Pre-generate all community cards (will be revealed progressively)
-  const allCommunityCards = [...flopCards, turnCard, riverCard]
+  const allCommunityCards = getRunout(state)
 
   // Create the hand
   const bettingClosesAt = new Date(Date.now() + BETTING_WINDOW_SECONDS * 1000).toISOString()
@@ -265,14 +370,20 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const db = supabase as any
   
+  const { smallBlindIndex, bigBlindIndex } = getBlindIndices(state)
+  const sbAgent = smallBlindIndex === null ? null : agents[smallBlindIndex]
+  const bbAgent = agents[bigBlindIndex]
+  const firstToAct = state.activePlayerIndex >= 0 ? agents[state.activePlayerIndex] : null
+  
   const handResult = await db
     .from('hands')
     .insert({
+      id: handId,
       lobby_id: currentLobbyId,
       game_id: activeGame?.id || null, // Link to current game session if active
       hand_number: handNumber,
       status: 'betting_open',
-      pot_amount: SMALL_BLIND + BIG_BLIND,
+      pot_amount: state.pot,
       betting_closes_at: bettingClosesAt,
       // Store ALL community cards upfront (will be revealed based on round)
       community_cards: allCommunityCards,
@@ -280,6 +391,14 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
       current_round: 'preflop',
       // Track dealer position (SEAT number, not array index) for proper action order
       dealer_position: dealerSeatPosition,
+      // Blind seats (the SB seat may be empty) so the next hand's blinds move on from them
+      small_blind_position: buttonPositions.smallBlindSeat,
+      big_blind_position: buttonPositions.bigBlindSeat,
+      // SB/BB agent IDs for UI display (no SB agent under a dead small blind)
+      small_blind_agent_id: sbAgent?.id ?? null,
+      big_blind_agent_id: bbAgent.id,
+      active_agent_id: firstToAct?.id ?? null,
+      engine_state: state,
     })
     .select()
     .single()
@@ -327,97 +446,35 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
     }
   }
 
-  // Create hand_agents with dealt cards
-  // Blinds are relative to dealer's INDEX in the active agents array
-  // - Small Blind = (dealerIndex + 1) % numPlayers
-  // - Big Blind = (dealerIndex + 2) % numPlayers
-  const numPlayers = agents.length
-  const smallBlindIndex = (dealerIndex + 1) % numPlayers
-  const bigBlindIndex = (dealerIndex + 2) % numPlayers
-  
-  // Update hand with SB/BB agent IDs for UI display
-  await db.from('hands').update({
-    small_blind_agent_id: agents[smallBlindIndex].id,
-    big_blind_agent_id: agents[bigBlindIndex].id,
-  }).eq('id', hand.id)
-  
-  const handAgentsData = agents.map((agent, index) => {
-    const isSmallBlind = index === smallBlindIndex
-    const isBigBlind = index === bigBlindIndex
-    
-    // Use persistent chip count from agents table
-    // IMPORTANT: Use ?? (nullish coalescing) NOT || to avoid resetting 0 chips to STARTING_CHIPS
-    const agentChipCount = (agent as Agent & { chip_count: number }).chip_count ?? STARTING_CHIPS
-    const blindAmount = isSmallBlind ? SMALL_BLIND : isBigBlind ? BIG_BLIND : 0
-    
-    // Use the agent's FIXED seat_position from the database, not the array index
-    // This ensures agents always appear in the same corner of the table
-    const agentSeatPosition = (agent as Agent & { seat_position: number }).seat_position ?? index
-    
-    return {
-      hand_id: hand.id,
-      agent_id: agent.id,
-      seat_position: agentSeatPosition,
-      hole_cards: holeCards[index],
-      chip_count: agentChipCount - blindAmount,
-      current_bet: blindAmount,
-      total_contributed: blindAmount, // Track cumulative contributions for side pot calculation
-      is_folded: false,
-      is_all_in: false,
-    }
-  })
-
-  const insertResult = await db.from('hand_agents').insert(handAgentsData)
+  // Create hand_agents with dealt cards and blinds already posted
+  const insertResult = await insertHandAgents(supabase, hand.id, state)
 
   if (insertResult.error) {
     console.error('Failed to create hand agents:', insertResult.error)
     return NextResponse.json({ error: 'Failed to create hand agents' }, { status: 500 })
   }
 
-  // Record blind posts as actions so turn order logic works correctly
-  // SB and BB are "forced bets" - they're recorded so we know BB option should apply
-  const sbAgent = agents[smallBlindIndex]
-  const bbAgent = agents[bigBlindIndex]
-  const sbAgentId = sbAgent.id
-  const bbAgentId = bbAgent.id
-  
-  await db.from('agent_actions').insert([
-    {
-      hand_id: hand.id,
-      agent_id: sbAgentId,
-      action_type: 'blind',
-      amount: SMALL_BLIND,
-      reasoning: 'Small blind posted',
-      round: 'preflop',
-    },
-    {
-      hand_id: hand.id,
-      agent_id: bbAgentId,
-      action_type: 'blind',
-      amount: BIG_BLIND,
-      reasoning: 'Big blind posted',
-      round: 'preflop',
-    },
-  ])
-  
-  // Also log blinds to game's action_log for verifiable games
-  if (activeGame?.id) {
-    await appendToActionLog(supabase, activeGame.id, createActionLogEntry(
-      handNumber, sbAgent.slug, 'blind', 'preflop', SMALL_BLIND
-    ))
-    await appendToActionLog(supabase, activeGame.id, createActionLogEntry(
-      handNumber, bbAgent.slug, 'blind', 'preflop', BIG_BLIND
-    ))
+  // Record antes and blind posts as actions so the feed shows them
+  // (a short stack may post less than the full blind)
+  // Antes are dead money, so whatever a player contributed beyond their bet is ante
+  const ante = engineConfig.ante ?? 0
+  for (const [index, player] of state.players.entries()) {
+    const antePosted = player.totalContributed - player.currentBet
+    if (antePosted > 0) {
+      await recordAction(supabase, hand, agents[index], { type: 'blind', amount: antePosted }, 'preflop', 'Ante posted')
+    }
   }
+  if (sbAgent && smallBlindIndex !== null) {
+    await recordAction(supabase, hand, sbAgent, {
+      type: 'blind', amount: state.players[smallBlindIndex].currentBet,
+    }, 'preflop', 'Small blind posted')
+  }
+  await recordAction(supabase, hand, bbAgent, {
+    type: 'blind', amount: state.players[bigBlindIndex].currentBet,
+  }, 'preflop', 'Big blind posted')
   
-  // Set UTG as the first active player (3 seats after dealer in clockwise order)
-  const utgIndex = (dealerIndex + 3) % numPlayers
-  const utgAgentId = agents[utgIndex].id
-  await db.from('hands').update({ active_agent_id: utgAgentId }).eq('id', hand.id)
-  
-  // Get seat positions for logging
-  const getSeat = (idx: number) => (agents[idx] as Agent & { seat_position: number }).seat_position
-  console.log(`Hand #${handNumber} started. Dealer: seat ${dealerSeatPosition}, SB: seat ${getSeat(smallBlindIndex)}, BB: seat ${getSeat(bigBlindIndex)}, UTG: seat ${getSeat(utgIndex)}`)
+  console.log(`[Hand #${handNumber}] Blinds ${engineConfig.smallBlind}/${engineConfig.bigBlind}${ante > 0 ? `, ante ${ante} (${engineConfig.anteType})` : ''}`)
+  console.log(`Hand #${handNumber} started. Dealer: seat ${dealerSeatPosition}${activeSeatPositions.includes(dealerSeatPosition) ? '' : ' (dead)'}, SB: seat ${buttonPositions.smallBlindSeat}${sbAgent ? '' : ' (dead)'}, BB: seat ${bbAgent.seat_position}, first to act: seat ${firstToAct?.seat_position ?? '-'}`)
   
   return NextResponse.json({
     success: true,
@@ -431,43 +488,57 @@ async function startNewHand(supabase: ReturnType<typeof createServiceClient>, lo
 }
 
 /**
- * Process the next AI agent action
+ * Process the next step of a hand
+ * The engine decides what happens next (agent to act, deal, showdown);
+ * this function only gathers the AI decision and persists the result
  */
 async function processNextAction(supabase: ReturnType<typeof createServiceClient>, handId?: string) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const db = supabase as any
-  
   if (!handId) {
     return NextResponse.json({ error: 'Hand ID required' }, { status: 400 })
   }
 
-  // Get hand state
-  const handResult = await supabase
-    .from('hands')
-    .select('*')
-    .eq('id', handId)
-    .single()
-
-  const hand = handResult.data as Hand | null
-  if (!hand) {
+  const stored = await loadHand(supabase, handId)
+  if (!stored) {
     return NextResponse.json({ error: 'Hand not found' }, { status: 404 })
   }
 
+  const { hand, handAgents, state } = stored
   if (hand.status === 'resolved') {
     return NextResponse.json({ error: 'Hand already resolved' }, { status: 400 })
   }
 
-  // Get hand agents
-  const handAgentsResult = await supabase
-    .from('hand_agents')
-    .select('*, agents(*)')
-    .eq('hand_id', handId)
-    .order('seat_position')
+  // Hand resolves when only one player remains or the river betting is done;
+  // when betting is closed earlier (everyone matched, or all-in) the next street is dealt
+  const step = getNextStep(state)
+  if (step === 'showdown' || step === 'complete') {
+    return await resolveHand(supabase, stored)
+  }
+  if (step === 'deal') {
+    return await advanceRound(supabase, handId, stored)
+  }
 
-  const handAgents = handAgentsResult.data as (HandAgent & { agents: Agent })[] | null
-  if (!handAgents || handAgents.length === 0) {
-    return NextResponse.json({ error: 'No agents in hand' }, { status: 400 })
+  const actor = state.players[state.activePlayerIndex]
+  const agentToAct = handAgents.find(ha => ha.agent_id === actor.agentId)
+  if (!agentToAct) {
+    return NextResponse.json({ error: 'Active player not seated in hand' }, { status: 500 })
   }
+  const agent = agentToAct.agents as Agent
+  const round = state.round
+  const toCall = state.currentBet - actor.currentBet
+  
+  // Decision time: the per-decision budget plus whatever is left in the agent's time bank
+  const timeBankMs = await loadTimeBank(supabase, hand.game_id, agent.id)
+  const timeLimitMs = getDecisionTimeLimit(timeBankMs)
+  const decisionStartedAt = Date.now()
+  
+  // Set this agent as the active player (and when their time runs out) for UI updates
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (supabase as any).from('hands').update({
+    active_agent_id: agent.id,
+    action_deadline: new Date(decisionStartedAt + timeLimitMs).toISOString(),
+  }).eq('id', handId)
+  
+  console.log(`[Hand ${hand.hand_number}] ${round}: ${agent.name} (seat ${actor.seatPosition}) to act. Current bet: $${state.currentBet}, their bet: $${actor.currentBet}, to call: $${toCall}`)
 
   // Get recent actions
   const recentActionsResult = await supabase
@@ -479,961 +550,242 @@ async function processNextAction(supabase: ReturnType<typeof createServiceClient
   
   const recentActions = recentActionsResult.data as (AgentAction & { agents: { name: string } })[] | null
 
-  // Get current round from database (tracks actual game progression)
-  const communityCards = (hand.community_cards || []) as string[]
-  const round: Round = (hand.current_round as Round) || 'preflop'
-
-  // Check if hand should resolve
-  const nonFoldedAgents = handAgents.filter(ha => !ha.is_folded)
-  const allInAgents = handAgents.filter(ha => !ha.is_folded && ha.is_all_in)
-  const activeAgents = handAgents.filter(ha => !ha.is_folded && !ha.is_all_in)
-  
-  // Hand resolves when:
-  // 1. Only one non-folded player remains (everyone else folded)
-  // 2. All remaining players are all-in (no one can bet)
-  // 3. Only 1 active player vs all-in opponent(s) and active has matched/exceeded max all-in
-  if (nonFoldedAgents.length <= 1) {
-    // Only one player left - they win by default
-    return await resolveHand(supabase, hand, handAgents as (HandAgent & { agents: Agent })[])
-  }
-  
-  if (activeAgents.length === 0 && allInAgents.length >= 2) {
-    // All remaining players are all-in - run out the board
-    const currentRound = (hand.current_round as Round) || 'preflop'
-    if (currentRound !== 'river') {
-      return await runOutBoard(supabase, hand.id, handAgents as (HandAgent & { agents: Agent })[])
-    }
-    return await resolveHand(supabase, hand, handAgents as (HandAgent & { agents: Agent })[])
-  }
-  
-  // NEW: Check for heads-up (or multi-way) all-in scenario
-  // When only 1 active player remains and all opponents are all-in
-  if (activeAgents.length === 1 && allInAgents.length >= 1) {
-    const activePlayer = activeAgents[0]
-    const round = (hand.current_round as Round) || 'preflop'
-    const maxAllInBet = Math.max(...allInAgents.map(a => a.current_bet))
-    
-    // If active player has already bet >= max all-in, no more action needed
-    // This happens when:
-    // 1. Someone raised and opponent(s) went all-in for less
-    // 2. Active player called an all-in and is now matched
-    // 3. New round started and bets reset, but both are matched at 0
-    if (activePlayer.current_bet >= maxAllInBet) {
-      console.log(`[All-In Showdown] ${(activePlayer.agents as Agent)?.name} bet $${activePlayer.current_bet} vs all-in max $${maxAllInBet} - no action needed`)
-      
-      // Return excess chips to active player if they bet more than anyone can match
-      const excess = activePlayer.current_bet - maxAllInBet
-      if (excess > 0) {
-        console.log(`[All-In Showdown] Returning $${excess} excess to ${(activePlayer.agents as Agent)?.name}`)
-        
-        // Update player's chips and current bet
-        // Note: total_contributed may not exist on the type, so we use optional chaining with fallback
-        const currentContributed = (activePlayer as unknown as { total_contributed?: number }).total_contributed ?? activePlayer.current_bet
-        await db.from('hand_agents').update({
-          chip_count: activePlayer.chip_count + excess,
-          current_bet: maxAllInBet,
-          total_contributed: currentContributed - excess
-        }).eq('id', activePlayer.id)
-        
-        // Reduce pot by the excess
-        await db.from('hands').update({
-          pot_amount: hand.pot_amount - excess
-        }).eq('id', hand.id)
-        
-        // Update local state for resolution
-        activePlayer.chip_count += excess
-        activePlayer.current_bet = maxAllInBet
-        hand.pot_amount -= excess
-      }
-      
-      // Run out board to showdown (or resolve if at river)
-      if (round !== 'river') {
-        return await runOutBoard(supabase, hand.id, handAgents as (HandAgent & { agents: Agent })[])
-      }
-      return await resolveHand(supabase, hand, handAgents as (HandAgent & { agents: Agent })[])
-    }
-    
-    // Active player needs to call or fold (their bet < max all-in)
-    // They get ONE action, then it's showdown
-    // After they act, the next processNextAction call will hit the check above
-    console.log(`[All-In Showdown] ${(activePlayer.agents as Agent)?.name} needs to call $${maxAllInBet - activePlayer.current_bet} or fold on ${round}`)
-  }
-
-  // Find the agent who needs to act based on position order
-  // Only consider non-folded players for current bet calculation
-  const activeBets = handAgents.filter(ha => !ha.is_folded).map(ha => ha.current_bet)
-  const currentBet = activeBets.length > 0 ? Math.max(...activeBets) : 0
-  const dealerPosition = hand.dealer_position ?? 0
-  const agentToAct = findNextToAct(handAgents as (HandAgent & { agents: Agent })[], recentActions || [], round, currentBet, dealerPosition)
-
-  if (!agentToAct) {
-    // Everyone has acted and bets are matched - advance to next round
-    // Clear active agent first
-    await db.from('hands').update({ active_agent_id: null }).eq('id', handId)
-    return await advanceRound(supabase, handId)
-  }
-
-  const agent = agentToAct.agents as Agent
-  
-  // Set this agent as the active player in the database for UI updates
-  await db.from('hands').update({ active_agent_id: agent.id }).eq('id', handId)
-  
-  console.log(`[Hand ${hand.hand_number}] ${round}: ${agent.name} (seat ${agentToAct.seat_position}) to act. Current bet: $${currentBet}, their bet: $${agentToAct.current_bet}, to call: $${currentBet - agentToAct.current_bet}`)
-
-  // Filter community cards based on round (cards are pre-dealt but revealed progressively)
-  const visibleCardCount = 
-    round === 'preflop' ? 0 :
-    round === 'flop' ? 3 :
-    round === 'turn' ? 4 :
-    round === 'river' ? 5 : 0
-  
-  const visibleCommunityCards = communityCards.slice(0, visibleCardCount)
+  const opponentStyles = await loadOpponentStyles(
+    supabase,
+    hand.game_id,
+    state.players.filter(p => p.agentId !== actor.agentId).map(p => p.agentId)
+  )
+  const memory = await loadAgentMemory(supabase, hand.game_id, agent.id)
 
   // Build decision context
   const context: DecisionContext = {
     agentId: agent.id,
-    holeCards: (agentToAct.hole_cards || []) as CardNotation[],
-    chipCount: agentToAct.chip_count,
-    currentBet: agentToAct.current_bet,
-    communityCards: visibleCommunityCards as CardNotation[],
-    pot: hand.pot_amount,
-    betToCall: currentBet - agentToAct.current_bet,
-    minRaise: currentBet + BIG_BLIND,
+    variant: state.variant ?? 'holdem',
+    holeCards: actor.holeCards,
+    chipCount: actor.chipCount,
+    currentBet: actor.currentBet,
+    communityCards: state.communityCards,
+    pot: state.pot,
+    betToCall: toCall,
+    minRaise: getMinRaiseTotal(state),
+    maxRaise: getMaxRaiseTotal(state),
+    bettingLimit: (state.bettingStructure ?? NO_LIMIT).limit,
+    validActions: getValidActions(state),
     round,
-    position: getPosition(agentToAct.seat_position, handAgents.length),
-    opponents: handAgents
-      .filter(ha => ha.agent_id !== agent.id)
-      .map(ha => ({
-        name: (ha.agents as Agent)?.name || 'Unknown',
-        chipCount: ha.chip_count,
-        currentBet: ha.current_bet,
-        isFolded: ha.is_folded,
-        isAllIn: ha.is_all_in,
+    position: getTablePosition(
+      state.activePlayerIndex - state.dealerIndex,
+      state.players.length,
+      state.deadSmallBlind
+    ),
+    opponents: state.players
+      .filter(p => p.agentId !== actor.agentId)
+      .map(p => ({
+        name: p.name,
+        chipCount: p.chipCount,
+        currentBet: p.currentBet,
+        isFolded: p.isFolded,
+        isAllIn: p.isAllIn,
+        observedStyle: opponentStyles[p.agentId],
       })) as OpponentState[],
     recentActions: (recentActions || []).map(a => ({
       agentName: (a.agents as { name: string })?.name || 'Unknown',
       action: { type: a.action_type, amount: a.amount || undefined },
       timestamp: a.created_at,
     })) as RecentAction[],
+    memory: memory ?? undefined,
   }
 
-  // Get AI decision
-  const decision = await getAgentDecision(context, agent.slug)
-  
-  console.log(`[Hand ${hand.hand_number}] ${agent.name} decides: ${decision.action.type}${decision.action.amount ? ` $${decision.action.amount}` : ''}`)
-
-  // Apply the action
-  const result = await applyAction(
-    supabase,
-    hand,
-    agentToAct,
-    decision.action,
-    decision.internalThoughts,
-    round,
-    agent.slug // For action logging
+  // Get AI decision within whatever time is left (loading the context counts)
+  const decision = await getAgentDecision(
+    context,
+    agent.slug,
+    agent.model_id,
+    timeLimitMs - (Date.now() - decisionStartedAt)
   )
   
-  console.log(`[Hand ${hand.hand_number}] After action - pot: $${result.newPot}, ${agent.name} chips: $${result.newChipCount}, bet: $${result.newCurrentBet}`)
-
-  return NextResponse.json({
-    success: true,
-    agent: agent.name,
-    action: decision.action.type,
-    amount: decision.action.amount,
-    reasoning: decision.internalThoughts,
-    confidence: decision.confidence,
-    ...result,
-  })
-}
-
-/**
- * Find the next agent who needs to act
- * 
- * POKER TURN ORDER:
- * - Preflop: UTG (dealer+3) → Button (dealer) → SB (dealer+1) → BB (dealer+2)
- * - Post-flop: SB (dealer+1) → BB (dealer+2) → UTG (dealer+3) → Button (dealer)
- * 
- * IMPORTANT: After a raise, action continues CLOCKWISE from the raiser.
- * The round ends when we return to the last raiser and everyone has matched or folded.
- */
-function findNextToAct(
-  handAgents: (HandAgent & { agents: Agent })[],
-  recentActions: AgentAction[],
-  round: Round,
-  currentBet: number,
-  dealerPosition: number
-): (HandAgent & { agents: Agent }) | null {
-  const numPlayers = handAgents.length
-  
-  // Filter to voluntary actions only (exclude blinds since those are forced)
-  const roundActions = recentActions.filter(a => 
-    a.round === round && a.action_type !== 'blind'
-  )
-  
-  // Get action history for this round in chronological order
-  const chronologicalActions = [...roundActions].reverse() // Most recent first → chronological
-  
-  // Find the last aggressive action (raise or all-in) - this sets who needs to close the action
-  const lastRaiseAction = roundActions.find(a => 
-    a.action_type === 'raise' || a.action_type === 'all_in'
-  )
-  
-  // Determine starting position for this round
-  let roundStartPosition: number
-  if (round === 'preflop') {
-    roundStartPosition = (dealerPosition + 3) % numPlayers // UTG
-  } else {
-    roundStartPosition = (dealerPosition + 1) % numPlayers // SB
+  // Anything beyond the per-decision budget comes out of the time bank
+  const timeBankLeft = decision.fallbackReason === 'timeout'
+    ? 0
+    : spendTimeBank(timeBankMs, Date.now() - decisionStartedAt)
+  if (timeBankLeft !== timeBankMs) {
+    await saveTimeBank(supabase, hand.game_id, agent.id, timeBankLeft)
+    console.log(`[Hand ${hand.hand_number}] ${agent.name} time bank: ${Math.round(timeBankLeft / 1000)}s left`)
   }
   
-  // Determine where to start looking for the next actor
-  let searchStartPosition: number
+  console.log(`[Hand ${hand.hand_number}] ${agent.name} decides: ${decision.action.type}${decision.action.amount ? ` $${decision.action.amount}` : ''}${decision.fallbackReason ? ` (fallback: ${decision.fallbackReason})` : ''}`)
+
+  // Apply the action through the engine, then persist
+  const { newState, events } = applyAction(state, decision.action)
+  await saveHandState(supabase, handId, state, newState)
   
-  if (chronologicalActions.length === 0) {
-    // No actions yet this round - start from round start position
-    searchStartPosition = roundStartPosition
-  } else {
-    // Start from the player AFTER the last person who acted
-    const lastAction = chronologicalActions[chronologicalActions.length - 1]
-    const lastActorAgent = handAgents.find(ha => ha.agent_id === lastAction.agent_id)
-    if (lastActorAgent) {
-      searchStartPosition = (lastActorAgent.seat_position + 1) % numPlayers
-    } else {
-      searchStartPosition = roundStartPosition
+  for (const event of events) {
+    if (event.type === 'PLAYER_ACTION') {
+      await recordAction(supabase, hand, agent, event.action, round, decision.internalThoughts, toActionTelemetry(decision))
+    } else if (event.type === 'BET_RETURNED') {
+      const name = newState.players.find(p => p.agentId === event.agentId)?.name
+      console.log(`[Uncalled Bet] Returning $${event.amount} to ${name}`)
     }
   }
   
-  // Track who has acted since the last raise (or round start if no raise)
-  const lastRaiseIndex = lastRaiseAction 
-    ? chronologicalActions.findIndex(a => a.id === lastRaiseAction.id)
-    : -1
-  
-  const actorsSinceRaise = new Set(
-    lastRaiseIndex >= 0
-      ? chronologicalActions.slice(lastRaiseIndex + 1).map(a => a.agent_id)
-      : chronologicalActions.map(a => a.agent_id)
-  )
-  
-  // Include the raiser themselves as having acted
-  if (lastRaiseAction) {
-    actorsSinceRaise.add(lastRaiseAction.agent_id)
-  }
-  
-  // Find active (non-folded, non-all-in) players
-  const activePlayers = handAgents.filter(ha => !ha.is_folded && !ha.is_all_in)
-  
-  if (activePlayers.length === 0) {
-    return null // No one can act
-  }
-  
-  // Loop through all positions starting from search position
-  for (let i = 0; i < numPlayers; i++) {
-    const seatPosition = (searchStartPosition + i) % numPlayers
-    const ha = handAgents.find(h => h.seat_position === seatPosition)
-    
-    if (!ha || ha.is_folded || ha.is_all_in) continue
-    
-    const hasActedSinceRaise = actorsSinceRaise.has(ha.agent_id)
-    const needsToMatch = ha.current_bet < currentBet
-    
-    // Player needs to act if:
-    // 1. There's been a raise and they haven't acted since it, OR
-    // 2. They need to match a bet (their current bet < table bet)
-    if (needsToMatch || !hasActedSinceRaise) {
-      return ha
-    }
-  }
+  const applied = events[0].type === 'PLAYER_ACTION' ? events[0].action : decision.action
+  const after = newState.players.find(p => p.agentId === actor.agentId)!
   
-  // Special case: Big blind "option" in preflop when no raise occurred
-  // BB gets to check or raise if action came back to them with no raise
-  if (round === 'preflop' && !lastRaiseAction && currentBet === BIG_BLIND) {
-    const bbSeat = (dealerPosition + 2) % numPlayers
-    const bbAgent = handAgents.find(h => h.seat_position === bbSeat)
-    
-    if (bbAgent && !bbAgent.is_folded && !bbAgent.is_all_in) {
-      const bbActed = chronologicalActions.some(a => a.agent_id === bbAgent.agent_id)
-      if (!bbActed) {
-        return bbAgent // BB gets option
-      }
-    }
-  }
+  console.log(`[Hand ${hand.hand_number}] After action - pot: $${newState.pot}, ${agent.name} chips: $${after.chipCount}, bet: $${after.currentBet}`)
 
-  return null // Round is complete
-}
-
-/**
- * Get position description
- */
-function getPosition(seatPosition: number, totalPlayers: number): DecisionContext['position'] {
-  if (seatPosition === 0) return 'button'
-  if (seatPosition === 1) return 'small_blind'
-  if (seatPosition === 2) return 'big_blind'
-  if (seatPosition <= totalPlayers / 3) return 'early'
-  if (seatPosition <= (totalPlayers * 2) / 3) return 'middle'
-  return 'late'
-}
-
-/**
- * Append an action to the game's action_log for verifiable games
- */
-async function appendToActionLog(
-  supabase: ReturnType<typeof createServiceClient>,
-  gameId: string | null,
-  entry: ActionLogEntry
-) {
-  if (!gameId) return // No game to log to
-  
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const db = supabase as any
-  
-  // Get current action_log
-  const { data: game } = await db
-    .from('games')
-    .select('action_log')
-    .eq('id', gameId)
-    .single()
-  
-  const currentLog = (game?.action_log || []) as ActionLogEntry[]
-  
-  // Append new entry
-  await db
-    .from('games')
-    .update({ action_log: [...currentLog, entry] })
-    .eq('id', gameId)
+  return NextResponse.json({
+    success: true,
+    agent: agent.name,
+    action: applied.type,
+    amount: applied.amount,
+    reasoning: decision.internalThoughts,
+    confidence: decision.confidence,
+    fallbackReason: decision.fallbackReason ?? null,
+    newChipCount: after.chipCount,
+    newCurrentBet: after.currentBet,
+    newPot: newState.pot,
+    isFolded: after.isFolded,
+    isAllIn: after.isAllIn,
+  })
 }
 
 /**
- * Apply an action to the game state
+ * Advance to the next betting round
+ * When no more betting is possible (all-in), the response is flagged runningOut
+ * and the client keeps calling until the board is complete
  */
-async function applyAction(
+async function advanceRound(
   supabase: ReturnType<typeof createServiceClient>,
-  hand: Hand,
-  handAgent: HandAgent,
-  action: { type: string; amount?: number },
-  reasoning: string,
-  round: Round,
-  agentSlug?: string // For action logging
+  handId?: string,
+  preloaded?: StoredHand
 ) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const db = supabase as any
-  
-  // Get the current highest bet in the hand (only from non-folded players)
-  const betsResult = await db
-    .from('hand_agents')
-    .select('current_bet, is_folded')
-    .eq('hand_id', hand.id)
-  const allBets = (betsResult.data as { current_bet: number; is_folded: boolean }[] | null) || []
-  const activeBets = allBets.filter(ha => !ha.is_folded).map(ha => ha.current_bet)
-  const currentBetInHand = activeBets.length > 0 ? Math.max(0, ...activeBets) : 0
-  const betToCall = currentBetInHand - handAgent.current_bet
-  
-  let newChipCount = handAgent.chip_count
-  let newCurrentBet = handAgent.current_bet
-  let newTotalContributed = (handAgent as HandAgent & { total_contributed: number }).total_contributed || 0
-  let newPot = hand.pot_amount
-  let isFolded = handAgent.is_folded
-  let isAllIn = handAgent.is_all_in
-  
-  // Normalize action type - convert invalid calls to checks
-  let normalizedAction = action.type
-  if (action.type === 'call' && betToCall <= 0) {
-    normalizedAction = 'check' // Can't call when there's nothing to call
-  }
-  if (action.type === 'check' && betToCall > 0) {
-    normalizedAction = 'call' // Must call if there's a bet (or fold)
-  }
-
-  switch (normalizedAction) {
-    case 'fold':
-      isFolded = true
-      break
-    
-    case 'check':
-      // No change - only valid when betToCall is 0
-      break
-    
-    case 'call': {
-      // Call the exact amount needed to match current bet
-      const callAmount = Math.min(betToCall, newChipCount)
-      newChipCount -= callAmount
-      newCurrentBet += callAmount
-      newTotalContributed += callAmount // Track cumulative contribution
-      newPot += callAmount
-      if (newChipCount === 0) isAllIn = true
-      break
-    }
-    
-    case 'raise': {
-      // Get all other players' maximum callable amounts
-      const otherPlayersForRaise = await db
-        .from('hand_agents')
-        .select('chip_count, current_bet, is_folded, is_all_in, agent_id')
-        .eq('hand_id', hand.id)
-        .neq('agent_id', handAgent.agent_id)
-      
-      const otherPlayersRaise = (otherPlayersForRaise.data || []) as { 
-        chip_count: number; current_bet: number; is_folded: boolean; is_all_in: boolean; agent_id: string 
-      }[]
-      
-      // Find the maximum amount any other active player can match
-      const activeOthersForRaise = otherPlayersRaise.filter(p => !p.is_folded)
-      const maxCallableForRaise = activeOthersForRaise.map(p => 
-        p.is_all_in ? p.current_bet : p.current_bet + p.chip_count
-      )
-      const maxEffectiveRaise = maxCallableForRaise.length > 0 ? Math.max(...maxCallableForRaise) : 0
-      
-      // Validate and apply raise
-      // Minimum raise = current bet + at least the big blind (or previous raise size)
-      const minRaiseTotal = currentBetInHand + BIG_BLIND
-      let raiseTotal = action.amount || minRaiseTotal
-      
-      // Ensure raise is at least the minimum
-      if (raiseTotal < minRaiseTotal) {
-        raiseTotal = minRaiseTotal
-      }
-      
-      // Can't raise more than you have
-      const maxRaise = newChipCount + newCurrentBet
-      if (raiseTotal > maxRaise) {
-        raiseTotal = maxRaise
-        isAllIn = true
-      }
-      
-      // Cap at max effective bet (what others can match)
-      if (raiseTotal > maxEffectiveRaise && maxEffectiveRaise > currentBetInHand) {
-        const excessFromRaise = raiseTotal - maxEffectiveRaise
-        raiseTotal = maxEffectiveRaise
-        console.log(`[Raise Cap] Capped at $${raiseTotal}, $${excessFromRaise} kept`)
-      }
-      
-      const additionalBet = raiseTotal - newCurrentBet
-      newChipCount -= additionalBet
-      newCurrentBet = raiseTotal
-      newTotalContributed += additionalBet // Track cumulative contribution
-      newPot += additionalBet
-      if (newChipCount === 0) isAllIn = true
-      break
-    }
-    
-    case 'all_in': {
-      // Get all other players' maximum callable amounts
-      const otherPlayersResult = await db
-        .from('hand_agents')
-        .select('chip_count, current_bet, is_folded, is_all_in, agent_id')
-        .eq('hand_id', hand.id)
-        .neq('agent_id', handAgent.agent_id)
-      
-      const otherPlayers = (otherPlayersResult.data || []) as { 
-        chip_count: number; current_bet: number; is_folded: boolean; is_all_in: boolean; agent_id: string 
-      }[]
-      
-      // Find the maximum amount any other active player can match
-      // This is either their current bet + remaining chips (if not all-in) or their current bet (if all-in)
-      const activeOtherPlayers = otherPlayers.filter(p => !p.is_folded)
-      const maxCallableAmounts = activeOtherPlayers.map(p => 
-        p.is_all_in ? p.current_bet : p.current_bet + p.chip_count
-      )
-      const maxEffectiveBet = maxCallableAmounts.length > 0 ? Math.max(...maxCallableAmounts) : 0
-      
-      // Your all-in can't exceed what others can match
-      // The effective bet is capped at the max callable amount
-      const myPotentialTotal = newCurrentBet + newChipCount
-      const effectiveTotal = Math.min(myPotentialTotal, Math.max(maxEffectiveBet, currentBetInHand))
-      
-      // Only the effective amount goes into the pot
-      const amountToAdd = effectiveTotal - newCurrentBet
-      const excessReturned = newChipCount - amountToAdd
-      
-      newCurrentBet = effectiveTotal
-      newTotalContributed += amountToAdd // Track cumulative contribution
-      newPot += amountToAdd
-      newChipCount = excessReturned // Keep the excess
-      isAllIn = true
-      
-      if (excessReturned > 0) {
-        console.log(`[All-In Cap] Agent bet capped at $${effectiveTotal}, $${excessReturned} returned`)
-      }
-      break
-    }
-  }
-
-  // Update hand agent
-  await db
-    .from('hand_agents')
-    .update({
-      chip_count: newChipCount,
-      current_bet: newCurrentBet,
-      total_contributed: newTotalContributed, // Track cumulative contribution for side pots
-      is_folded: isFolded,
-      is_all_in: isAllIn,
-    })
-    .eq('id', handAgent.id)
-
-  // Update pot
-  await db
-    .from('hands')
-    .update({ pot_amount: newPot })
-    .eq('id', hand.id)
-
-  // Calculate actual amount for action recording
-  // For calls, record the betToCall amount
-  // For raises/all-in, record the final bet amount
-  let recordedAmount: number | null = null
-  switch (action.type) {
-    case 'call':
-      recordedAmount = Math.min(betToCall, handAgent.chip_count) // The actual call amount
-      break
-    case 'raise':
-    case 'all_in':
-      recordedAmount = newCurrentBet // The final bet total
-      break
-    case 'blind':
-      recordedAmount = action.amount || null
-      break
-    // fold and check have no amount
-  }
-
-  // Record action to agent_actions table
-  await db
-    .from('agent_actions')
-    .insert({
-      hand_id: hand.id,
-      agent_id: handAgent.agent_id,
-      action_type: action.type,
-      amount: recordedAmount,
-      reasoning,
-      round,
-    })
-
-  // Also append to game's action_log for verifiable games
-  if (agentSlug && (hand as Hand & { game_id: string | null }).game_id) {
-    await appendToActionLog(
-      db,
-      (hand as Hand & { game_id: string | null }).game_id,
-      createActionLogEntry(
-        hand.hand_number,
-        agentSlug,
-        action.type,
-        round,
-        recordedAmount || undefined
-      )
-    )
-  }
-
-  return {
-    newChipCount,
-    newCurrentBet,
-    newPot,
-    isFolded,
-    isAllIn,
-  }
-}
-
-/**
- * Advance to the next betting round
- */
-async function advanceRound(supabase: ReturnType<typeof createServiceClient>, handId?: string) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const db = supabase as any
-  
   if (!handId) {
     return NextResponse.json({ error: 'Hand ID required' }, { status: 400 })
   }
 
-  const handResult = await db
-    .from('hands')
-    .select('*')
-    .eq('id', handId)
-    .single()
-
-  const hand = handResult.data as Hand | null
-  if (!hand) {
+  const stored = preloaded ?? await loadHand(supabase, handId)
+  if (!stored) {
     return NextResponse.json({ error: 'Hand not found' }, { status: 404 })
   }
 
-  // Community cards are pre-dealt, we just need to reveal them based on round
-  const communityCards = (hand.community_cards || []) as string[]
-  
-  // Get current round from database
-  const currentRound = (hand.current_round as Round) || 'preflop'
-  
-  // Determine next round
-  let newRound: Round
-  let visibleCardCount: number
-  
-  if (currentRound === 'preflop') {
-    newRound = 'flop'
-    visibleCardCount = 3
-  } else if (currentRound === 'flop') {
-    newRound = 'turn'
-    visibleCardCount = 4
-  } else if (currentRound === 'turn') {
-    newRound = 'river'
-    visibleCardCount = 5
-  } else {
-    // Showdown
-    const showdownAgentsResult = await db
-      .from('hand_agents')
-      .select('*, agents(*)')
-      .eq('hand_id', handId)
-    
-    const showdownAgents = showdownAgentsResult.data as (HandAgent & { agents: Agent })[] | null
-    return await resolveHand(supabase, hand, showdownAgents || [])
+  const { state } = stored
+  const step = getNextStep(state)
+  if (step === 'showdown' || step === 'complete') {
+    return await resolveHand(supabase, stored)
+  }
+  if (step !== 'deal') {
+    return NextResponse.json({ error: 'Betting round is still open' }, { status: 400 })
   }
 
-  // Reset current bets for new round
-  await db
-    .from('hand_agents')
-    .update({ current_bet: 0 })
-    .eq('hand_id', handId)
-    .eq('is_folded', false)
+  const runningOut = isAllInRunout(state)
+  const { newState, events } = reduceHand(state, { type: 'DEAL_NEXT_STREET' })
+  await saveHandState(supabase, handId, state, newState, { status: 'playing' })
 
-  // Update hand status and current round
-  await db
-    .from('hands')
-    .update({ 
-      status: 'playing',
-      current_round: newRound 
+  const dealt = events.find(e => e.type === 'CARDS_DEALT')
+  const newCards = dealt?.type === 'CARDS_DEALT' ? dealt.cards || [] : []
+  const communityCards = newState.communityCards
+  
+  if (runningOut) {
+    console.log(`[All-In] Running out board: ${state.round} → ${newState.round}. Cards: ${communityCards.join(', ')}`)
+    
+    // Return response indicating we need to continue running out the board
+    // The client will call again to get the next round
+    return NextResponse.json({
+      success: true,
+      runningOut: true,
+      round: newState.round,
+      newCards,
+      communityCards,
+      message: `All-in showdown: Dealing ${newState.round}...`
     })
-    .eq('id', handId)
-
-  const newCards = communityCards.slice(
-    currentRound === 'preflop' ? 0 : currentRound === 'flop' ? 3 : 4,
-    visibleCardCount
-  )
+  }
   
-  console.log(`[Hand] Advanced from ${currentRound} to ${newRound}. Community: ${communityCards.slice(0, visibleCardCount).join(', ')}`)
+  console.log(`[Hand] Advanced from ${state.round} to ${newState.round}. Community: ${communityCards.join(', ')}`)
 
   return NextResponse.json({
     success: true,
-    round: newRound,
+    round: newState.round,
     newCards,
-    communityCards: communityCards.slice(0, visibleCardCount),
-    message: `Advanced to ${newRound}. Revealed: ${newCards.join(', ')}`
+    communityCards,
+    message: `Advanced to ${newState.round}. Revealed: ${newCards.join(', ')}`
   })
 }
 
 /**
- * Run out the board when all players are all-in
- * This advances through flop, turn, river before resolving
+ * Resolve the hand: the engine awards every pot (side pots, splits),
+ * then we persist the result and check whether the game is over
  */
-async function runOutBoard(
+async function resolveHand(
   supabase: ReturnType<typeof createServiceClient>,
-  handId: string,
-  handAgents: (HandAgent & { agents: Agent })[]
+  stored: StoredHand
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const db = supabase as any
   
-  // Get hand
-  const handResult = await db
-    .from('hands')
-    .select('*')
-    .eq('id', handId)
-    .single()
-  
-  const hand = handResult.data as Hand | null
-  if (!hand) {
-    return NextResponse.json({ error: 'Hand not found' }, { status: 404 })
-  }
-  
-  const currentRound = (hand.current_round as Round) || 'preflop'
-  const communityCards = (hand.community_cards || []) as string[]
-  
-  // Determine next round
-  let newRound: Round
-  let visibleCardCount: number
-  
-  if (currentRound === 'preflop') {
-    newRound = 'flop'
-    visibleCardCount = 3
-  } else if (currentRound === 'flop') {
-    newRound = 'turn'
-    visibleCardCount = 4
-  } else if (currentRound === 'turn') {
-    newRound = 'river'
-    visibleCardCount = 5
+  const { hand, state } = stored
+  const { newState } = state.isComplete
+    ? { newState: state }
+    : reduceHand(state, { type: 'SHOWDOWN' })
+  
+  const mainWinnerId = newState.winnerId!
+  const winningHand = newState.winningHand || 'Best hand'
+  const winnings = newState.winnings || {}
+  const contenders = newState.players.filter(p => !p.isFolded)
+
+  // Log ALL hands at showdown for debugging
+  if (contenders.length > 1) {
+    console.log(`[Showdown] Community: ${newState.communityCards.join(', ')}`)
+    console.log(`[Showdown] All hands:`)
+    for (const p of contenders) {
+      const evalHand = evaluateHand(p.holeCards, newState.communityCards, newState.variant)
+      console.log(`  ${p.name}: [${p.holeCards.join(', ')}] → ${evalHand.description} (cards: ${evalHand.cards.join(', ')})`)
+    }
   } else {
-    // Already at river - resolve
-    return await resolveHand(supabase, hand, handAgents)
+    console.log(`[Resolve] Single player remaining - ${contenders[0]?.name} wins by default`)
   }
-  
-  // Update hand to new round
-  await db
-    .from('hands')
-    .update({ 
-      current_round: newRound,
-      status: 'playing'
-    })
-    .eq('id', handId)
-  
-  const newCards = communityCards.slice(
-    currentRound === 'preflop' ? 0 : currentRound === 'flop' ? 3 : 4,
-    visibleCardCount
-  )
-  
-  console.log(`[All-In] Running out board: ${currentRound} → ${newRound}. Cards: ${communityCards.slice(0, visibleCardCount).join(', ')}`)
-  
-  // Return response indicating we need to continue running out the board
-  // The client will call again to get the next round
-  return NextResponse.json({
-    success: true,
-    runningOut: true,
-    round: newRound,
-    newCards,
-    communityCards: communityCards.slice(0, visibleCardCount),
-    message: `All-in showdown: Dealing ${newRound}...`
-  })
-}
 
-/**
- * Calculate side pots based on all-in amounts
- * Returns array of { amount, eligiblePlayerIds }
- * 
- * Uses total_contributed (cumulative across all rounds) instead of current_bet
- * (which resets each round) for accurate side pot calculation.
- */
-function calculateSidePots(handAgents: (HandAgent & { agents: Agent })[]): { amount: number; eligiblePlayerIds: string[] }[] {
-  const activePlayers = handAgents.filter(ha => !ha.is_folded)
-  
-  // Use total_contributed for accurate pot calculation (not current_bet which resets)
-  type HandAgentWithContrib = HandAgent & { agents: Agent; total_contributed: number }
-  const getContribution = (ha: HandAgent) => (ha as HandAgentWithContrib).total_contributed || 0
-  
-  // Get all unique contribution amounts (sorted ascending)
-  const allContributions = activePlayers.map(getContribution).sort((a, b) => a - b)
-  const uniqueContributions = [...new Set(allContributions)]
-  
-  const pots: { amount: number; eligiblePlayerIds: string[] }[] = []
-  let previousLevel = 0
-  
-  for (const contribLevel of uniqueContributions) {
-    const contribIncrement = contribLevel - previousLevel
-    
-    // Players who contributed at least this much are eligible
-    const eligiblePlayers = activePlayers.filter(ha => getContribution(ha) >= contribLevel)
-    
-    // Each eligible player contributes the increment
-    const potAmount = contribIncrement * eligiblePlayers.length
-    
-    if (potAmount > 0) {
-      pots.push({
-        amount: potAmount,
-        eligiblePlayerIds: eligiblePlayers.map(p => p.agent_id)
-      })
-    }
-    
-    previousLevel = contribLevel
+  // Per-pot breakdown (main pot first, then side pots)
+  const nameOf = (agentId: string) => newState.players.find(p => p.agentId === agentId)?.name || 'Unknown'
+  for (const award of newState.potAwards || []) {
+    const winners = award.winners.map(w => `${nameOf(w.playerId)} $${w.amount}`).join(', ')
+    console.log(`[Pot] $${award.amount} (${award.eligiblePlayerIds.length} eligible) → ${winners}${award.winningHand ? ` (${award.winningHand})` : ''}`)
   }
-  
-  return pots
-}
-
-/**
- * Resolve the hand and determine winner
- * Handles both simple cases (no side pots) and complex cases (side pots from all-ins)
- * 
- * FIX: Previously, when current_bet was reset to 0 after each round, calculateSidePots
- * would return empty and winner defaulted to first player. Now we:
- * 1. Use total_contributed for side pot calculation
- * 2. Add simple case fallback that directly compares hands
- */
-async function resolveHand(
-  supabase: ReturnType<typeof createServiceClient>,
-  hand: Hand,
-  handAgents: (HandAgent & { agents: Agent })[]
-) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const db = supabase as any
-  
-  const activePlayers = handAgents.filter(ha => !ha.is_folded)
-  const communityCards = (hand.community_cards || []) as CardNotation[]
-  
-  // Track winnings per player
-  const winnings = new Map<string, number>()
-  handAgents.forEach(ha => winnings.set(ha.agent_id, 0))
-  
-  let mainWinnerId: string
-  let winningHand = 'Last player standing'
 
-  if (activePlayers.length === 1) {
-    // Only one player left - they win by default (everyone else folded)
-    mainWinnerId = activePlayers[0].agent_id
-    winnings.set(mainWinnerId, hand.pot_amount)
-    console.log(`[Resolve] Single player remaining - ${(activePlayers[0].agents as Agent)?.name} wins by default`)
-  } else {
-    // Multiple players at showdown - need to compare hands
-    
-    // Check if we need side pots (different all-in contribution amounts)
-    type HandAgentWithContrib = HandAgent & { agents: Agent; total_contributed: number }
-    const getContribution = (ha: HandAgent) => (ha as HandAgentWithContrib).total_contributed || 0
-    const uniqueContributions = new Set(activePlayers.map(getContribution))
-    const hasAllIn = activePlayers.some(p => p.is_all_in)
-    const needsSidePots = hasAllIn && uniqueContributions.size > 1
-    
-    // Build player hands for evaluation
-    const playerHands = activePlayers.map(ha => ({
-      playerId: ha.agent_id,
-      holeCards: (ha.hole_cards || []) as CardNotation[]
-    }))
-    
-    if (needsSidePots) {
-      // COMPLEX CASE: Side pots needed due to different all-in amounts
-      console.log(`[Resolve] Side pots needed - ${uniqueContributions.size} different contribution levels`)
-      
-      const pots = calculateSidePots(handAgents)
-      
-      // Evaluate each player's hand
-      const evaluatedHands = playerHands.map(p => ({
-        playerId: p.playerId,
-        hand: evaluateHand(p.holeCards, communityCards)
-      }))
-      
-      // Log ALL hands at showdown for debugging
-      console.log(`[Showdown] Community: ${communityCards.join(', ')}`)
-      console.log(`[Showdown] All hands:`)
-      for (const e of evaluatedHands) {
-        const agent = handAgents.find(ha => ha.agent_id === e.playerId)
-        const name = (agent?.agents as Agent)?.name || 'Unknown'
-        const holeCards = playerHands.find(p => p.playerId === e.playerId)?.holeCards || []
-        console.log(`  ${name}: [${holeCards.join(', ')}] → ${e.hand.description} (cards: ${e.hand.cards.join(', ')})`)
-      }
-      
-      // Award each pot to the best eligible hand
-      for (const pot of pots) {
-        const eligibleHands = evaluatedHands.filter(p => 
-          pot.eligiblePlayerIds.includes(p.playerId)
-        )
-        
-        if (eligibleHands.length === 0) continue
-        
-        const eligiblePlayerHands = eligibleHands.map(e => ({
-          playerId: e.playerId,
-          holeCards: activePlayers.find(a => a.agent_id === e.playerId)?.hole_cards as CardNotation[] || []
-        }))
-        
-        const potWinners = determineWinners(eligiblePlayerHands, communityCards)
-        
-        if (potWinners.length === 0) continue
-        
-        const shareAmount = Math.floor(pot.amount / potWinners.length)
-        const remainder = pot.amount % potWinners.length
-        
-        potWinners.forEach((winner, index) => {
-          const currentWinnings = winnings.get(winner.playerId) || 0
-          const extra = index === 0 ? remainder : 0
-          winnings.set(winner.playerId, currentWinnings + shareAmount + extra)
-        })
-        
-        console.log(`[Pot] $${pot.amount} → ${potWinners.map(w => {
-          const agent = handAgents.find(ha => ha.agent_id === w.playerId)
-          return (agent?.agents as Agent)?.name || 'Unknown'
-        }).join(', ')} (${potWinners[0].hand.description})`)
-      }
-      
-      // Main winner is whoever won the most
-      let maxWinnings = 0
-      mainWinnerId = activePlayers[0].agent_id
-      winnings.forEach((amount, playerId) => {
-        if (amount > maxWinnings) {
-          maxWinnings = amount
-          mainWinnerId = playerId
-        }
-      })
-      
-      const mainWinnerEval = evaluatedHands.find(p => p.playerId === mainWinnerId)
-      winningHand = mainWinnerEval?.hand.description || 'Best hand'
-      
-    } else {
-      // SIMPLE CASE: No side pots - just compare hands and award entire pot to winner(s)
-      console.log(`[Resolve] Simple showdown - comparing ${activePlayers.length} hands directly`)
-      
-      // Log ALL hands at showdown for debugging
-      console.log(`[Showdown] Community: ${communityCards.join(', ')}`)
-      console.log(`[Showdown] All hands:`)
-      for (const ph of playerHands) {
-        const agent = handAgents.find(ha => ha.agent_id === ph.playerId)
-        const name = (agent?.agents as Agent)?.name || 'Unknown'
-        const evalHand = evaluateHand(ph.holeCards, communityCards)
-        console.log(`  ${name}: [${ph.holeCards.join(', ')}] → ${evalHand.description} (cards: ${evalHand.cards.join(', ')})`)
-      }
-      
-      const winners = determineWinners(playerHands, communityCards)
-      
-      if (winners.length === 0) {
-        // Fallback - should never happen
-        console.error('[Resolve] No winners determined - defaulting to first player')
-        mainWinnerId = activePlayers[0].agent_id
-        winnings.set(mainWinnerId, hand.pot_amount)
-        winningHand = 'Error - no winner determined'
-      } else {
-        // Award pot to winner(s)
-        const shareAmount = Math.floor(hand.pot_amount / winners.length)
-        const remainder = hand.pot_amount % winners.length
-        
-        winners.forEach((winner, index) => {
-          const extra = index === 0 ? remainder : 0
-          winnings.set(winner.playerId, shareAmount + extra)
-        })
-        
-        mainWinnerId = winners[0].playerId
-        winningHand = winners[0].hand.description
-        
-        const winnerNames = winners.map(w => {
-          const agent = handAgents.find(ha => ha.agent_id === w.playerId)
-          return (agent?.agents as Agent)?.name || 'Unknown'
-        }).join(', ')
-        
-        console.log(`[Resolve] Winner: ${winnerNames} with ${winningHand} - wins $${hand.pot_amount}`)
-      }
-    }
-  }
+  const winner = newState.players.find(p => p.agentId === mainWinnerId)
 
-  const winner = handAgents.find(ha => ha.agent_id === mainWinnerId)
+  // Update hand as resolved (hand_agents chip counts are post-pot-distribution -
+  // the GameFinished UI reads from hand_agents)
+  await saveHandState(supabase, hand.id, state, newState, {
+    status: 'resolved',
+    winner_agent_id: mainWinnerId,
+    winning_hand: winningHand,
+    pot_awards: (newState.potAwards || []) as unknown as Json,
+    resolved_at: new Date().toISOString(),
+  })
 
-  // Update hand as resolved
-  await db
-    .from('hands')
-    .update({
-      status: 'resolved',
-      winner_agent_id: mainWinnerId,
-      winning_hand: winningHand,
-      resolved_at: new Date().toISOString(),
-      active_agent_id: null,
-    })
-    .eq('id', hand.id)
+  // Fold this hand into each player's lifetime opponent stats and game memory
+  const handCounters = await recordHandStats(supabase, hand.id, getShowdownWinnerIds(newState.potAwards || []))
+  await recordHandMemories(supabase, hand.game_id, hand.hand_number, newState, handCounters)
 
-  // PERSIST CHIP COUNTS TO AGENTS TABLE AND HAND_AGENTS TABLE
+  // PERSIST CHIP COUNTS TO AGENTS TABLE
   // Each player gets their remaining chips plus any winnings
-  for (const ha of handAgents) {
-    const playerWinnings = winnings.get(ha.agent_id) || 0
-    const finalChips = ha.chip_count + playerWinnings
+  for (const p of newState.players) {
+    const playerWinnings = winnings[p.agentId] || 0
     
     // Update the agent's persistent chip count
     await db
       .from('agents')
-      .update({ chip_count: finalChips })
-      .eq('id', ha.agent_id)
-    
-    // Also update hand_agents with final chip count (post-pot-distribution)
-    // This is critical for the GameFinished UI which reads from hand_agents
-    await db
-      .from('hand_agents')
-      .update({ chip_count: finalChips })
-      .eq('hand_id', hand.id)
-      .eq('agent_id', ha.agent_id)
+      .update({ chip_count: p.chipCount })
+      .eq('id', p.agentId)
     
-    const name = (ha.agents as Agent)?.name || 'Unknown'
     if (playerWinnings > 0) {
-      console.log(`[Chips] ${name}: ${ha.chip_count} → ${finalChips} (+$${playerWinnings})`)
+      console.log(`[Chips] ${p.name}: ${p.chipCount - playerWinnings} → ${p.chipCount} (+$${playerWinnings})`)
     } else {
-      console.log(`[Chips] ${name}: ${ha.chip_count} → ${finalChips}`)
+      console.log(`[Chips] ${p.name}: ${p.chipCount}`)
     }
   }
 
   // Calculate total distributed
-  let totalDistributed = 0
-  winnings.forEach(amount => totalDistributed += amount)
+  const totalDistributed = Object.values(winnings).reduce((sum, amount) => sum + amount, 0)
 
   // NOTE: x402 agent payments removed - agents now use virtual chips only
   // Real money transactions happen via external betting API (Phase 3)
@@ -1523,11 +875,11 @@ async function resolveHand(
     success: true,
     resolved: true,
     winnerId: mainWinnerId,
-    winnerName: (winner?.agents as Agent)?.name || 'Unknown',
+    winnerName: winner?.name || 'Unknown',
     winningHand,
-    pot: hand.pot_amount,
+    pot: newState.pot,
     distributed: totalDistributed,
-    message: `Hand resolved! ${(winner?.agents as Agent)?.name} wins with ${winningHand}`,
+    message: `Hand resolved! ${winner?.name} wins with ${winningHand}`,
     // Game completion info
     gameCompleted,
     gameWinnerId,
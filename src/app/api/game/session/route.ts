@@ -43,10 +43,22 @@
  * Updated: Feb 16, 2026 - Added auto-claim of server wallet seed winnings after game resolution
  *                        - Added claim_server_winnings, cancel_on_chain, refund_server admin actions
  *                        - Server wallet automatically reclaims seed USDC after each resolved game
+ * Updated: Oct 19, 2026 - New games store an escalating blind_structure (lib/poker/blinds)
+ * Updated: Oct 19, 2026 - create_game accepts a bettingStructure (stored as games.betting_structure)
+ * Updated: Oct 19, 2026 - Games play their lobby's variant (Hold'em / Omaha); added set_lobby_variant
+ * Updated: Oct 19, 2026 - New games record the shuffle_version their decks are dealt with
+ * Updated: Oct 19, 2026 - The on-chain creation block hash is stored as the game's public_entropy
+ * Updated: Oct 19, 2026 - New games start at action_log_version 0 (optimistic lock for appends)
+ * Updated: Oct 19, 2026 - The game row (and its commitment) is stored before the on-chain game is
+ *                        created; commitment_block, public_entropy and public_entropy_block follow
+ * Updated: Oct 19, 2026 - create_game accepts a blindStructure (levels and/or anteType, validated
+ *                        by parseBlindStructure); defaults to the escalating big-blind-ante one
+ * Updated: Oct 19, 2026 - A game whose on-chain game and public entropy couldn't be stored is
+ *                        cancelled (on-chain too) instead of dealing without the entropy
  * 
  * Endpoints:
  * - POST /api/game/session
- *   - action: 'create_game' | 'start_game' | 'next_hand' | 'check_game_end' | 'resolve_game' | 'reset_game' | 'claim_server_winnings' | 'cancel_on_chain' | 'refund_server'
+ *   - action: 'create_game' | 'start_game' | 'next_hand' | 'check_game_end' | 'resolve_game' | 'reset_game' | 'claim_server_winnings' | 'cancel_on_chain' | 'refund_server' | 'set_lobby_variant'
  * 
  * Game Flow:
  * 1. create_game → Sets up game with countdown + creates & seeds on-chain game
@@ -55,6 +67,7 @@
  * 4. check_game_end → Checks if game should end (MAX_HANDS or 1 player left)
  * 5. resolve_game → Determines winner and resolves on-chain game
  * 6. reset_game → (Dev) Cancels current game + on-chain game, resets chips
+ * 7. set_lobby_variant → Variant for the lobby's next games (the current game keeps its own)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -62,6 +75,7 @@ import { createServiceClient } from '@/lib/supabase/server'
 import type { Game, Agent } from '@/types/database'
 import { 
   createAndSeedGame, 
+  getLatestBlockNumber,
   closeOnChainBetting, 
   resolveOnChainGame, 
   cancelOnChainGame,
@@ -73,7 +87,11 @@ import {
   OnChainGameStatus,
 } from '@/lib/contracts/admin'
 import { getCurrentConfig } from '@/lib/contracts/config'
-import { generateGameCommitment, type GameCommitment } from '@/lib/poker/verifiable'
+import { CURRENT_SHUFFLE_VERSION, generateGameCommitment, type GameCommitment } from '@/lib/poker/verifiable'
+import { parseBlindStructure } from '@/lib/poker/blinds'
+import { parseBettingStructure } from '@/lib/poker/betting'
+import { DEFAULT_BETTING_STRUCTURE, GAME_VARIANTS, isGameVariant, parseGameVariant } from '@/lib/poker/variants'
+import type { BettingStructure, BlindStructure, GameVariant } from '@/types/poker'
 
 // Constants
 const STARTING_CHIPS = 1000
@@ -83,12 +101,15 @@ const MAX_HANDS = 5 // Reduced from 25 for faster contract integration testing
 const BETTING_CLOSES_AFTER_HAND = 2 // Reduced from 5 for faster contract integration testing
 
 interface SessionRequest {
-  action: 'create_game' | 'start_game' | 'next_hand' | 'check_game_end' | 'resolve_game' | 'auto_play_game' | 'reset_game' | 'claim_server_winnings' | 'cancel_on_chain' | 'refund_server'
+  action: 'create_game' | 'start_game' | 'next_hand' | 'check_game_end' | 'resolve_game' | 'auto_play_game' | 'reset_game' | 'claim_server_winnings' | 'cancel_on_chain' | 'refund_server' | 'set_lobby_variant'
   lobbyId?: string
   gameId?: string
   onChainGameId?: number // For claim_server_winnings action
   createNewGame?: boolean // For reset_game action - whether to auto-create a new game
   force?: boolean // For start_game action - bypass countdown check (testing only)
+  bettingStructure?: BettingStructure // For create_game action - defaults to the variant's (no-limit Hold'em, pot-limit Omaha)
+  blindStructure?: Partial<BlindStructure> // For create_game action - levels and/or anteType, defaults to escalating blinds with big-blind antes
+  variant?: GameVariant // For set_lobby_variant action
 }
 
 export async function POST(request: NextRequest) {
@@ -98,7 +119,12 @@ export async function POST(request: NextRequest) {
 
     switch (body.action) {
       case 'create_game':
-        return await createGame(supabase, body.lobbyId)
+        return await createGame(
+          supabase,
+          body.lobbyId,
+          body.bettingStructure ? parseBettingStructure(body.bettingStructure) : undefined,
+          parseBlindStructure(body.blindStructure, MAX_HANDS)
+        )
       
       case 'start_game':
         return await startGame(supabase, body.gameId, body.force)
@@ -118,6 +144,9 @@ export async function POST(request: NextRequest) {
       case 'reset_game':
         return await resetGame(supabase, body.lobbyId, body.createNewGame)
       
+      case 'set_lobby_variant':
+        return await setLobbyVariant(supabase, body.lobbyId, body.variant)
+      
       case 'claim_server_winnings': {
         if (body.onChainGameId === undefined) {
           return NextResponse.json({ error: 'onChainGameId required' }, { status: 400 })
@@ -166,27 +195,65 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Set the variant a lobby's next games are created with
+ */
+async function setLobbyVariant(
+  supabase: ReturnType<typeof createServiceClient>,
+  lobbyId?: string,
+  variant?: GameVariant
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  if (!lobbyId) {
+    return NextResponse.json({ error: 'lobbyId required' }, { status: 400 })
+  }
+  if (!isGameVariant(variant)) {
+    return NextResponse.json({ error: `variant must be one of ${GAME_VARIANTS.join(', ')}` }, { status: 400 })
+  }
+
+  const { data: lobby, error } = await db
+    .from('lobbies')
+    .update({ variant })
+    .eq('id', lobbyId)
+    .select('id, variant')
+    .single()
+
+  if (error || !lobby) {
+    return NextResponse.json({ error: 'Lobby not found' }, { status: 404 })
+  }
+
+  console.log(`[Lobby ${lobbyId}] Variant set to ${variant}`)
+  return NextResponse.json({ success: true, lobbyId, variant })
+}
+
 /**
  * Create a new game with countdown
+ * The game plays its lobby's variant; variant and betting structure are fixed
+ * for the whole game
  */
-async function createGame(supabase: ReturnType<typeof createServiceClient>, lobbyId?: string) {
+async function createGame(
+  supabase: ReturnType<typeof createServiceClient>,
+  lobbyId?: string,
+  requestedBettingStructure?: BettingStructure,
+  blindStructure: BlindStructure = parseBlindStructure(undefined, MAX_HANDS)
+) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const db = supabase as any
 
   // Get or find lobby
-  let currentLobbyId = lobbyId
-  if (!currentLobbyId) {
-    const { data: lobbies } = await db
-      .from('lobbies')
-      .select('id')
-      .eq('status', 'active')
-      .limit(1)
-    
-    if (!lobbies || lobbies.length === 0) {
-      return NextResponse.json({ error: 'No active lobby found' }, { status: 404 })
-    }
-    currentLobbyId = lobbies[0].id
+  const lobbyQuery = db.from('lobbies').select('id, variant')
+  const { data: lobbies } = lobbyId
+    ? await lobbyQuery.eq('id', lobbyId).limit(1)
+    : await lobbyQuery.eq('status', 'active').limit(1)
+
+  if (!lobbies || lobbies.length === 0) {
+    return NextResponse.json({ error: lobbyId ? 'Lobby not found' : 'No active lobby found' }, { status: 404 })
   }
+  const currentLobbyId: string = lobbies[0].id
+  const variant = parseGameVariant(lobbies[0].variant)
+  const bettingStructure = requestedBettingStructure ?? DEFAULT_BETTING_STRUCTURE[variant]
 
   const chainId = getCurrentConfig().chainId
 
@@ -234,27 +301,8 @@ async function createGame(supabase: ReturnType<typeof createServiceClient>, lobb
   const gameCommitment = generateGameCommitment()
   console.log(`[Game #${gameNumber}] Commitment: ${gameCommitment.commitment}`)
 
-  // Create on-chain game first (if contract owner key is configured)
-  let onChainGameId: bigint | null = null
-  let onChainTxHash: string | null = null
-  
-  if (isServerWalletConfigured()) {
-    try {
-      // Create on-chain game AND seed all agents with 25¢ each ($1 total)
-      // This ensures all agents start at 25% chance instead of 0%
-      const onChainResult = await createAndSeedGame()
-      onChainGameId = onChainResult.gameId
-      onChainTxHash = onChainResult.txHashes?.[0] || null
-      console.log(`[Game #${gameNumber}] On-chain game created and seeded: ${onChainGameId} (${onChainResult.totalSeeded})`)
-    } catch (err) {
-      console.error('[Game] Failed to create/seed on-chain game:', err)
-      // Continue without on-chain game for now (can be linked later)
-    }
-  } else {
-    console.warn('[Game] THIRDWEB_SECRET_KEY not configured - skipping on-chain game creation')
-  }
-
-  // Create the game in Supabase
+  // Create the game in Supabase before anything on-chain, so the commitment is
+  // stored before the block that supplies the public entropy exists
   // Store commitment hash publicly, salt privately (revealed after game)
   // Note: deck_reveal is null because decks are computed deterministically from salt + hand_number
   const { data: game, error } = await db
@@ -268,11 +316,17 @@ async function createGame(supabase: ReturnType<typeof createServiceClient>, lobb
       max_hands: MAX_HANDS,
       betting_closes_after_hand: BETTING_CLOSES_AFTER_HAND,
       scheduled_start_at: scheduledStartAt,
-      on_chain_game_id: onChainGameId !== null ? Number(onChainGameId) : null,
+      on_chain_game_id: null, // Set below once the on-chain game exists
       // Verifiable game data - commitment is hash(salt), deck computed from salt+hand
       deck_commitment: gameCommitment.commitment,
       salt_reveal: gameCommitment.salt, // Kept private until game ends
+      shuffle_version: CURRENT_SHUFFLE_VERSION,
       action_log: [],
+      action_log_version: 0,
+      // Blinds escalate over the game so short games still force eliminations
+      blind_structure: blindStructure,
+      betting_structure: bettingStructure,
+      variant,
     })
     .select()
     .single()
@@ -282,6 +336,45 @@ async function createGame(supabase: ReturnType<typeof createServiceClient>, lobb
     return NextResponse.json({ error: 'Failed to create game' }, { status: 500 })
   }
 
+  // Then create the on-chain game (if contract owner key is configured)
+  let onChainGameId: bigint | null = null
+  let onChainTxHash: string | null = null
+  
+  if (isServerWalletConfigured()) {
+    try {
+      // The chain head now: the entropy block comes after it, so its hash
+      // wasn't known when the salt was committed to
+      const commitmentBlock = await getLatestBlockNumber()
+
+      // Create on-chain game AND seed all agents with 25¢ each ($1 total)
+      // This ensures all agents start at 25% chance instead of 0%
+      const onChainResult = await createAndSeedGame()
+      onChainGameId = onChainResult.gameId
+      onChainTxHash = onChainResult.txHashes?.[0] || null
+      console.log(`[Game #${gameNumber}] On-chain game created and seeded: ${onChainGameId} (${onChainResult.totalSeeded})`)
+
+      const { error: entropyError } = await db
+        .from('games')
+        .update({
+          on_chain_game_id: Number(onChainGameId),
+          commitment_block: commitmentBlock,
+          // Mixed into every hand seed (null without an on-chain game)
+          public_entropy: onChainResult.blockHash,
+          public_entropy_block: onChainResult.blockNumber,
+        })
+        .eq('id', game.id)
+      if (entropyError) {
+        console.error(`[Game #${gameNumber}] Failed to store the on-chain game and public entropy:`, entropyError)
+        return await cancelCreatedGame(supabase, game.id, gameNumber, onChainGameId)
+      }
+    } catch (err) {
+      console.error('[Game] Failed to create/seed on-chain game:', err)
+      // Continue without on-chain game for now (can be linked later)
+    }
+  } else {
+    console.warn('[Game] THIRDWEB_SECRET_KEY not configured - skipping on-chain game creation')
+  }
+
   console.log(`[Game #${gameNumber}] Created. Starts at ${scheduledStartAt} (${COUNTDOWN_MINUTES} min countdown)`)
 
   return NextResponse.json({
@@ -295,10 +388,46 @@ async function createGame(supabase: ReturnType<typeof createServiceClient>, lobb
     onChainTxHash,
     // Verifiable game commitment (deck is shuffled, this hash proves we can't change it)
     deckCommitment: gameCommitment.commitment,
+    blindStructure,
+    bettingStructure,
+    variant,
     message: `Game #${gameNumber} created. Starting in ${COUNTDOWN_MINUTES} minutes.`
   })
 }
 
+/**
+ * Cancel a game that couldn't be fully created, on-chain too
+ * Its deck would otherwise be dealt without the public entropy it committed to.
+ */
+async function cancelCreatedGame(
+  supabase: ReturnType<typeof createServiceClient>,
+  gameId: string,
+  gameNumber: number,
+  onChainGameId: bigint
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  try {
+    await cancelOnChainGame(onChainGameId)
+  } catch (err) {
+    console.error(`[Game #${gameNumber}] Failed to cancel on-chain game ${onChainGameId}:`, err)
+  }
+
+  const { error } = await db
+    .from('games')
+    .update({ status: 'cancelled', resolved_at: new Date().toISOString() })
+    .eq('id', gameId)
+  if (error) {
+    console.error(`[Game #${gameNumber}] Failed to cancel the game:`, error)
+  }
+
+  return NextResponse.json(
+    { error: 'Failed to store the public entropy - game cancelled', gameId, gameNumber },
+    { status: 500 }
+  )
+}
+
 /**
  * Start a game (after countdown ends)
  * @param force - If true, bypass countdown check (for testing)
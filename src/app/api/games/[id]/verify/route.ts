@@ -5,9 +5,24 @@
  * 
  * Verifies the fairness of a completed game by checking:
  * 1. The salt matches the pre-published commitment
- * 2. The dealt cards match the deterministic deck from the salt
+ * 2. The dealt cards match the deterministic deck from the salt (and public entropy),
+ *    the entropy block was mined after the commitment was stored, and the entropy
+ *    is that block's hash on-chain
+ * 3. Replaying each hand's actions reaches the recorded showdown, pots, stacks and winner
+ * 4. Hands run 1..n and every stack carries over from the previous hand, and
+ *    the declared game winner has the most chips after the last hand
+ * 5. The action log hash chain is intact and ends each hand on its published digest
  * 
  * Created: January 20, 2026
+ * Updated: Oct 19, 2026 - Cards are checked with the game's shuffle_version, returned as shuffleVersion
+ * Updated: Oct 19, 2026 - Hand seeds are recomputed with the game's public_entropy, returned as publicEntropy
+ * Updated: Oct 19, 2026 - Checks the action log hash chain against each hand's published digest
+ * Updated: Oct 19, 2026 - Replays every hand against the engine rules (showdowns, side pots,
+ *                         final stacks, hand winner) and checks the game winner is the chip leader
+ * Updated: Oct 19, 2026 - Checks the entropy block came after the commitment (entropyTiming)
+ * Updated: Oct 19, 2026 - Checks hand numbers and stacks carry over between hands (continuity);
+ *                         replays fail on recorded actions the engine had to change
+ * Updated: Oct 19, 2026 - Checks the public entropy against the entropy block's hash on-chain (entropyBlock)
  * 
  * Note: This endpoint only returns verification data for RESOLVED games.
  * For active games, the salt is kept secret to prevent cheating.
@@ -18,10 +33,32 @@ import { createClient } from '@supabase/supabase-js';
 import { 
   verifyGameCommitment, 
   getDeckForHand,
-  verifyHandCards 
+  verifyHandCards,
+  parseShuffleVersion,
+  verifyActionLog,
+  verifyEntropyBlockHash,
+  verifyEntropyTiming,
+  type ActionLogEntry,
+  type ActionLogVerification,
+  type EntropyBlockResult,
+  type EntropyTimingResult,
+  type ShuffleVersion
 } from '@/lib/poker/verifiable';
+import {
+  verifyChipContinuity,
+  verifyGameWinner,
+  verifyHandPlay,
+  type ContinuityCheck,
+  type HandCheck,
+  type WinnerCheck
+} from '@/lib/verifier';
+import { loadHandHistories } from '@/lib/supabase/hand-history-store';
+import { getBlockHash } from '@/lib/contracts/admin';
 import type { CardNotation } from '@/types/poker';
 
+// Every agent's stack when a game starts (game/session resets chip_count to it)
+const STARTING_CHIPS = 1000;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -33,6 +70,10 @@ interface HandVerificationResult {
   holeCards?: CardNotation[][];
   communityCards?: CardNotation[];
   expectedDeck?: CardNotation[];
+  /** Whether the hand's actions were replayed (hands recorded without an engine state can't be) */
+  replayed?: boolean;
+  /** Everything the replay disagrees with: showdown, pots, stacks, hand winner */
+  discrepancies?: string[];
 }
 
 interface GameVerificationResponse {
@@ -45,9 +86,16 @@ interface GameVerificationResponse {
     commitment: string;
     computedHash: string;
     salt?: string;
+    shuffleVersion?: ShuffleVersion;
+    publicEntropy?: string | null;
+    entropyTiming?: EntropyTimingResult;
+    entropyBlock?: EntropyBlockResult;
     handsVerified?: number;
     handsTotal?: number;
     handResults?: HandVerificationResult[];
+    continuity?: ContinuityCheck;
+    winner?: WinnerCheck;
+    actionLog?: ActionLogVerification & { error?: string };
     error?: string;
   };
 }
@@ -82,15 +130,21 @@ export async function GET(
     // Fetch game with verification data
     const { data: game, error: gameError } = await supabase
       .from('games')
-      .select('id, game_number, status, deck_commitment, salt_reveal, action_log')
+      .select('id, game_number, chain_id, status, deck_commitment, salt_reveal, shuffle_version, public_entropy, commitment_block, public_entropy_block, winner_agent_id, action_log')
       .eq('id', gameId)
       .single() as { 
         data: { 
           id: string; 
           game_number: number; 
+          chain_id: number;
           status: string; 
           deck_commitment: string | null;
           salt_reveal: string | null;
+          shuffle_version: number | null;
+          public_entropy: string | null;
+          commitment_block: number | null;
+          public_entropy_block: number | null;
+          winner_agent_id: string | null;
           action_log: unknown[] | null;
         } | null; 
         error: unknown 
@@ -161,10 +215,16 @@ export async function GET(
     // Fetch all hands for this game to verify cards
     const { data: hands, error: handsError } = await supabase
       .from('hands')
-      .select('id, hand_number, community_cards')
+      .select('id, hand_number, community_cards, winner_agent_id, action_log_digest')
       .eq('game_id', gameId)
       .order('hand_number', { ascending: true }) as {
-        data: Array<{ id: string; hand_number: number; community_cards: string[] | null }> | null;
+        data: Array<{
+          id: string;
+          hand_number: number;
+          community_cards: string[] | null;
+          winner_agent_id: string | null;
+          action_log_digest: string | null;
+        }> | null;
         error: unknown;
       };
 
@@ -184,8 +244,14 @@ export async function GET(
       } satisfies GameVerificationResponse);
     }
 
-    // Verify each hand's cards
+    // Hand histories (engine state + actions) to replay each hand from its deck
+    const histories = await loadHandHistories(supabase, gameId);
+    const historyByNumber = new Map((histories?.hands ?? []).map(h => [h.handNumber, h]));
+
+    // Verify each hand's cards with the shuffle the game was dealt with, then its play
+    const shuffleVersion = parseShuffleVersion(game.shuffle_version);
     const handResults: HandVerificationResult[] = [];
+    const replays: HandCheck[] = [];
     let handsVerified = 0;
 
     for (const hand of hands) {
@@ -218,23 +284,91 @@ export async function GET(
         game.salt_reveal,
         hand.hand_number,
         holeCards,
-        communityCards
+        communityCards,
+        shuffleVersion,
+        game.public_entropy
       );
 
+      // Replay the actions from the verified deck
+      const history = historyByNumber.get(hand.hand_number);
+      let discrepancies: string[] | undefined;
+      if (verification.valid && history && verification.expectedDeck) {
+        const play = verifyHandPlay(history, verification.expectedDeck);
+        discrepancies = play.errors;
+        if (hand.winner_agent_id && play.winnerId && hand.winner_agent_id !== play.winnerId) {
+          discrepancies.push(`Hand winner is ${hand.winner_agent_id}, the replay gives ${play.winnerId}`);
+        }
+        replays.push({ handNumber: hand.hand_number, valid: discrepancies.length === 0, ...play });
+      }
+
+      const valid = verification.valid && (discrepancies?.length ?? 0) === 0;
       handResults.push({
         handNumber: hand.hand_number,
-        valid: verification.valid,
-        error: verification.error,
+        valid,
+        error: verification.error ?? discrepancies?.[0],
         holeCards: verification.valid ? undefined : holeCards,
         communityCards: verification.valid ? undefined : communityCards,
         expectedDeck: verification.valid ? undefined : verification.expectedDeck?.slice(0, 20),
+        replayed: discrepancies !== undefined,
+        discrepancies: discrepancies?.length ? discrepancies : undefined,
       });
 
-      if (verification.valid) {
+      if (valid) {
         handsVerified++;
       }
     }
 
+    // Hands must run 1..n and each one start on the stacks the previous one ended
+    // with (games recorded before hand histories have nothing to check)
+    let continuity: ContinuityCheck | undefined;
+    if (historyByNumber.size > 0) {
+      continuity = verifyChipContinuity(histories?.hands ?? [], STARTING_CHIPS);
+      const missing = hands.filter(h => !historyByNumber.has(h.hand_number));
+      if (missing.length > 0) {
+        continuity = {
+          valid: false,
+          errors: [...missing.map(h => `Hand ${h.hand_number} has no hand history`), ...continuity.errors],
+        };
+      }
+    }
+
+    // The declared winner must be the chip leader after the last hand (when it replayed)
+    const lastHand = hands[hands.length - 1];
+    const winner = lastHand && replays[replays.length - 1]?.handNumber === lastHand.hand_number
+      ? verifyGameWinner(replays, game.winner_agent_id)
+      : undefined;
+
+    // The entropy must come from a block mined after the commitment was stored
+    const entropyTiming = game.public_entropy
+      ? verifyEntropyTiming(game.commitment_block, game.public_entropy_block)
+      : undefined;
+
+    // And be the hash the chain has for that block, not just a value we stored
+    const entropyBlock = game.public_entropy
+      ? verifyEntropyBlockHash(
+          game.public_entropy,
+          game.public_entropy_block,
+          game.public_entropy_block !== null
+            ? await getBlockHash(game.public_entropy_block, game.chain_id)
+            : null
+        )
+      : undefined;
+
+    // Verify the action log chain end-to-end against the digests published per hand
+    const actionLog = (game.action_log || []) as ActionLogEntry[];
+    const handDigests: Record<number, string> = {};
+    for (const hand of hands) {
+      if (hand.action_log_digest) handDigests[hand.hand_number] = hand.action_log_digest;
+    }
+    const actionLogResult = actionLog.some(entry => entry.hash)
+      ? verifyActionLog(actionLog, handDigests)
+      : {
+          valid: false,
+          entriesVerified: 0,
+          entriesTotal: actionLog.length,
+          error: 'Action log is not hash-chained (created before tamper-evident logs).',
+        };
+
     return NextResponse.json({
       success: true,
       gameId: game.id,
@@ -245,9 +379,16 @@ export async function GET(
         commitment: game.deck_commitment,
         computedHash: commitmentResult.computedHash,
         salt: game.salt_reveal,
+        shuffleVersion,
+        publicEntropy: game.public_entropy,
+        entropyTiming,
+        entropyBlock,
         handsVerified,
         handsTotal: hands.length,
         handResults,
+        continuity,
+        winner,
+        actionLog: actionLogResult,
       },
     } satisfies GameVerificationResponse);
 
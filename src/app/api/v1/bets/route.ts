@@ -14,6 +14,7 @@
  * Updated: February 16, 2026 - Fixed hardcoded testnet address and chain
  *                             - Now uses config system for network-aware contract addresses
  *                             - Supports both Base Sepolia (dev) and Base Mainnet (prod)
+ * Updated: October 19, 2026 - Agent arrays sized from the network's agentCount (no fixed 4 agents)
  * 
  * This endpoint allows AI agents and users to track their betting positions
  * and understand outcomes without needing database access.
@@ -24,6 +25,7 @@ import { createClient } from "@supabase/supabase-js";
 import { getAddress, createPublicClient, http, parseAbi } from "viem";
 import { baseSepolia, base } from "viem/chains";
 import { getCurrentConfig } from "@/lib/contracts/config";
+import { getAgentName, getGameMethod, getUserBetsMethod } from "@/lib/contracts";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -55,7 +57,7 @@ interface BetsSummary {
 // On-chain game structure from contract
 interface OnChainGame {
   totalPool: bigint;
-  agentPools: readonly [bigint, bigint, bigint, bigint];
+  agentPools: readonly bigint[];
   winnerAgentId: number;
   status: number;
   createdAt: number;
@@ -72,9 +74,6 @@ const CORS_HEADERS = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
-// Agent mapping (matches contract: 0=Chamath, 1=Sacks, 2=Jason, 3=Friedberg)
-const AGENT_NAMES = ["Chamath", "Sacks", "Jason", "Friedberg"];
-
 // Contract status enum
 const STATUS_MAP: Record<number, BetInfo["gameStatus"]> = {
   0: "betting_open", // None maps to betting_open (game exists but not started)
@@ -92,6 +91,7 @@ const USDC_DECIMALS = 6;
 
 const config = getCurrentConfig();
 const CONTRACT_ADDRESS = config.contracts.pokerBetting;
+const AGENT_COUNT = config.agentCount;
 const viemChain = config.isTestnet ? baseSepolia : base;
 
 const publicClient = createPublicClient({
@@ -100,8 +100,8 @@ const publicClient = createPublicClient({
 });
 
 const contractAbi = parseAbi([
-  "function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[4] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))",
-  "function getUserBets(uint256 gameId, address user) view returns ((uint256[4] agentBets, uint256 totalBet))",
+  getGameMethod(AGENT_COUNT),
+  getUserBetsMethod(AGENT_COUNT),
   "function getTotalGames() view returns (uint256)",
   "function getClaimableAmount(uint256 gameId, address user) view returns (uint256 gross, uint256 fee, uint256 net)",
 ]);
@@ -225,8 +225,8 @@ export async function GET(request: NextRequest) {
         }
 
         // Create bet info for each agent the user bet on
-        for (let agentId = 0; agentId < 4; agentId++) {
-          const betAmount = userBets.agentBets[agentId];
+        for (let agentId = 0; agentId < AGENT_COUNT; agentId++) {
+          const betAmount = userBets.agentBets[agentId] ?? 0n;
           if (betAmount === 0n) continue;
 
           const amount = Number(betAmount) / 10 ** USDC_DECIMALS;
@@ -234,7 +234,7 @@ export async function GET(request: NextRequest) {
           const totalPool = Number(game.totalPool) / 10 ** USDC_DECIMALS;
           
           // Calculate pool share percentage
-          const poolShare = totalPool > 0 ? Math.round((agentPool / totalPool) * 100) : 25;
+          const poolShare = totalPool > 0 ? Math.round((agentPool / totalPool) * 100) : Math.round(100 / AGENT_COUNT);
           
           // Determine result
           let result: BetInfo["result"] = "pending";
@@ -258,9 +258,9 @@ export async function GET(request: NextRequest) {
             gameNumber: gameNumberMap.get(gameId) || gameId + 1, // Fallback to gameId+1 if not in DB
             gameStatus,
             agentId,
-            agentName: AGENT_NAMES[agentId],
+            agentName: getAgentName(agentId),
             amount,
-            gameWinner: isResolved ? AGENT_NAMES[winnerAgentId] : null,
+            gameWinner: isResolved ? getAgentName(winnerAgentId) : null,
             result,
             potentialPayout,
             poolShare,
@@ -0,0 +1,139 @@
+/**
+ * API v1 - Game Hand Histories
+ *
+ * GET /api/v1/games/:id/hands
+ *
+ * Downloads the resolved hands of a game as structured JSON or as
+ * PokerStars-format text for standard poker tools.
+ * FREE endpoint - no x402 payment required.
+ *
+ * Query params:
+ *   format - "json" (default) or "pokerstars"
+ *   hand   - Only this hand number (1-based)
+ *
+ * Created: October 19, 2026
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { checkRateLimit, getClientId, rateLimitHeaders, RATE_LIMITS } from "@/lib/rate-limit";
+import { loadHandHistories } from "@/lib/supabase/hand-history-store";
+import { formatPokerStarsHands } from "@/lib/poker/pokerstars";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUPABASE CLIENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SECRET_KEY || process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY;
+
+  if (!url || !key) {
+    throw new Error("Supabase configuration missing");
+  }
+
+  return createClient(url, key);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CORS HEADERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-PAYMENT",
+};
+
+const FORMATS = ["json", "pokerstars"] as const;
+type ExportFormat = (typeof FORMATS)[number];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limiting
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`game-hands:${clientId}`, RATE_LIMITS.FREE);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Try again later." },
+      { status: 429, headers: { ...CORS_HEADERS, ...rateLimitHeaders(rateLimit) } }
+    );
+  }
+
+  try {
+    const { id: gameId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const format = (searchParams.get("format") || "json") as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Use one of: ${FORMATS.join(", ")}` },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const handParam = searchParams.get("hand");
+    const handNumber = handParam !== null ? Number(handParam) : undefined;
+    if (handNumber !== undefined && (!Number.isInteger(handNumber) || handNumber < 1)) {
+      return NextResponse.json(
+        { error: "Invalid hand number" },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+    const histories = await loadHandHistories(supabase, gameId, handNumber);
+
+    if (!histories) {
+      return NextResponse.json(
+        { error: "Game not found" },
+        { status: 404, headers: CORS_HEADERS }
+      );
+    }
+
+    if (handNumber !== undefined && histories.hands.length === 0) {
+      return NextResponse.json(
+        { error: `Hand ${handNumber} not found or not resolved yet` },
+        { status: 404, headers: CORS_HEADERS }
+      );
+    }
+
+    // Served as a download: game-12-hands.json / game-12-hand-3.txt
+    const fileName = `game-${histories.gameNumber}-${handNumber !== undefined ? `hand-${handNumber}` : "hands"}`;
+    const headers = { ...CORS_HEADERS, ...rateLimitHeaders(rateLimit) };
+
+    if (format === "pokerstars") {
+      return new NextResponse(formatPokerStarsHands(histories.hands), {
+        headers: {
+          ...headers,
+          "Content-Type": "text/plain; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}.txt"`,
+        },
+      });
+    }
+
+    return NextResponse.json(histories, {
+      headers: {
+        ...headers,
+        "Content-Disposition": `attachment; filename="${fileName}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("[API v1] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
@@ -17,6 +17,7 @@
  * Updated: January 26, 2026 - CRITICAL: Betting pool data now from on-chain (source of truth)
  *                           - Removed spectator_bets DB reads - contract is source of truth
  *                           - Uses viem to read getGame() from PokerBettingV2 contract
+ * Updated: October 19, 2026 - Agent pools sized from the network's agentCount (no fixed 4 agents)
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -24,7 +25,8 @@ import { createClient } from "@supabase/supabase-js";
 import { createPublicClient, http, parseAbi, formatUnits } from "viem";
 import { baseSepolia, base } from "viem/chains";
 import { checkRateLimit, getClientId, rateLimitHeaders, RATE_LIMITS } from "@/lib/rate-limit";
-import { SEPOLIA, MAINNET } from "@/lib/contracts/config";
+import { SEPOLIA, MAINNET, getCurrentConfig } from "@/lib/contracts/config";
+import { getAgentName, getGameMethod } from "@/lib/contracts";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -116,18 +118,12 @@ function getSupabaseClient() {
 // ON-CHAIN CLIENT (Source of truth for betting data)
 // ═══════════════════════════════════════════════════════════════════════════
 
+const AGENT_COUNT = getCurrentConfig().agentCount;
+
 const POKER_BETTING_ABI = parseAbi([
-  "function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[4] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))"
+  getGameMethod(AGENT_COUNT),
 ]);
 
-// Agent index mapping: 0=Chamath, 1=Sacks, 2=Jason, 3=Friedberg
-const AGENT_INDEX_TO_SLUG: Record<number, string> = {
-  0: "chamath",
-  1: "sacks", 
-  2: "jason",
-  3: "friedberg"
-};
-
 function getOnChainClient() {
   const isProduction = process.env.NEXT_PUBLIC_CHAIN_ENV === "production";
   const chain = isProduction ? base : baseSepolia;
@@ -146,7 +142,7 @@ function getContractAddress(): `0x${string}` {
 
 interface OnChainGame {
   totalPool: bigint;
-  agentPools: readonly [bigint, bigint, bigint, bigint];
+  agentPools: readonly bigint[];
   winnerAgentId: number;
   status: number;
   createdAt: number;
@@ -175,10 +171,10 @@ async function getOnChainBettingPools(onChainGameId: number): Promise<{
     const totalPool = Number(formatUnits(game.totalPool, 6));
     const agentPools = new Map<string, number>();
     
-    // Map agent pools by slug
-    for (let i = 0; i < 4; i++) {
-      const slug = AGENT_INDEX_TO_SLUG[i];
-      const pool = Number(formatUnits(game.agentPools[i], 6));
+    // Map agent pools by slug (slug is the lowercased agent name, e.g. 0 → "chamath")
+    for (let i = 0; i < AGENT_COUNT; i++) {
+      const slug = getAgentName(i).toLowerCase();
+      const pool = Number(formatUnits(game.agentPools[i] ?? 0n, 6));
       agentPools.set(slug, pool);
     }
     
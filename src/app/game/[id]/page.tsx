@@ -30,6 +30,12 @@
  *                       - Added polling for on-chain data when game finishes
  *                       - useBettingData only auto-refreshes when Open, not Resolved
  *                       - Now polls every 2s until on-chain status is Resolved
+ * Updated: Oct 19, 2026 - Pass the current/next blind level to GameStatus
+ * Updated: Oct 19, 2026 - Pass position labels through to PokerTable
+ * Updated: Oct 19, 2026 - REPLAY mode: step through resolved hands (HandReplay) with the
+ *                       - action feed following the replay
+ * Updated: Oct 19, 2026 - Pass the active player's action deadline to PokerTable (countdown)
+ * Updated: Oct 19, 2026 - Pass the game's variant to useGameState (equity)
  * Purpose: Dedicated page for watching a live poker game
  * 
  * States:
@@ -44,6 +50,7 @@
  * - Winner celebration modal
  * - Eliminated players shown with BUST indicator
  * - GameFinished view when game ends with standings and bet results
+ * - Hand replay with play/pause/scrub for any resolved hand
  */
 
 'use client'
@@ -60,9 +67,10 @@ import { useFormattedBettingData } from '@/lib/contracts/hooks'
 import { GameStatus as ContractGameStatus } from '@/lib/contracts'
 import { GameFinished } from '@/components/poker/GameFinished'
 import { GameStatus } from '@/components/poker/GameStatus'
+import { HandReplay } from '@/components/poker/HandReplay'
 import Link from 'next/link'
 import { Header } from '@/components/layout'
-import { useGameState, useGameSession } from '@/hooks'
+import { useGameState, useGameSession, useHandReplay } from '@/hooks'
 import type { Round, BettingOdds, ActionType, AgentStanding } from '@/types/poker'
 
 // Mock data for when no game is active
@@ -91,8 +99,8 @@ export default function GamePage({ params }: GamePageProps) {
   
   // Pass gameId to both hooks for per-game tracking
   // IMPORTANT: This ensures we only show data for THIS specific game, not the latest game
-  const { gameState, actions, isLoading, error, refresh } = useGameState({ gameId })
   const { session: gameSession, isLoading: sessionLoading, refresh: refreshSession } = useGameSession({ gameId })
+  const { gameState, actions, isLoading, error, refresh } = useGameState({ gameId, variant: gameSession?.game?.variant })
   
   // On-chain betting data for ClaimWinnings component
   const onChainGameId = gameSession?.game?.onChainGameId ?? null
@@ -102,11 +110,19 @@ export default function GamePage({ params }: GamePageProps) {
   const [isRunningHand, setIsRunningHand] = useState(false)
   const [isRunningGame, setIsRunningGame] = useState(false)
   const [shouldStop, setShouldStop] = useState(false)
+  const [isReplaying, setIsReplaying] = useState(false)
 
   // Determine current game state
   const isGameWaiting = gameSession?.status === 'waiting'
   const isGameLive = gameSession?.status === 'betting_open' || gameSession?.status === 'betting_closed'
   const isGameFinished = gameSession?.status === 'resolved'
+
+  // Hand replay - finished games replay from the revealed deck
+  const replay = useHandReplay(gameId, {
+    enabled: isReplaying,
+    revealDeck: isGameFinished,
+    agents: gameState?.players,
+  })
   
   // Use countdown from useGameSession - this is calculated from scheduled_start_at in the database
   // This ensures the countdown is consistent across all pages
@@ -455,6 +471,7 @@ export default function GamePage({ params }: GamePageProps) {
         lastActionType: p.lastActionType,
         lastActionRound: p.lastActionRound,
         seatPosition: p.seatPosition,
+        positionLabel: p.positionLabel,
       }))
     : MOCK_AGENTS
 
@@ -465,12 +482,13 @@ export default function GamePage({ params }: GamePageProps) {
   const round = gameState?.round || 'preflop'
   const handNumber = gameState?.handNumber || 0
   const activeAgentId = gameState?.activePlayerId || undefined
+  const actionDeadline = gameState?.actionDeadline || undefined
   const dealerAgentId = gameState?.dealerPlayerId || undefined
   const smallBlindAgentId = gameState?.smallBlindPlayerId || undefined
   const bigBlindAgentId = gameState?.bigBlindPlayerId || undefined
   const totalPool = gameState?.totalPool || 0
 
-  const transformedActions = actions.map(a => ({
+  const transformedActions = (isReplaying ? replay.actions : actions).map(a => ({
     id: a.id,
     agentName: a.agentName,
     agentSlug: a.agentSlug,
@@ -568,10 +586,10 @@ export default function GamePage({ params }: GamePageProps) {
                       </svg>
                     </Link>
                     <span className="text-white font-extrabold">
-                      {isGameFinished ? 'GAME FINISHED' : 'LIVE GAME'}
+                      {isReplaying ? 'HAND REPLAY' : isGameFinished ? 'GAME FINISHED' : 'LIVE GAME'}
                     </span>
                     
-                    {gameNumber > 0 && !isGameFinished && (
+                    {gameNumber > 0 && !isGameFinished && !isReplaying && (
                       <GameStatus
                         gameId={gameId}
                         gameNumber={gameNumber}
@@ -582,70 +600,91 @@ export default function GamePage({ params }: GamePageProps) {
                         round={handNumber > 0 ? round : undefined}
                         status={gameSession?.game?.status}
                         deckCommitment={gameSession?.game?.deckCommitment}
+                        blindLevel={gameSession?.progress.blindLevel}
+                        nextBlindLevel={gameSession?.progress.nextBlindLevel}
+                        bettingLimit={gameSession?.game?.bettingStructure.limit}
+                        variant={gameSession?.game?.variant}
                       />
                     )}
 
                   </div>
                   
-                  {/* Action Buttons - Only show during live game */}
-                  {!isGameFinished && (
-                    <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    {/* Replay toggle - once there's a resolved hand to watch */}
+                    {(isGameFinished || currentHand > 0) && (
                       <button
-                        onClick={runHand}
+                        onClick={() => setIsReplaying(r => !r)}
                         disabled={isRunningHand || isRunningGame}
-                        className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                          isRunningHand || isRunningGame
-                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                            : 'bg-neutral-800 hover:bg-neutral-700 text-white border border-neutral-700'
+                        className={`px-4 py-2 rounded-lg font-medium transition-all border ${
+                          isReplaying
+                            ? 'bg-white text-black border-white'
+                            : 'bg-neutral-800 hover:bg-neutral-700 text-white border-neutral-700 disabled:opacity-40'
                         }`}
                       >
-                        {isRunningHand ? (
-                          <span className="flex items-center gap-2">
-                            <motion.span
-                              animate={{ rotate: 360 }}
-                              transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                              className="inline-block w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full"
-                            />
-                            Running...
-                          </span>
-                        ) : (
-                          '▶ Hand'
-                        )}
+                        {isReplaying ? '✕ Exit Replay' : '⟲ Replay'}
                       </button>
-                      
-                      <button
-                        onClick={runFullGame}
-                        disabled={isRunningHand || isRunningGame}
-                        className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                          isRunningHand || isRunningGame
-                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                            : 'bg-accent-green hover:bg-accent-green/80 text-white shadow-lg hover:shadow-accent-green/25'
-                        }`}
-                      >
-                        {isRunningGame ? (
-                          <span className="flex items-center gap-2">
-                            <motion.span
-                              animate={{ rotate: 360 }}
-                              transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                              className="inline-block w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full"
-                            />
-                            Game Running...
-                          </span>
-                        ) : (
-                          '▶▶ Full Game'
-                        )}
-                      </button>
-                      
-                      {isRunningGame && (
+                    )}
+
+                    {/* Action Buttons - Only show during live game */}
+                    {!isGameFinished && !isReplaying && (
+                      <div className="flex items-center gap-2">
                         <button
-                          onClick={() => setShouldStop(true)}
-                          className="px-4 py-2 rounded-lg font-medium transition-all bg-red-600 hover:bg-red-500 text-white"
+                          onClick={runHand}
+                          disabled={isRunningHand || isRunningGame}
+                          className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                            isRunningHand || isRunningGame
+                              ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                              : 'bg-neutral-800 hover:bg-neutral-700 text-white border border-neutral-700'
+                          }`}
                         >
-                          ⏹ Stop
+                          {isRunningHand ? (
+                            <span className="flex items-center gap-2">
+                              <motion.span
+                                animate={{ rotate: 360 }}
+                                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                                className="inline-block w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full"
+                              />
+                              Running...
+                            </span>
+                          ) : (
+                            '▶ Hand'
+                          )}
                         </button>
-                      )}
-                    </div>
-                  )}
+                        
+                        <button
+                          onClick={runFullGame}
+                          disabled={isRunningHand || isRunningGame}
+                          className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                            isRunningHand || isRunningGame
+                              ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                              : 'bg-accent-green hover:bg-accent-green/80 text-white shadow-lg hover:shadow-accent-green/25'
+                          }`}
+                        >
+                          {isRunningGame ? (
+                            <span className="flex items-center gap-2">
+                              <motion.span
+                                animate={{ rotate: 360 }}
+                                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                                className="inline-block w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full"
+                              />
+                              Game Running...
+                            </span>
+                          ) : (
+                            '▶▶ Full Game'
+                          )}
+                        </button>
+                        
+                        {isRunningGame && (
+                          <button
+                            onClick={() => setShouldStop(true)}
+                            className="px-4 py-2 rounded-lg font-medium transition-all bg-red-600 hover:bg-red-500 text-white"
+                          >
+                            ⏹ Stop
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
 
                   {/* No additional buttons needed when game is finished - actions in GameFinished component */}
                 </div>
@@ -662,6 +701,8 @@ export default function GamePage({ params }: GamePageProps) {
                       <p className="text-foreground-muted">Connecting to game...</p>
                     </div>
                   </div>
+                ) : isReplaying ? (
+                  <HandReplay replay={replay} profiles={gameState?.players} />
                 ) : isGameFinished ? (
                   /* Game Finished View - Merged UI with betting data */
                   <GameFinished
@@ -687,6 +728,7 @@ export default function GamePage({ params }: GamePageProps) {
                     sidePots={sidePots}
                     round={round}
                     activeAgentId={activeAgentId}
+                    actionDeadline={actionDeadline}
                     dealerAgentId={dealerAgentId}
                     smallBlindAgentId={smallBlindAgentId}
                     bigBlindAgentId={bigBlindAgentId}
@@ -769,8 +811,10 @@ export default function GamePage({ params }: GamePageProps) {
                 />
               )}
 
-              {/* Action Feed - Only show during live game */}
-              {!isGameFinished && (
+              {/* Action Feed - Only show during live game (or following the replay) */}
+              {isReplaying ? (
+                <ActionFeed actions={transformedActions} title="Replay" isLive={false} maxItems={50} />
+              ) : !isGameFinished && (
                 <ActionFeed 
                   actions={transformedActions.length > 0 ? transformedActions : [
                     {
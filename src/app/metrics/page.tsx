@@ -15,6 +15,9 @@
  * Updated: Feb 16, 2026 - All queries now filter by chain_id
  *                        - Hand wins/total hands filtered via game_id join to chain games
  *                        - Prevents testnet data bleeding into mainnet metrics
+ * Updated: Oct 19, 2026 - Added Model Telemetry section (cost per hand, fallback rate, latency)
+ * Updated: Oct 19, 2026 - Model Telemetry pages through every decision (PostgREST returns at most
+ *                         1000 rows per request) and filters by chain through the games join
  * Purpose: Show cumulative agent metrics - game wins, total winnings, games played
  * 
  * Cost optimization: Uses Next.js ISR with 60s revalidation to minimize DB queries
@@ -23,6 +26,8 @@
 import { createClient } from '@supabase/supabase-js'
 import { Header, Footer } from '@/components/layout'
 import { getCurrentConfig } from '@/lib/contracts/config'
+import { aggregateDecisionStats, type AgentDecisionStats, type TelemetryRow } from '@/lib/ai/telemetry'
+import { getModelConfig } from '@/lib/ai/models'
 import { Database } from '@/types/database'
 import Image from 'next/image'
 
@@ -179,6 +184,44 @@ async function getTotalHandsPlayed(): Promise<number> {
   return count || 0
 }
 
+// Rows per telemetry request - PostgREST's default max-rows, so a short page is the last one
+const TELEMETRY_PAGE_SIZE = 1000
+
+async function getDecisionStats(): Promise<Map<string, AgentDecisionStats>> {
+  const supabase = getSupabaseServer()
+  const chainId = getCurrentConfig().chainId
+
+  // Model decisions only (blinds have no model_id), joined through hands to games
+  // for the chain filter, oldest first so the latest model wins
+  const rows: TelemetryRow[] = []
+  for (let from = 0; ; from += TELEMETRY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('agent_actions')
+      .select('agent_id, hand_id, model_id, latency_ms, input_tokens, output_tokens, cost_usd, attempts, fallback_reason, hands!inner(games!inner(chain_id))')
+      .eq('hands.games.chain_id', chainId)
+      .not('model_id', 'is', null)
+      .order('created_at')
+      .order('id')
+      .range(from, from + TELEMETRY_PAGE_SIZE - 1) as { data: TelemetryRow[] | null; error: unknown }
+
+    if (error) {
+      console.error('Error fetching decision telemetry:', error)
+      return new Map()
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < TELEMETRY_PAGE_SIZE) break
+  }
+
+  return aggregateDecisionStats(rows)
+}
+
+function formatUsd(amount: number): string {
+  if (amount === 0) return '$0'
+  if (amount < 0.01) return `$${amount.toFixed(4)}`
+  return `$${amount.toFixed(2)}`
+}
+
 function formatChips(amount: number): string {
   if (amount >= 1000000) {
     return `${(amount / 1000000).toFixed(1)}M`
@@ -202,10 +245,11 @@ function getXHandle(slug: string): string {
 }
 
 export default async function MetricsPage() {
-  const [agentMetrics, totalGames, totalHands] = await Promise.all([
+  const [agentMetrics, totalGames, totalHands, decisionStats] = await Promise.all([
     getAgentMetrics(),
     getTotalGamesPlayed(),
-    getTotalHandsPlayed()
+    getTotalHandsPlayed(),
+    getDecisionStats()
   ])
 
   // Sort for leaderboards
@@ -487,6 +531,54 @@ export default async function MetricsPage() {
           </div>
         </section>
 
+        {/* Model Telemetry */}
+        <section className="mt-8">
+          <h2 className="text-2xl font-extrabold tracking-wide text-white mb-4">MODEL TELEMETRY</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {agentMetrics.map(agent => {
+              const stats = decisionStats.get(agent.id)
+
+              return (
+                <div 
+                  key={agent.id}
+                  className="bg-black rounded-xl border border-neutral-800 p-4"
+                >
+                  <div className="mb-4 min-w-0">
+                    <p className="font-semibold text-white truncate">{agent.name}</p>
+                    <p className="text-xs text-neutral-400 truncate">
+                      {stats?.modelId ? getModelConfig(stats.modelId).label : 'No decisions yet'}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2.5">
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-neutral-500">Cost / Hand</span>
+                      <span className="text-sm font-semibold text-white tabular-nums">{formatUsd(stats?.costPerHand ?? 0)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-neutral-500">Fallback Rate</span>
+                      <span className={`text-sm font-semibold tabular-nums ${stats?.fallbacks ? 'text-amber-400' : 'text-emerald-400'}`}>
+                        {((stats?.fallbackRate ?? 0) * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-neutral-500">Avg Latency</span>
+                      <span className="text-sm font-semibold text-white tabular-nums">{((stats?.avgLatencyMs ?? 0) / 1000).toFixed(1)}s</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-neutral-500">Decisions</span>
+                      <span className="text-sm font-semibold text-neutral-300 tabular-nums">
+                        {stats?.decisions ?? 0}
+                        {stats?.retries ? <span className="text-neutral-500"> ({stats.retries} retries)</span> : null}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </section>
+
         {/* Cache note */}
         <p className="text-xs text-neutral-600 text-center mt-8">
           Stats cached for 60 seconds
@@ -7,6 +7,7 @@
  *                       - Consistent poker suit icons (♠ ♥ ♦ ♣)
  *                       - Clean, editorial aesthetic
  *                       - Gold accent only for winner
+ * Updated: Oct 19, 2026 - Optional title and live indicator (the hand replay reuses the feed)
  * Purpose: Show live poker action with agent reasoning
  */
 
@@ -34,6 +35,8 @@ interface ActionItem {
 interface ActionFeedProps {
   actions: ActionItem[]
   maxItems?: number
+  title?: string
+  isLive?: boolean  // Pulsing LIVE indicator in the header
 }
 
 // Poker suit icons - all same size, consistent styling
@@ -121,7 +124,7 @@ function formatTime(timestamp: string): string {
   })
 }
 
-export function ActionFeed({ actions, maxItems = 10 }: ActionFeedProps) {
+export function ActionFeed({ actions, maxItems = 10, title = 'Live Action', isLive = true }: ActionFeedProps) {
   const visibleActions = actions.slice(0, maxItems)
   const [expandedId, setExpandedId] = useState<string | null>(null)
 
@@ -134,12 +137,14 @@ export function ActionFeed({ actions, maxItems = 10 }: ActionFeedProps) {
       {/* Clean header */}
       <div className="flex items-center justify-between mb-3 pb-2 border-b border-neutral-800">
         <h2 className="text-xs font-medium tracking-widest text-white uppercase">
-          Live Action
+          {title}
         </h2>
-        <div className="flex items-center gap-1.5">
-          <span className="w-1.5 h-1.5 bg-white rounded-full animate-pulse" />
-          <span className="text-[10px] text-neutral-500 uppercase tracking-wider">Live</span>
-        </div>
+        {isLive && (
+          <div className="flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 bg-white rounded-full animate-pulse" />
+            <span className="text-[10px] text-neutral-500 uppercase tracking-wider">Live</span>
+          </div>
+        )}
       </div>
 
       <div className="space-y-1 overflow-y-auto max-h-[320px]">
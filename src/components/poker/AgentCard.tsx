@@ -30,6 +30,8 @@
  * Updated: Jan 26, 2026 - Added handResolved prop for winner display
  *                       - Hides action badges when hand has a winner
  *                       - Greys out losers (like folded players) to highlight winner
+ * Updated: Oct 19, 2026 - Four hole cards (Omaha) shown smaller and overlapped
+ * Updated: Oct 19, 2026 - Countdown to the action deadline next to THINKING...
  */
 
 'use client'
@@ -37,7 +39,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { motion, useSpring, useTransform, AnimatePresence } from 'framer-motion'
 import Image from 'next/image'
-import { PlayingCard } from './PlayingCard'
+import { PlayingCard, getHandCardSize } from './PlayingCard'
 import { CardNotation, Round } from '@/types/poker'
 
 // Unified neutral styling for all players (no distinct colors)
@@ -59,6 +61,7 @@ interface PlayerBoxProps {
   isFolded?: boolean
   isAllIn?: boolean
   isActive?: boolean
+  actionDeadline?: string  // When the active player's decision time runs out (ISO)
   isDealer?: boolean
   isSmallBlind?: boolean
   isBigBlind?: boolean
@@ -86,6 +89,28 @@ const ACTION_CONFIG: Record<string, { label: string; bg: string; text: string; b
   eliminated: { label: 'BUST', bg: 'bg-red-500/20', text: 'text-red-400', border: 'border-red-500/30' },
 }
 
+// Countdown turns red with this many seconds left
+const LOW_TIME_SECONDS = 10
+
+/**
+ * Seconds left until the action deadline, ticking once a second
+ */
+function ActionCountdown({ deadline }: { deadline: string }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [deadline])
+
+  const secondsLeft = Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000))
+  return (
+    <span className={`ml-1 tabular-nums ${secondsLeft <= LOW_TIME_SECONDS ? 'text-red-400' : 'text-neutral-300'}`}>
+      {secondsLeft}s
+    </span>
+  )
+}
+
 // Initials fallback
 function getInitials(name: string): string {
   return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2)
@@ -102,6 +127,7 @@ export function PlayerBox({
   isFolded = false,
   isAllIn = false,
   isActive = false,
+  actionDeadline,
   isDealer = false,
   isSmallBlind = false,
   isBigBlind = false,
@@ -119,6 +145,8 @@ export function PlayerBox({
 }: PlayerBoxProps) {
   // Derived state: eliminated takes precedence over everything
   const isOutOfGame = isEliminated || chipCount <= 0
+  const isFourCardHand = (holeCards?.length ?? 0) > 2
+  const cardSize = getHandCardSize('md', holeCards?.length ?? 2)
   
   // For eliminated players, always show eliminated badge
   const actionConfig = isOutOfGame && !isWinner 
@@ -311,6 +339,7 @@ export function PlayerBox({
           >
             <span className="text-[10px] font-bold tracking-wider text-neutral-400">
               THINKING...
+              {actionDeadline && <ActionCountdown deadline={actionDeadline} />}
             </span>
           </motion.div>
         )}
@@ -400,8 +429,9 @@ export function PlayerBox({
         </div>
 
         {/* Hole Cards - medium size for better readability (scaled up 25%) */}
+        {/* Omaha's four cards drop a size and overlap to fit the same space */}
         {/* Eliminated players show no cards at all */}
-        <div className="flex gap-2 ml-auto">
+        <div className={`flex ml-auto ${isFourCardHand ? '-space-x-3' : 'gap-2'}`}>
           {isOutOfGame ? (
             /* No cards for eliminated players - empty space */
             <div className="w-[116px] h-[80px]" /> /* Placeholder to maintain layout (md card size) */
@@ -419,7 +449,7 @@ export function PlayerBox({
                 }}
                 className="relative"
               >
-                <PlayingCard card={card} faceDown={false} size="md" />
+                <PlayingCard card={card} faceDown={false} size={cardSize} />
                 {isFolded && i === 0 && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded">
                     <span className="text-xs font-bold text-neutral-400">FOLD</span>
@@ -12,6 +12,7 @@
  * Updated: Jan 23, 2026 - All bets (including x402) are now on-chain, so use on-chain data
  * Updated: Jan 26, 2026 - Fixed: on-chain status is now source of truth for bettingAllowed
  *                       - Locked state: hide radio buttons, dim text for closed betting
+ * Updated: Oct 19, 2026 - One row per contract agent pool (agent count comes from the network config)
  */
 
 'use client'
@@ -26,7 +27,7 @@ import {
   useFormattedBettingData,
   type TransactionStatus,
 } from '@/lib/contracts/hooks'
-import { parseUSDC, AGENT_NAMES, GameStatus } from '@/lib/contracts'
+import { parseUSDC, getAgentName, getAgentCount, GameStatus } from '@/lib/contracts'
 import { useWalletBalance } from '@/hooks/useWalletBalance'
 // ClaimWinnings moved to be a separate component in the game page layout
 
@@ -86,18 +87,19 @@ export function BettingPanel({
   // Use on-chain data when available (all bets including x402 are now on-chain)
   // Fallback to prop data for games without on-chain ID
   const totalPool = useOnChain ? onChainData.totalPool : fallbackTotalPool
-  const agentPools = useOnChain ? onChainData.agentPools : [0, 0, 0, 0]
-  const userAgentBets = useOnChain ? onChainData.userAgentBets : [0, 0, 0, 0]
+  const agentCount = useOnChain ? onChainData.agentPools.length : getAgentCount()
+  const agentPools = useOnChain ? onChainData.agentPools : new Array<number>(agentCount).fill(0)
+  const userAgentBets = useOnChain ? onChainData.userAgentBets : new Array<number>(agentCount).fill(0)
   const userTotalBet = userAgentBets.reduce((sum, b) => sum + b, 0)
   
   // Calculate % of betting pool for each agent (NOT win probability!)
-  const agents = AGENT_NAMES.map((name, index) => {
+  const agents = Array.from({ length: agentCount }, (_, index) => {
     const pool = agentPools[index] || 0
-    const poolShare = totalPool > 0 ? (pool / totalPool) * 100 : 25
+    const poolShare = totalPool > 0 ? (pool / totalPool) * 100 : 100 / agentCount
     const roundedShare = Math.round(poolShare)
     return {
       index,
-      name,
+      name: getAgentName(index),
       pool,
       // Show "<1%" if there's pool share but rounds to 0, otherwise show actual %
       poolShareDisplay: totalPool > 0 && pool > 0 && roundedShare === 0 ? '<1' : String(roundedShare),
@@ -5,12 +5,17 @@
  * Created: Jan 10, 2026
  * Updated: Jan 10, 2026 - Added round indicator next to hand counter
  * Updated: Jan 20, 2026 - Added verification badge for verifiable games
+ * Updated: Oct 19, 2026 - Added blind level / ante indicator with next level hint
+ * Updated: Oct 19, 2026 - Betting structure shown with the blinds
+ * Updated: Oct 19, 2026 - Omaha games are labelled with the betting structure
  * Purpose: Display game progress, current round, and betting window status
  * 
  * Features:
  * - Game number + Verification badge
  * - Hand counter (X/25)
  * - Round indicator (Preflop/Flop/Turn/River)
+ * - Blinds + ante for the current level, and when they go up next
+ * - Betting structure (No-Limit / Pot-Limit / Fixed-Limit)
  * - Betting status (OPEN/CLOSED)
  */
 
@@ -18,6 +23,9 @@
 
 import { motion } from 'framer-motion'
 import { VerificationBadge } from './VerificationBadge'
+import type { BettingLimit, BlindLevel, GameVariant } from '@/types/poker'
+import { BETTING_LIMIT_LABELS } from '@/lib/poker/betting'
+import { GAME_VARIANT_LABELS } from '@/lib/poker/variants'
 
 interface GameStatusProps {
   gameId: string
@@ -29,6 +37,10 @@ interface GameStatusProps {
   round?: string
   status?: string
   deckCommitment?: string | null
+  blindLevel?: BlindLevel | null
+  nextBlindLevel?: BlindLevel | null
+  bettingLimit?: BettingLimit
+  variant?: GameVariant
 }
 
 export function GameStatus({
@@ -41,6 +53,10 @@ export function GameStatus({
   round,
   status,
   deckCommitment,
+  blindLevel,
+  nextBlindLevel,
+  bettingLimit,
+  variant,
 }: GameStatusProps) {
   return (
     <div className="flex items-center gap-4">
@@ -86,6 +102,34 @@ export function GameStatus({
         </div>
       )}
 
+      {/* Blind level */}
+      {blindLevel && (
+        <div className="px-3 py-1.5 bg-neutral-800/80 rounded-lg border border-neutral-700">
+          <span className="text-[10px] font-bold tracking-widest text-neutral-500">
+            BLINDS
+          </span>
+          <span className="ml-2 text-sm font-bold text-white tabular-nums">
+            {blindLevel.smallBlind}/{blindLevel.bigBlind}
+          </span>
+          {bettingLimit && (
+            <span className="ml-1 text-[10px] font-bold text-neutral-400 uppercase">
+              {BETTING_LIMIT_LABELS[bettingLimit]}
+              {variant === 'omaha' && ` ${GAME_VARIANT_LABELS.omaha}`}
+            </span>
+          )}
+          {blindLevel.ante > 0 && (
+            <span className="ml-1 text-[10px] font-bold text-amber-400 tabular-nums">
+              ANTE {blindLevel.ante}
+            </span>
+          )}
+          {nextBlindLevel && nextBlindLevel.fromHand <= maxHands && (
+            <span className="ml-1 text-[10px] text-neutral-500">
+              (up at hand {nextBlindLevel.fromHand})
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Betting status */}
       <motion.div
         animate={{
@@ -0,0 +1,248 @@
+/**
+ * HandReplay Component
+ * Step-through replay of a resolved hand on the poker table
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Drives PokerTable from replay frames (useHandReplay) with a hand
+ *          picker, play/pause/step controls, a timeline scrubber and the
+ *          reasoning behind the current action.
+ */
+
+'use client'
+
+import { motion } from 'framer-motion'
+import { PokerTable } from './PokerTable'
+import type { HandReplayState } from '@/hooks/useHandReplay'
+import type { ReplayFrame } from '@/lib/poker/replay'
+import { getBlindIndices } from '@/lib/poker/game-engine'
+import { getPositionLabel } from '@/lib/poker/positions'
+import { calculatePots } from '@/lib/poker/pots'
+
+interface AgentProfile {
+  agentId: string
+  slug: string
+  avatarUrl?: string | null
+}
+
+interface HandReplayProps {
+  replay: HandReplayState
+  profiles?: AgentProfile[]
+}
+
+const ROUND_LABELS: Record<string, string> = {
+  preflop: 'Preflop',
+  flop: 'Flop',
+  turn: 'Turn',
+  river: 'River',
+}
+
+/**
+ * What happened on this frame, in one line
+ */
+function describeFrame(frame: ReplayFrame, name: (agentId: string) => string): string {
+  const { event, state } = frame
+  switch (event.type) {
+    case 'start':
+      return 'Blinds posted, cards dealt'
+    case 'deal':
+      return `${ROUND_LABELS[event.round]}: ${event.cards.join(' ')}`
+    case 'showdown':
+      return state.winnerId
+        ? `${name(state.winnerId)} wins${state.winningHand ? ` with ${state.winningHand}` : ''}`
+        : 'Pot split'
+    case 'action': {
+      const { type, amount } = event.action
+      const verb = {
+        fold: 'folds',
+        check: 'checks',
+        call: `calls $${amount}`,
+        raise: `raises to $${amount}`,
+        all_in: `goes ALL IN for $${amount}`,
+      }[type]
+      return `${name(event.agentId)} ${verb}`
+    }
+  }
+}
+
+export function HandReplay({ replay, profiles = [] }: HandReplayProps) {
+  const { hands, hand, handIndex, frames, frame, frameIndex, isPlaying, isLoading, error } = replay
+
+  if (isLoading && hands.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[400px]">
+        <p className="text-foreground-muted">Loading hand histories...</p>
+      </div>
+    )
+  }
+
+  if (hands.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[400px]">
+        <p className="text-foreground-muted">{error ? error.message : 'No finished hands to replay yet.'}</p>
+      </div>
+    )
+  }
+
+  const state = frame?.state
+  const name = (agentId: string) => hand?.seats.find(s => s.agentId === agentId)?.name ?? 'Unknown'
+  const blinds = state ? getBlindIndices(state) : null
+  const buttonAgentId = hand?.seats.find(s => s.seat === hand.buttonSeat)?.agentId // None on a dead button
+
+  const agents = state
+    ? state.players.map((p, index) => {
+        const profile = profiles.find(a => a.agentId === p.agentId)
+        const lastAction = frame.lastActions[p.agentId]
+        return {
+          id: p.agentId,
+          name: p.name,
+          slug: profile?.slug ?? 'unknown',
+          avatarUrl: profile?.avatarUrl || undefined,
+          chipCount: p.chipCount,
+          currentBet: state.isComplete ? 0 : p.currentBet,
+          holeCards: p.holeCards,
+          isFolded: p.isFolded,
+          isAllIn: p.isAllIn,
+          isEliminated: false,
+          lastAction: lastAction?.reasoning,
+          lastActionType: lastAction?.type,
+          lastActionRound: lastAction?.round,
+          seatPosition: p.seatPosition,
+          positionLabel: getPositionLabel(index - state.dealerIndex, state.players.length, state.deadSmallBlind),
+        }
+      })
+    : []
+
+  // Resolved: the award breakdown; otherwise the live pot layers (only when there's more than one)
+  const pots = state?.isComplete
+    ? state.potAwards ?? []
+    : calculatePots((state?.players ?? []).map(p => ({
+        playerId: p.agentId,
+        amount: p.totalContributed,
+        dead: p.antePosted,
+        isFolded: p.isFolded,
+      })))
+
+  const action = frame?.event.type === 'action' ? frame.event : null
+
+  return (
+    <div>
+      {/* Hand picker */}
+      <div className="flex items-center gap-2 mb-4 flex-wrap">
+        <span className="text-[10px] font-bold tracking-widest text-neutral-500">HAND</span>
+        {hands.map((h, i) => (
+          <button
+            key={h.handId}
+            onClick={() => replay.selectHand(i)}
+            className={`w-8 h-8 rounded-md text-xs font-bold transition-colors ${
+              i === handIndex
+                ? 'bg-white text-black'
+                : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white'
+            }`}
+          >
+            {h.handNumber}
+          </button>
+        ))}
+      </div>
+
+      {state ? (
+        <PokerTable
+          // Remount when the hand resolves, so stepping back from the showdown restores the pot
+          key={`${hand?.handId}-${state.isComplete ? 'resolved' : 'live'}`}
+          agents={agents}
+          communityCards={state.communityCards}
+          pot={state.pot}
+          sidePots={pots.length > 1 ? pots : []}
+          round={state.round}
+          activeAgentId={state.players[state.activePlayerIndex]?.agentId}
+          dealerAgentId={buttonAgentId}
+          smallBlindAgentId={blinds?.smallBlindIndex != null ? state.players[blinds.smallBlindIndex].agentId : undefined}
+          bigBlindAgentId={blinds ? state.players[blinds.bigBlindIndex].agentId : undefined}
+          winnerId={state.winnerId}
+          winningHand={state.winningHand}
+          showAgentCards={true}
+          handNumber={hand?.handNumber}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-[400px]">
+          <p className="text-accent-red text-sm">{error?.message ?? 'Hand cannot be replayed'}</p>
+        </div>
+      )}
+
+      {/* Timeline controls */}
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={() => replay.seek(0)}
+          disabled={frames.length === 0}
+          className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-white text-sm disabled:opacity-40"
+          title="First action"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => replay.step(-1)}
+          disabled={frameIndex === 0}
+          className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-white text-sm disabled:opacity-40"
+          title="Previous action"
+        >
+          ◀
+        </button>
+        <button
+          onClick={isPlaying ? replay.pause : replay.play}
+          disabled={frames.length === 0}
+          className="px-4 py-1 rounded-md bg-accent-green hover:bg-accent-green/80 text-white text-sm font-medium disabled:opacity-40"
+        >
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button
+          onClick={() => replay.step(1)}
+          disabled={frameIndex >= frames.length - 1}
+          className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-white text-sm disabled:opacity-40"
+          title="Next action"
+        >
+          ▶
+        </button>
+        <button
+          onClick={() => replay.seek(frames.length - 1)}
+          disabled={frames.length === 0}
+          className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-white text-sm disabled:opacity-40"
+          title="Result"
+        >
+          ⏭
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, frames.length - 1)}
+          value={frameIndex}
+          onChange={e => replay.seek(Number(e.target.value))}
+          disabled={frames.length === 0}
+          className="flex-1 accent-white"
+        />
+        <span className="text-xs text-neutral-500 tabular-nums">
+          {frames.length > 0 ? `${frameIndex + 1}/${frames.length}` : '-'}
+        </span>
+      </div>
+
+      {/* Current step + reasoning */}
+      {frame && (
+        <motion.div
+          key={`${hand?.handId}-${frameIndex}`}
+          initial={{ opacity: 0, y: 4 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 p-4 bg-black rounded-xl border border-neutral-800"
+        >
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm font-medium text-white">{describeFrame(frame, name)}</span>
+            <span className="text-[10px] text-neutral-600 uppercase tracking-wider">{ROUND_LABELS[frame.state.round]}</span>
+          </div>
+          {action?.action.reasoning && (
+            <p className="mt-2 text-xs text-neutral-400 italic">&ldquo;{action.action.reasoning}&rdquo;</p>
+          )}
+          {action?.fallbackReason && (
+            <p className="mt-2 text-[10px] text-neutral-600">Fallback action: {action.fallbackReason}</p>
+          )}
+        </motion.div>
+      )}
+    </div>
+  )
+}
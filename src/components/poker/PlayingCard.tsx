@@ -3,6 +3,7 @@
  * Renders a single playing card with suit and rank
  * 
  * Created: Jan 5, 2026
+ * Updated: Oct 19, 2026 - getHandCardSize fits Omaha's four hole cards in a two-card slot
  * Purpose: Visual card representation for poker table
  */
 
@@ -11,10 +12,12 @@
 import { motion } from 'framer-motion'
 import { CardNotation } from '@/types/poker'
 
+export type CardSize = 'xs' | 'sm' | 'md' | 'lg'
+
 interface PlayingCardProps {
   card?: CardNotation
   faceDown?: boolean
-  size?: 'xs' | 'sm' | 'md' | 'lg'
+  size?: CardSize
   className?: string
   delay?: number
 }
@@ -33,13 +36,24 @@ const SUIT_COLORS: Record<string, string> = {
   s: 'text-gray-900',
 }
 
-const SIZE_CLASSES = {
+const SIZE_CLASSES: Record<CardSize, string> = {
   xs: 'w-7 h-10 text-[10px]',
   sm: 'w-10 h-14 text-sm',
   md: 'w-14 h-20 text-lg',
   lg: 'w-20 h-28 text-2xl',
 }
 
+const SIZE_ORDER: CardSize[] = ['xs', 'sm', 'md', 'lg']
+
+/**
+ * Card size for a hand shown in a slot sized for two cards
+ * Hands of more than two (Omaha) drop one size; overlap them to keep the width
+ */
+export function getHandCardSize(size: CardSize, cardCount: number): CardSize {
+  if (cardCount <= 2) return size
+  return SIZE_ORDER[Math.max(0, SIZE_ORDER.indexOf(size) - 1)]
+}
+
 function parseCard(notation: string): { rank: string; suit: string } {
   // Handle notations like "As", "Kh", "10d", "2c"
   const suit = notation.slice(-1).toLowerCase()
@@ -101,7 +115,7 @@ export function PlayingCard({
 }
 
 // Empty card slot placeholder
-export function CardSlot({ size = 'md' }: { size?: 'xs' | 'sm' | 'md' | 'lg' }) {
+export function CardSlot({ size = 'md' }: { size?: CardSize }) {
   return (
     <div
       className={`
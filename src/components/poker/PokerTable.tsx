@@ -22,11 +22,15 @@
  *                       - 1.5s delay allows viewers to see the last action
  *                       - Pass delayedRound to PlayerBox so badges stay visible during transition
  *                       - Pass handResolved to grey out losers and hide badges when winner shown
+ * Updated: Oct 19, 2026 - Show main/side pot breakdown (and per-pot winners once resolved)
+ * Updated: Oct 19, 2026 - Seats laid out around the oval for 2-9 players (was four fixed corners)
+ *                       - Position label (UTG, CO...) shown for seats without a D/SB/BB chip
+ * Updated: Oct 19, 2026 - Pass the action deadline to the active player's box (countdown)
  */
 
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, type CSSProperties } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { PlayerBox, BetChip } from './AgentCard'
 import { PlayingCard, CardSlot } from './PlayingCard'
@@ -46,12 +50,15 @@ interface Agent {
   lastAction?: string
   lastActionType?: 'fold' | 'check' | 'call' | 'raise' | 'all_in' | 'blind'
   lastActionRound?: Round  // Track which round the action was from
-  seatPosition?: number  // 0=top-left, 1=top-right, 2=bottom-right, 3=bottom-left
+  seatPosition?: number  // Clockwise from top-left
+  positionLabel?: string  // BTN, SB, BB, UTG, ... (players dealt into the hand)
 }
 
 interface SidePot {
   amount: number
   eligiblePlayerIds: string[]
+  winners?: { playerId: string; amount: number }[]  // Present once the hand is resolved
+  winningHand?: string | null
 }
 
 interface PokerTableProps {
@@ -61,6 +68,7 @@ interface PokerTableProps {
   sidePots?: SidePot[]
   round: Round
   activeAgentId?: string
+  actionDeadline?: string  // When the active agent's decision time runs out (ISO)
   dealerAgentId?: string
   smallBlindAgentId?: string
   bigBlindAgentId?: string
@@ -70,6 +78,38 @@ interface PokerTableProps {
   handNumber?: number
 }
 
+interface SeatLayout {
+  playerStyle: CSSProperties  // Player box, relative to the whole table area
+  betStyle: CSSProperties     // Bet chips, relative to the felt
+  chipStyle: CSSProperties    // D/SB/BB chip, relative to the felt
+  target: { x: number; y: number }  // Pot-to-winner animation offset (px from pot)
+  side: 'top' | 'bottom'
+}
+
+/**
+ * Where a seat sits around the oval
+ * Seats go clockwise from the top-left; with four seats this is the classic
+ * corner layout. Tables above six seats shrink the player boxes to fit.
+ */
+function getSeatLayout(seat: number, seatCount: number): SeatLayout {
+  const angle = -Math.PI / 2 - Math.PI / seatCount + (seat * 2 * Math.PI) / seatCount
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const at = (radiusX: number, radiusY: number): CSSProperties => ({
+    left: `${50 + radiusX * cos}%`,
+    top: `${50 + radiusY * sin}%`,
+  })
+  const scale = seatCount > 6 ? 0.8 : 1
+  
+  return {
+    playerStyle: { ...at(38, 40), transform: `translate(-50%, -50%) scale(${scale})` },
+    betStyle: { ...at(38, 36), transform: 'translate(-50%, -50%)' },
+    chipStyle: { ...at(48, 46), transform: 'translate(-50%, -50%)' },
+    target: { x: Math.round(396 * cos), y: Math.round(255 * sin) },
+    side: sin < 0 ? 'top' : 'bottom',
+  }
+}
+
 export function PokerTable({
   agents,
   communityCards,
@@ -77,6 +117,7 @@ export function PokerTable({
   sidePots = [],
   round,
   activeAgentId,
+  actionDeadline,
   dealerAgentId,
   smallBlindAgentId,
   bigBlindAgentId,
@@ -109,50 +150,36 @@ export function PokerTable({
   const [displayedPot, setDisplayedPot] = useState(pot)  // What to show in center (0 after win animation)
   const handHasEnded = useRef(false)  // Track if current hand has ended (winner determined)
   
-  // Corner positions for players - fixed layout
-  const cornerPositions = [
-    { id: 'top-left', containerClass: 'absolute top-4 left-4', betPosition: 'bottom-right' },
-    { id: 'top-right', containerClass: 'absolute top-4 right-4', betPosition: 'bottom-left' },
-    { id: 'bottom-right', containerClass: 'absolute bottom-4 right-4', betPosition: 'top-left' },
-    { id: 'bottom-left', containerClass: 'absolute bottom-4 left-4', betPosition: 'top-right' },
-  ]
-  
-  // Bet chip positions on the table - between player and center (like real poker)
-  const betPositions = [
-    'absolute top-[22%] left-[18%]',      // Top-left player's bet
-    'absolute top-[22%] right-[18%]',     // Top-right player's bet
-    'absolute bottom-[22%] right-[18%]',  // Bottom-right player's bet
-    'absolute bottom-[22%] left-[18%]',   // Bottom-left player's bet
-  ]
-  
-  // Dealer/Blind chip positions on the table - between player box and bet chips
-  const positionChipPositions = [
-    'absolute top-[12%] left-[12%]',      // Top-left player's position chip
-    'absolute top-[12%] right-[12%]',     // Top-right player's position chip
-    'absolute bottom-[12%] right-[12%]',  // Bottom-right player's position chip
-    'absolute bottom-[12%] left-[12%]',   // Bottom-left player's position chip
-  ]
+  // Seat count covers every fixed seat in use, so players keep their seat as others bust
+  const seatCount = Math.max(
+    agents.length,
+    ...agents.map(a => (a.seatPosition ?? -1) + 1)
+  )
+  const seatLayouts = Array.from({ length: seatCount }, (_, seat) => getSeatLayout(seat, seatCount))
   
-  // Create positioned agents array (4 corners) - defined BEFORE effects that use it
-  const agentsByPosition: (Agent | null)[] = [null, null, null, null]
+  // Place agents at their seat; agents without one fill the empty seats in order
+  const agentsByPosition: (Agent | null)[] = new Array(seatCount).fill(null)
   agents.forEach(agent => {
-    const seat = agent.seatPosition ?? agents.indexOf(agent)
-    if (seat >= 0 && seat < 4) {
+    const seat = agent.seatPosition ?? -1
+    if (seat >= 0 && seat < seatCount) {
       agentsByPosition[seat] = agent
     }
   })
   
-  let unpositionedAgents = agents.filter(a => a.seatPosition === undefined)
+  const unpositionedAgents = agents.filter(a => a.seatPosition === undefined)
   agentsByPosition.forEach((agent, i) => {
     if (!agent && unpositionedAgents.length > 0) {
       agentsByPosition[i] = unpositionedAgents.shift()!
     }
   })
   
-  const positionedAgents = agentsByPosition.filter((a): a is Agent => a !== null)
+  const positionedAgents = agentsByPosition
+    .map((agent, seat) => agent && { agent, layout: seatLayouts[seat] })
+    .filter((a): a is { agent: Agent; layout: SeatLayout } => a !== null)
   
   // Calculate the current highest bet on the table (for badge display logic)
-  const tableBet = Math.max(0, ...positionedAgents.map(a => a.currentBet))
+  const tableBet = Math.max(0, ...positionedAgents.map(({ agent }) => agent.currentBet))
+  const winnerLayout = positionedAgents.find(({ agent }) => agent.id === winnerId)?.layout
 
   // Detect new hand and trigger phased animation + reset states
   useEffect(() => {
@@ -315,15 +342,25 @@ export function PokerTable({
       {/* Table Surface */}
       <div className="absolute inset-x-8 inset-y-24 poker-table-bg rounded-[60px] z-0 shadow-2xl">
         {/* Dealer/Blind position chips on table - classy casino aesthetic */}
-        {positionedAgents.map((agent, index) => {
+        {positionedAgents.map(({ agent, layout }) => {
           const isDealer = dealerAgentId === agent.id
           const isSB = smallBlindAgentId === agent.id
           const isBB = bigBlindAgentId === agent.id
           
-          if (!isDealer && !isSB && !isBB) return null
+          if (!isDealer && !isSB && !isBB) {
+            // Other seats just get their position name (UTG, HJ, CO...)
+            if (!agent.positionLabel || agent.isFolded || agent.isEliminated) return null
+            return (
+              <div key={`pos-${agent.id}`} className="absolute" style={layout.chipStyle}>
+                <span className="text-[9px] font-bold tracking-widest text-white/40">
+                  {agent.positionLabel}
+                </span>
+              </div>
+            )
+          }
           
           return (
-            <div key={`pos-${agent.id}`} className={positionChipPositions[index]}>
+            <div key={`pos-${agent.id}`} className="absolute" style={layout.chipStyle}>
               {/* Dealer button - classic ivory/cream casino style */}
               {isDealer && (
                 <motion.div
@@ -447,16 +484,39 @@ export function PokerTable({
               </span>
             </motion.div>
             
+            {/* Pot breakdown - main pot then side pots, with winners once resolved */}
+            {sidePots.length > 1 && (
+              <div className="flex flex-wrap justify-center gap-1.5 mt-1 max-w-[360px]">
+                {sidePots.map((sidePot, index) => {
+                  const winnerNames = (sidePot.winners || [])
+                    .map(w => agents.find(a => a.id === w.playerId)?.name)
+                    .filter(Boolean)
+                  return (
+                    <div
+                      key={`pot-${index}`}
+                      title={sidePot.winningHand || undefined}
+                      className="px-2.5 py-1 bg-neutral-900/80 rounded-full border border-neutral-700 text-[10px] font-bold tracking-widest text-neutral-500"
+                    >
+                      {index === 0 ? 'MAIN' : `SIDE ${index}`}{' '}
+                      <span className="text-white">${sidePot.amount.toLocaleString()}</span>
+                      {winnerNames.length > 0 && (
+                        <span className="text-emerald-400"> → {winnerNames.join(' / ')}</span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            
             {/* Winner animation - chips and amount flowing to winner */}
             <AnimatePresence>
               {potFlowingToWinner && winnerId && (
                 <>
                   {/* Chip trail flowing to winner - classy casino colors */}
                   {[...Array(12)].map((_, i) => {
-                    const winnerIndex = positionedAgents.findIndex(a => a.id === winnerId)
-                    // Calculate target position based on winner's corner
-                    const targetX = winnerIndex === 0 ? -280 : winnerIndex === 1 ? 280 : winnerIndex === 2 ? 280 : -280
-                    const targetY = winnerIndex < 2 ? -180 : 180
+                    // Chips fly toward the winner's seat
+                    const targetX = winnerLayout?.target.x ?? 0
+                    const targetY = winnerLayout?.target.y ?? 0
                     
                     // Classy casino chip colors: ivory, burgundy, navy
                     const chipStyles = [
@@ -489,10 +549,8 @@ export function PokerTable({
                   <motion.div
                     initial={{ x: 0, y: 0, scale: 1, opacity: 1 }}
                     animate={{ 
-                      x: positionedAgents.findIndex(a => a.id === winnerId) === 0 ? -280 :
-                         positionedAgents.findIndex(a => a.id === winnerId) === 1 ? 280 :
-                         positionedAgents.findIndex(a => a.id === winnerId) === 2 ? 280 : -280,
-                      y: positionedAgents.findIndex(a => a.id === winnerId) < 2 ? -180 : 180,
+                      x: winnerLayout?.target.x ?? 0,
+                      y: winnerLayout?.target.y ?? 0,
                       scale: 1.2,
                       opacity: 0,
                     }}
@@ -510,8 +568,8 @@ export function PokerTable({
         </div>
 
         {/* Bet chips on table for each player - positioned near their box */}
-        {positionedAgents.map((agent, index) => (
-          <div key={`bet-${agent.id}`} className={betPositions[index]}>
+        {positionedAgents.map(({ agent, layout }) => (
+          <div key={`bet-${agent.id}`} className="absolute" style={layout.betStyle}>
             <AnimatePresence>
               {agent.currentBet > 0 && !agent.isFolded && !showWinAnimation && (
                 <BetChip amount={agent.currentBet} />
@@ -521,13 +579,13 @@ export function PokerTable({
         ))}
       </div>
 
-      {/* Player boxes at corners */}
-      {positionedAgents.map((agent, index) => {
+      {/* Player boxes around the table */}
+      {positionedAgents.map(({ agent, layout }, index) => {
         // Determine if player is eliminated (explicit flag or chipCount <= 0)
         const isEliminated = agent.isEliminated ?? agent.chipCount <= 0
         
         return (
-          <div key={agent.id} className={cornerPositions[index].containerClass + ' z-20'}>
+          <div key={agent.id} className="absolute z-20" style={layout.playerStyle}>
             <PlayerBox
               name={agent.name}
               slug={agent.slug}
@@ -540,6 +598,7 @@ export function PokerTable({
               isAllIn={agent.isAllIn}
               isEliminated={isEliminated}
               isActive={!isEliminated && dealPhase === 'playing' && activeAgentId === agent.id}  // Never active if eliminated
+              actionDeadline={activeAgentId === agent.id ? actionDeadline : undefined}
               isDealer={dealerAgentId === agent.id}
               isSmallBlind={!isEliminated && smallBlindAgentId === agent.id}  // No blinds for eliminated
               isBigBlind={!isEliminated && bigBlindAgentId === agent.id}  // No blinds for eliminated
@@ -552,7 +611,7 @@ export function PokerTable({
               currentRound={delayedRound}  // Use delayedRound so badges stay visible during transition
               showCards={!isEliminated && showAgentCards && dealPhase !== 'blinds'}  // No cards shown for eliminated
               dealDelay={dealPhase === 'dealing' ? index * 0.3 : 0}
-              position={index < 2 ? 'top' : 'bottom'}
+              position={layout.side}
             />
           </div>
         )
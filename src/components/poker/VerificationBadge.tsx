@@ -6,6 +6,12 @@
  * 
  * Created: January 20, 2026
  * Updated: January 26, 2026 - Changed text to always show "Verified" instead of "Committed"
+ * Updated: October 19, 2026 - Shows the public entropy mixed into the deck seeds
+ * Updated: October 19, 2026 - Shows the action log hash chain result
+ * Updated: October 19, 2026 - Hands count as verified once their play replays; shows the winner check
+ * Updated: October 19, 2026 - Shows whether the entropy block came after the commitment
+ * Updated: October 19, 2026 - Shows whether stacks carry over between hands
+ * Updated: October 19, 2026 - Shows whether the public entropy matches the block's hash on-chain
  */
 
 'use client';
@@ -18,8 +24,37 @@ interface VerificationData {
   commitment: string;
   computedHash: string;
   salt?: string;
+  publicEntropy?: string | null;
+  entropyTiming?: {
+    valid: boolean;
+    commitmentBlock: number | null;
+    entropyBlock: number | null;
+    error?: string;
+  };
+  entropyBlock?: {
+    valid: boolean;
+    entropyBlock: number | null;
+    chainBlockHash: string | null;
+    error?: string;
+  };
   handsVerified?: number;
   handsTotal?: number;
+  continuity?: {
+    valid: boolean;
+    errors: string[];
+  };
+  winner?: {
+    valid: boolean;
+    declared: string | null;
+    chipLeaders: string[];
+  };
+  actionLog?: {
+    valid: boolean;
+    entriesVerified: number;
+    entriesTotal: number;
+    firstDivergence?: { index: number; error: string };
+    error?: string;
+  };
   error?: string;
 }
 
@@ -162,6 +197,35 @@ export function VerificationBadge({
                       </div>
                     )}
 
+                    {/* Public Entropy */}
+                    {verificationData.publicEntropy && (
+                      <div className="bg-black rounded-lg p-3">
+                        <div className="text-xs text-neutral-500 uppercase tracking-wider mb-1">
+                          Public Entropy
+                        </div>
+                        <code className="text-xs text-blue-400 break-all font-mono">
+                          {verificationData.publicEntropy}
+                        </code>
+                        <p className="text-xs text-neutral-500 mt-2">
+                          Block hash of the on-chain game creation, fixed after the commitment. Mixed into every shuffle.
+                        </p>
+                        {verificationData.entropyTiming && (
+                          <p className={`text-xs mt-2 ${verificationData.entropyTiming.valid ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {verificationData.entropyTiming.valid
+                              ? `Block ${verificationData.entropyTiming.entropyBlock}, after the commitment was stored (block ${verificationData.entropyTiming.commitmentBlock}).`
+                              : verificationData.entropyTiming.error}
+                          </p>
+                        )}
+                        {verificationData.entropyBlock && (
+                          <p className={`text-xs mt-1 ${verificationData.entropyBlock.valid ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {verificationData.entropyBlock.valid
+                              ? 'Matches the hash of that block on-chain.'
+                              : verificationData.entropyBlock.error}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Verification Status */}
                     <div className={`rounded-lg p-3 ${
                       verificationData.commitmentValid 
@@ -201,7 +265,45 @@ export function VerificationBadge({
                           {verificationData.handsVerified} / {verificationData.handsTotal}
                         </div>
                         <p className="text-xs text-neutral-500 mt-1">
-                          All dealt cards match the deterministic shuffle from the salt.
+                          Dealt cards match the deterministic shuffle from the salt, and replaying every
+                          action reaches the recorded showdowns, pots and stacks.
+                        </p>
+                        {verificationData.continuity && (
+                          <p className={`text-xs mt-1 ${
+                            verificationData.continuity.valid ? 'text-neutral-500' : 'text-red-400'
+                          }`}>
+                            {verificationData.continuity.valid
+                              ? 'Every hand starts on the stacks the previous one ended with.'
+                              : verificationData.continuity.errors[0]}
+                          </p>
+                        )}
+                        {verificationData.winner && (
+                          <p className={`text-xs mt-1 ${
+                            verificationData.winner.valid ? 'text-neutral-500' : 'text-red-400'
+                          }`}>
+                            {verificationData.winner.valid
+                              ? 'The declared winner finished as chip leader.'
+                              : 'The declared winner did not finish as chip leader.'}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Action Log Chain */}
+                    {verificationData.actionLog && (
+                      <div className="bg-black rounded-lg p-3">
+                        <div className="text-xs text-neutral-500 uppercase tracking-wider mb-1">
+                          Action Log
+                        </div>
+                        <div className={`text-lg font-bold ${
+                          verificationData.actionLog.valid ? 'text-white' : 'text-red-400'
+                        }`}>
+                          {verificationData.actionLog.entriesVerified} / {verificationData.actionLog.entriesTotal}
+                        </div>
+                        <p className="text-xs text-neutral-500 mt-1">
+                          {verificationData.actionLog.valid
+                            ? 'Every action links to the one before it and matches the digests published during the game.'
+                            : verificationData.actionLog.firstDivergence?.error ?? verificationData.actionLog.error}
                         </p>
                       </div>
                     )}
@@ -218,6 +320,7 @@ export function VerificationBadge({
                       <li>• A random salt was generated before the game started</li>
                       <li>• The commitment hash (shown above) was published</li>
                       <li>• All card shuffles are determined by: salt + hand number</li>
+                      <li>• On-chain games also mix in the creation block hash, which didn&apos;t exist when the salt was committed</li>
                       <li>• After the game, the salt is revealed so anyone can verify</li>
                     </ul>
                   </div>
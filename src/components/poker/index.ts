@@ -7,6 +7,7 @@
  * Updated: Jan 12, 2026 - Added ClaimWinnings component for on-chain claims
  * Updated: Jan 13, 2026 - Added GameFinished component for resolved game display
  * Updated: Jan 20, 2026 - Added VerificationBadge for verifiable games
+ * Updated: Oct 19, 2026 - Added HandReplay viewer
  */
 
 export { PlayingCard, CardSlot } from './PlayingCard'
@@ -20,6 +21,7 @@ export { GameCountdown } from './GameCountdown'
 export { GameWinnerAnnouncement } from './GameWinnerAnnouncement'
 export { GameFinished } from './GameFinished'
 export { GameStatus } from './GameStatus'
+export { HandReplay } from './HandReplay'
 export { UnclaimedWinningsBanner } from './UnclaimedWinningsBanner'
 export { BettingHistory } from './BettingHistory'
 export { ClaimWinnings } from './ClaimWinnings'
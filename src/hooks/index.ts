@@ -6,6 +6,7 @@
  * Updated: Jan 9, 2026 - Added useWalletBalance hook for USDC balance display
  * Updated: Jan 10, 2026 - Added useGameSession hook for 25-hand game loop
  * Updated: Jan 14, 2026 - Added useUserBets hook for real betting history
+ * Updated: Oct 19, 2026 - Added useHandReplay hook for the hand replay viewer
  * Purpose: Barrel export for clean imports
  */
 
@@ -21,3 +22,6 @@ export { useWalletBalance } from './useWalletBalance'
 
 export { useUserBets } from './useUserBets'
 export type { UserBet } from './useUserBets'
+
+export { useHandReplay } from './useHandReplay'
+export type { HandReplayState } from './useHandReplay'
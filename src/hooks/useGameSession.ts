@@ -27,6 +27,9 @@
  *                        - This ensures correct final standings display
  * Updated: Feb 16, 2026 - Added chain_id filter to game queries
  *                        - Prevents testnet games showing when running on mainnet and vice versa
+ * Updated: Oct 19, 2026 - Exposes the game's blind structure and current/next blind level
+ * Updated: Oct 19, 2026 - Exposes the game's betting structure
+ * Updated: Oct 19, 2026 - Exposes the game's variant (Hold'em / Omaha)
  * 
  * Features:
  * - Game countdown timer (5 minutes between games)
@@ -40,7 +43,10 @@ import { useEffect, useState, useCallback, useRef } from 'react'
 import { getSupabaseClient } from '@/lib/supabase/client'
 import { getCurrentConfig } from '@/lib/contracts/config'
 import type { Database, Game, Agent, SpectatorBet } from '@/types/database'
-import type { GameSession, AgentStanding, GameBettingPool, UserGameBet, GameSessionStatus } from '@/types/poker'
+import type { GameSession, AgentStanding, GameBettingPool, UserGameBet, GameSessionStatus, BlindLevel, BlindStructure } from '@/types/poker'
+import { getBlindLevel, getNextBlindLevel } from '@/lib/poker/blinds'
+import { parseBettingStructure } from '@/lib/poker/betting'
+import { parseGameVariant } from '@/lib/poker/variants'
 
 // =============================================================================
 // EGRESS OPTIMIZATION: Column selections
@@ -50,7 +56,7 @@ import type { GameSession, AgentStanding, GameBettingPool, UserGameBet, GameSess
 const AGENT_COLUMNS = 'id, name, slug, avatar_url, chip_count'
 
 // Game columns - all needed for session state (including deck_commitment for verification)
-const GAME_COLUMNS = 'id, lobby_id, game_number, status, current_hand_number, max_hands, betting_closes_after_hand, winner_agent_id, scheduled_start_at, started_at, betting_closed_at, resolved_at, created_at, on_chain_game_id, deck_commitment'
+const GAME_COLUMNS = 'id, lobby_id, game_number, status, current_hand_number, max_hands, betting_closes_after_hand, winner_agent_id, scheduled_start_at, started_at, betting_closed_at, resolved_at, created_at, on_chain_game_id, deck_commitment, blind_structure, betting_structure, variant'
 
 // Spectator bet columns for pool calculation
 const BET_POOL_COLUMNS = 'agent_id, amount'
@@ -104,6 +110,8 @@ export interface GameSessionState {
     maxHands: number
     bettingClosesAfterHand: number
     isBettingOpen: boolean
+    blindLevel: BlindLevel | null // Level for the current hand (null for flat-blind games)
+    nextBlindLevel: BlindLevel | null
   }
   
   // Winner (for resolved games)
@@ -482,8 +490,15 @@ export function useGameSession(options: UseGameSessionOptions = {}): UseGameSess
         createdAt: currentGame.created_at,
         onChainGameId: currentGame.on_chain_game_id ?? null,
         deckCommitment: (currentGame as { deck_commitment?: string | null }).deck_commitment ?? null,
+        blindStructure: (currentGame.blind_structure as unknown as BlindStructure | null) ?? null,
+        bettingStructure: parseBettingStructure(currentGame.betting_structure),
+        variant: parseGameVariant(currentGame.variant),
       } : null
 
+      // Before the first hand is dealt, show the level hand 1 will use
+      const blindStructure = gameSession?.blindStructure ?? null
+      const blindHand = Math.max(1, currentGame?.current_hand_number || 0)
+
       setSession({
         game: gameSession,
         status: gameStatus,
@@ -497,6 +512,8 @@ export function useGameSession(options: UseGameSessionOptions = {}): UseGameSess
           maxHands: currentGame?.max_hands || 25,
           bettingClosesAfterHand: currentGame?.betting_closes_after_hand || 5,
           isBettingOpen: gameStatus === 'waiting' || gameStatus === 'betting_open',
+          blindLevel: blindStructure ? getBlindLevel(blindStructure, blindHand) : null,
+          nextBlindLevel: blindStructure ? getNextBlindLevel(blindStructure, blindHand) : null,
         },
         winner,
       })
@@ -26,14 +26,27 @@
  *                        - Added isEliminated flag to PlayerState for UI display
  *                        - When hand status changes to 'resolved', always re-fetch agents
  *                        - This ensures chip counts and eliminations update immediately
+ * Updated: Oct 19, 2026 - Added per-street hand equity (winProbability) to BettingOdds
+ * Updated: Oct 19, 2026 - Side pots from the shared pot engine (total_contributed), with
+ *                        per-pot winners from hands.pot_awards once resolved
+ * Updated: Oct 19, 2026 - Any number of seated agents (2-9): blinds follow the engine's
+ *                        heads-up rules and each player gets a position label (BTN, UTG, CO...)
+ * Updated: Oct 19, 2026 - Omaha hands (four hole cards) get Omaha equity
+ * Updated: Oct 19, 2026 - Dead button / dead small blind (no dealer or SB marker on an empty seat)
+ * Updated: Oct 19, 2026 - actionDeadline: when the active player's decision time runs out
+ * Updated: Oct 19, 2026 - Equity follows the game's stored variant (variant option)
  * Purpose: Subscribe to hands, hand_agents, and agent_actions for live updates
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react'
 import { getSupabaseClient } from '@/lib/supabase/client'
 import type { Hand, HandAgent, AgentAction, Agent, Lobby } from '@/types/database'
-import type { Round, BettingOdds, CardNotation } from '@/types/poker'
-import { probabilityToOdds } from '@/lib/poker/game-engine'
+import type { Round, BettingOdds, CardNotation, GameVariant, PotAward } from '@/types/poker'
+import { probabilityToOdds, getBlindIndices } from '@/lib/poker/game-engine'
+import { getPositionLabel } from '@/lib/poker/positions'
+import { getDealerIndex } from '@/lib/poker/seats'
+import { calculateEquity } from '@/lib/poker/equity'
+import { calculatePots } from '@/lib/poker/pots'
 
 // =============================================================================
 // EGRESS OPTIMIZATION: Column selections to avoid fetching unnecessary data
@@ -43,10 +56,10 @@ import { probabilityToOdds } from '@/lib/poker/game-engine'
 const AGENT_COLUMNS = 'id, name, slug, avatar_url, chip_count, seat_position, created_at'
 
 // Hand columns - all needed for game state
-const HAND_COLUMNS = 'id, lobby_id, game_id, hand_number, status, community_cards, pot_amount, winner_agent_id, winning_hand, betting_closes_at, resolved_at, created_at, current_round, dealer_position, active_agent_id'
+const HAND_COLUMNS = 'id, lobby_id, game_id, hand_number, status, community_cards, pot_amount, winner_agent_id, winning_hand, betting_closes_at, resolved_at, created_at, current_round, dealer_position, small_blind_position, active_agent_id, action_deadline, pot_awards'
 
 // Hand agent columns - all needed
-const HAND_AGENT_COLUMNS = 'id, hand_id, agent_id, seat_position, hole_cards, chip_count, current_bet, is_folded, is_all_in'
+const HAND_AGENT_COLUMNS = 'id, hand_id, agent_id, seat_position, hole_cards, chip_count, current_bet, total_contributed, ante_posted, is_folded, is_all_in'
 
 // Agent action columns - truncate reasoning if too long in transform
 const ACTION_COLUMNS = 'id, hand_id, agent_id, action_type, amount, reasoning, round, created_at'
@@ -57,6 +70,9 @@ const BET_COLUMNS = 'agent_id, amount'
 // Debounce delay in ms - batches rapid updates
 const DEBOUNCE_MS = 100
 
+// Monte Carlo iterations for preflop hand equity (later streets are enumerated)
+const EQUITY_ITERATIONS = 1000
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -65,6 +81,8 @@ const DEBOUNCE_MS = 100
 export interface SidePot {
   amount: number
   eligiblePlayerIds: string[]
+  winners?: { playerId: string; amount: number }[]  // Set once the hand is resolved
+  winningHand?: string | null
 }
 
 export interface GameState {
@@ -80,6 +98,7 @@ export interface GameState {
   // Players
   players: PlayerState[]
   activePlayerId: string | null
+  actionDeadline: string | null  // When the active player's time (budget + time bank) runs out
   dealerPlayerId: string | null
   smallBlindPlayerId: string | null
   bigBlindPlayerId: string | null
@@ -108,6 +127,7 @@ export interface PlayerState {
   isAllIn: boolean
   isEliminated: boolean  // True if player has 0 chips (bust)
   seatPosition: number
+  positionLabel?: string  // BTN, SB, BB, UTG, ... for players dealt into the hand
   lastAction?: string
   lastActionType?: 'fold' | 'check' | 'call' | 'raise' | 'all_in' | 'blind'
   lastActionRound?: Round  // Track which round the action was from (for resetting badges)
@@ -131,6 +151,7 @@ export interface GameAction {
 interface UseGameStateOptions {
   lobbyId?: string
   gameId?: string  // When provided, queries hands by game_id for per-game hand tracking
+  variant?: GameVariant  // The game's variant (games.variant) - equity waits until it's known
 }
 
 interface UseGameStateReturn {
@@ -151,6 +172,7 @@ const initialGameState: GameState = {
   sidePots: [],
   players: [],
   activePlayerId: null,
+  actionDeadline: null,
   dealerPlayerId: null,
   smallBlindPlayerId: null,
   bigBlindPlayerId: null,
@@ -345,6 +367,14 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
       }
     }
     
+    // Button and blinds over the seats dealt in (hand_agents is ordered by seat)
+    // A dead button or small blind sits on a seat nobody was dealt in from
+    const dealerPosition = currentHand.dealer_position ?? 0
+    const handSeats = handAgents.map(ha => ha.seat_position)
+    const dealerIndex = handSeats.length > 0 ? getDealerIndex(handSeats, dealerPosition) : 0
+    const deadSmallBlind = currentHand.small_blind_position != null && !handSeats.includes(currentHand.small_blind_position)
+    const seatedCount = handAgents.length
+    
     const players: PlayerState[] = freshAgentList.map((agent) => {
       // Check if this agent is participating in the current hand
       const ha = handAgents.find(h => h.agent_id === agent.id)
@@ -384,6 +414,9 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
         isAllIn: isInHand ? ha!.is_all_in : false,
         isEliminated,
         seatPosition: ha?.seat_position ?? agent.seat_position ?? 0,
+        positionLabel: isInHand
+          ? getPositionLabel(handAgents.indexOf(ha!) - dealerIndex, seatedCount, deadSmallBlind)
+          : undefined,
         lastAction: reasoning,
         lastActionType: lastAction?.action_type,
         lastActionRound: lastAction?.round as Round | undefined,
@@ -402,41 +435,59 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
 
     const totalPool = Array.from(betsByAgent.values()).reduce((sum, b) => sum + b.total, 0)
 
+    const communityCards = (currentHand.community_cards || []) as CardNotation[]
+    const round: Round = (currentHand.current_round as Round) || 'preflop'
+    
+    const visibleCardCount = 
+      round === 'preflop' ? 0 :
+      round === 'flop' ? 3 :
+      round === 'turn' ? 4 :
+      round === 'river' ? 5 : 0
+    const visibleCommunityCards = communityCards.slice(0, visibleCardCount)
+
+    // Hand equity from the cards visible on this street (folded hands are dead cards)
+    const contenders = players.filter(p => !p.isEliminated && !p.isFolded && p.holeCards.length > 0)
+    const variant = options.variant
+    const equityByAgent = new Map<string, number>()
+    if (isHandResolved) {
+      if (currentHand.winner_agent_id) equityByAgent.set(currentHand.winner_agent_id, 1)
+    } else if (contenders.length > 0 && variant) {
+      const equities = calculateEquity(
+        contenders.map(p => ({ playerId: p.agentId, holeCards: p.holeCards })),
+        visibleCommunityCards,
+        {
+          deadCards: players.filter(p => p.isFolded).flatMap(p => p.holeCards),
+          iterations: EQUITY_ITERATIONS,
+          variant,
+        }
+      )
+      equities.forEach(e => equityByAgent.set(e.playerId, e.equity))
+    }
+
     const odds: BettingOdds[] = players.map(p => {
       const bets = betsByAgent.get(p.agentId) || { total: 0, count: 0 }
-      const winProbability = totalPool > 0 ? bets.total / totalPool : 1 / players.length
+      const poolShare = totalPool > 0 ? bets.total / totalPool : 1 / players.length
       return {
         agentId: p.agentId,
         agentName: p.name,
-        odds: probabilityToOdds(winProbability),
+        odds: probabilityToOdds(poolShare),
         totalBets: bets.total,
         betCount: bets.count,
+        winProbability: equityByAgent.get(p.agentId) ?? 0,
       }
     })
 
-    const communityCards = (currentHand.community_cards || []) as CardNotation[]
-    const round: Round = (currentHand.current_round as Round) || 'preflop'
-    
-    const visibleCardCount = 
-      round === 'preflop' ? 0 :
-      round === 'flop' ? 3 :
-      round === 'turn' ? 4 :
-      round === 'river' ? 5 : 0
-    const visibleCommunityCards = communityCards.slice(0, visibleCardCount)
 
     const activePlayerId = currentHand.active_agent_id || null
     
-    const dealerPosition = currentHand.dealer_position ?? 0
-    const numPlayers = players.length
-    const dealerPlayer = players.find(p => p.seatPosition === dealerPosition)
-    const dealerPlayerId = dealerPlayer?.agentId || null
+    const dealerPlayerId = handAgents.find(ha => ha.seat_position === dealerPosition)?.agent_id || null
     
-    const sbPosition = (dealerPosition + 1) % numPlayers
-    const bbPosition = (dealerPosition + 2) % numPlayers
-    const sbPlayer = players.find(p => p.seatPosition === sbPosition)
-    const bbPlayer = players.find(p => p.seatPosition === bbPosition)
-    const smallBlindPlayerId = sbPlayer?.agentId || null
-    const bigBlindPlayerId = bbPlayer?.agentId || null
+    // Heads-up the button posts the small blind (same rule as the engine)
+    const blinds = seatedCount >= 2
+      ? getBlindIndices({ players: handAgents, dealerIndex, deadSmallBlind })
+      : null
+    const smallBlindPlayerId = blinds?.smallBlindIndex != null ? handAgents[blinds.smallBlindIndex].agent_id : null
+    const bigBlindPlayerId = blinds ? handAgents[blinds.bigBlindIndex].agent_id : null
 
     // Transform actions for UI
     const transformedActions: GameAction[] = (handActions || []).map((a: AgentAction) => {
@@ -474,39 +525,20 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
       })
     }
 
-    // Calculate side pots
+    // Side pots: the resolved hand's award breakdown, otherwise the live pot layers
+    // from total contributions (only shown when there's more than one pot)
     const calculateSidePots = (): SidePot[] => {
-      if (players.length === 0) return []
-      
-      const activePlayers = players.filter(p => !p.isFolded)
-      if (activePlayers.length === 0) return []
-      
-      const allInPlayers = activePlayers.filter(p => p.isAllIn)
-      if (allInPlayers.length === 0) return []
-      
-      const allInAmounts = allInPlayers.map(p => p.currentBet)
-      const maxBet = Math.max(...activePlayers.map(p => p.currentBet))
-      const minAllIn = Math.min(...allInAmounts)
-      
-      if (maxBet === minAllIn) return []
-      
-      const pots: SidePot[] = []
-      const sortedBets = [...new Set(activePlayers.map(p => p.currentBet))].sort((a, b) => a - b)
-      let previousLevel = 0
-      
-      for (const betLevel of sortedBets) {
-        const eligiblePlayers = activePlayers.filter(p => p.currentBet >= betLevel)
-        const increment = betLevel - previousLevel
-        
-        if (increment > 0 && eligiblePlayers.length > 0) {
-          pots.push({
-            amount: increment * eligiblePlayers.length,
-            eligiblePlayerIds: eligiblePlayers.map(p => p.agentId)
-          })
-        }
-        previousLevel = betLevel
+      const potAwards = currentHand.pot_awards as unknown as PotAward[] | null
+      if (isHandResolved && potAwards) {
+        return potAwards.length > 1 ? potAwards : []
       }
       
+      const pots = calculatePots(handAgents.map(ha => ({
+        playerId: ha.agent_id,
+        amount: Number(ha.total_contributed) || 0,
+        dead: Number(ha.ante_posted) || 0,
+        isFolded: ha.is_folded,
+      })))
       return pots.length > 1 ? pots : []
     }
     
@@ -522,6 +554,7 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
       sidePots,
       players,
       activePlayerId,
+      actionDeadline: activePlayerId ? currentHand.action_deadline : null,
       dealerPlayerId,
       smallBlindPlayerId,
       bigBlindPlayerId,
@@ -535,7 +568,7 @@ export function useGameState(options: UseGameStateOptions = {}): UseGameStateRet
 
     setActions(transformedActions)
     setIsLoading(false)
-  }, [supabase, options.lobbyId, options.gameId])
+  }, [supabase, options.lobbyId, options.gameId, options.variant])
 
   // Initial data fetch
   const refresh = useCallback(async () => {
@@ -0,0 +1,206 @@
+/**
+ * useHandReplay Hook
+ * Step-through replay of a game's resolved hands
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Loads the game's hand histories (GET /api/v1/games/:id/hands) and
+ *          turns the selected hand into replay frames (lib/poker/replay).
+ *          Finished games reveal their salt, so their hands replay from the
+ *          real deck. Play/pause advances one frame per step; step/seek and
+ *          the hand picker drive it by hand.
+ */
+
+import { useEffect, useState, useCallback, useMemo } from 'react'
+import type { HandHistory } from '@/lib/poker/hand-history'
+import { buildReplay, type ReplayFrame } from '@/lib/poker/replay'
+import { getDeckForHand, parseShuffleVersion, type ShuffleVersion } from '@/lib/poker/verifiable'
+import type { GameAction } from './useGameState'
+
+const STEP_MS = 1500 // Time per frame while playing
+
+interface UseHandReplayOptions {
+  enabled: boolean
+  revealDeck?: boolean // Replay from the revealed deck (finished games only)
+  agents?: { agentId: string; slug: string }[] // Slugs for the action feed
+}
+
+export interface HandReplayState {
+  hands: HandHistory[]
+  hand: HandHistory | null
+  handIndex: number
+  frames: ReplayFrame[]
+  frame: ReplayFrame | null
+  frameIndex: number
+  actions: GameAction[] // Feed up to the current frame, newest first
+  isPlaying: boolean
+  isLoading: boolean
+  error: Error | null
+  selectHand: (index: number) => void
+  seek: (index: number) => void
+  step: (delta: number) => void
+  play: () => void
+  pause: () => void
+  refresh: () => Promise<void>
+}
+
+export function useHandReplay(gameId: string, options: UseHandReplayOptions): HandReplayState {
+  const { enabled, revealDeck = false, agents = [] } = options
+  const [hands, setHands] = useState<HandHistory[]>([])
+  const [salt, setSalt] = useState<string | null>(null)
+  const [shuffleVersion, setShuffleVersion] = useState<ShuffleVersion>(parseShuffleVersion(null))
+  const [publicEntropy, setPublicEntropy] = useState<string | null>(null)
+  const [handIndex, setHandIndex] = useState(0)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/v1/games/${gameId}/hands`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load hand histories')
+      setHands(data.hands as HandHistory[])
+
+      if (revealDeck) {
+        const verify = await fetch(`/api/games/${gameId}/verify`).then(r => r.json())
+        setSalt(verify.verification?.salt ?? null)
+        setShuffleVersion(parseShuffleVersion(verify.verification?.shuffleVersion))
+        setPublicEntropy(verify.verification?.publicEntropy ?? null)
+      }
+      setLoadError(null)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err : new Error('Failed to load hand histories'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [gameId, revealDeck])
+
+  useEffect(() => {
+    if (enabled) refresh()
+  }, [enabled, refresh])
+
+  const hand = hands[handIndex] ?? null
+
+  // A hand that won't replay (e.g. recorded before every action was logged) shows as an error
+  const replay = useMemo((): { frames: ReplayFrame[]; error: Error | null } => {
+    if (!hand) return { frames: [], error: null }
+    try {
+      const deck = salt ? getDeckForHand(salt, hand.handNumber, shuffleVersion, publicEntropy) : undefined
+      return { frames: buildReplay(hand, deck), error: null }
+    } catch (err) {
+      return { frames: [], error: err instanceof Error ? err : new Error('Hand cannot be replayed') }
+    }
+  }, [hand, salt, shuffleVersion, publicEntropy])
+
+  const { frames } = replay
+  const lastFrame = Math.max(0, frames.length - 1)
+  const frame = frames[Math.min(frameIndex, lastFrame)] ?? null
+
+  // Advance while playing, stopping on the hand's last frame
+  useEffect(() => {
+    if (!isPlaying) return
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setFrameIndex(i => i + 1), STEP_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, frameIndex, lastFrame])
+
+  const selectHand = useCallback((index: number) => {
+    setHandIndex(index)
+    setFrameIndex(0)
+    setIsPlaying(false)
+  }, [])
+
+  const seek = useCallback((index: number) => {
+    setFrameIndex(Math.max(0, Math.min(index, lastFrame)))
+  }, [lastFrame])
+
+  const step = useCallback((delta: number) => {
+    setIsPlaying(false)
+    setFrameIndex(i => Math.max(0, Math.min(i + delta, lastFrame)))
+  }, [lastFrame])
+
+  const play = useCallback(() => {
+    // Playing from the end starts the hand over
+    if (frameIndex >= lastFrame) setFrameIndex(0)
+    setIsPlaying(true)
+  }, [frameIndex, lastFrame])
+
+  const pause = useCallback(() => setIsPlaying(false), [])
+
+  const actions = useMemo((): GameAction[] => {
+    if (!hand || !frame) return []
+    const timestamp = hand.playedAt ?? ''
+    const seat = (agentId: string) => hand.seats.find(s => s.agentId === agentId)
+    const slug = (agentId: string) => agents.find(a => a.agentId === agentId)?.slug ?? 'unknown'
+
+    const feed: GameAction[] = hand.streets[0]?.actions
+      .filter(a => a.type === 'blind')
+      .map((a, i) => ({
+        id: `${hand.handId}-blind-${i}`,
+        agentName: seat(a.agentId)?.name ?? 'Unknown',
+        agentSlug: slug(a.agentId),
+        actionType: 'blind' as const,
+        amount: a.amount ?? null,
+        reasoning: undefined,
+        round: 'preflop' as const,
+        timestamp,
+      })) ?? []
+
+    frames.slice(1, frames.indexOf(frame) + 1).forEach((f, i) => {
+      if (f.event.type === 'action') {
+        feed.push({
+          id: `${hand.handId}-${i}`,
+          agentName: seat(f.event.agentId)?.name ?? 'Unknown',
+          agentSlug: slug(f.event.agentId),
+          actionType: f.event.action.type,
+          amount: f.event.action.amount ?? null,
+          reasoning: f.event.action.reasoning,
+          round: f.state.round,
+          timestamp,
+        })
+      }
+      if (f.event.type === 'showdown' && f.state.winnerId) {
+        const winner = seat(f.state.winnerId)
+        feed.push({
+          id: `${hand.handId}-win`,
+          agentName: winner?.name ?? 'Unknown',
+          agentSlug: slug(f.state.winnerId),
+          actionType: 'win',
+          amount: f.state.winnings?.[f.state.winnerId] ?? null,
+          reasoning: undefined,
+          round: f.state.round,
+          timestamp,
+          winningHand: f.state.winningHand,
+          holeCards: winner?.holeCards,
+          potAmount: f.state.winnings?.[f.state.winnerId],
+        })
+      }
+    })
+
+    return feed.reverse()
+  }, [hand, frame, frames, agents])
+
+  return {
+    hands,
+    hand,
+    handIndex,
+    frames,
+    frame,
+    frameIndex: Math.min(frameIndex, lastFrame),
+    actions,
+    isPlaying,
+    isLoading,
+    error: loadError ?? replay.error,
+    selectHand,
+    seek,
+    step,
+    play,
+    pause,
+    refresh,
+  }
+}
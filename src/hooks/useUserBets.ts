@@ -11,6 +11,7 @@
  * Updated: Jan 16, 2026 - CRITICAL FIX: Corrected getGame return struct field order
  *                         to match ABI (totalPool, agentPools, winnerAgentId, status)
  * Updated: Jan 16, 2026 - Simplified payout calculation using pool ratios to avoid NaN
+ * Updated: Oct 19, 2026 - Contract reads and per-agent loops use the network's agent count
  * Purpose: Connect Bets page to real on-chain betting data
  * 
  * Features:
@@ -27,6 +28,9 @@ import { getContract, readContract } from 'thirdweb'
 import { thirdwebClient as client } from '@/lib/thirdweb-client'
 import { 
   getContractAddresses,
+  getAgentName,
+  getGameMethod,
+  getUserBetsMethod,
   GameStatus,
   USDC_DECIMALS,
 } from '@/lib/contracts'
@@ -68,9 +72,6 @@ interface UseUserBetsReturn {
   }
 }
 
-// Agent names mapping (matches contract indices)
-const AGENT_NAMES = ['Chamath', 'Sacks', 'Jason', 'Friedberg']
-
 export function useUserBets(): UseUserBetsReturn {
   const account = useActiveAccount()
   const chain = useActiveWalletChain()
@@ -181,6 +182,7 @@ export function useUserBets(): UseUserBetsReturn {
       // Iterate through all games to find user's bets
       // Note: Contract uses 0-indexed game IDs
       const userBets: UserBet[] = []
+      const agentCount = getCurrentConfig().agentCount
       
       for (let gameId = 0; gameId < totalGamesNum; gameId++) {
         try {
@@ -189,7 +191,7 @@ export function useUserBets(): UseUserBetsReturn {
           try {
             betsResult = await readContract({
               contract,
-              method: "function getUserBets(uint256 gameId, address user) view returns ((uint256[4] agentBets, uint256 totalBet))",
+              method: getUserBetsMethod(agentCount),
               params: [BigInt(gameId), walletAddress],
             })
           } catch (err) {
@@ -204,12 +206,12 @@ export function useUserBets(): UseUserBetsReturn {
           if (totalBet === 0) continue
 
           // Get game info
-          // ABI struct order: totalPool, agentPools[4], winnerAgentId, status, createdAt, resolvedAt
+          // ABI struct order: totalPool, agentPools[N], winnerAgentId, status, createdAt, resolvedAt
           let gameResult
           try {
             gameResult = await readContract({
               contract,
-              method: "function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[4] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))",
+              method: getGameMethod(agentCount),
               params: [BigInt(gameId)],
             })
           } catch (err) {
@@ -261,8 +263,10 @@ export function useUserBets(): UseUserBetsReturn {
           }
 
           // Create bet entries for each agent the user bet on
-          for (let agentIdx = 0; agentIdx < 4; agentIdx++) {
-            const agentBetAmount = Number(betsResult.agentBets[agentIdx]) / (10 ** USDC_DECIMALS)
+          const agentBets = betsResult.agentBets as readonly bigint[]
+          const agentPools = gameResult.agentPools as readonly bigint[]
+          for (let agentIdx = 0; agentIdx < agentCount; agentIdx++) {
+            const agentBetAmount = Number(agentBets[agentIdx] ?? 0n) / (10 ** USDC_DECIMALS)
             
             if (agentBetAmount > 0) {
               // Determine bet status
@@ -274,7 +278,7 @@ export function useUserBets(): UseUserBetsReturn {
                   status = 'won'
                   // Calculate payout from pool data (works for both claimed and unclaimed)
                   const totalPool = Number(gameResult.totalPool) / (10 ** USDC_DECIMALS)
-                  const winnerPool = Number(gameResult.agentPools[winnerAgentId]) / (10 ** USDC_DECIMALS)
+                  const winnerPool = Number(agentPools[winnerAgentId] ?? 0n) / (10 ** USDC_DECIMALS)
                   
                   if (winnerPool > 0 && totalPool > 0) {
                     // User's share of the winning pool
@@ -312,7 +316,7 @@ export function useUserBets(): UseUserBetsReturn {
                 onChainGameId: gameId,
                 gameNumber: gameMeta.gameNumber,
                 agentId: agentIdx,
-                agentName: AGENT_NAMES[agentIdx],
+                agentName: getAgentName(agentIdx),
                 amount: agentBetAmount,
                 status,
                 payoutAmount,
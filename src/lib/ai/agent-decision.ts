@@ -1,17 +1,48 @@
 /**
  * AI Agent Decision Making
- * Uses Claude to generate poker decisions for AI agents
+ * Uses each agent's configured LLM to generate poker decisions
  * 
  * Created: Jan 6, 2026
  * Updated: Jan 22, 2026 - Migrated from Claude 3.5 Haiku to Claude Haiku 4.5
+ * Updated: Oct 19, 2026 - Model comes from the per-agent model registry
+ * Updated: Oct 19, 2026 - Schema-validated decisions with bounded re-prompting and fallback reason codes
+ * Updated: Oct 19, 2026 - Decisions carry telemetry (model, latency, tokens, estimated cost)
+ * Updated: Oct 19, 2026 - Opponent descriptions include observed stats (VPIP, PFR, AF, fold to c-bet, showdowns)
+ * Updated: Oct 19, 2026 - Prompt includes the agent's memory of earlier hands this game
+ * Updated: Oct 19, 2026 - Bot models (lib/bots) decide without a provider call
+ * Updated: Oct 19, 2026 - Prompt describes the game's betting structure and raise range
+ * Updated: Oct 19, 2026 - Omaha prompts (four hole cards, must use exactly two)
+ * Updated: Oct 19, 2026 - Optional time limit: the request is aborted and the agent checks or folds
  * Purpose: Generate intelligent poker decisions with personality-driven reasoning
  */
 
-import { generateText } from 'ai'
-import { anthropic } from '@ai-sdk/anthropic'
-import type { DecisionContext, AgentDecision, OpponentState, RecentAction } from '@/types/agents'
+import { generateText, NoObjectGeneratedError, Output, type LanguageModelUsage, type ModelMessage } from 'ai'
+import { z } from 'zod'
+import type { DecisionContext, AgentDecision, AgentConfig, DecisionFallbackReason, ObservedStyle, OpponentState, RecentAction } from '@/types/agents'
 import { AGENT_PERSONALITIES, POKER_BASE_PROMPT } from '@/types/agents'
 import type { PlayerAction, ActionType } from '@/types/poker'
+import { estimateCostUsd, getModelConfig, resolveModel } from './models'
+import { formatMemory } from './memory'
+import { getBotDecision, isBotStrategy } from '@/lib/bots'
+import { BETTING_LIMIT_LABELS } from '@/lib/poker/betting'
+import { GAME_VARIANT_LABELS } from '@/lib/poker/variants'
+
+// Model calls per decision before falling back (first try + re-prompts)
+const MAX_DECISION_ATTEMPTS = 3
+
+// Shape every model must answer with
+const decisionSchema = z.object({
+  action: z.enum(['fold', 'check', 'call', 'raise', 'all_in']),
+  amount: z.number().nullable().describe('Total bet for this round when raising, otherwise null'),
+  reasoning: z.string(),
+  confidence: z.number().describe('0.0 to 1.0'),
+})
+
+type RawDecision = z.infer<typeof decisionSchema>
+
+type DecisionCheck =
+  | { ok: true; action: PlayerAction }
+  | { ok: false; reason: DecisionFallbackReason; message: string }
 
 // Build the decision prompt for Claude
 function buildDecisionPrompt(context: DecisionContext, agentSlug: string): string {
@@ -21,12 +52,14 @@ function buildDecisionPrompt(context: DecisionContext, agentSlug: string): strin
   }
 
   const positionDescription = getPositionDescription(context.position)
-  const handStrength = describeHoleCards(context.holeCards)
+  const handStrength = context.variant === 'omaha'
+    ? describeOmahaHoleCards(context.holeCards)
+    : describeHoleCards(context.holeCards)
   const boardDescription = describeCommunityCards(context.communityCards, context.round)
   const opponentsDescription = describeOpponents(context.opponents)
   const potOdds = calculatePotOdds(context)
 
-  return `You are playing Texas Hold'em poker. Here's the current situation:
+  return `You are playing ${BETTING_LIMIT_LABELS[context.bettingLimit]} ${GAME_VARIANT_LABELS[context.variant]} poker. ${context.variant === 'omaha' ? `${OMAHA_RULE} ` : ''}${describeBettingStructure(context.bettingLimit)} Here's the current situation:
 
 ## Your Cards
 ${handStrength}
@@ -42,14 +75,15 @@ ${context.communityCards.length > 0 ? `Community cards: ${context.communityCards
 - Pot size: $${context.pot}
 - Bet to call: $${context.betToCall}
 - Minimum raise: $${context.minRaise}
+- Maximum raise: $${context.maxRaise}
 - Your chip stack: $${context.chipCount}
 - Your current bet this round: $${context.currentBet}
 - Pot odds: ${potOdds}
 
 ## Opponents
 ${opponentsDescription}
-
-## Recent Actions
+${context.opponents.some(o => (o.observedStyle?.lifetime.handsObserved ?? 0) > 0) ? 'Stats: VPIP = how often they play a hand, PFR = how often they raise preflop, aggression = postflop raises per call. Exploit what you see.\n' : ''}
+${context.memory ? `## Your Memory (earlier hands this game)\n${formatMemory(context.memory)}\n\n` : ''}## Recent Actions
 ${context.recentActions.length > 0 
   ? context.recentActions.map(a => `- ${a.agentName}: ${a.action.type}${a.action.amount ? ` $${a.action.amount}` : ''}`).join('\n')
   : 'No actions yet this round.'}
@@ -72,11 +106,22 @@ Respond in JSON:
 Available actions:
 ${context.betToCall === 0 ? '- check (no cost to see more cards)' : ''}
 ${context.betToCall > 0 && context.betToCall <= context.chipCount ? `- call $${context.betToCall} (match the bet to stay in, leaves you with $${context.chipCount - context.betToCall})` : ''}
-${context.chipCount > context.betToCall ? `- raise ($${context.minRaise} to $${context.chipCount})` : ''}
+${context.validActions.includes('raise') ? `- raise (total bet of $${Math.min(context.minRaise, context.maxRaise)} to $${context.maxRaise})` : ''}
 - fold (exit the hand)
 ${context.betToCall > context.chipCount ? `- all_in $${context.chipCount} (bet everything - required to stay in since you can't afford the full call)` : ''}`
 }
 
+const OMAHA_RULE = 'You hold four hole cards and your hand must use exactly two of them plus exactly three community cards - four to a flush in your hand is not a flush.'
+
+function describeBettingStructure(limit: DecisionContext['bettingLimit']): string {
+  const descriptions: Record<DecisionContext['bettingLimit'], string> = {
+    'no_limit': 'You may raise any amount up to your whole stack.',
+    'pot_limit': 'The most you may raise to is the pot after your call (call, then raise by the pot).',
+    'fixed_limit': 'Bets and raises are a fixed size (one big blind preflop and on the flop, two on the turn and river), with a cap on raises per round.',
+  }
+  return descriptions[limit]
+}
+
 function getPositionDescription(position: DecisionContext['position']): string {
   const descriptions: Record<string, string> = {
     'small_blind': 'Small Blind (early position, forced bet)',
@@ -122,6 +167,27 @@ function describeHoleCards(cards: string[]): string {
   return `${strength}${isSuited ? ' (suited)' : ''}${isPair ? '' : isConnected ? ' (connected)' : ''}`
 }
 
+function describeOmahaHoleCards(cards: string[]): string {
+  if (cards.length !== 4) return 'Unknown hand'
+
+  const ranks = cards.map(c => c.slice(0, -1))
+  const suits = cards.map(c => c.slice(-1))
+  const values = ranks.map(getRankValue).sort((a, b) => b - a)
+  const suitedPairs = new Set(suits.filter((s, i) => suits.indexOf(s) !== i)).size
+  const pairs = new Set(ranks.filter((r, i) => ranks.indexOf(r) !== i))
+  const isRundown = new Set(values).size === 4 && values[0] - values[3] <= 4
+
+  const traits: string[] = []
+  if (ranks.some(r => ranks.filter(x => x === r).length >= 3)) traits.push('trips in hand (weak - only two can play)')
+  else if (pairs.size > 0) traits.push(pairs.has('A') ? 'pair of Aces' : `pair${pairs.size > 1 ? 's' : ''} of ${[...pairs].join(' and ')}`)
+  if (isRundown) traits.push('rundown (four connected cards)')
+  if (suitedPairs === 2) traits.push('double-suited')
+  else if (suitedPairs === 1) traits.push('single-suited')
+  else traits.push('no suited cards')
+
+  return `Omaha hand: ${traits.join(', ')}`
+}
+
 function getRankValue(rank: string): number {
   const values: Record<string, number> = {
     '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8,
@@ -168,11 +234,31 @@ function describeOpponents(opponents: DecisionContext['opponents']): string {
     if (opp.currentBet > 0) description += `, $${opp.currentBet} bet`
     if (opp.isAllIn) description += ' (ALL IN)'
     description += '\n'
+    if (opp.observedStyle) {
+      description += describeObservedStyle('This game', opp.observedStyle.game)
+      description += describeObservedStyle('Lifetime', opp.observedStyle.lifetime)
+    }
   }
   
   return description
 }
 
+function describeObservedStyle(label: string, style: ObservedStyle): string {
+  if (style.handsObserved === 0) return ''
+
+  const percent = (rate: number) => `${Math.round(rate * 100)}%`
+  const stats = [
+    `VPIP ${percent(style.vpip)}`,
+    `PFR ${percent(style.pfr)}`,
+    `aggression ${style.aggressionScore.toFixed(1)}`,
+    `folds to c-bet ${style.foldToCbet === null ? 'n/a' : percent(style.foldToCbet)}`,
+    `showdowns ${style.showdownHands} (won ${style.showdownWins})`,
+  ]
+  if (style.bluffCaughtCount > 0) stats.push(`caught bluffing ${style.bluffCaughtCount}x`)
+
+  return `  ${label} (${style.handsObserved} hands): ${stats.join(', ')}\n`
+}
+
 function calculatePotOdds(context: DecisionContext): string {
   if (context.betToCall === 0) return 'N/A (no bet to call)'
   
@@ -183,138 +269,240 @@ function calculatePotOdds(context: DecisionContext): string {
   return `${percentage}% (${ratio}:1)`
 }
 
-// Parse Claude's response into a structured decision
-function parseDecision(response: string, validActions: ActionType[]): AgentDecision {
-  try {
-    // Extract JSON from response (handle potential markdown code blocks)
-    const jsonMatch = response.match(/\{[\s\S]*?\}/)
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response')
-    }
-    
-    // Clean up common AI mistakes in JSON (like $600 instead of 600)
-    let jsonStr = jsonMatch[0]
-    jsonStr = jsonStr.replace(/"amount":\s*\$(\d+)/g, '"amount": $1') // Fix $600 → 600
-    jsonStr = jsonStr.replace(/"amount":\s*"?\$?(\d+)"?/g, '"amount": $1') // Fix "$600" → 600
-    
-    const parsed = JSON.parse(jsonStr)
-    
-    // Validate action
-    let action: PlayerAction = { type: 'fold' }
-    const actionType = parsed.action?.toLowerCase() as ActionType
-    
-    if (!validActions.includes(actionType)) {
-      // Smart fallback: if AI said "call" but there's nothing to call, convert to "check"
-      if (actionType === 'call' && validActions.includes('check')) {
-        console.info(`Converting invalid "call" to "check" (no bet to call)`)
-        action = { type: 'check', reasoning: parsed.reasoning }
-      } else {
-        console.warn(`Invalid action ${actionType}, defaulting to fold`)
-        action = { type: 'fold' }
-      }
-    } else {
-      action = {
-        type: actionType,
-        amount: actionType === 'raise' ? parsed.amount : undefined,
-        reasoning: parsed.reasoning,
-      }
-    }
-    
+// Check a schema-valid response against the legal actions and raise range
+function checkDecision(raw: RawDecision, context: DecisionContext): DecisionCheck {
+  let actionType: ActionType = raw.action
+
+  // Calling with nothing to call is just a check
+  if (actionType === 'call' && context.betToCall === 0 && context.validActions.includes('check')) {
+    actionType = 'check'
+  }
+
+  if (!context.validActions.includes(actionType)) {
     return {
-      action,
-      confidence: Math.min(1, Math.max(0, parsed.confidence || 0.5)),
-      internalThoughts: parsed.reasoning || 'Thinking...',
+      ok: false,
+      reason: 'illegal_action',
+      message: `"${raw.action}" is not a legal action right now. Legal actions: ${context.validActions.join(', ')}.`,
     }
-  } catch (error) {
-    console.error('Failed to parse AI response:', error, response)
-    // Return a safe default
+  }
+
+  if (actionType !== 'raise') {
+    return { ok: true, action: { type: actionType, reasoning: raw.reasoning } }
+  }
+
+  const maxTotal = context.maxRaise
+  const minTotal = Math.min(context.minRaise, maxTotal)
+  if (raw.amount === null || !Number.isFinite(raw.amount) || raw.amount < minTotal || raw.amount > maxTotal) {
     return {
-      action: { type: 'fold', reasoning: 'Error processing decision' },
-      confidence: 0,
-      internalThoughts: 'Something went wrong with my analysis...',
+      ok: false,
+      reason: 'invalid_raise_amount',
+      message: `A raise must be a total bet between $${minTotal} and $${maxTotal} (got ${raw.amount === null ? 'no amount' : `$${raw.amount}`}).`,
     }
   }
+
+  return { ok: true, action: { type: 'raise', amount: Math.floor(raw.amount), reasoning: raw.reasoning } }
 }
 
 /**
  * Get a poker decision from an AI agent
+ * The model answers with a schema-checked object; illegal actions or raises
+ * outside the legal range are sent back for another try (up to
+ * MAX_DECISION_ATTEMPTS) before falling back to the play-style heuristic.
+ *
+ * @param modelId - Registry model id (agents.model_id); null uses the default model
+ * @param timeLimitMs - Time allowed (lib/ai/time-bank); once it passes the
+ *                      request is aborted and the agent checks or folds
  */
 export async function getAgentDecision(
   context: DecisionContext,
-  agentSlug: string
+  agentSlug: string,
+  modelId?: string | null,
+  timeLimitMs?: number
 ): Promise<AgentDecision> {
+  const model = getModelConfig(modelId)
+  const startedAt = Date.now()
+
+  // Scripted bots don't need a personality or a provider
+  if (model.provider === 'bot' && isBotStrategy(model.modelName)) {
+    return {
+      ...getBotDecision(model.modelName, context),
+      telemetry: { modelId: model.id, latencyMs: Date.now() - startedAt, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+    }
+  }
+
   const personality = AGENT_PERSONALITIES[agentSlug]
   if (!personality) {
     throw new Error(`Unknown agent: ${agentSlug}`)
   }
 
-  // Determine valid actions based on current situation
-  const validActions: ActionType[] = ['fold']
-  
-  // Check is only valid if no bet to call
-  if (context.betToCall === 0) validActions.push('check')
-  
-  // Call is valid if there's a bet and you can afford it
-  if (context.betToCall > 0 && context.betToCall <= context.chipCount) validActions.push('call')
-  
-  // Raise is valid if you have more chips than needed to call
-  if (context.chipCount > context.betToCall) validActions.push('raise')
-  
-  // All-in is valid but should only be used when necessary or strategically appropriate
-  // Don't offer all_in if call is available and would leave significant chips
-  const chipsAfterCall = context.chipCount - context.betToCall
-  const shouldOfferAllIn = context.chipCount > 0 && (
-    context.betToCall > context.chipCount ||  // Can't afford to call, must all-in
-    chipsAfterCall <= 50 ||  // Very short-stacked after call
-    context.chipCount <= context.betToCall * 1.5  // All-in is close to calling anyway
+  const tokens: TokenCount = { input: 0, output: 0 }
+
+  const decision = await withTimeLimit(
+    signal => requestDecision(context, agentSlug, personality, model.id, tokens, signal),
+    context,
+    timeLimitMs
   )
-  if (shouldOfferAllIn) validActions.push('all_in')
 
-  const prompt = buildDecisionPrompt(context, agentSlug)
+  return {
+    ...decision,
+    telemetry: {
+      modelId: model.id,
+      latencyMs: Date.now() - startedAt,
+      inputTokens: tokens.input,
+      outputTokens: tokens.output,
+      costUsd: estimateCostUsd(model, tokens.input, tokens.output),
+    },
+  }
+}
+
+// Token totals accumulated across attempts
+interface TokenCount {
+  input: number
+  output: number
+}
+
+function addUsage(tokens: TokenCount, usage: LanguageModelUsage | undefined) {
+  tokens.input += usage?.inputTokens ?? 0
+  tokens.output += usage?.outputTokens ?? 0
+}
+
+/**
+ * The decision, or the timeout decision once the time limit passes
+ * (the request is aborted so a hung provider doesn't hold up the game)
+ */
+async function withTimeLimit(
+  decide: (signal?: AbortSignal) => Promise<AgentDecision>,
+  context: DecisionContext,
+  timeLimitMs?: number
+): Promise<AgentDecision> {
+  if (timeLimitMs === undefined) return decide()
+
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<AgentDecision>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort()
+      resolve(makeTimeoutDecision(context))
+    }, Math.max(0, timeLimitMs))
+  })
 
   try {
-    // Combine base poker rules with personality
-    const systemPrompt = `${POKER_BASE_PROMPT}\n\nYour personality:\n${personality.systemPrompt}`
-    
-    const { text } = await generateText({
-      model: anthropic('claude-haiku-4-5-20251001'),
-      system: systemPrompt,
-      prompt,
-    })
+    return await Promise.race([decide(controller.signal), timedOut])
+  } finally {
+    clearTimeout(timer)
+  }
+}
 
-    return parseDecision(text, validActions)
-  } catch (error) {
-    console.error(`AI decision error for ${agentSlug}:`, error)
-    
-    // Fallback: make a simple decision based on play style
-    return makeFallbackDecision(context, personality.playStyle, validActions)
+// Ask the model, re-prompting on invalid answers, until a legal action or fallback
+async function requestDecision(
+  context: DecisionContext,
+  agentSlug: string,
+  personality: Pick<AgentConfig, 'systemPrompt' | 'playStyle'>,
+  modelId: string,
+  tokens: TokenCount,
+  abortSignal?: AbortSignal
+): Promise<AgentDecision> {
+  const prompt = buildDecisionPrompt(context, agentSlug)
+
+  // Combine base poker rules with personality
+  const systemPrompt = `${POKER_BASE_PROMPT}\n\nYour personality:\n${personality.systemPrompt}`
+  const messages: ModelMessage[] = [{ role: 'user', content: prompt }]
+  let failure: DecisionFallbackReason = 'invalid_output'
+
+  for (let attempt = 1; attempt <= MAX_DECISION_ATTEMPTS; attempt++) {
+    let raw: RawDecision
+    try {
+      const result = await generateText({
+        model: resolveModel(modelId),
+        system: systemPrompt,
+        messages,
+        output: Output.object({ schema: decisionSchema }),
+        abortSignal,
+      })
+      addUsage(tokens, result.usage)
+      raw = result.output
+    } catch (error) {
+      if (abortSignal?.aborted) return makeTimeoutDecision(context)
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        console.error(`AI decision error for ${agentSlug} (${modelId}):`, error)
+        return makeFallbackDecision(context, personality.playStyle, 'model_error', attempt)
+      }
+
+      // Response didn't match the schema - show the model what it sent and ask again
+      addUsage(tokens, error.usage)
+      failure = 'invalid_output'
+      console.warn(`[${agentSlug}] attempt ${attempt}: response did not match the decision schema`)
+      messages.push(
+        { role: 'assistant', content: error.text || '(empty response)' },
+        { role: 'user', content: 'That was not valid. Respond with only the JSON object: action, amount, reasoning, confidence.' }
+      )
+      continue
+    }
+
+    const check = checkDecision(raw, context)
+    if (check.ok) {
+      return {
+        action: check.action,
+        confidence: Math.min(1, Math.max(0, raw.confidence || 0.5)),
+        internalThoughts: raw.reasoning || 'Thinking...',
+        attempts: attempt,
+      }
+    }
+
+    failure = check.reason
+    console.warn(`[${agentSlug}] attempt ${attempt}: ${check.message}`)
+    messages.push(
+      { role: 'assistant', content: JSON.stringify(raw) },
+      { role: 'user', content: `${check.message} Choose again.` }
+    )
+  }
+
+  return makeFallbackDecision(context, personality.playStyle, failure, MAX_DECISION_ATTEMPTS)
+}
+
+/**
+ * Decision when the agent runs out of time: check if it's free, otherwise fold
+ */
+function makeTimeoutDecision(context: DecisionContext): AgentDecision {
+  const canCheck = context.validActions.includes('check')
+  return {
+    action: { type: canCheck ? 'check' : 'fold' },
+    confidence: 0,
+    internalThoughts: canCheck ? 'Out of time - checking.' : 'Out of time - folding.',
+    fallbackReason: 'timeout',
   }
 }
 
 /**
  * Fallback decision when AI fails
+ * Tagged with the reason so benchmark stats can tell it apart from a real choice
  */
 function makeFallbackDecision(
   context: DecisionContext,
   playStyle: { aggression: number; tightness: number; bluffFrequency: number },
-  validActions: ActionType[]
+  fallbackReason: DecisionFallbackReason,
+  attempts: number
 ): AgentDecision {
   const random = Math.random()
+  const validActions = context.validActions
+  const fallback = { attempts, fallbackReason }
   
   // Simple heuristic based on play style
   if (context.betToCall === 0) {
     // Can check
-    if (random < playStyle.aggression * 0.5) {
+    if (random < playStyle.aggression * 0.5 && validActions.includes('raise')) {
       return {
         action: { type: 'raise', amount: context.minRaise },
         confidence: 0.5,
         internalThoughts: 'Taking an aggressive line here.',
+        ...fallback,
       }
     }
     return {
       action: { type: 'check' },
       confidence: 0.6,
       internalThoughts: 'Checking to see what develops.',
+      ...fallback,
     }
   }
   
@@ -325,6 +513,7 @@ function makeFallbackDecision(
       action: { type: 'call' },
       confidence: 0.5,
       internalThoughts: 'The price is right to continue.',
+      ...fallback,
     }
   }
   
@@ -332,6 +521,7 @@ function makeFallbackDecision(
     action: { type: 'fold' },
     confidence: 0.4,
     internalThoughts: 'Not worth the risk this time.',
+    ...fallback,
   }
 }
 
@@ -342,7 +532,8 @@ function makeFallbackDecision(
 export async function getAgentCommentary(
   agentSlug: string,
   action: PlayerAction,
-  context: Partial<DecisionContext>
+  context: Partial<DecisionContext>,
+  modelId?: string | null
 ): Promise<string> {
   const personality = AGENT_PERSONALITIES[agentSlug]
   if (!personality) return 'Making a move...'
@@ -353,7 +544,7 @@ export async function getAgentCommentary(
   // Generate quick commentary
   try {
     const { text } = await generateText({
-      model: anthropic('claude-haiku-4-5-20251001'),
+      model: resolveModel(modelId),
       system: personality.systemPrompt,
       prompt: `You just ${action.type}${action.amount ? `ed $${action.amount}` : 'ed'} in a poker hand. 
 Give a brief, in-character one-liner comment (max 15 words) about this decision. 
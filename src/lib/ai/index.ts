@@ -3,8 +3,45 @@
  * Central export for AI-related functions
  * 
  * Created: Jan 6, 2026
+ * Updated: Oct 19, 2026 - Export the model registry
+ * Updated: Oct 19, 2026 - Export decision telemetry helpers
+ * Updated: Oct 19, 2026 - Export agent memory
+ * Updated: Oct 19, 2026 - Export decision time bank
  * Purpose: Barrel export for AI agent functions
  */
 
 export { getAgentDecision, getAgentCommentary } from './agent-decision'
 
+export {
+  DEFAULT_MODEL_ID,
+  registerModel,
+  listModels,
+  getModelConfig,
+  resolveModel,
+  estimateCostUsd,
+  type ModelConfig,
+  type ModelPricing,
+  type ModelProvider,
+} from './models'
+
+export {
+  toActionTelemetry,
+  aggregateDecisionStats,
+  type ActionTelemetry,
+  type TelemetryRow,
+  type AgentDecisionStats,
+} from './telemetry'
+
+export {
+  rememberHand,
+  formatMemory,
+  EMPTY_MEMORY,
+  MEMORY_TOKEN_BUDGET,
+} from './memory'
+
+export {
+  getDecisionTimeLimit,
+  spendTimeBank,
+  DECISION_TIME_MS,
+  TIME_BANK_MS,
+} from './time-bank'
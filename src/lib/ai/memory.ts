@@ -0,0 +1,143 @@
+/**
+ * Agent Memory
+ * What each agent remembers about earlier hands in the current game
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Decisions only see the current hand's actions, so agents forgot being
+ *          bluffed two hands ago. After every resolved hand each seated agent's
+ *          memory gets its stack, notable showdowns/bluffs/uncontested pots
+ *          (written from that agent's point of view) and its own play counters.
+ *          formatMemory() renders it for the prompt within a token budget.
+ */
+
+import type { AgentMemory, MemoryNote, StyleCounters } from '@/types/agents'
+import type { GameState } from '@/types/poker'
+import { evaluateHand } from '@/lib/poker/hand-evaluator'
+import { addCounters, toObservedStyle, EMPTY_COUNTERS } from '@/lib/poker/opponent-stats'
+
+// Prompt budget for the memory section, estimated at ~4 characters per token
+export const MEMORY_TOKEN_BUDGET = 300
+const CHARS_PER_TOKEN = 4
+
+// Notes kept per agent (oldest dropped first)
+const MAX_NOTES = 20
+
+// Chip history entries shown in the prompt
+const CHIP_HISTORY_SHOWN = 8
+
+// Uncontested pots smaller than this many big blinds aren't worth remembering
+const NOTABLE_POT_BB = 10
+
+export const EMPTY_MEMORY: AgentMemory = { chipHistory: [], notes: [], self: EMPTY_COUNTERS }
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+/**
+ * Add a resolved hand to the memory of every player in it
+ *
+ * @param memories - Current memories by agent id (missing agents start empty)
+ * @param handNumber - Hand number within the game
+ * @param state - Final engine state of the hand
+ * @param handCounters - countHand() result for the hand
+ */
+export function rememberHand(
+  memories: Record<string, AgentMemory>,
+  handNumber: number,
+  state: GameState,
+  handCounters: Record<string, StyleCounters>
+): Record<string, AgentMemory> {
+  const live = state.players.filter(p => !p.isFolded)
+  const winnings = state.winnings || {}
+  const pot = Object.values(winnings).reduce((sum, amount) => sum + amount, 0)
+  const winners = state.players.filter(p => (winnings[p.agentId] || 0) > 0)
+
+  const updated = { ...memories }
+  for (const observer of state.players) {
+    const who = (agentId: string) =>
+      agentId === observer.agentId ? 'you' : state.players.find(p => p.agentId === agentId)?.name || 'Unknown'
+    const notes: MemoryNote[] = []
+
+    if (live.length >= 2) {
+      const shown = live.map(p => {
+        const hand = evaluateHand(p.holeCards, state.communityCards, state.variant)
+        return `${who(p.agentId)} ${p.holeCards.join(' ')} (${hand.description})`
+      })
+      notes.push({
+        handNumber,
+        kind: 'showdown',
+        text: `Showdown: ${shown.join(' vs ')}; ${winners.map(w => who(w.agentId)).join(' and ')} won $${pot}`,
+      })
+
+      for (const p of live.filter(p => handCounters[p.agentId]?.bluffsCaught)) {
+        const hand = evaluateHand(p.holeCards, state.communityCards, state.variant)
+        notes.push({
+          handNumber,
+          kind: 'bluff',
+          text: capitalize(`${who(p.agentId)} made the last raise and lost the showdown with ${hand.description}`),
+        })
+      }
+    } else if (live.length === 1 && pot >= NOTABLE_POT_BB * state.bigBlind) {
+      const foldedAfterPaying = observer.isFolded && observer.totalContributed > 0
+        ? ` (you folded after putting in $${observer.totalContributed})`
+        : ''
+      notes.push({
+        handNumber,
+        kind: 'uncontested',
+        text: capitalize(`${who(live[0].agentId)} took $${pot} without a showdown${foldedAfterPaying}`),
+      })
+    }
+
+    const memory = updated[observer.agentId] ?? EMPTY_MEMORY
+    updated[observer.agentId] = {
+      chipHistory: [...memory.chipHistory, { handNumber, chips: observer.chipCount }],
+      notes: [...memory.notes, ...notes].slice(-MAX_NOTES),
+      self: addCounters(memory.self, handCounters[observer.agentId] ?? EMPTY_COUNTERS),
+    }
+  }
+
+  return updated
+}
+
+/**
+ * How the table probably sees the agent, from its own play this game
+ */
+function describeTableImage(self: StyleCounters): string | null {
+  if (self.hands === 0) return null
+
+  const style = toObservedStyle(self)
+  const looseness = style.vpip >= 0.4 ? 'loose' : 'tight'
+  const aggression = style.vpip > 0 && style.pfr / style.vpip >= 0.5 ? 'aggressive' : 'passive'
+  const percent = (rate: number) => `${Math.round(rate * 100)}%`
+
+  let image = `Table image: you played ${percent(style.vpip)} of ${self.hands} hands and raised ${percent(style.pfr)} preflop`
+  if (self.bluffsCaught > 0) image += `, and were caught bluffing ${self.bluffsCaught}x`
+  return `${image} - opponents likely read you as ${looseness}-${aggression}.`
+}
+
+/**
+ * Render a memory for the decision prompt
+ * Chip trajectory and table image come first; then the newest notes that fit
+ * in the budget, listed oldest to newest.
+ */
+export function formatMemory(memory: AgentMemory, tokenBudget = MEMORY_TOKEN_BUDGET): string {
+  const lines: string[] = []
+
+  if (memory.chipHistory.length > 0) {
+    const recent = memory.chipHistory.slice(-CHIP_HISTORY_SHOWN)
+    lines.push(`Your stack by hand: ${recent.map(h => `#${h.handNumber} $${h.chips}`).join(' → ')}`)
+  }
+
+  const image = describeTableImage(memory.self)
+  if (image) lines.push(image)
+
+  let remaining = tokenBudget * CHARS_PER_TOKEN - lines.join('\n').length
+  const notes: string[] = []
+  for (const note of [...memory.notes].reverse()) {
+    const line = `- Hand ${note.handNumber}: ${note.text}`
+    if (line.length + 1 > remaining) break
+    notes.unshift(line)
+    remaining -= line.length + 1
+  }
+
+  return [...lines, ...notes].join('\n')
+}
@@ -0,0 +1,168 @@
+/**
+ * Model Registry
+ * Maps model ids to AI SDK providers so each agent can run a different LLM
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Per-model token pricing for decision cost estimates
+ * Updated: Oct 19, 2026 - Scripted bots (lib/bots) registered as 'bot' models
+ * Purpose: Model Arena lobbies seat different LLMs at the same table. Agents
+ *          point at a model id (agents.model_id); the registry turns that id
+ *          into a LanguageModel. Anything with an OpenAI-compatible API
+ *          (OpenAI, Together, a local Ollama / LM Studio server) is config only.
+ */
+
+import type { LanguageModel } from 'ai'
+import { anthropic, createAnthropic } from '@ai-sdk/anthropic'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { BOT_STRATEGY_IDS } from '@/lib/bots'
+
+export type ModelProvider = 'anthropic' | 'openai-compatible' | 'bot'
+
+export interface ModelConfig {
+  id: string // Stored in agents.model_id
+  label: string // Display name, e.g. "GPT-4o"
+  provider: ModelProvider
+  modelName: string // Provider-side model name (bot strategy id for bots)
+  baseURL?: string // Required for openai-compatible
+  apiKeyEnv?: string // Env var holding the API key (omit for keyless local servers)
+  pricing?: ModelPricing // Omit for free/local models
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number
+  output: number
+}
+
+// Model every agent used before per-agent selection existed
+export const DEFAULT_MODEL_ID = 'claude-haiku-4.5'
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const TOGETHER_BASE_URL = 'https://api.together.xyz/v1'
+
+const registry = new Map<string, ModelConfig>()
+
+/**
+ * Add or replace a model config
+ */
+export function registerModel(config: ModelConfig): void {
+  if (config.provider === 'openai-compatible' && !config.baseURL) {
+    throw new Error(`Model ${config.id} needs a baseURL`)
+  }
+  registry.set(config.id, config)
+}
+
+// Built-in models
+const BUILT_IN_MODELS: ModelConfig[] = [
+  {
+    id: DEFAULT_MODEL_ID,
+    label: 'Claude Haiku 4.5',
+    provider: 'anthropic',
+    modelName: 'claude-haiku-4-5-20251001',
+    pricing: { input: 1, output: 5 },
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    provider: 'openai-compatible',
+    modelName: 'gpt-4o',
+    baseURL: OPENAI_BASE_URL,
+    apiKeyEnv: 'OPENAI_API_KEY',
+    pricing: { input: 2.5, output: 10 },
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai-compatible',
+    modelName: 'gpt-4o-mini',
+    baseURL: OPENAI_BASE_URL,
+    apiKeyEnv: 'OPENAI_API_KEY',
+    pricing: { input: 0.15, output: 0.6 },
+  },
+  {
+    id: 'llama-3.3-70b',
+    label: 'Llama 3.3 70B',
+    provider: 'openai-compatible',
+    modelName: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
+    baseURL: TOGETHER_BASE_URL,
+    apiKeyEnv: 'TOGETHER_API_KEY',
+    pricing: { input: 0.88, output: 0.88 },
+  },
+  {
+    id: 'deepseek-v3',
+    label: 'DeepSeek-V3',
+    provider: 'openai-compatible',
+    modelName: 'deepseek-ai/DeepSeek-V3',
+    baseURL: TOGETHER_BASE_URL,
+    apiKeyEnv: 'TOGETHER_API_KEY',
+    pricing: { input: 1.25, output: 1.25 },
+  },
+  {
+    // Stand-in for local development: any OpenAI-compatible server
+    id: 'local',
+    label: 'Local Model',
+    provider: 'openai-compatible',
+    modelName: process.env.LOCAL_MODEL_NAME || 'llama3.2',
+    baseURL: process.env.LOCAL_MODEL_BASE_URL || 'http://localhost:11434/v1',
+    apiKeyEnv: 'LOCAL_MODEL_API_KEY',
+  },
+]
+
+BUILT_IN_MODELS.forEach(registerModel)
+
+// Scripted bots: no provider call, decided by lib/bots
+BOT_STRATEGY_IDS.forEach(strategy => registerModel({
+  id: `bot:${strategy}`,
+  label: `${strategy.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')} Bot`,
+  provider: 'bot',
+  modelName: strategy,
+}))
+
+/**
+ * All registered models
+ */
+export function listModels(): ModelConfig[] {
+  return [...registry.values()]
+}
+
+/**
+ * Config for a model id
+ * Agents without a model (or with an unknown one) fall back to the default
+ */
+export function getModelConfig(modelId?: string | null): ModelConfig {
+  const config = modelId ? registry.get(modelId) : undefined
+  if (modelId && !config) {
+    console.warn(`Unknown model ${modelId}, using ${DEFAULT_MODEL_ID}`)
+  }
+  return config ?? registry.get(DEFAULT_MODEL_ID)!
+}
+
+/**
+ * Estimated USD cost of a call from its token counts
+ */
+export function estimateCostUsd(config: ModelConfig, inputTokens: number, outputTokens: number): number {
+  if (!config.pricing) return 0
+  return (inputTokens * config.pricing.input + outputTokens * config.pricing.output) / 1_000_000
+}
+
+/**
+ * Build the AI SDK LanguageModel for a model id
+ */
+export function resolveModel(modelId?: string | null): LanguageModel {
+  const config = getModelConfig(modelId)
+  if (config.provider === 'bot') {
+    throw new Error(`Model ${config.id} is a scripted bot and has no language model`)
+  }
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined
+
+  if (config.provider === 'anthropic') {
+    return apiKey ? createAnthropic({ apiKey })(config.modelName) : anthropic(config.modelName)
+  }
+
+  const provider = createOpenAICompatible({
+    name: config.id,
+    baseURL: config.baseURL!,
+    apiKey,
+  })
+  return provider(config.modelName)
+}
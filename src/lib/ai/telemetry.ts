@@ -0,0 +1,107 @@
+/**
+ * Decision Telemetry
+ * Per-decision model stats (latency, tokens, cost, fallbacks) and their aggregation
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Each model decision is stored on its agent_actions row so models can
+ *          be compared on cost and reliability, not just chips won. The /metrics
+ *          page aggregates those rows per agent (cost per hand, fallback rate).
+ */
+
+import type { AgentDecision } from '@/types/agents'
+import type { AgentAction } from '@/types/database'
+
+// agent_actions columns written for a model decision
+export type ActionTelemetry = Pick<
+  AgentAction,
+  'model_id' | 'latency_ms' | 'input_tokens' | 'output_tokens' | 'cost_usd' | 'attempts' | 'fallback_reason'
+>
+
+// agent_actions columns read back for aggregation
+export type TelemetryRow = ActionTelemetry & Pick<AgentAction, 'agent_id' | 'hand_id'>
+
+export interface AgentDecisionStats {
+  agentId: string
+  modelId: string | null // Model used for the agent's latest decision
+  decisions: number
+  fallbacks: number
+  fallbackRate: number // 0-1
+  retries: number // Re-prompts beyond the first call
+  handsPlayed: number // Hands with at least one decision
+  totalCostUsd: number
+  costPerHand: number
+  avgLatencyMs: number
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Map a decision's telemetry onto agent_actions columns
+ */
+export function toActionTelemetry(decision: AgentDecision): ActionTelemetry {
+  return {
+    model_id: decision.telemetry?.modelId ?? null,
+    latency_ms: decision.telemetry?.latencyMs ?? null,
+    input_tokens: decision.telemetry?.inputTokens ?? null,
+    output_tokens: decision.telemetry?.outputTokens ?? null,
+    cost_usd: decision.telemetry?.costUsd ?? null,
+    attempts: decision.attempts ?? null,
+    fallback_reason: decision.fallbackReason ?? null,
+  }
+}
+
+/**
+ * Aggregate decision rows per agent
+ * Rows without a model_id (blinds, pre-telemetry actions) are ignored.
+ * Rows are expected in chronological order so modelId is the latest one.
+ */
+export function aggregateDecisionStats(rows: TelemetryRow[]): Map<string, AgentDecisionStats> {
+  const stats = new Map<string, AgentDecisionStats & { hands: Set<string>; latencyTotal: number }>()
+
+  for (const row of rows) {
+    if (!row.model_id) continue
+
+    let agent = stats.get(row.agent_id)
+    if (!agent) {
+      agent = {
+        agentId: row.agent_id,
+        modelId: null,
+        decisions: 0,
+        fallbacks: 0,
+        fallbackRate: 0,
+        retries: 0,
+        handsPlayed: 0,
+        totalCostUsd: 0,
+        costPerHand: 0,
+        avgLatencyMs: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        hands: new Set(),
+        latencyTotal: 0,
+      }
+      stats.set(row.agent_id, agent)
+    }
+
+    agent.modelId = row.model_id
+    agent.decisions++
+    if (row.fallback_reason) agent.fallbacks++
+    agent.retries += Math.max(0, (row.attempts ?? 1) - 1)
+    agent.hands.add(row.hand_id)
+    agent.totalCostUsd += Number(row.cost_usd) || 0
+    agent.latencyTotal += row.latency_ms ?? 0
+    agent.inputTokens += row.input_tokens ?? 0
+    agent.outputTokens += row.output_tokens ?? 0
+  }
+
+  const result = new Map<string, AgentDecisionStats>()
+  for (const { hands, latencyTotal, ...agent } of stats.values()) {
+    result.set(agent.agentId, {
+      ...agent,
+      fallbackRate: agent.fallbacks / agent.decisions,
+      handsPlayed: hands.size,
+      costPerHand: agent.totalCostUsd / hands.size,
+      avgLatencyMs: Math.round(latencyTotal / agent.decisions),
+    })
+  }
+  return result
+}
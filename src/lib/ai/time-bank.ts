@@ -0,0 +1,29 @@
+/**
+ * Decision Time Bank
+ * How long an agent gets to decide
+ *
+ * Created: Oct 19, 2026
+ * Purpose: A hung provider used to stall the whole game. Every decision gets
+ *          DECISION_TIME_MS; an agent that needs longer draws on its time bank
+ *          (TIME_BANK_MS per agent per game, stored on games.time_banks). Once
+ *          both are used up the request is cut off and the agent checks or
+ *          folds (fallback reason 'timeout').
+ */
+
+export const DECISION_TIME_MS = 30 * 1000
+export const TIME_BANK_MS = 90 * 1000
+
+/**
+ * Time allowed for a decision with `timeBankMs` left in the bank
+ */
+export function getDecisionTimeLimit(timeBankMs: number): number {
+  return DECISION_TIME_MS + Math.max(0, timeBankMs)
+}
+
+/**
+ * Time bank left after a decision that took `elapsedMs`
+ * Only time beyond the per-decision budget comes out of the bank
+ */
+export function spendTimeBank(timeBankMs: number, elapsedMs: number): number {
+  return Math.max(0, timeBankMs - Math.max(0, elapsedMs - DECISION_TIME_MS))
+}
@@ -0,0 +1,45 @@
+/**
+ * Bots Module Index
+ * Scripted (non-LLM) agents selected per agent through the model registry
+ *
+ * Created: Oct 19, 2026
+ * Purpose: An agent whose model_id is a bot model (e.g. "bot:tight-aggressive")
+ *          decides with a scripted strategy instead of calling a provider.
+ */
+
+import type { AgentDecision, DecisionContext } from '@/types/agents'
+import { createSeededRandom } from '@/lib/poker/deck'
+import { BOT_STRATEGIES, type BotStrategyId } from './strategies'
+
+export { BOT_STRATEGIES, getStartingHandTier, type BotStrategy, type BotStrategyId } from './strategies'
+
+export const BOT_STRATEGY_IDS = Object.keys(BOT_STRATEGIES) as BotStrategyId[]
+
+export function isBotStrategy(id: string): id is BotStrategyId {
+  return id in BOT_STRATEGIES
+}
+
+/**
+ * Seed for a decision spot - the same spot always replays the same way
+ */
+function getSpotSeed(context: DecisionContext): string {
+  return [
+    context.agentId,
+    context.round,
+    context.holeCards.join(''),
+    context.communityCards.join(''),
+    context.pot,
+    context.betToCall,
+    context.recentActions.length,
+  ].join(':')
+}
+
+/**
+ * Decide with a scripted strategy
+ *
+ * @param seed - Extra seed material, e.g. to run the random bot with different seeds
+ */
+export function getBotDecision(strategyId: BotStrategyId, context: DecisionContext, seed = ''): AgentDecision {
+  const random = createSeededRandom(`${seed}:${getSpotSeed(context)}`)
+  return BOT_STRATEGIES[strategyId](context, random)
+}
@@ -0,0 +1,193 @@
+/**
+ * Scripted Bot Strategies
+ * Deterministic baseline players that decide without an LLM
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Omaha starting-hand chart; hands and equity follow the game variant
+ * Updated: Oct 19, 2026 - Premium and unopened strong hands continue when a raise isn't legal
+ * Purpose: Full games can run offline, and LLM results can be compared against
+ *          fixed baselines. Every strategy is a pure function of the decision
+ *          context (plus a seeded RNG), so the same spot always gets the same
+ *          decision and only ever returns a legal action.
+ */
+
+import type { AgentDecision, DecisionContext } from '@/types/agents'
+import type { ActionType, CardNotation, GameVariant, PlayerAction } from '@/types/poker'
+import { getRankValue, notationToCard } from '@/lib/poker/deck'
+import { evaluateHand } from '@/lib/poker/hand-evaluator'
+import { calculateEquity } from '@/lib/poker/equity'
+
+export type BotStrategyId = 'always-call' | 'tight-aggressive' | 'pot-odds' | 'random'
+
+export type BotStrategy = (context: DecisionContext, random: () => number) => AgentDecision
+
+// Monte Carlo iterations for the pot-odds bot (kept low - it runs every decision)
+const POT_ODDS_ITERATIONS = 500
+
+/**
+ * Raise to `total`, clamped to the legal range (or shove when a raise isn't possible)
+ */
+function raiseTo(context: DecisionContext, total: number): PlayerAction {
+  const max = context.maxRaise
+  const min = Math.min(context.minRaise, max)
+  const amount = Math.max(min, Math.min(max, Math.floor(total)))
+  if (!context.validActions.includes('raise') || amount >= context.currentBet + context.chipCount) return { type: 'all_in' }
+  return { type: 'raise', amount }
+}
+
+// Pot-size raise: call, then raise by the pot after the call
+const potSizeRaise = (context: DecisionContext) =>
+  raiseTo(context, context.currentBet + context.betToCall * 2 + context.pot)
+
+/**
+ * First preferred action that's legal; checks/folds as a last resort
+ */
+function firstLegal(context: DecisionContext, preferred: PlayerAction[], reasoning: string): AgentDecision {
+  const fallback: ActionType = context.validActions.includes('check') ? 'check' : 'fold'
+  const action = preferred.find(a => context.validActions.includes(a.type)) ?? { type: fallback }
+  return {
+    action: { ...action, reasoning },
+    confidence: 1,
+    internalThoughts: reasoning,
+  }
+}
+
+/**
+ * Continue cheaply: check if free, call if affordable, otherwise all-in
+ */
+const continueCheaply: PlayerAction[] = [{ type: 'check' }, { type: 'call' }, { type: 'all_in' }]
+
+/**
+ * Preflop tier from a simple starting-hand chart
+ * 1 = premium, 2 = strong, 3 = playable, null = fold
+ */
+export function getStartingHandTier(holeCards: CardNotation[], variant: GameVariant = 'holdem'): 1 | 2 | 3 | null {
+  if (variant === 'omaha') return getOmahaStartingHandTier(holeCards)
+  if (holeCards.length !== 2) return null
+  const [a, b] = holeCards.map(notationToCard)
+  const high = Math.max(getRankValue(a.rank), getRankValue(b.rank))
+  const low = Math.min(getRankValue(a.rank), getRankValue(b.rank))
+  const suited = a.suit === b.suit
+  const pair = high === low
+
+  if (pair && high >= 12) return 1 // QQ+
+  if (high === 14 && low === 13) return 1 // AK
+  if (pair && high >= 9) return 2 // 99-JJ
+  if (high === 14 && low >= 11) return 2 // AQ, AJ
+  if (high === 13 && low === 12 && suited) return 2 // KQs
+  if (pair) return 3 // 22-88
+  if (suited && (high === 14 || high - low === 1) && low >= 5) return 3 // Suited aces, suited connectors
+  if (high >= 13 && low >= 10) return 3 // Broadway
+  return null
+}
+
+/**
+ * Omaha chart: aces, suitedness and four connected cards matter; trips are dead
+ */
+function getOmahaStartingHandTier(holeCards: CardNotation[]): 1 | 2 | 3 | null {
+  if (holeCards.length !== 4) return null
+  const cards = holeCards.map(notationToCard)
+  const values = cards.map(c => getRankValue(c.rank))
+  const rankCounts = new Map<number, number>()
+  const suitCounts = new Map<string, number>()
+  for (const [i, card] of cards.entries()) {
+    rankCounts.set(values[i], (rankCounts.get(values[i]) ?? 0) + 1)
+    suitCounts.set(card.suit, (suitCounts.get(card.suit) ?? 0) + 1)
+  }
+
+  if ([...rankCounts.values()].some(n => n >= 3)) return null // Trips or quads
+  const suitedPairs = [...suitCounts.values()].filter(n => n >= 2).length
+  const suited = suitedPairs >= 1
+  const doubleSuited = suitedPairs === 2
+  const pairs = [...rankCounts.entries()].filter(([, n]) => n === 2).map(([value]) => value)
+  const low = Math.min(...values)
+  const rundown = rankCounts.size === 4 && Math.max(...values) - low <= 4 // e.g. 9-8-7-6
+
+  if (pairs.includes(14)) return suited ? 1 : 2 // Aces
+  if (pairs.some(v => v >= 12) && suited) return 2 // Kings/Queens, suited
+  if (low >= 10 && rankCounts.size === 4 && suited) return 2 // Four Broadway cards, suited
+  if (rundown && doubleSuited) return 2
+  if (pairs.some(v => v >= 9) && suited) return 3
+  if (rundown && low >= 5) return 3
+  if (low >= 10 || (doubleSuited && values.includes(14))) return 3 // Broadway, double-suited ace
+  return null
+}
+
+/**
+ * Never folds: checks, calls, or goes all-in when the call costs everything
+ */
+const alwaysCall: BotStrategy = context =>
+  firstLegal(context, continueCheaply, 'Always calling.')
+
+/**
+ * Tight-aggressive: plays a narrow preflop chart hard, bets made hands postflop
+ */
+const tightAggressive: BotStrategy = context => {
+  const potOdds = context.betToCall / (context.pot + context.betToCall || 1)
+
+  if (context.round === 'preflop') {
+    const tier = getStartingHandTier(context.holeCards, context.variant)
+    if (tier === 1) return firstLegal(context, [potSizeRaise(context), ...continueCheaply], 'Premium hand - raising.')
+    if (tier === 2) {
+      const tableBet = context.currentBet + context.betToCall
+      const unopened = tableBet <= context.minRaise - tableBet // Nothing above the big blind yet
+      if (unopened) return firstLegal(context, [potSizeRaise(context), ...continueCheaply], 'Strong hand, unopened pot - raising.')
+      return firstLegal(context, potOdds <= 0.35 ? continueCheaply : [], 'Strong hand facing a raise - continuing at a fair price.')
+    }
+    if (tier === 3) {
+      return firstLegal(context, potOdds <= 0.2 ? continueCheaply : [], 'Playable hand - only at a good price.')
+    }
+    return firstLegal(context, [], 'Not in my chart.')
+  }
+
+  const hand = evaluateHand(context.holeCards, context.communityCards, context.variant)
+  if (hand.rank !== 'high_card' && hand.rank !== 'pair') {
+    return firstLegal(context, [potSizeRaise(context), ...continueCheaply], `${hand.description} - betting for value.`)
+  }
+  if (hand.rank === 'pair') {
+    return firstLegal(context, potOdds <= 0.33 ? continueCheaply : [], `${hand.description} - pot control.`)
+  }
+  return firstLegal(context, [], 'Missed - giving up.')
+}
+
+/**
+ * Calls whenever equity against the live opponents beats the pot odds
+ */
+const potOddsCaller: BotStrategy = (context, random) => {
+  if (context.betToCall === 0) return firstLegal(context, [{ type: 'check' }], 'Free card.')
+
+  const opponents = context.opponents.filter(o => !o.isFolded).length
+  const players = [
+    { playerId: 'self', holeCards: context.holeCards },
+    ...Array.from({ length: Math.max(1, opponents) }, (_, i) => ({ playerId: `opp-${i}`, holeCards: [] })),
+  ]
+  const equity = calculateEquity(players, context.communityCards, {
+    iterations: POT_ODDS_ITERATIONS,
+    random,
+    variant: context.variant,
+  })[0].equity
+  const potOdds = context.betToCall / (context.pot + context.betToCall)
+  const summary = `Equity ${(equity * 100).toFixed(0)}% vs pot odds ${(potOdds * 100).toFixed(0)}%`
+
+  if (equity >= potOdds) return firstLegal(context, [{ type: 'call' }, { type: 'all_in' }], `${summary} - calling.`)
+  return firstLegal(context, [], `${summary} - folding.`)
+}
+
+/**
+ * Uniformly random legal action (raises sized uniformly in the legal range)
+ */
+const randomBot: BotStrategy = (context, random) => {
+  const type = context.validActions[Math.floor(random() * context.validActions.length)] ?? 'fold'
+  if (type !== 'raise') return firstLegal(context, [{ type }], `Rolled ${type}.`)
+
+  const max = context.maxRaise
+  const min = Math.min(context.minRaise, max)
+  return firstLegal(context, [raiseTo(context, min + random() * (max - min))], 'Rolled raise.')
+}
+
+export const BOT_STRATEGIES: Record<BotStrategyId, BotStrategy> = {
+  'always-call': alwaysCall,
+  'tight-aggressive': tightAggressive,
+  'pot-odds': potOddsCaller,
+  'random': randomBot,
+}
@@ -27,6 +27,15 @@
  *                           - This caused status checks to fail (thought open games were "None")
  * Updated: February 16, 2026 - Updated comments for mainnet deployment
  *                             - x402 Wallet is now owner on both Base Sepolia and Base Mainnet
+ * Updated: October 19, 2026 - Seeding, winner validation and getGame reads use the network's agentCount
+ *                           - agentIdToContractIndex derives indices from AGENT_NAMES
+ * Updated: October 19, 2026 - createOnChainGame/createAndSeedGame return the creation tx's block hash
+ *                           - Mixed into the deck seeds as public entropy (lib/poker/verifiable)
+ * Updated: October 19, 2026 - getLatestBlockNumber(); the creation block's number is returned with its hash
+ *                           - Games record the chain head once their commitment is stored, so the
+ *                             entropy block can be shown to come later
+ * Updated: October 19, 2026 - getBlockHash() reads a block's hash from the chain, so stored public
+ *                             entropy can be checked against it
  * 
  * Server-side functions for contract owner operations:
  * - createGame: Create a new betting game on-chain (OWNER ONLY)
@@ -45,11 +54,13 @@ import {
   readContract,
   encode,
   prepareContractCall,
+  waitForReceipt,
 } from "thirdweb";
 import { createThirdwebClient, defineChain } from "thirdweb";
 import { baseSepolia, base } from "thirdweb/chains";
+import { eth_blockNumber, eth_getBlockByNumber, getRpcClient } from "thirdweb/rpc";
 import { SEPOLIA, MAINNET } from "./config";
-import { parseUSDC, USDC_DECIMALS } from "./index";
+import { parseUSDC, USDC_DECIMALS, AGENT_NAMES, getAgentName, getGameMethod } from "./index";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURATION
@@ -313,9 +324,9 @@ function getUSDCContract() {
 
 /**
  * Create a new game on-chain
- * @returns The new game ID and transaction hash
+ * @returns The new game ID, transaction hash and the hash and number of the block it was mined in
  */
-export async function createOnChainGame(): Promise<{ gameId: bigint; txHash: string }> {
+export async function createOnChainGame(): Promise<{ gameId: bigint; txHash: string; blockHash: string; blockNumber: number }> {
   const contract = getPokerBettingContract();
   const config = getConfig();
   const chainId = getChainId();
@@ -346,17 +357,26 @@ export async function createOnChainGame(): Promise<{ gameId: bigint; txHash: str
     encodedData
   );
   
-  console.log(`[Contract] Created on-chain game ${expectedGameId}. Tx: ${txHash}`);
+  // The block hash is outside the server's control - verifiable games mix it into their deck seeds
+  const receipt = await waitForReceipt({
+    client: serverClient,
+    chain: getChain(),
+    transactionHash: txHash as `0x${string}`,
+  });
+  
+  console.log(`[Contract] Created on-chain game ${expectedGameId}. Tx: ${txHash}, block: ${receipt.blockNumber} ${receipt.blockHash}`);
   
   return {
     gameId: expectedGameId,
     txHash,
+    blockHash: receipt.blockHash,
+    blockNumber: Number(receipt.blockNumber),
   };
 }
 
 /**
- * Seed agent pools with initial bets (10¢ per agent = $0.40 total per game)
- * This ensures all agents start at 25% chance instead of 0%
+ * Seed agent pools with initial bets (10¢ per agent)
+ * This ensures all agents start at an equal chance instead of 0%
  * 
  * @param gameId The on-chain game ID to seed
  * @returns Transaction hashes for the seeding bets
@@ -368,7 +388,8 @@ export async function seedAgentPools(gameId: bigint): Promise<{ txHashes: string
   const chainId = getChainId();
   
   const txHashes: string[] = [];
-  const totalNeeded = SEED_AMOUNT_PER_AGENT * 4n; // $0.40 total
+  const agentCount = config.agentCount;
+  const totalNeeded = SEED_AMOUNT_PER_AGENT * BigInt(agentCount); // $0.10 per agent
   
   // Check USDC allowance for the PokerBetting contract
   const currentAllowance = await readContract({
@@ -401,9 +422,9 @@ export async function seedAgentPools(gameId: bigint): Promise<{ txHashes: string
     console.log(`[Seed] USDC approved. Tx: ${approveTxHash}`);
   }
   
-  // Place seed bets on all 4 agents
-  for (let agentId = 0; agentId < 4; agentId++) {
-    console.log(`[Seed] Placing seed bet on agent ${agentId} (${['Chamath', 'Sacks', 'Jason', 'Friedberg'][agentId]})...`);
+  // Place seed bets on every agent pool
+  for (let agentId = 0; agentId < agentCount; agentId++) {
+    console.log(`[Seed] Placing seed bet on agent ${agentId} (${getAgentName(agentId)})...`);
     
     const betTx = prepareContractCall({
       contract: pokerContract,
@@ -434,15 +455,17 @@ export async function seedAgentPools(gameId: bigint): Promise<{ txHashes: string
 /**
  * Create a new game AND seed all agent pools
  * This is the main function to call when starting a new game
- * @returns The new game ID and all transaction hashes
+ * @returns The new game ID, all transaction hashes and the creation block's hash and number
  */
 export async function createAndSeedGame(): Promise<{ 
   gameId: bigint; 
   txHashes: string[];
+  blockHash: string;
+  blockNumber: number;
   totalSeeded: string;
 }> {
   // Step 1: Create the game on-chain
-  const { gameId, txHash: createTxHash } = await createOnChainGame();
+  const { gameId, txHash: createTxHash, blockHash, blockNumber } = await createOnChainGame();
   
   // Step 2: Seed all agent pools
   const { txHashes: seedTxHashes, totalSeeded } = await seedAgentPools(gameId);
@@ -450,6 +473,8 @@ export async function createAndSeedGame(): Promise<{
   return {
     gameId,
     txHashes: [createTxHash, ...seedTxHashes],
+    blockHash,
+    blockNumber,
     totalSeeded,
   };
 }
@@ -491,12 +516,12 @@ export async function closeOnChainBetting(gameId: bigint): Promise<string> {
  * @returns Transaction hash
  */
 export async function resolveOnChainGame(gameId: bigint, winnerAgentId: number): Promise<string> {
-  if (winnerAgentId < 0 || winnerAgentId > 3) {
-    throw new Error(`Invalid winnerAgentId: ${winnerAgentId}. Must be 0-3.`);
+  const config = getConfig();
+  if (winnerAgentId < 0 || winnerAgentId >= config.agentCount) {
+    throw new Error(`Invalid winnerAgentId: ${winnerAgentId}. Must be 0-${config.agentCount - 1}.`);
   }
   
   const contract = getPokerBettingContract();
-  const config = getConfig();
   const chainId = getChainId();
   
   console.log(`[Contract] Resolving game ${gameId} with winner ${winnerAgentId}...`);
@@ -636,7 +661,7 @@ export async function getOnChainGameStatus(gameId: bigint): Promise<OnChainGameS
   
   const result = await readContract({
     contract,
-    method: "function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[4] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))",
+    method: getGameMethod(getConfig().agentCount),
     params: [gameId],
   });
   
@@ -644,28 +669,46 @@ export async function getOnChainGameStatus(gameId: bigint): Promise<OnChainGameS
 }
 
 /**
- * Map Supabase agent ID to on-chain agent index
- * On-chain: 0=Chamath, 1=Sacks, 2=Jason, 3=Friedberg
+ * Map an agent name or slug to its on-chain agent index
+ * On-chain indices follow AGENT_NAMES: 0=Chamath, 1=Sacks, 2=Jason, 3=Friedberg
  */
 export function agentIdToContractIndex(agentName: string): number {
-  const mapping: Record<string, number> = {
-    'Chamath': 0,
-    'chamath': 0,
-    'Sacks': 1,
-    'sacks': 1,
-    'Jason': 2,
-    'jason': 2,
-    'Friedberg': 3,
-    'friedberg': 3,
-  };
-  
-  const index = mapping[agentName];
-  if (index === undefined) {
+  const index = AGENT_NAMES.findIndex(name => name.toLowerCase() === agentName.toLowerCase());
+  if (index === -1) {
     throw new Error(`Unknown agent name: ${agentName}`);
   }
   return index;
 }
 
+/**
+ * Number of the latest block on the current chain
+ * Any block mined after this one has a hash nobody could know at the time of the call
+ */
+export async function getLatestBlockNumber(): Promise<number> {
+  const rpcRequest = getRpcClient({ client: serverClient, chain: getChain() });
+  return Number(await eth_blockNumber(rpcRequest));
+}
+
+/**
+ * Hash of a block, read from the chain
+ * Returns null if the block can't be fetched
+ *
+ * @param chainId - Chain the block is on (defaults to the current one)
+ */
+export async function getBlockHash(blockNumber: number, chainId: number = getChainId()): Promise<string | null> {
+  const chain = [baseCustom, baseSepoliaCustom].find(c => c.id === chainId);
+  if (!chain) return null;
+
+  try {
+    const rpcRequest = getRpcClient({ client: serverClient, chain });
+    const block = await eth_getBlockByNumber(rpcRequest, { blockNumber: BigInt(blockNumber) });
+    return block.hash ?? null;
+  } catch (error) {
+    console.error(`[Contract] Failed to fetch block ${blockNumber}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get the current chain configuration
  */
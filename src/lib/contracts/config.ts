@@ -11,6 +11,8 @@
  *                             - Proxy: 0x64ABd4F790ef8a44B89c6C3f4124ACdA3971B40b
  *                             - Implementation: 0x5E4a0e0384aB562F341b2B86Ed50336206056053
  * 
+ * Updated: October 19, 2026 - Added agentCount (number of agent pools the deployed contract holds)
+ * 
  * Networks:
  * - Base Sepolia (testnet): V2 deployed and verified
  * - Base Mainnet: V2 deployed Feb 16, 2026
@@ -39,6 +41,8 @@ export const SEPOLIA = {
     pokerBettingImplementation: "0xDEDda864eF09BC93E1F3D78fa655f3d7E6C104CD" as `0x${string}`,
     usdc: "0xf56873A99B2E5F83562F01996f46C42AFAEc9f84" as `0x${string}`, // MockUSDC - contract was deployed with this token
   },
+  // V2 was deployed with 4 agent pools (uint256[4]); a redeploy for another table size changes this
+  agentCount: 4,
   explorer: "https://sepolia.basescan.org",
 } as const;
 
@@ -57,6 +61,7 @@ export const MAINNET = {
     pokerBettingImplementation: "0x5E4a0e0384aB562F341b2B86Ed50336206056053" as `0x${string}`, // Implementation
     usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as `0x${string}`, // Official Circle USDC on Base
   },
+  agentCount: 4, // Agent pools in the deployed contract
   explorer: "https://basescan.org",
 } as const;
 
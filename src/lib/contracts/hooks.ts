@@ -20,6 +20,7 @@
  *                           - usePokerBettingContract now uses default chain when no wallet
  *                           - This allows pool data to display for ALL users (not just connected)
  *                           - Uses baseSepolia as default (TODO: switch to base for production)
+ * Updated: October 19, 2026 - Agent arrays are sized from the chain's agentCount (no fixed 4-tuples)
  * 
  * These hooks integrate with Thirdweb for wallet connection and contract calls.
  * Contract methods are specified as strings to avoid ABI typing issues.
@@ -50,6 +51,10 @@ import {
   GameStatus,
   USDC_DECIMALS,
   BASIS_POINTS,
+  getAgentCount,
+  getGameMethod,
+  getUserBetsMethod,
+  getOddsMethod,
 } from "./index";
 
 // Default chain for public reads when no wallet is connected
@@ -135,6 +140,13 @@ export function useUSDCContract() {
 // READ FUNCTIONS (Standalone - for use outside React components)
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Agent pools in the contract this instance points at
+ */
+function getContractAgentCount(contract: ReturnType<typeof getContract>): number {
+  return getAgentCount(contract.chain.id);
+}
+
 /**
  * Fetch game data
  */
@@ -144,13 +156,13 @@ export async function fetchGame(
 ): Promise<Game> {
   const result = await readContract({
     contract,
-    method: "function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[4] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))",
+    method: getGameMethod(getContractAgentCount(contract)),
     params: [gameId],
   });
   
   return {
     totalPool: result.totalPool,
-    agentPools: result.agentPools as [bigint, bigint, bigint, bigint],
+    agentPools: [...(result.agentPools as readonly bigint[])],
     winnerAgentId: result.winnerAgentId,
     status: result.status as GameStatus,
     createdAt: Number(result.createdAt),
@@ -169,12 +181,12 @@ export async function fetchUserBets(
 ): Promise<UserBets> {
   const result = await readContract({
     contract,
-    method: "function getUserBets(uint256 gameId, address user) view returns ((uint256[4] agentBets, uint256 totalBet))",
+    method: getUserBetsMethod(getContractAgentCount(contract)),
     params: [gameId, userAddress],
   });
   
   return {
-    agentBets: result.agentBets as [bigint, bigint, bigint, bigint],
+    agentBets: [...(result.agentBets as readonly bigint[])],
     totalBet: result.totalBet,
   };
 }
@@ -219,11 +231,11 @@ export async function fetchOdds(
 ): Promise<Odds> {
   const result = await readContract({
     contract,
-    method: "function getOdds(uint256 gameId) view returns (uint256[4] odds)",
+    method: getOddsMethod(getContractAgentCount(contract)),
     params: [gameId],
   });
   
-  return result as Odds;
+  return [...(result as readonly bigint[])];
 }
 
 /**
@@ -696,21 +708,25 @@ export function useClaimRefund() {
 export function useFormattedBettingData(gameId: bigint | null) {
   const { game, odds, userBets, claimable, hasClaimed, isLoading, error, refresh } = useBettingData(gameId);
   
+  // Zero-filled defaults sized to the contract until data arrives
+  const agentCount = game?.agentPools.length ?? getAgentCount();
+  const zeros = () => new Array<number>(agentCount).fill(0);
+  
   // Calculate user's bet on the winning agent specifically
   const winnerAgentId = game?.winnerAgentId ?? null;
-  const userAgentBetsFormatted = userBets?.agentBets.map(b => Number(b) / (10 ** USDC_DECIMALS)) || [0, 0, 0, 0];
-  const userBetOnWinner = winnerAgentId !== null && winnerAgentId >= 0 && winnerAgentId < 4
-    ? userAgentBetsFormatted[winnerAgentId]
+  const userAgentBetsFormatted = userBets?.agentBets.map(b => Number(b) / (10 ** USDC_DECIMALS)) || zeros();
+  const userBetOnWinner = winnerAgentId !== null && winnerAgentId >= 0 && winnerAgentId < agentCount
+    ? userAgentBetsFormatted[winnerAgentId] ?? 0
     : 0;
   
   // Format data for UI consumption
   const formattedData = {
     // Pool info
     totalPool: game ? Number(game.totalPool) / (10 ** USDC_DECIMALS) : 0,
-    agentPools: game?.agentPools.map(p => Number(p) / (10 ** USDC_DECIMALS)) || [0, 0, 0, 0],
+    agentPools: game?.agentPools.map(p => Number(p) / (10 ** USDC_DECIMALS)) || zeros(),
     
     // Odds as multipliers (e.g., 2.5x)
-    oddsMultipliers: odds?.map(o => o === 0n ? 0 : Number(o) / Number(BASIS_POINTS)) || [0, 0, 0, 0],
+    oddsMultipliers: odds?.map(o => o === 0n ? 0 : Number(o) / Number(BASIS_POINTS)) || zeros(),
     
     // User bets
     userAgentBets: userAgentBetsFormatted,
@@ -3,6 +3,8 @@
  * 
  * Created: January 10, 2026
  * Updated: January 26, 2026 - Single source of truth from config.ts
+ * Updated: October 19, 2026 - Parameterised by agent count (2-9 agents) instead of a fixed 4-tuple
+ *                           - Method signatures with uint256[N] are built from the network's agentCount
  * 
  * Network: Base (mainnet) & Base Sepolia (testnet)
  * 
@@ -17,7 +19,7 @@
  */
 
 import { base, baseSepolia } from "thirdweb/chains";
-import { SEPOLIA, MAINNET } from "./config";
+import { SEPOLIA, MAINNET, getConfigByChainId, getCurrentConfig } from "./config";
 
 /**
  * V2 ABI - Regenerated January 22, 2026
@@ -65,10 +67,13 @@ export const MIN_BET = 100_000n;
 /** Basis points denominator (100% = 10000) */
 export const BASIS_POINTS = 10_000n;
 
-/** Maximum agents (4 AI players) */
-export const MAX_AGENTS = 4;
+/** Minimum agents per game (heads-up) */
+export const MIN_AGENTS = 2;
 
-/** Agent IDs map to these names */
+/** Maximum agents per game (full ring) */
+export const MAX_AGENTS = 9;
+
+/** Agent IDs 0-3 map to these names; higher IDs fall back to "Agent N" */
 export const AGENT_NAMES = ["Chamath", "Sacks", "Jason", "Friedberg"] as const;
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -90,7 +95,7 @@ export enum GameStatus {
 /** Game struct from contract */
 export interface Game {
   totalPool: bigint;
-  agentPools: [bigint, bigint, bigint, bigint];
+  agentPools: bigint[]; // One entry per agent (length = contract agent count)
   winnerAgentId: number;
   status: GameStatus;
   createdAt: number;
@@ -102,8 +107,8 @@ export interface Game {
  * Users can bet on multiple agents, multiple times
  */
 export interface UserBets {
-  /** Amount bet on each agent [Chamath, Sacks, Jason, Friedberg] */
-  agentBets: [bigint, bigint, bigint, bigint];
+  /** Amount bet on each agent, indexed by agent ID */
+  agentBets: bigint[];
   /** Total amount bet across all agents */
   totalBet: bigint;
 }
@@ -128,8 +133,36 @@ export interface PotentialPayout {
   net: bigint;
 }
 
-/** Odds array (4 agents) - values in basis points where 10000 = 1.0x */
-export type Odds = [bigint, bigint, bigint, bigint];
+/** Odds array (one per agent) - values in basis points where 10000 = 1.0x */
+export type Odds = bigint[];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AGENT COUNT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Number of agent pools in the contract deployed on a chain
+ * Defaults to the current environment's network
+ */
+export function getAgentCount(chainId?: number): number {
+  return chainId !== undefined ? getConfigByChainId(chainId).agentCount : getCurrentConfig().agentCount;
+}
+
+/**
+ * Contract method signatures whose return types contain one slot per agent
+ * The deployed ABI uses fixed-size arrays, so the size must match the contract
+ */
+export function getGameMethod<N extends number>(agentCount: N) {
+  return `function getGame(uint256 gameId) view returns ((uint256 totalPool, uint256[${agentCount}] agentPools, uint8 winnerAgentId, uint8 status, uint48 createdAt, uint48 resolvedAt))` as const;
+}
+
+export function getUserBetsMethod<N extends number>(agentCount: N) {
+  return `function getUserBets(uint256 gameId, address user) view returns ((uint256[${agentCount}] agentBets, uint256 totalBet))` as const;
+}
+
+export function getOddsMethod<N extends number>(agentCount: N) {
+  return `function getOdds(uint256 gameId) view returns (uint256[${agentCount}] odds)` as const;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
 // HELPER FUNCTIONS
@@ -173,9 +206,12 @@ export function formatOdds(odds: bigint): string {
  * Get agent name from ID
  */
 export function getAgentName(agentId: number): string {
-  if (agentId >= 0 && agentId < MAX_AGENTS) {
+  if (agentId >= 0 && agentId < AGENT_NAMES.length) {
     return AGENT_NAMES[agentId];
   }
+  if (agentId >= 0 && agentId < MAX_AGENTS) {
+    return `Agent ${agentId + 1}`;
+  }
   return "Unknown";
 }
 
@@ -210,8 +246,8 @@ export function canPlaceBet(game: Game): boolean {
  */
 export function canClaimWinnings(game: Game, userBets: UserBets): boolean {
   if (game.status !== GameStatus.Resolved) return false;
-  if (game.winnerAgentId >= MAX_AGENTS) return false;
-  return userBets.agentBets[game.winnerAgentId] > 0n;
+  if (game.winnerAgentId >= game.agentPools.length) return false;
+  return (userBets.agentBets[game.winnerAgentId] ?? 0n) > 0n;
 }
 
 /**
@@ -227,8 +263,8 @@ export function canClaimRefund(game: Game, userBets: UserBets): boolean {
  */
 export function getWinningBetAmount(game: Game, userBets: UserBets): bigint {
   if (game.status !== GameStatus.Resolved) return 0n;
-  if (game.winnerAgentId >= MAX_AGENTS) return 0n;
-  return userBets.agentBets[game.winnerAgentId];
+  if (game.winnerAgentId >= game.agentPools.length) return 0n;
+  return userBets.agentBets[game.winnerAgentId] ?? 0n;
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Blind Schedule Tests
+ * Requested blind structures (create_game) and their fallbacks
+ *
+ * Created: Oct 19, 2026
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createBlindStructure, parseBlindStructure } from '../blinds'
+
+test('nothing requested gives the default escalating structure with big-blind antes', () => {
+  assert.deepEqual(parseBlindStructure(undefined, 25), createBlindStructure(25))
+  assert.equal(parseBlindStructure({}, 25).anteType, 'big_blind')
+})
+
+test('an ante type alone keeps the default levels', () => {
+  assert.deepEqual(parseBlindStructure({ anteType: 'per_player' }, 25), createBlindStructure(25, 'per_player'))
+  assert.ok(parseBlindStructure({ anteType: 'none' }, 25).levels.every(level => level.ante === 0))
+})
+
+test('valid levels are kept as requested', () => {
+  const levels = [
+    { fromHand: 1, smallBlind: 25, bigBlind: 50, ante: 0 },
+    { fromHand: 4, smallBlind: 50, bigBlind: 100, ante: 10 },
+  ]
+  assert.deepEqual(parseBlindStructure({ levels, anteType: 'per_player' }, 5), { levels, anteType: 'per_player' })
+  // No ante type means big-blind antes; antes are dropped with 'none'
+  assert.equal(parseBlindStructure({ levels }, 5).anteType, 'big_blind')
+  assert.deepEqual(parseBlindStructure({ levels, anteType: 'none' }, 5).levels.map(l => l.ante), [0, 0])
+})
+
+test('invalid levels or ante types fall back to the default', () => {
+  const fallback = createBlindStructure(5)
+  for (const levels of [
+    [],
+    [{ fromHand: 2, smallBlind: 10, bigBlind: 20, ante: 0 }], // Doesn't start at hand 1
+    [{ fromHand: 1, smallBlind: 10, bigBlind: 20 }, { fromHand: 1, smallBlind: 20, bigBlind: 40 }], // Repeated fromHand
+    [{ fromHand: 1, smallBlind: 20, bigBlind: 10 }], // Big blind below the small
+    [{ fromHand: 1, smallBlind: 0, bigBlind: 20 }],
+    [{ fromHand: 1, smallBlind: 10.5, bigBlind: 20 }],
+    [{ fromHand: 1, smallBlind: 10, bigBlind: 20, ante: -5 }],
+    'not levels',
+  ]) {
+    assert.deepEqual(parseBlindStructure({ levels }, 5), fallback, JSON.stringify(levels))
+  }
+  assert.deepEqual(parseBlindStructure({ anteType: 'straddle' }, 5), fallback)
+})
@@ -0,0 +1,227 @@
+/**
+ * Hand Reducer Tests
+ * reduceHand street by street, without a database
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Min raise after full and short all-in raises, and when an incomplete
+ *                        all-in reopens the betting
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ActionType, CardNotation, GameState } from '@/types/poker'
+import { createDeck } from '../deck'
+import {
+  getMinRaiseTotal,
+  getNextStep,
+  getValidActions,
+  initializeHand,
+  isAllInRunout,
+  normalizeAction,
+  reduceHand,
+  type HandPlayer,
+} from '../game-engine'
+
+const CONFIG = { smallBlind: 10, bigBlind: 20, startingChips: 1000, bettingWindowSeconds: 20 }
+
+/**
+ * A deck that deals these hole cards (in seat order) and this board
+ * Hole cards come off the top a player at a time; each street burns one card first.
+ */
+function stackDeck(holeCards: CardNotation[][], board: CardNotation[]): CardNotation[] {
+  const [burn1, burn2, burn3, ...rest] = createDeck().filter(c => !holeCards.flat().includes(c) && !board.includes(c))
+  return [...holeCards.flat(), burn1, ...board.slice(0, 3), burn2, board[3], burn3, board[4], ...rest]
+}
+
+const act = (state: GameState, type: ActionType, amount?: number) =>
+  reduceHand(state, { type: 'PLAYER_ACTION', action: { type, amount } })
+
+const toAct = (state: GameState) => state.players[state.activePlayerIndex]?.agentId ?? null
+
+const chips = (state: GameState) => Object.fromEntries(state.players.map(p => [p.agentId, p.chipCount]))
+
+test('a hand street by street: blinds, betting rounds, dealing and the showdown', () => {
+  const players: HandPlayer[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }]
+  const board = ['2s', '9c', 'Jd', '4h', '8s']
+  const deck = stackDeck([['As', 'Ah'], ['Kd', 'Kc'], ['7h', '3d']], board)
+  let state = initializeHand('hand-1', players, 0, CONFIG, deck)
+
+  // Preflop: b posts the small blind, c the big; a acts first
+  assert.deepEqual(chips(state), { a: 1000, b: 990, c: 980 })
+  assert.equal(state.pot, 30)
+  assert.equal(state.currentBet, 20)
+  assert.equal(toAct(state), 'a')
+  assert.deepEqual(getValidActions(state), ['fold', 'call', 'raise', 'all_in'])
+
+  let step = act(state, 'call')
+  assert.deepEqual(step.events, [{ type: 'PLAYER_ACTION', agentId: 'a', action: { type: 'call', amount: 20 } }])
+  // The reducer never mutates its input
+  assert.equal(state.pot, 30)
+  state = step.newState
+
+  state = act(state, 'call').newState // b completes the small blind
+  assert.equal(toAct(state), 'c')
+  assert.deepEqual(getValidActions(state), ['fold', 'check', 'raise', 'all_in'])
+  state = act(state, 'check').newState
+  assert.equal(state.pot, 60)
+  assert.equal(toAct(state), null)
+  assert.equal(getNextStep(state), 'deal')
+  assert.throws(() => act(state, 'check'), /No player is due to act/)
+
+  // Flop: action starts left of the dealer
+  step = reduceHand(state, { type: 'DEAL_NEXT_STREET' })
+  assert.deepEqual(step.events, [{ type: 'CARDS_DEALT', round: 'flop', cards: ['2s', '9c', 'Jd'] }])
+  state = step.newState
+  assert.equal(state.round, 'flop')
+  assert.equal(state.currentBet, 0)
+  assert.equal(toAct(state), 'b')
+  assert.throws(() => reduceHand(state, { type: 'DEAL_NEXT_STREET' }), /Betting round is still open/)
+
+  state = act(state, 'check').newState
+  state = act(state, 'raise', 40).newState // c bets 40
+  state = act(state, 'raise', 120).newState // a raises to 120
+  assert.equal(toAct(state), 'b')
+  state = act(state, 'fold').newState
+  step = act(state, 'call')
+  assert.deepEqual(step.events, [{ type: 'PLAYER_ACTION', agentId: 'c', action: { type: 'call', amount: 80 } }])
+  state = step.newState
+  assert.equal(state.pot, 300)
+  assert.equal(getNextStep(state), 'deal')
+
+  // Turn: checked through
+  state = reduceHand(state, { type: 'DEAL_NEXT_STREET' }).newState
+  assert.deepEqual(state.communityCards, board.slice(0, 4))
+  assert.equal(toAct(state), 'c')
+  state = act(state, 'check').newState
+  state = act(state, 'check').newState
+
+  // River: bet and call, then the showdown
+  state = reduceHand(state, { type: 'DEAL_NEXT_STREET' }).newState
+  assert.equal(state.round, 'river')
+  assert.deepEqual(state.communityCards, board)
+  state = act(state, 'check').newState
+  state = act(state, 'raise', 100).newState
+  state = act(state, 'call').newState
+  assert.equal(getNextStep(state), 'showdown')
+  assert.throws(() => reduceHand(state, { type: 'DEAL_NEXT_STREET' }), /resolve the showdown/)
+
+  step = reduceHand(state, { type: 'SHOWDOWN' })
+  assert.deepEqual(step.events, [{ type: 'HAND_COMPLETE', winnerId: 'a', winningHand: 'Pair of Aces', pot: 500 }])
+  state = step.newState
+  assert.equal(state.isComplete, true)
+  assert.equal(getNextStep(state), 'complete')
+  assert.deepEqual(state.winnings, { a: 500 })
+  assert.deepEqual(chips(state), { a: 1260, b: 980, c: 760 })
+  assert.throws(() => reduceHand(state, { type: 'SHOWDOWN' }), /already complete/)
+})
+
+test('an uncalled bet goes back and the last player standing wins without a board', () => {
+  const players: HandPlayer[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }]
+  let state = initializeHand('hand-1', players, 0, CONFIG, stackDeck([['As', 'Ah'], ['Kd', 'Kc'], ['7h', '3d']], ['2s', '9c', 'Jd', '4h', '8s']))
+
+  state = act(state, 'raise', 100).newState
+  state = act(state, 'fold').newState
+  const step = act(state, 'fold')
+  assert.deepEqual(step.events.at(-1), { type: 'BET_RETURNED', agentId: 'a', amount: 80 })
+  state = step.newState
+  assert.equal(getNextStep(state), 'showdown')
+
+  state = reduceHand(state, { type: 'SHOWDOWN' }).newState
+  assert.deepEqual(state.communityCards, [])
+  assert.equal(state.winningHand, 'Last player standing')
+  assert.deepEqual(chips(state), { a: 1030, b: 990, c: 980 })
+})
+
+test('an all-in runout deals every street without betting', () => {
+  // Heads-up: the dealer (a) posts the small blind and acts first preflop
+  const players: HandPlayer[] = [{ id: 'a', name: 'A', chipCount: 300 }, { id: 'b', name: 'B' }]
+  const board = ['2s', '9c', 'Jd', 'Kh', '8s']
+  let state = initializeHand('hand-1', players, 0, CONFIG, stackDeck([['As', 'Ah'], ['Kd', 'Kc']], board))
+  assert.equal(toAct(state), 'a')
+
+  state = act(state, 'all_in').newState
+  assert.deepEqual(getValidActions(state), ['fold', 'call', 'raise', 'all_in'])
+  state = act(state, 'call').newState
+  assert.equal(state.pot, 600)
+  assert.equal(isAllInRunout(state), true)
+
+  for (const round of ['flop', 'turn', 'river']) {
+    assert.equal(getNextStep(state), 'deal')
+    state = reduceHand(state, { type: 'DEAL_NEXT_STREET' }).newState
+    assert.equal(state.round, round)
+    assert.equal(toAct(state), null, `nobody acts on the ${round}`)
+  }
+  assert.equal(getNextStep(state), 'showdown')
+
+  state = reduceHand(state, { type: 'SHOWDOWN' }).newState
+  assert.equal(state.winnerId, 'b')
+  assert.equal(state.winningHand, 'Three of a Kind, Kings')
+  assert.deepEqual(chips(state), { a: 0, b: 1300 })
+})
+
+// a acts first preflop, b posts the small blind and c the big
+function shortStackHand(bChips: number, cChips: number): GameState {
+  const players: HandPlayer[] = [
+    { id: 'a', name: 'A' },
+    { id: 'b', name: 'B', chipCount: bChips },
+    { id: 'c', name: 'C', chipCount: cChips },
+  ]
+  return initializeHand('hand-1', players, 0, CONFIG, stackDeck([['As', 'Ah'], ['Kd', 'Kc'], ['7h', '3d']], ['2s', '9c', 'Jd', '4h', '8s']))
+}
+
+test('the min raise is the current bet plus the last full raise', () => {
+  let state = shortStackHand(1000, 1000)
+  assert.equal(getMinRaiseTotal(state), 40) // The big blind is the opening bet
+
+  state = act(state, 'raise', 60).newState // Raise by 40
+  assert.equal(getMinRaiseTotal(state), 100)
+  // A raise below the minimum is raised to it
+  assert.deepEqual(normalizeAction(state, { type: 'raise', amount: 70 }), { type: 'raise', amount: 100 })
+
+  state = act(state, 'raise', 250).newState // Raise by 190
+  assert.equal(getMinRaiseTotal(state), 440)
+
+  // Each street starts over from the big blind
+  state = act(state, 'call').newState
+  state = act(state, 'call').newState
+  state = reduceHand(state, { type: 'DEAL_NEXT_STREET' }).newState
+  assert.equal(getMinRaiseTotal(state), 20)
+})
+
+test('a short all-in raise keeps the last full raise as the min raise', () => {
+  let state = shortStackHand(150, 1000)
+  state = act(state, 'raise', 100).newState // Raise by 80
+  state = act(state, 'all_in').newState // b: 150 total, only 50 more
+  assert.equal(state.currentBet, 150)
+  assert.equal(getMinRaiseTotal(state), 230)
+
+  // c hasn't acted yet, so may raise - by at least the full 80
+  assert.equal(toAct(state), 'c')
+  assert.deepEqual(getValidActions(state), ['fold', 'call', 'raise', 'all_in'])
+  assert.deepEqual(normalizeAction(state, { type: 'raise', amount: 200 }), { type: 'raise', amount: 230 })
+})
+
+test('an incomplete all-in raise does not reopen the betting for players who already acted', () => {
+  let state = shortStackHand(150, 1000)
+  state = act(state, 'raise', 100).newState
+  state = act(state, 'all_in').newState // b: 50 more, less than a full raise
+  state = act(state, 'call').newState // c calls 150
+
+  // a already acted at 100 and only faces 50 more: call or fold
+  assert.equal(toAct(state), 'a')
+  assert.deepEqual(getValidActions(state), ['fold', 'call'])
+  const step = act(state, 'raise', 400)
+  assert.deepEqual(step.events[0], { type: 'PLAYER_ACTION', agentId: 'a', action: { type: 'call', amount: 50 } })
+  assert.equal(getNextStep(step.newState), 'deal')
+})
+
+test('short all-ins that add up to a full raise reopen the betting', () => {
+  let state = shortStackHand(150, 200)
+  state = act(state, 'raise', 100).newState // Raise by 80
+  state = act(state, 'all_in').newState // b: 150 total
+  state = act(state, 'all_in').newState // c: 200 total - 100 over what a acted at
+
+  assert.equal(toAct(state), 'a')
+  assert.deepEqual(getValidActions(state), ['fold', 'call', 'raise', 'all_in'])
+  assert.equal(getMinRaiseTotal(state), 280)
+})
@@ -0,0 +1,111 @@
+/**
+ * Hand Evaluator Tests
+ * The lookup-table evaluator against the old string-based one, over every 5-card hand
+ *
+ * Created: Oct 19, 2026
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { CardNotation } from '@/types/poker'
+import { createDeck, getRankValue, notationToCard } from '../deck'
+import { encodeCard, evaluateHand, scoreCards } from '../hand-evaluator'
+import * as reference from './reference-evaluator'
+
+const DECK = createDeck()
+const CODES = DECK.map(encodeCard)
+
+// Old evaluator's order as one number: category, then card values in compareHands order
+function referenceKey(cards: CardNotation[]): number {
+  const hand = reference.evaluateHand(cards.slice(0, 2), cards.slice(2))
+  return hand.cards.reduce((key, card) => key * 15 + getRankValue(notationToCard(card).rank), hand.rankValue)
+}
+
+const score = (cards: CardNotation[]) => scoreCards(cards.map(encodeCard))
+
+test('every 5-card hand gets the same category and order as the old evaluator', () => {
+  const scoreByKey = new Map<number, number>() // Old order key -> new score, one per hand class
+  const categoryCounts = new Map<string, number>()
+  let hands = 0
+
+  const cards: CardNotation[] = []
+  const codes: number[] = []
+  for (let a = 0; a < 52; a++) {
+    for (let b = a + 1; b < 52; b++) {
+      for (let c = b + 1; c < 52; c++) {
+        for (let d = c + 1; d < 52; d++) {
+          for (let e = d + 1; e < 52; e++) {
+            cards.length = 0
+            codes.length = 0
+            for (const i of [a, b, c, d, e]) {
+              cards.push(DECK[i])
+              codes.push(CODES[i])
+            }
+            const newScore = scoreCards(codes)
+            const key = referenceKey(cards)
+            const known = scoreByKey.get(key)
+            if (known === undefined) {
+              scoreByKey.set(key, newScore)
+            } else if (known !== newScore) {
+              assert.fail(`${cards.join(' ')} scores ${newScore}, an equal hand scored ${known}`)
+            }
+            hands++
+          }
+        }
+      }
+    }
+  }
+  assert.equal(hands, 2_598_960)
+  assert.equal(scoreByKey.size, 7462) // Distinct 5-card hand classes
+
+  // Sorted by the old order, the new scores must strictly increase (so every
+  // pair of hands compares the same way) and keep the old category
+  const keys = [...scoreByKey.keys()].sort((x, y) => x - y)
+  for (let i = 0; i < keys.length; i++) {
+    const newScore = scoreByKey.get(keys[i])!
+    const oldCategory = Math.floor(keys[i] / 15 ** 5)
+    const newCategory = Math.floor(newScore / 16 ** 5)
+    assert.equal(newCategory, oldCategory, `category differs for old key ${keys[i]}`)
+    if (i > 0) assert.ok(newScore > scoreByKey.get(keys[i - 1])!, `order differs at old key ${keys[i]}`)
+    categoryCounts.set(String(newCategory), (categoryCounts.get(String(newCategory)) ?? 0) + 1)
+  }
+  // Hand classes per category, high card (1) to royal flush (10)
+  assert.deepEqual(
+    [...categoryCounts.entries()].sort(([x], [y]) => Number(x) - Number(y)).map(([, n]) => n),
+    [1277, 2860, 858, 858, 10, 1277, 156, 156, 9, 1]
+  )
+})
+
+test('the wheel is the lowest straight', () => {
+  const wheel = ['Ah', '2d', '3c', '4s', '5h']
+  const sixHigh = ['2d', '3c', '4s', '5h', '6d']
+  const trips = ['Ah', 'Ad', 'Ac', 'Ks', 'Qh']
+
+  const hand = evaluateHand(wheel.slice(0, 2), wheel.slice(2))
+  assert.equal(hand.rank, 'straight')
+  assert.equal(hand.description, 'Straight, 5 high')
+  assert.deepEqual(hand.cards, ['5h', '4s', '3c', '2d', 'Ah'])
+  assert.ok(score(wheel) < score(sixHigh))
+  assert.ok(score(wheel) > score(trips))
+
+  const old = reference.evaluateHand(wheel.slice(0, 2), wheel.slice(2))
+  assert.equal(old.rank, 'straight')
+  assert.deepEqual(old.cards, hand.cards)
+})
+
+test('the steel wheel is the lowest straight flush', () => {
+  const steelWheel = ['Ah', '2h', '3h', '4h', '5h']
+  const sixHigh = ['2h', '3h', '4h', '5h', '6h']
+  const quads = ['Ah', 'Ad', 'Ac', 'As', 'Kh']
+
+  assert.equal(evaluateHand(steelWheel, []).rank, 'straight_flush')
+  assert.equal(evaluateHand(steelWheel, []).description, 'Straight Flush, 5 high')
+  assert.ok(score(steelWheel) < score(sixHigh))
+  assert.ok(score(steelWheel) > score(quads))
+})
+
+test('a 6-high straight beats the wheel in the same seven cards', () => {
+  const hand = evaluateHand(['Ah', '6c'], ['2d', '3c', '4s', '5h', 'Kd'])
+  assert.equal(hand.description, 'Straight, 6 high')
+  assert.deepEqual(hand.cards, ['6c', '5h', '4s', '3c', '2d'])
+})
@@ -0,0 +1,122 @@
+/**
+ * Pot Engine Tests
+ * Side pots, dead money, antes and odd chips
+ *
+ * Created: Oct 19, 2026
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { awardPots, calculatePots, getOddChipOrder, sumPotAwards, type PotContribution } from '../pots'
+
+// No flush or straight is possible; pairs only come from hole cards
+const BOARD = ['2s', '7d', '9c', 'Jh', 'Kd']
+const TRIP_KINGS = ['Ks', 'Kc']
+const ACES = ['As', 'Ac']
+const QUEENS = ['Qs', 'Qc']
+const HIGH_CARD = ['3c', '4c']
+
+const live = (playerId: string, amount: number, dead?: number): PotContribution =>
+  ({ playerId, amount, dead, isFolded: false })
+const folded = (playerId: string, amount: number, dead?: number): PotContribution =>
+  ({ playerId, amount, dead, isFolded: true })
+
+test('multi-layer all-ins: one pot per all-in level, each won by the best hand that reached it', () => {
+  const pots = calculatePots([live('a', 100), live('b', 300), live('c', 500), live('d', 500)])
+  assert.deepEqual(pots, [
+    { amount: 400, eligiblePlayerIds: ['a', 'b', 'c', 'd'] },
+    { amount: 600, eligiblePlayerIds: ['b', 'c', 'd'] },
+    { amount: 400, eligiblePlayerIds: ['c', 'd'] },
+  ])
+
+  const awards = awardPots(pots, [
+    { playerId: 'a', holeCards: TRIP_KINGS },
+    { playerId: 'b', holeCards: ACES },
+    { playerId: 'c', holeCards: QUEENS },
+    { playerId: 'd', holeCards: HIGH_CARD },
+  ], BOARD, ['a', 'b', 'c', 'd'])
+  assert.deepEqual(awards.map(a => a.winners), [
+    [{ playerId: 'a', amount: 400 }],
+    [{ playerId: 'b', amount: 600 }],
+    [{ playerId: 'c', amount: 400 }],
+  ])
+  assert.deepEqual(sumPotAwards(awards), { a: 400, b: 600, c: 400 })
+})
+
+test('a folded player\'s chips stay in the pots they reached, but they can\'t win them', () => {
+  assert.deepEqual(calculatePots([folded('a', 50), live('b', 200), live('c', 200)]), [
+    { amount: 450, eligiblePlayerIds: ['b', 'c'] },
+  ])
+  // Folded above every live player: the excess is dead money in the last pot
+  assert.deepEqual(calculatePots([folded('a', 300), live('b', 100), live('c', 250)]), [
+    { amount: 300, eligiblePlayerIds: ['b', 'c'] },
+    { amount: 350, eligiblePlayerIds: ['c'] },
+  ])
+})
+
+test('antes are dead money in the main pot', () => {
+  // Everyone antes 10; a folds after the ante, b and c bet 200
+  assert.deepEqual(calculatePots([folded('a', 10, 10), live('b', 210, 10), live('c', 210, 10)]), [
+    { amount: 430, eligiblePlayerIds: ['b', 'c'] },
+  ])
+})
+
+test('an ante-only all-in contends for the antes alone', () => {
+  const pots = calculatePots([live('a', 10, 10), live('b', 210, 10), live('c', 210, 10)])
+  assert.deepEqual(pots, [
+    { amount: 30, eligiblePlayerIds: ['a', 'b', 'c'] },
+    { amount: 400, eligiblePlayerIds: ['b', 'c'] },
+  ])
+
+  const awards = awardPots(pots, [
+    { playerId: 'a', holeCards: TRIP_KINGS },
+    { playerId: 'b', holeCards: ACES },
+    { playerId: 'c', holeCards: HIGH_CARD },
+  ], BOARD, ['a', 'b', 'c'])
+  assert.deepEqual(sumPotAwards(awards), { a: 30, b: 400 })
+})
+
+test('split pots: the odd chip goes to the first tied winner left of the dealer', () => {
+  const players = [{ playerId: 'a' }, { playerId: 'b' }, { playerId: 'c' }]
+  const hands = [
+    { playerId: 'a', holeCards: ['Ah', 'Ad'] },
+    { playerId: 'b', holeCards: ACES },
+    { playerId: 'c', holeCards: HIGH_CARD },
+  ]
+  const pot = { amount: 25, eligiblePlayerIds: ['a', 'b', 'c'] }
+
+  // Dealer c: a is first to the left
+  const [dealerC] = awardPots([pot], hands, BOARD, getOddChipOrder(players, 2))
+  assert.deepEqual(dealerC.winners, [{ playerId: 'a', amount: 13 }, { playerId: 'b', amount: 12 }])
+  assert.equal(dealerC.winningHand, 'Pair of Aces')
+
+  // Dealer a: b is first to the left
+  const [dealerA] = awardPots([pot], hands, BOARD, getOddChipOrder(players, 0))
+  assert.deepEqual(dealerA.winners, [{ playerId: 'b', amount: 13 }, { playerId: 'a', amount: 12 }])
+
+  // Three-way tie on the board: two odd chips, in order from left of the dealer
+  const [threeWay] = awardPots(
+    [{ amount: 101, eligiblePlayerIds: ['a', 'b', 'c'] }],
+    [
+      { playerId: 'a', holeCards: ['2c', '3d'] },
+      { playerId: 'b', holeCards: ['4c', '5d'] },
+      { playerId: 'c', holeCards: ['6c', '3h'] },
+    ],
+    ['10s', 'Js', 'Qd', 'Kh', 'Ac'],
+    getOddChipOrder(players, 1)
+  )
+  assert.deepEqual(threeWay.winners, [
+    { playerId: 'c', amount: 34 },
+    { playerId: 'a', amount: 34 },
+    { playerId: 'b', amount: 33 },
+  ])
+})
+
+test('a pot with one eligible player is awarded without a showdown', () => {
+  const [award] = awardPots([{ amount: 350, eligiblePlayerIds: ['c'] }], [
+    { playerId: 'b', holeCards: ACES },
+    { playerId: 'c', holeCards: HIGH_CARD },
+  ], [], ['b', 'c'])
+  assert.deepEqual(award.winners, [{ playerId: 'c', amount: 350 }])
+  assert.equal(award.winningHand, null)
+})
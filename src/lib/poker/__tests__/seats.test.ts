@@ -0,0 +1,175 @@
+/**
+ * Seat Manager Tests
+ * Button and blinds through 4 -> 3 -> 2 players, for every elimination order
+ *
+ * Created: Oct 19, 2026
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getHandSeating, getNextButtonPositions, type ButtonPositions } from '../seats'
+
+const SEATS = [0, 1, 2, 3]
+
+/**
+ * Seats from `from` (exclusive) to `to` (exclusive), clockwise
+ */
+function seatsBetween(from: number, to: number): number[] {
+  const between: number[] = []
+  for (let seat = (from + 1) % SEATS.length; seat !== to; seat = (seat + 1) % SEATS.length) {
+    between.push(seat)
+  }
+  return between
+}
+
+/**
+ * Play hands while two players bust out in turn
+ * The first busts after `firstBustHand` hands and the second `secondBustAfter`
+ * hands later; hands continue heads-up for a couple more.
+ */
+function playOut(
+  [firstOut, secondOut]: [number, number],
+  firstBustHand: number,
+  secondBustAfter: number
+): { active: number[]; positions: ButtonPositions }[] {
+  const hands: { active: number[]; positions: ButtonPositions }[] = []
+  let active = [...SEATS]
+  let previous: ButtonPositions | null = null
+
+  for (let hand = 1; hand <= firstBustHand + secondBustAfter + 3; hand++) {
+    if (hand === firstBustHand + 1) active = active.filter(seat => seat !== firstOut)
+    if (hand === firstBustHand + secondBustAfter + 1) active = active.filter(seat => seat !== secondOut)
+    const positions = getNextButtonPositions(active, previous)
+    hands.push({ active, positions })
+    previous = positions
+  }
+  return hands
+}
+
+// Every (first out, second out) pair of the four seats
+const ELIMINATION_ORDERS = SEATS.flatMap(first =>
+  SEATS.filter(second => second !== first).map(second => [first, second] as [number, number])
+)
+
+test('dead button: the big blind never skips anyone or repeats, for every elimination order', () => {
+  for (const order of ELIMINATION_ORDERS) {
+    let deadButtons = 0
+    let deadSmallBlinds = 0
+    for (let firstBustHand = 1; firstBustHand <= 4; firstBustHand++) {
+      for (let secondBustAfter = 1; secondBustAfter <= 3; secondBustAfter++) {
+        const hands = playOut(order, firstBustHand, secondBustAfter)
+        const label = `out ${order.join(', ')} after hands ${firstBustHand} and +${secondBustAfter}`
+
+        hands.forEach(({ active, positions }, i) => {
+          const { buttonSeat, smallBlindSeat, bigBlindSeat } = positions
+          const { dealerIndex, button } = getHandSeating(active, positions)
+          const at = `${label}, hand ${i + 1}`
+          if (!active.includes(buttonSeat)) deadButtons++
+          if (button.deadSmallBlind) deadSmallBlinds++
+
+          assert.ok(active.includes(bigBlindSeat), `${at}: big blind on an empty seat`)
+          assert.equal(button.deadSmallBlind, !active.includes(smallBlindSeat), at)
+          assert.equal(button.buttonSeat, buttonSeat, at)
+          // The dealer is the button, or the closest player before a dead one
+          const dealer = active[dealerIndex]
+          assert.ok(
+            dealer === buttonSeat || (!active.includes(buttonSeat) && !seatsBetween(dealer, buttonSeat).some(s => active.includes(s))),
+            `${at}: dealer ${dealer} for button ${buttonSeat}`
+          )
+
+          if (i === 0) return
+          const previous = hands[i - 1].positions
+          assert.notEqual(bigBlindSeat, previous.bigBlindSeat, `${at}: big blind twice in a row`)
+          assert.deepEqual(
+            seatsBetween(previous.bigBlindSeat, bigBlindSeat).filter(s => active.includes(s)),
+            [],
+            `${at}: the big blind skipped a player`
+          )
+
+          if (active.length === 2) {
+            // Heads-up: the button posts the small blind, the other player the big
+            assert.equal(smallBlindSeat, buttonSeat, at)
+            assert.ok(active.includes(buttonSeat), `${at}: dead button heads-up`)
+            assert.notEqual(buttonSeat, bigBlindSeat, at)
+          } else {
+            // Three or more: the blinds and button follow the previous hand, even onto empty seats
+            assert.equal(smallBlindSeat, previous.bigBlindSeat, at)
+            assert.equal(buttonSeat, previous.smallBlindSeat, at)
+          }
+        })
+      }
+    }
+    // Some bust timing leaves each kind of dead seat
+    assert.ok(deadButtons > 0, `out ${order.join(', ')}: never a dead button`)
+    assert.ok(deadSmallBlinds > 0, `out ${order.join(', ')}: never a dead small blind`)
+  }
+})
+
+test('4 players: the first hand takes the button on the lowest seat', () => {
+  assert.deepEqual(getNextButtonPositions(SEATS), { buttonSeat: 0, smallBlindSeat: 1, bigBlindSeat: 2 })
+})
+
+test('4 -> 3: the small blind busts, leaving a dead button', () => {
+  const previous = { buttonSeat: 0, smallBlindSeat: 1, bigBlindSeat: 2 }
+  const active = [0, 2, 3]
+  const positions = getNextButtonPositions(active, previous)
+  assert.deepEqual(positions, { buttonSeat: 1, smallBlindSeat: 2, bigBlindSeat: 3 })
+
+  // Seat 0 deals and acts last after the flop
+  assert.deepEqual(getHandSeating(active, positions), { dealerIndex: 0, button: { buttonSeat: 1, deadSmallBlind: false } })
+
+  // Next hand the button is live again
+  assert.deepEqual(getNextButtonPositions(active, positions), { buttonSeat: 2, smallBlindSeat: 3, bigBlindSeat: 0 })
+})
+
+test('4 -> 3: the big blind busts, leaving a dead small blind', () => {
+  const previous = { buttonSeat: 0, smallBlindSeat: 1, bigBlindSeat: 2 }
+  const active = [0, 1, 3]
+  const positions = getNextButtonPositions(active, previous)
+  assert.deepEqual(positions, { buttonSeat: 1, smallBlindSeat: 2, bigBlindSeat: 3 })
+  assert.deepEqual(getHandSeating(active, positions), { dealerIndex: 1, button: { buttonSeat: 1, deadSmallBlind: true } })
+
+  // Then a dead button on the empty seat, and back to normal
+  const next = getNextButtonPositions(active, positions)
+  assert.deepEqual(next, { buttonSeat: 2, smallBlindSeat: 3, bigBlindSeat: 0 })
+  assert.equal(getHandSeating(active, next).button.deadSmallBlind, false)
+  assert.deepEqual(getNextButtonPositions(active, next), { buttonSeat: 3, smallBlindSeat: 0, bigBlindSeat: 1 })
+})
+
+test('3 -> 2: heads-up, the button posts the small blind and the big blind still moves on', () => {
+  // Seats 0, 2, 3 were left; seat 2 (the small blind) busts
+  const previous = { buttonSeat: 0, smallBlindSeat: 2, bigBlindSeat: 3 }
+  const active = [0, 3]
+  const positions = getNextButtonPositions(active, previous)
+  assert.deepEqual(positions, { buttonSeat: 3, smallBlindSeat: 3, bigBlindSeat: 0 })
+  assert.deepEqual(getHandSeating(active, positions), { dealerIndex: 1, button: { buttonSeat: 3, deadSmallBlind: false } })
+  assert.deepEqual(getNextButtonPositions(active, positions), { buttonSeat: 0, smallBlindSeat: 0, bigBlindSeat: 3 })
+})
+
+test('3 -> 2: the big blind busts going heads-up', () => {
+  const previous = { buttonSeat: 0, smallBlindSeat: 2, bigBlindSeat: 3 }
+  const active = [0, 2]
+  const positions = getNextButtonPositions(active, previous)
+  assert.deepEqual(positions, { buttonSeat: 2, smallBlindSeat: 2, bigBlindSeat: 0 })
+  assert.equal(getHandSeating(active, positions).button.deadSmallBlind, false)
+})
+
+test('moving button: the button goes to the next player and is never dead', () => {
+  const previous = { buttonSeat: 0, smallBlindSeat: 1, bigBlindSeat: 2 }
+  assert.deepEqual(
+    getNextButtonPositions([0, 2, 3], previous, 'moving_button'),
+    { buttonSeat: 2, smallBlindSeat: 3, bigBlindSeat: 0 }
+  )
+  assert.deepEqual(
+    getNextButtonPositions([0, 3], { buttonSeat: 2, smallBlindSeat: 3, bigBlindSeat: 0 }, 'moving_button'),
+    { buttonSeat: 3, smallBlindSeat: 3, bigBlindSeat: 0 }
+  )
+})
+
+test('hands recorded without blind seats fall back to moving the button', () => {
+  assert.deepEqual(getNextButtonPositions([0, 1, 2, 3], { buttonSeat: 3 }), { buttonSeat: 0, smallBlindSeat: 1, bigBlindSeat: 2 })
+})
+
+test('fewer than two active seats is an error', () => {
+  assert.throws(() => getNextButtonPositions([2]), /at least 2 active seats/)
+})
@@ -0,0 +1,49 @@
+/**
+ * Betting Structures
+ * No-limit, pot-limit and fixed-limit settings for a game
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Each game stores a BettingStructure; the engine enforces it
+ *          (getMinRaiseTotal / getMaxRaiseTotal / getValidActions). Fixed-limit
+ *          sizes follow the current blind level: one big blind preflop and on
+ *          the flop (small bet), two on the turn and river (big bet).
+ */
+
+import type { BettingLimit, BettingStructure, Round } from '@/types/poker'
+
+export const BETTING_LIMITS: BettingLimit[] = ['no_limit', 'pot_limit', 'fixed_limit']
+
+// Bets + raises per round in fixed-limit (a bet and three raises)
+export const DEFAULT_RAISE_CAP = 4
+
+export const NO_LIMIT: BettingStructure = { limit: 'no_limit' }
+
+export const BETTING_LIMIT_LABELS: Record<BettingLimit, string> = {
+  no_limit: 'No-Limit',
+  pot_limit: 'Pot-Limit',
+  fixed_limit: 'Fixed-Limit',
+}
+
+export function isBettingLimit(value: unknown): value is BettingLimit {
+  return BETTING_LIMITS.includes(value as BettingLimit)
+}
+
+/**
+ * Betting structure from a stored/requested value
+ * Anything missing or unrecognised plays no-limit
+ */
+export function parseBettingStructure(value: unknown): BettingStructure {
+  const raw = (value ?? {}) as Partial<BettingStructure>
+  if (!isBettingLimit(raw.limit)) return NO_LIMIT
+  if (raw.limit !== 'fixed_limit') return { limit: raw.limit }
+
+  const raiseCap = Number.isInteger(raw.raiseCap) && raw.raiseCap! > 0 ? raw.raiseCap! : DEFAULT_RAISE_CAP
+  return { limit: 'fixed_limit', raiseCap }
+}
+
+/**
+ * Fixed-limit bet/raise size for a street
+ */
+export function getFixedBetSize(bigBlind: number, round: Round): number {
+  return round === 'turn' || round === 'river' ? bigBlind * 2 : bigBlind
+}
@@ -0,0 +1,119 @@
+/**
+ * Blind Schedule
+ * Escalating blind levels and antes for tournament-style games
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Games are short (5-25 hands), so flat 10/20 blinds rarely force
+ *          eliminations. Each game stores a BlindStructure; the orchestrator
+ *          looks up the level for every new hand.
+ * Updated: Oct 19, 2026 - parseBlindStructure validates a requested structure (create_game)
+ */
+
+import { AnteType, BlindLevel, BlindStructure } from '@/types/poker'
+
+// Level multipliers over the base blinds, spread evenly across the game
+const LEVEL_MULTIPLIERS = [1, 1.5, 2.5, 5, 10]
+
+// Antes kick in from this level (0-based)
+const ANTE_FROM_LEVEL = 2
+
+export const ANTE_TYPES: AnteType[] = ['none', 'per_player', 'big_blind']
+
+export const BASE_SMALL_BLIND = 10
+export const BASE_BIG_BLIND = 20
+
+// Flat structure used for games created before blind schedules existed
+export const FLAT_BLIND_STRUCTURE: BlindStructure = {
+  levels: [{ fromHand: 1, smallBlind: BASE_SMALL_BLIND, bigBlind: BASE_BIG_BLIND, ante: 0 }],
+  anteType: 'none',
+}
+
+/**
+ * Build the default escalating structure for a game of `maxHands` hands
+ * Levels are spaced evenly; from the third level on the big blind also
+ * posts a big-blind ante (or each player posts 1/10 BB with per_player)
+ */
+export function createBlindStructure(
+  maxHands: number,
+  anteType: AnteType = 'big_blind'
+): BlindStructure {
+  const handsPerLevel = Math.max(1, Math.ceil(maxHands / LEVEL_MULTIPLIERS.length))
+
+  const levels: BlindLevel[] = LEVEL_MULTIPLIERS.map((multiplier, i) => {
+    const smallBlind = Math.round(BASE_SMALL_BLIND * multiplier)
+    const bigBlind = Math.round(BASE_BIG_BLIND * multiplier)
+    let ante = 0
+    if (i >= ANTE_FROM_LEVEL) {
+      if (anteType === 'big_blind') ante = bigBlind
+      if (anteType === 'per_player') ante = Math.max(1, Math.round(bigBlind / 10))
+    }
+    return { fromHand: 1 + i * handsPerLevel, smallBlind, bigBlind, ante }
+  }).filter(level => level.fromHand <= Math.max(1, maxHands))
+
+  return { levels, anteType }
+}
+
+export function isAnteType(value: unknown): value is AnteType {
+  return ANTE_TYPES.includes(value as AnteType)
+}
+
+function isChipAmount(value: unknown, min: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min
+}
+
+/**
+ * Blind structure from a requested value, or the default for `maxHands` hands
+ * An anteType alone picks the default levels with that ante. Levels must
+ * start at hand 1 with strictly increasing fromHand and whole-chip blinds
+ * (big blind at least the small); anything else falls back to the default
+ * levels. Antes are zeroed when anteType is 'none'.
+ */
+export function parseBlindStructure(value: unknown, maxHands: number): BlindStructure {
+  const raw = (value ?? {}) as Partial<BlindStructure>
+  const anteType = isAnteType(raw.anteType) ? raw.anteType : 'big_blind'
+
+  const levels = Array.isArray(raw.levels) ? raw.levels as Partial<BlindLevel>[] : []
+  const valid = levels.length > 0 && levels[0].fromHand === 1 && levels.every((level, i) =>
+    isChipAmount(level.fromHand, 1) &&
+    (i === 0 || level.fromHand > levels[i - 1].fromHand!) &&
+    isChipAmount(level.smallBlind, 1) &&
+    isChipAmount(level.bigBlind, level.smallBlind) &&
+    isChipAmount(level.ante ?? 0, 0)
+  )
+  if (!valid) return createBlindStructure(maxHands, anteType)
+
+  return {
+    levels: levels.map(level => ({
+      fromHand: level.fromHand!,
+      smallBlind: level.smallBlind!,
+      bigBlind: level.bigBlind!,
+      ante: anteType === 'none' ? 0 : level.ante ?? 0,
+    })),
+    anteType,
+  }
+}
+
+/**
+ * Index of the level in effect for a hand (1-based hand number)
+ */
+function getLevelIndex(structure: BlindStructure, handNumber: number): number {
+  let index = 0
+  structure.levels.forEach((level, i) => {
+    if (level.fromHand <= handNumber) index = i
+  })
+  return index
+}
+
+/**
+ * Blind level in effect for a hand
+ */
+export function getBlindLevel(structure: BlindStructure, handNumber: number): BlindLevel {
+  return structure.levels[getLevelIndex(structure, handNumber)] ?? FLAT_BLIND_STRUCTURE.levels[0]
+}
+
+/**
+ * Next level after the one in effect for a hand, or null at the final level
+ */
+export function getNextBlindLevel(structure: BlindStructure, handNumber: number): BlindLevel | null {
+  return structure.levels[getLevelIndex(structure, handNumber) + 1] ?? null
+}
@@ -4,10 +4,13 @@
  * 
  * Created: Jan 5, 2026
  * Updated: Jan 20, 2026 - Added seeded shuffle for verifiable games
+ * Updated: Oct 19, 2026 - Exported createSeededRandom (string seed) for scripted bots
+ * Updated: Oct 19, 2026 - dealHoleCards takes the hole card count (Omaha deals four)
+ * Updated: Oct 19, 2026 - HMAC-SHA256 counter-mode shuffle for verifiable decks (mulberry32 kept as legacy)
  * Reference: Standard 52-card deck for Texas Hold'em
  */
 
-import { createHash } from 'crypto'
+import { createHash, createHmac } from 'crypto'
 import { Card, Suit, Rank, CardNotation } from '@/types/poker'
 
 // All suits and ranks
@@ -71,6 +74,46 @@ function seededRandom(seed: number): () => number {
   }
 }
 
+/**
+ * Seeded RNG from a string seed (sha256 of the seed feeds mulberry32)
+ */
+export function createSeededRandom(seed: string): () => number {
+  const hash = createHash('sha256').update(seed).digest()
+  return seededRandom(hash.readUInt32BE(0))
+}
+
+/**
+ * Unbiased random indices from an HMAC-SHA256 counter-mode stream
+ * Block n is HMAC-SHA256(key = UTF-8 seed, message = n as an 8-byte big-endian
+ * counter, from 0); its 32-bit big-endian words are read in order. A word is
+ * rejected unless it falls below the largest multiple of the bound that fits
+ * in 32 bits, so every index is equally likely.
+ */
+export function createSeededIndexStream(seed: string): (bound: number) => number {
+  let counter = 0
+  let block = Buffer.alloc(0)
+  let offset = 0
+
+  const nextWord = (): number => {
+    if (offset >= block.length) {
+      const message = Buffer.alloc(8)
+      message.writeUInt32BE(counter++, 4)
+      block = createHmac('sha256', seed).update(message).digest()
+      offset = 0
+    }
+    const word = block.readUInt32BE(offset)
+    offset += 4
+    return word
+  }
+
+  return (bound: number) => {
+    const limit = 2 ** 32 - (2 ** 32 % bound)
+    let word = nextWord()
+    while (word >= limit) word = nextWord()
+    return word % bound
+  }
+}
+
 /**
  * Fisher-Yates shuffle algorithm
  * Uses Math.random() for non-deterministic shuffle
@@ -90,14 +133,14 @@ export function shuffleDeck(deck: CardNotation[]): CardNotation[] {
  * Fisher-Yates shuffle with a seed for deterministic results
  * Given the same seed, produces the exact same shuffle every time
  * 
+ * Legacy: the seed collapses to 32 bits (at most 2^32 possible decks) and
+ * floor(random * n) is slightly biased. Only games with shuffle version 1 use it.
+ * 
  * @param deck - The deck to shuffle
  * @param seed - A string seed (will be hashed to create numeric seed)
  */
 export function shuffleDeckSeeded(deck: CardNotation[], seed: string): CardNotation[] {
-  // Hash the seed to get a numeric value
-  const hash = createHash('sha256').update(seed).digest()
-  const numericSeed = hash.readUInt32BE(0)
-  const random = seededRandom(numericSeed)
+  const random = createSeededRandom(seed)
   
   const shuffled = [...deck]
   
@@ -109,6 +152,26 @@ export function shuffleDeckSeeded(deck: CardNotation[], seed: string): CardNotat
   return shuffled
 }
 
+/**
+ * Fisher-Yates shuffle driven by the HMAC-SHA256 index stream
+ * Given the same seed, produces the exact same shuffle every time
+ * 
+ * @param deck - The deck to shuffle
+ * @param seed - A string seed (the HMAC key)
+ */
+export function shuffleDeckHmac(deck: CardNotation[], seed: string): CardNotation[] {
+  const randomIndex = createSeededIndexStream(seed)
+
+  const shuffled = [...deck]
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1)
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  return shuffled
+}
+
 /**
  * Create and shuffle a new deck (non-deterministic)
  */
@@ -123,7 +186,7 @@ export function createShuffledDeck(): CardNotation[] {
  * @param seed - String seed (e.g., "master_salt:hand_number")
  */
 export function createSeededDeck(seed: string): CardNotation[] {
-  return shuffleDeckSeeded(createDeck(), seed)
+  return shuffleDeckHmac(createDeck(), seed)
 }
 
 /**
@@ -145,17 +208,19 @@ export function dealCards(
 /**
  * Deal hole cards to multiple players
  * Returns [array of hole cards per player, remaining deck]
+ * @param cardsPerPlayer 2 for Texas Hold'em, 4 for Omaha
  */
 export function dealHoleCards(
   deck: CardNotation[], 
-  playerCount: number
+  playerCount: number,
+  cardsPerPlayer: number = 2
 ): [CardNotation[][], CardNotation[]] {
   const holeCards: CardNotation[][] = []
   let remainingDeck = [...deck]
   
-  // Deal 2 cards to each player (standard Texas Hold'em)
+  // Each player's cards come off the deck together
   for (let i = 0; i < playerCount; i++) {
-    const [cards, newDeck] = dealCards(remainingDeck, 2)
+    const [cards, newDeck] = dealCards(remainingDeck, cardsPerPlayer)
     holeCards.push(cards)
     remainingDeck = newDeck
   }
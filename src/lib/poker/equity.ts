@@ -0,0 +1,196 @@
+/**
+ * Poker Equity Calculator
+ * Win probability for each player from the cards currently known
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Replace the rank-ratio heuristic with real equity. Small runouts
+ *          (turn/river, most flops) are enumerated exhaustively; larger ones
+ *          (preflop, unknown hole cards) fall back to Monte Carlo sampling.
+ *          Ties are split evenly between the tied players.
+ * Updated: Oct 19, 2026 - Runouts are scored on encoded cards with the lookup-table
+ *                         evaluator (scoreCards) instead of full hand evaluation
+ * Updated: Oct 19, 2026 - Omaha equity (four hole cards, exactly two used)
+ */
+
+import { CardNotation, GameVariant } from '@/types/poker'
+import { createDeck } from './deck'
+import { encodeCard, scoreHand } from './hand-evaluator'
+import { HOLE_CARD_COUNT } from './variants'
+
+// Runouts above this count are sampled instead of enumerated
+const DEFAULT_EXHAUSTIVE_LIMIT = 2000
+
+// Monte Carlo iterations when sampling
+const DEFAULT_ITERATIONS = 2000
+
+export interface EquityPlayer {
+  playerId: string
+  holeCards: CardNotation[]  // Empty if unknown - sampled from the remaining deck
+}
+
+export interface EquityOptions {
+  deadCards?: CardNotation[]  // Mucked/folded cards that can't appear on the board
+  iterations?: number
+  exhaustiveLimit?: number
+  random?: () => number  // Inject a seeded RNG for reproducible sampling
+  variant?: GameVariant  // Defaults to Hold'em
+}
+
+export interface EquityResult {
+  playerId: string
+  equity: number   // Share of the pot won on average (wins + split ties), 0-1
+  winRate: number  // Fraction of runouts won outright
+  tieRate: number  // Fraction of runouts split with at least one other player
+}
+
+/**
+ * Number of k-card combinations from n cards
+ */
+function combinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0
+  let result = 1
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+  return Math.round(result)
+}
+
+/**
+ * Visit every k-card combination of the given cards
+ */
+function forEachCombination<T>(
+  cards: T[],
+  k: number,
+  visit: (combo: T[]) => void
+): void {
+  const combo: T[] = []
+  const recurse = (start: number) => {
+    if (combo.length === k) {
+      visit(combo)
+      return
+    }
+    for (let i = start; i <= cards.length - (k - combo.length); i++) {
+      combo.push(cards[i])
+      recurse(i + 1)
+      combo.pop()
+    }
+  }
+  recurse(0)
+}
+
+/**
+ * Draw `count` random cards from `cards` without replacement (partial Fisher-Yates)
+ * Mutates the order of `cards`, which is fine for a scratch copy
+ */
+function drawRandom<T>(cards: T[], count: number, random: () => number): T[] {
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (cards.length - i))
+    ;[cards[i], cards[j]] = [cards[j], cards[i]]
+  }
+  return cards.slice(0, count)
+}
+
+/**
+ * Calculate each player's equity given known hole cards, board and dead cards
+ *
+ * @param players - Players still contesting the pot
+ * @param communityCards - Board cards dealt so far (0-5)
+ * @param options - Dead cards, iteration count, RNG
+ */
+export function calculateEquity(
+  players: EquityPlayer[],
+  communityCards: CardNotation[],
+  options: EquityOptions = {}
+): EquityResult[] {
+  const {
+    deadCards = [],
+    iterations = DEFAULT_ITERATIONS,
+    exhaustiveLimit = DEFAULT_EXHAUSTIVE_LIMIT,
+    random = Math.random,
+    variant = 'holdem',
+  } = options
+  const holeCardCount = HOLE_CARD_COUNT[variant]
+
+  if (players.length === 0) return []
+  if (players.length === 1) {
+    return [{ playerId: players[0].playerId, equity: 1, winRate: 1, tieRate: 0 }]
+  }
+
+  const known = new Set<CardNotation>([
+    ...communityCards,
+    ...deadCards,
+    ...players.flatMap(p => p.holeCards),
+  ])
+  const stub = createDeck().filter(c => !known.has(c)).map(encodeCard)
+  const board = communityCards.map(encodeCard)
+
+  const boardNeeded = 5 - communityCards.length
+  const unknownHoleCards = players.reduce((sum, p) => sum + (holeCardCount - p.holeCards.length), 0)
+
+  const wins = new Map<string, number>()
+  const ties = new Map<string, number>()
+  const shares = new Map<string, number>()
+  for (const p of players) {
+    wins.set(p.playerId, 0)
+    ties.set(p.playerId, 0)
+    shares.set(p.playerId, 0)
+  }
+
+  // hands[i] = encoded hole cards of players[i]
+  const score = (hands: number[][], runoutBoard: number[]) => {
+    let best = -1
+    let winners: string[] = []
+    hands.forEach((holeCards, i) => {
+      const handScore = scoreHand(holeCards, runoutBoard, variant)
+      if (handScore > best) {
+        best = handScore
+        winners = [players[i].playerId]
+      } else if (handScore === best) {
+        winners.push(players[i].playerId)
+      }
+    })
+
+    const share = 1 / winners.length
+    for (const playerId of winners) {
+      shares.set(playerId, shares.get(playerId)! + share)
+      if (winners.length === 1) {
+        wins.set(playerId, wins.get(playerId)! + 1)
+      } else {
+        ties.set(playerId, ties.get(playerId)! + 1)
+      }
+    }
+  }
+
+  let trials = 0
+  const canEnumerate = unknownHoleCards === 0 && combinations(stub.length, boardNeeded) <= exhaustiveLimit
+
+  const knownHoleCards = players.map(p => p.holeCards.map(encodeCard))
+
+  if (canEnumerate) {
+    forEachCombination(stub, boardNeeded, runout => {
+      score(knownHoleCards, [...board, ...runout])
+      trials++
+    })
+  } else {
+    const scratch = [...stub]
+    for (let i = 0; i < iterations; i++) {
+      const drawn = drawRandom(scratch, unknownHoleCards + boardNeeded, random)
+      let cursor = 0
+      const hands = knownHoleCards.map(holeCards => {
+        const missing = holeCardCount - holeCards.length
+        return missing > 0
+          ? [...holeCards, ...drawn.slice(cursor, cursor += missing)]
+          : holeCards
+      })
+      score(hands, [...board, ...drawn.slice(cursor)])
+      trials++
+    }
+  }
+
+  return players.map(p => ({
+    playerId: p.playerId,
+    equity: trials > 0 ? shares.get(p.playerId)! / trials : 1 / players.length,
+    winRate: trials > 0 ? wins.get(p.playerId)! / trials : 0,
+    tieRate: trials > 0 ? ties.get(p.playerId)! / trials : 0,
+  }))
+}
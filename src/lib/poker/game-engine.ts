@@ -3,7 +3,21 @@
  * Manages game state, betting rounds, and player actions
  * 
  * Created: Jan 5, 2026
- * Purpose: State machine for Texas Hold'em game flow
+ * Updated: Oct 19, 2026 - calculateOdds uses the equity calculator instead of rank ratios
+ * Updated: Oct 19, 2026 - Rewritten as a pure reducer (reduceHand) driven by the orchestrator
+ *                        - Betting rules, street dealing, uncalled bets and pot awards live here only
+ *                        - GameState is plain JSON so it can be persisted between API calls
+ * Updated: Oct 19, 2026 - Showdown uses the pot engine (./pots) and records potAwards
+ * Updated: Oct 19, 2026 - Optional per-player or big-blind antes from the game's blind level
+ * Updated: Oct 19, 2026 - Tables of 2-9 players (initializeHand rejects anything else)
+ * Updated: Oct 19, 2026 - Pot-limit and fixed-limit betting (raise range and raise cap per structure)
+ * Updated: Oct 19, 2026 - Omaha variant (four hole cards, exactly-two showdowns and equity)
+ * Updated: Oct 19, 2026 - Min raise follows the last full raise; an incomplete all-in raise
+ *                        doesn't reopen the raise for players who already acted
+ * Updated: Oct 19, 2026 - Dead button / dead small blind from the seat manager (./seats)
+ * Updated: Oct 19, 2026 - Antes are dead money in the main pot (a big-blind ante no longer
+ *                        comes back to the big blind as a side pot)
+ * Purpose: State machine for Texas Hold'em and Omaha game flow
  */
 
 import { 
@@ -14,7 +28,9 @@ import {
   Round, 
   CardNotation,
   GameEvent,
-  EvaluatedHand
+  AnteType,
+  BettingStructure,
+  GameVariant,
 } from '@/types/poker'
 import { 
   createShuffledDeck, 
@@ -23,10 +39,12 @@ import {
   dealTurn, 
   dealRiver 
 } from './deck'
-import { evaluateHand, determineWinners } from './hand-evaluator'
-
-// Type for winner result
-type WinnerResult = { playerId: string; hand: EvaluatedHand }
+import { evaluateHand } from './hand-evaluator'
+import { calculatePots, awardPots, getOddChipOrder, sumPotAwards } from './pots'
+import { calculateEquity, EquityOptions } from './equity'
+import { MIN_PLAYERS, MAX_PLAYERS } from './positions'
+import { DEFAULT_RAISE_CAP, getFixedBetSize, NO_LIMIT } from './betting'
+import { HOLE_CARD_COUNT } from './variants'
 
 // Game configuration
 export interface GameConfig {
@@ -34,6 +52,10 @@ export interface GameConfig {
   bigBlind: number
   startingChips: number
   bettingWindowSeconds: number
+  ante?: number
+  anteType?: AnteType // Defaults to 'none'
+  bettingStructure?: BettingStructure // Defaults to no-limit
+  variant?: GameVariant // Defaults to Hold'em
 }
 
 const DEFAULT_CONFIG: GameConfig = {
@@ -43,55 +65,208 @@ const DEFAULT_CONFIG: GameConfig = {
   bettingWindowSeconds: 20,
 }
 
+// A player being dealt into a new hand
+export interface HandPlayer {
+  id: string
+  name: string
+  chipCount?: number // Defaults to config.startingChips
+  seatPosition?: number // Defaults to array index
+}
+
+// Commands accepted by the reducer
+export type HandCommand =
+  | { type: 'PLAYER_ACTION'; action: PlayerAction }
+  | { type: 'DEAL_NEXT_STREET' }
+  | { type: 'SHOWDOWN' }
+
+// What the driver (orchestrator, simulator) should do next
+export type HandStep = 'action' | 'deal' | 'showdown' | 'complete'
+
+// Button of a hand when the seat manager (./seats) leaves it or the small blind on an empty seat
+export interface HandButton {
+  buttonSeat: number
+  deadSmallBlind: boolean // The big blind posts right after the dealer
+}
+
+export interface HandTransition {
+  newState: GameState
+  events: GameEvent[]
+}
+
 /**
- * Initialize a new hand
+ * Initialize a new hand: deal hole cards, post blinds and find the first actor
+ * Pass a deck to use a seeded (verifiable) shuffle, and the seat manager's
+ * button when it may be dead
  */
 export function initializeHand(
   handId: string,
-  players: { id: string; name: string }[],
+  players: HandPlayer[],
   dealerIndex: number = 0,
-  config: GameConfig = DEFAULT_CONFIG
+  config: GameConfig = DEFAULT_CONFIG,
+  deck: CardNotation[] = createShuffledDeck(),
+  button?: HandButton
 ): GameState {
-  const deck = createShuffledDeck()
-  const [holeCards, remainingDeck] = dealHoleCards(deck, players.length)
+  if (players.length < MIN_PLAYERS || players.length > MAX_PLAYERS) {
+    throw new Error(`A hand needs ${MIN_PLAYERS}-${MAX_PLAYERS} players, got ${players.length}`)
+  }
+  
+  const variant = config.variant ?? 'holdem'
+  const [holeCards, remainingDeck] = dealHoleCards(deck, players.length, HOLE_CARD_COUNT[variant])
   
   // Create player states
   const playerStates: PlayerState[] = players.map((player, index) => ({
     agentId: player.id,
     name: player.name,
-    seatPosition: index,
+    seatPosition: player.seatPosition ?? index,
     holeCards: holeCards[index],
-    chipCount: config.startingChips,
+    chipCount: player.chipCount ?? config.startingChips,
     currentBet: 0,
+    totalContributed: 0,
     isFolded: false,
     isAllIn: false,
     hasActed: false,
   }))
   
-  // Post blinds
-  const smallBlindIndex = (dealerIndex + 1) % players.length
-  const bigBlindIndex = (dealerIndex + 2) % players.length
-  
-  playerStates[smallBlindIndex].currentBet = config.smallBlind
-  playerStates[smallBlindIndex].chipCount -= config.smallBlind
-  
-  playerStates[bigBlindIndex].currentBet = config.bigBlind
-  playerStates[bigBlindIndex].chipCount -= config.bigBlind
-  
-  // First to act is after big blind
-  const activeIndex = (bigBlindIndex + 1) % players.length
-  
-  return {
+  const state: GameState = {
     handId,
     round: 'preflop',
-    pot: config.smallBlind + config.bigBlind,
+    pot: 0,
     communityCards: [],
-    currentBet: config.bigBlind,
-    activePlayerIndex: activeIndex,
+    currentBet: 0,
+    activePlayerIndex: -1,
+    dealerIndex,
+    ...(button && { buttonSeat: button.buttonSeat, deadSmallBlind: button.deadSmallBlind }),
+    smallBlind: config.smallBlind,
+    bigBlind: config.bigBlind,
+    ante: config.ante ?? 0,
+    anteType: config.anteType ?? 'none',
+    bettingStructure: config.bettingStructure ?? NO_LIMIT,
+    raisesThisRound: 1, // The big blind is the opening bet
+    lastRaiseSize: config.bigBlind,
+    variant,
     players: playerStates,
     deck: remainingDeck,
     isComplete: false,
   }
+  
+  const { smallBlindIndex, bigBlindIndex } = getBlindIndices(state)
+  const ante = config.ante ?? 0
+  
+  // Per-player antes go in before the blinds
+  if (ante > 0 && config.anteType === 'per_player') {
+    for (const player of state.players) {
+      postAnte(state, player, ante)
+    }
+  }
+  
+  // Post blinds (a short stack posts what it has and is all-in)
+  if (smallBlindIndex !== null) {
+    commitChips(state, state.players[smallBlindIndex], config.smallBlind)
+  }
+  commitChips(state, state.players[bigBlindIndex], config.bigBlind)
+  
+  // A big-blind ante comes after the blind, so a short BB covers the blind first
+  if (ante > 0 && config.anteType === 'big_blind') {
+    postAnte(state, state.players[bigBlindIndex], ante)
+  }
+  
+  // Everyone owes the full big blind, even if the BB couldn't cover it
+  state.currentBet = config.bigBlind
+  
+  // First to act is after big blind
+  state.activePlayerIndex = findNextToAct(state, bigBlindIndex)
+  if (state.activePlayerIndex === -1) {
+    returnUncalledBet(state)
+  }
+  
+  return state
+}
+
+/**
+ * Small/big blind indices for the current dealer
+ * Heads-up the dealer posts the small blind and acts first preflop;
+ * a dead small blind (null) leaves the big blind right after the dealer
+ */
+export function getBlindIndices(
+  state: { players: readonly unknown[]; dealerIndex: number; deadSmallBlind?: boolean }
+): { smallBlindIndex: number | null; bigBlindIndex: number } {
+  const playerCount = state.players.length
+  if (playerCount === 2) {
+    return {
+      smallBlindIndex: state.dealerIndex,
+      bigBlindIndex: (state.dealerIndex + 1) % playerCount,
+    }
+  }
+  if (state.deadSmallBlind) {
+    return {
+      smallBlindIndex: null,
+      bigBlindIndex: (state.dealerIndex + 1) % playerCount,
+    }
+  }
+  return {
+    smallBlindIndex: (state.dealerIndex + 1) % playerCount,
+    bigBlindIndex: (state.dealerIndex + 2) % playerCount,
+  }
+}
+
+/**
+ * Size of a full raise right now
+ * Fixed-limit: the street's bet size; otherwise the last full bet/raise this round
+ * (at least one big blind)
+ */
+function getFullRaiseSize(state: GameState): number {
+  if (state.bettingStructure?.limit === 'fixed_limit') {
+    return getFixedBetSize(state.bigBlind, state.round)
+  }
+  return Math.max(state.lastRaiseSize ?? 0, state.bigBlind)
+}
+
+/**
+ * Minimum total bet for a raise: the current bet plus a full raise
+ */
+export function getMinRaiseTotal(state: GameState): number {
+  return state.currentBet + getFullRaiseSize(state)
+}
+
+/**
+ * Maximum total bet for a raise by the player to act, capped by their stack
+ * No-limit: the whole stack; pot-limit: call, then raise by the pot after the call;
+ * fixed-limit: the one legal raise size
+ */
+export function getMaxRaiseTotal(state: GameState): number {
+  const player = state.players[state.activePlayerIndex]
+  if (!player) return 0
+  
+  const stackTotal = player.currentBet + player.chipCount
+  const toCall = state.currentBet - player.currentBet
+  
+  switch (state.bettingStructure?.limit ?? 'no_limit') {
+    case 'no_limit':
+      return stackTotal
+    case 'pot_limit':
+      return Math.min(stackTotal, state.currentBet + state.pot + toCall)
+    case 'fixed_limit':
+      return Math.min(stackTotal, getMinRaiseTotal(state))
+  }
+}
+
+/**
+ * True when fixed-limit betting has reached its raise cap for this round
+ */
+function isRaiseCapped(state: GameState): boolean {
+  const structure = state.bettingStructure
+  if (structure?.limit !== 'fixed_limit') return false
+  return (state.raisesThisRound ?? 0) >= (structure.raiseCap ?? DEFAULT_RAISE_CAP)
+}
+
+/**
+ * Whether the player may raise: the round isn't capped, and they either haven't
+ * acted yet or have faced at least a full raise since (an incomplete all-in
+ * raise only lets players who already acted call or fold)
+ */
+function isRaiseOpen(state: GameState, player: PlayerState): boolean {
+  if (isRaiseCapped(state)) return false
+  return player.actedAtBet === undefined || state.currentBet - player.actedAtBet >= getFullRaiseSize(state)
 }
 
 /**
@@ -100,7 +275,7 @@ export function initializeHand(
 export function getValidActions(state: GameState): ActionType[] {
   const player = state.players[state.activePlayerIndex]
   
-  if (player.isFolded || player.isAllIn) {
+  if (!player || player.isFolded || player.isAllIn) {
     return []
   }
   
@@ -113,31 +288,233 @@ export function getValidActions(state: GameState): ActionType[] {
     actions.push('call')
   }
   
-  // Can raise if has chips beyond call amount
-  if (player.chipCount > toCall) {
+  // Can raise if has chips beyond call amount and the raise is open to them
+  const canRaise = player.chipCount > toCall && isRaiseOpen(state, player)
+  if (canRaise) {
     actions.push('raise')
   }
   
-  // Can always go all-in if has chips
-  if (player.chipCount > 0) {
+  // All-in whenever the whole stack is within the limit (always in no-limit)
+  const stackTotal = player.currentBet + player.chipCount
+  if (player.chipCount > 0 && stackTotal <= (canRaise ? getMaxRaiseTotal(state) : state.currentBet)) {
     actions.push('all_in')
   }
   
   return actions
 }
 
+/**
+ * Turn a requested action into the legal action it resolves to
+ * - check facing a bet becomes a call, call with nothing to call becomes a check
+ * - calls/raises that need the whole stack become all-ins
+ * - raises are kept within the structure's raise range (a capped round, or one an incomplete
+ *   all-in didn't reopen, makes them calls)
+ * - all-ins beyond a pot/fixed limit become the largest legal raise
+ * Amounts: call = chips added, raise/all_in = total bet for the round
+ */
+export function normalizeAction(state: GameState, action: PlayerAction): PlayerAction {
+  const player = state.players[state.activePlayerIndex]
+  const toCall = state.currentBet - player.currentBet
+  const maxTotal = player.currentBet + player.chipCount
+  const allIn: PlayerAction = { ...action, type: 'all_in', amount: maxTotal }
+  const canRaise = player.chipCount > toCall && isRaiseOpen(state, player)
+  
+  switch (action.type) {
+    case 'fold':
+      return { ...action, amount: undefined }
+    
+    case 'check':
+    case 'call':
+      if (toCall <= 0) return { ...action, type: 'check', amount: undefined }
+      if (toCall >= player.chipCount) return allIn
+      return { ...action, type: 'call', amount: toCall }
+    
+    case 'raise': {
+      if (player.chipCount <= toCall) return allIn
+      if (!canRaise) return normalizeAction(state, { ...action, type: 'call' })
+      const minTotal = getMinRaiseTotal(state)
+      const total = Math.min(Math.max(action.amount ?? minTotal, minTotal), getMaxRaiseTotal(state))
+      if (total >= maxTotal) return allIn
+      return { ...action, type: 'raise', amount: total }
+    }
+    
+    case 'all_in':
+      if (maxTotal <= (canRaise ? getMaxRaiseTotal(state) : state.currentBet)) return allIn
+      return normalizeAction(state, { ...action, type: canRaise ? 'raise' : 'call', amount: getMaxRaiseTotal(state) })
+  }
+}
+
+/**
+ * Pure hand reducer - commands in, new state + events out
+ * Never mutates the input state
+ */
+export function reduceHand(state: GameState, command: HandCommand): HandTransition {
+  switch (command.type) {
+    case 'PLAYER_ACTION':
+      return applyPlayerAction(state, command.action)
+    case 'DEAL_NEXT_STREET':
+      return dealNextStreet(state)
+    case 'SHOWDOWN':
+      return resolveShowdown(state)
+  }
+}
+
 /**
  * Apply a player action to the game state
  */
-export function applyAction(
-  state: GameState, 
-  action: PlayerAction
-): { newState: GameState; event: GameEvent } {
+export function applyAction(state: GameState, action: PlayerAction): HandTransition {
+  return reduceHand(state, { type: 'PLAYER_ACTION', action })
+}
+
+/**
+ * Work out what should happen next in the hand
+ */
+export function getNextStep(state: GameState): HandStep {
+  if (state.isComplete) return 'complete'
+  if (state.players.filter(p => !p.isFolded).length <= 1) return 'showdown'
+  if (state.activePlayerIndex >= 0) return 'action'
+  return state.round === 'river' ? 'showdown' : 'deal'
+}
+
+/**
+ * True when no further betting is possible this hand (everyone left is all-in,
+ * or one player has chips against all-in opponents) - the board just runs out
+ */
+export function isAllInRunout(state: GameState): boolean {
+  if (state.isComplete || state.activePlayerIndex >= 0) return false
+  const contenders = state.players.filter(p => !p.isFolded)
+  return contenders.length > 1 && contenders.filter(canAct).length < 2
+}
+
+/**
+ * The full five-card board this hand's deck will produce, without dealing it
+ */
+export function getRunout(state: GameState): CardNotation[] {
+  const board = [...state.communityCards]
+  let deck = state.deck
+  if (board.length === 0) {
+    const [flopCards, deckAfterFlop] = dealFlop(deck)
+    board.push(...flopCards)
+    deck = deckAfterFlop
+  }
+  if (board.length === 3) {
+    const [turnCard, deckAfterTurn] = dealTurn(deck)
+    board.push(turnCard)
+    deck = deckAfterTurn
+  }
+  if (board.length === 4) {
+    const [riverCard] = dealRiver(deck)
+    board.push(riverCard)
+  }
+  return board
+}
+
+function canAct(player: PlayerState): boolean {
+  return !player.isFolded && !player.isAllIn
+}
+
+/**
+ * Move chips from a player's stack into the pot
+ */
+function commitChips(state: GameState, player: PlayerState, amount: number): void {
+  const committed = Math.min(amount, player.chipCount)
+  player.chipCount -= committed
+  player.currentBet += committed
+  player.totalContributed += committed
+  state.pot += committed
+  if (player.chipCount === 0) {
+    player.isAllIn = true
+  }
+}
+
+/**
+ * Post dead money: goes to the main pot, not the current bet or side pot levels
+ */
+function postAnte(state: GameState, player: PlayerState, amount: number): void {
+  const posted = Math.min(amount, player.chipCount)
+  player.chipCount -= posted
+  player.totalContributed += posted
+  player.antePosted = (player.antePosted ?? 0) + posted
+  state.pot += posted
+  if (player.chipCount === 0) {
+    player.isAllIn = true
+  }
+}
+
+/**
+ * Check if the current betting round is complete
+ */
+function isRoundComplete(state: GameState): boolean {
+  if (state.players.filter(p => !p.isFolded).length <= 1) {
+    return true
+  }
+  
+  const actors = state.players.filter(canAct)
+  
+  // A lone player with chips only needs to act if they still owe money
+  if (actors.length <= 1) {
+    return actors.every(p => p.currentBet >= state.currentBet)
+  }
+  
+  // Check if all active players have acted and bets are equal
+  return actors.every(p => 
+    p.hasActed && p.currentBet === state.currentBet
+  )
+}
+
+/**
+ * Next player (clockwise from `afterIndex`) who still has to act, or -1 if the round is over
+ */
+function findNextToAct(state: GameState, afterIndex: number): number {
+  if (isRoundComplete(state)) {
+    return -1
+  }
+  
+  const playerCount = state.players.length
+  for (let i = 1; i <= playerCount; i++) {
+    const index = (afterIndex + i) % playerCount
+    const player = state.players[index]
+    if (canAct(player) && (!player.hasActed || player.currentBet < state.currentBet)) {
+      return index
+    }
+  }
+  
+  return -1
+}
+
+/**
+ * When a betting round closes, give back the part of the top bet nobody matched
+ */
+function returnUncalledBet(state: GameState): GameEvent[] {
+  const bets = state.players.map(p => p.currentBet).sort((a, b) => b - a)
+  const excess = bets[0] - (bets[1] ?? 0)
+  const topBettor = state.players.find(p => !p.isFolded && p.currentBet === bets[0])
+  
+  if (excess <= 0 || !topBettor) {
+    return []
+  }
+  
+  topBettor.chipCount += excess
+  topBettor.currentBet -= excess
+  topBettor.totalContributed -= excess
+  topBettor.isAllIn = topBettor.chipCount === 0
+  state.pot -= excess
+  state.currentBet = topBettor.currentBet
+  
+  return [{ type: 'BET_RETURNED', agentId: topBettor.agentId, amount: excess }]
+}
+
+function applyPlayerAction(state: GameState, action: PlayerAction): HandTransition {
+  if (state.isComplete || state.activePlayerIndex < 0) {
+    throw new Error('No player is due to act')
+  }
+  
   const newState = structuredClone(state)
-  const player = newState.players[newState.activePlayerIndex]
-  const toCall = newState.currentBet - player.currentBet
+  const index = newState.activePlayerIndex
+  const player = newState.players[index]
+  const applied = normalizeAction(newState, action)
   
-  switch (action.type) {
+  switch (applied.type) {
     case 'fold':
       player.isFolded = true
       break
@@ -147,198 +524,164 @@ export function applyAction(
       break
       
     case 'call':
-      const callAmount = Math.min(toCall, player.chipCount)
-      player.chipCount -= callAmount
-      player.currentBet += callAmount
-      newState.pot += callAmount
-      if (player.chipCount === 0) {
-        player.isAllIn = true
-      }
+      commitChips(newState, player, applied.amount!)
       break
       
     case 'raise':
-      const raiseAmount = action.amount || (newState.currentBet * 2)
-      const totalBet = raiseAmount
-      const additionalBet = totalBet - player.currentBet
-      player.chipCount -= additionalBet
-      player.currentBet = totalBet
-      newState.currentBet = totalBet
-      newState.pot += additionalBet
-      // Reset hasActed for other players since we raised
-      newState.players.forEach((p, i) => {
-        if (i !== newState.activePlayerIndex && !p.isFolded && !p.isAllIn) {
-          p.hasActed = false
+    case 'all_in': {
+      commitChips(newState, player, applied.amount! - player.currentBet)
+      const increment = player.currentBet - newState.currentBet
+      if (increment > 0) {
+        // Only a full raise sets the next min raise and counts toward the cap
+        if (increment >= getFullRaiseSize(state)) {
+          newState.lastRaiseSize = increment
+          newState.raisesThisRound = (newState.raisesThisRound ?? 0) + 1
         }
-      })
-      if (player.chipCount === 0) {
-        player.isAllIn = true
-      }
-      break
-      
-    case 'all_in':
-      const allInAmount = player.chipCount
-      player.currentBet += allInAmount
-      newState.pot += allInAmount
-      player.chipCount = 0
-      player.isAllIn = true
-      if (player.currentBet > newState.currentBet) {
         newState.currentBet = player.currentBet
-        // Reset hasActed for others
+        newState.lastAggressorId = player.agentId
+        // Everyone else still able to bet has to respond (isRaiseOpen decides if they may raise)
         newState.players.forEach((p, i) => {
-          if (i !== newState.activePlayerIndex && !p.isFolded && !p.isAllIn) {
+          if (i !== index && canAct(p)) {
             p.hasActed = false
           }
         })
       }
       break
+    }
   }
   
   player.hasActed = true
+  player.actedAtBet = newState.currentBet
   
-  // Move to next player
-  advanceToNextPlayer(newState)
-  
-  // Check if round is complete
-  if (isRoundComplete(newState)) {
-    advanceRound(newState)
-  }
+  const events: GameEvent[] = [
+    { type: 'PLAYER_ACTION', agentId: player.agentId, action: applied },
+  ]
   
-  // Check if only one player remains
-  const activePlayers = newState.players.filter(p => !p.isFolded)
-  if (activePlayers.length === 1) {
-    newState.isComplete = true
-    newState.winnerId = activePlayers[0].agentId
+  newState.activePlayerIndex = findNextToAct(newState, index)
+  if (newState.activePlayerIndex === -1) {
+    events.push(...returnUncalledBet(newState))
   }
   
-  return {
-    newState,
-    event: {
-      type: 'PLAYER_ACTION',
-      agentId: player.agentId,
-      action,
-    }
-  }
+  return { newState, events }
 }
 
 /**
- * Advance to the next active player
+ * Deal the next street and open a new betting round
  */
-function advanceToNextPlayer(state: GameState): void {
-  const playerCount = state.players.length
-  let nextIndex = (state.activePlayerIndex + 1) % playerCount
-  let attempts = 0
-  
-  while (attempts < playerCount) {
-    const player = state.players[nextIndex]
-    if (!player.isFolded && !player.isAllIn) {
-      state.activePlayerIndex = nextIndex
-      return
-    }
-    nextIndex = (nextIndex + 1) % playerCount
-    attempts++
+function dealNextStreet(state: GameState): HandTransition {
+  if (state.isComplete || state.activePlayerIndex >= 0) {
+    throw new Error('Betting round is still open')
   }
-  
-  // If we get here, everyone is folded or all-in
-  state.activePlayerIndex = -1
-}
-
-/**
- * Check if the current betting round is complete
- */
-function isRoundComplete(state: GameState): boolean {
-  const activePlayers = state.players.filter(p => !p.isFolded && !p.isAllIn)
-  
-  // If only one active player, round is complete
-  if (activePlayers.length <= 1) {
-    return true
+  if (state.round === 'river') {
+    throw new Error('Board is complete - resolve the showdown instead')
   }
   
-  // Check if all active players have acted and bets are equal
-  return activePlayers.every(p => 
-    p.hasActed && p.currentBet === state.currentBet
-  )
-}
-
-/**
- * Advance to the next round (flop, turn, river, showdown)
- */
-function advanceRound(state: GameState): void {
-  const activePlayers = state.players.filter(p => !p.isFolded)
+  const newState = structuredClone(state)
   
   // Reset for new round
-  state.players.forEach(p => {
+  newState.players.forEach(p => {
     p.hasActed = false
     p.currentBet = 0
+    delete p.actedAtBet
   })
-  state.currentBet = 0
-  
-  // Find first active player after dealer
-  const dealerIndex = 0 // Simplified - always position 0 is dealer
-  let firstActive = (dealerIndex + 1) % state.players.length
-  while (state.players[firstActive].isFolded || state.players[firstActive].isAllIn) {
-    firstActive = (firstActive + 1) % state.players.length
-    if (firstActive === dealerIndex) break
-  }
-  state.activePlayerIndex = firstActive
-  
-  switch (state.round) {
-    case 'preflop':
-      const [flopCards, deckAfterFlop] = dealFlop(state.deck)
-      state.communityCards = flopCards
-      state.deck = deckAfterFlop
-      state.round = 'flop'
+  newState.currentBet = 0
+  newState.raisesThisRound = 0
+  newState.lastRaiseSize = 0
+  delete newState.lastAggressorId
+  
+  let cards: CardNotation[]
+  switch (newState.round) {
+    case 'preflop': {
+      const [flopCards, deckAfterFlop] = dealFlop(newState.deck)
+      cards = flopCards
+      newState.deck = deckAfterFlop
+      newState.round = 'flop'
       break
-      
-    case 'flop':
-      const [turnCard, deckAfterTurn] = dealTurn(state.deck)
-      state.communityCards.push(turnCard)
-      state.deck = deckAfterTurn
-      state.round = 'turn'
+    }
+    case 'flop': {
+      const [turnCard, deckAfterTurn] = dealTurn(newState.deck)
+      cards = [turnCard]
+      newState.deck = deckAfterTurn
+      newState.round = 'turn'
       break
-      
+    }
     case 'turn':
-      const [riverCard, deckAfterRiver] = dealRiver(state.deck)
-      state.communityCards.push(riverCard)
-      state.deck = deckAfterRiver
-      state.round = 'river'
-      break
-      
-    case 'river':
-      // Showdown
-      resolveShowdown(state)
+    default: {
+      const [riverCard, deckAfterRiver] = dealRiver(newState.deck)
+      cards = [riverCard]
+      newState.deck = deckAfterRiver
+      newState.round = 'river'
       break
+    }
+  }
+  newState.communityCards = [...newState.communityCards, ...cards]
+  
+  // Post-flop action starts with the first player after the dealer
+  newState.activePlayerIndex = findNextToAct(newState, newState.dealerIndex)
+  
+  return {
+    newState,
+    events: [{ type: 'CARDS_DEALT', round: newState.round, cards }],
   }
 }
 
 /**
- * Resolve the showdown and determine winner(s)
+ * Resolve the showdown: award every pot and settle chip counts
+ * Pot layering, split pots and odd chips are handled by ./pots
  */
-function resolveShowdown(state: GameState): void {
-  const activePlayers = state.players.filter(p => !p.isFolded)
-  
-  if (activePlayers.length === 1) {
-    state.winnerId = activePlayers[0].agentId
-    state.isComplete = true
-    return
+function resolveShowdown(state: GameState): HandTransition {
+  if (state.isComplete) {
+    throw new Error('Hand is already complete')
   }
   
-  const playerHands = activePlayers.map(p => ({
+  const newState = structuredClone(state)
+  const contenders = newState.players.filter(p => !p.isFolded)
+  const pots = calculatePots(newState.players.map(p => ({
     playerId: p.agentId,
-    holeCards: p.holeCards
-  }))
+    amount: p.totalContributed,
+    dead: p.antePosted,
+    isFolded: p.isFolded,
+  })))
   
-  const winners: WinnerResult[] = determineWinners(playerHands, state.communityCards)
+  if (pots.some(pot => pot.eligiblePlayerIds.length > 1) && newState.communityCards.length < 5) {
+    throw new Error('Board is not complete - deal the remaining streets first')
+  }
   
-  // For now, just take first winner (TODO: handle split pots)
-  if (winners.length > 0) {
-    const winner = winners[0]
-    state.winnerId = winner.playerId
-    // Store winning hand description in a type-safe way
-    const extended = state as GameState & { winningHand?: string }
-    extended.winningHand = winner.hand.description
+  const potAwards = awardPots(
+    pots,
+    contenders.map(p => ({ playerId: p.agentId, holeCards: p.holeCards })),
+    newState.communityCards,
+    getOddChipOrder(newState.players.map(p => ({ playerId: p.agentId })), newState.dealerIndex),
+    newState.variant
+  )
+  const winnings = sumPotAwards(potAwards)
+  
+  // Headline winner is whoever took the most chips
+  let winnerId = contenders[0].agentId
+  for (const p of contenders) {
+    if ((winnings[p.agentId] || 0) > (winnings[winnerId] || 0)) {
+      winnerId = p.agentId
+    }
   }
+  const winner = contenders.find(p => p.agentId === winnerId)!
+  const winningHand = contenders.length > 1
+    ? evaluateHand(winner.holeCards, newState.communityCards, newState.variant).description
+    : 'Last player standing'
   
-  state.isComplete = true
+  newState.players.forEach(p => {
+    p.chipCount += winnings[p.agentId] || 0
+  })
+  newState.winnings = winnings
+  newState.potAwards = potAwards
+  newState.winnerId = winnerId
+  newState.winningHand = winningHand
+  newState.activePlayerIndex = -1
+  newState.isComplete = true
+  
+  return {
+    newState,
+    events: [{ type: 'HAND_COMPLETE', winnerId, winningHand, pot: newState.pot }],
+  }
 }
 
 /**
@@ -367,35 +710,26 @@ export function getGameStatus(state: GameState): {
 }
 
 /**
- * Calculate betting odds for each player based on hand strength
+ * Calculate win probability for each player still in the hand
+ * Folded players' hole cards are treated as dead cards for the runout
  * This is used for spectator betting
  */
-export function calculateOdds(state: GameState): { agentId: string; winProbability: number }[] {
+export function calculateOdds(
+  state: GameState,
+  options: EquityOptions = {}
+): { agentId: string; winProbability: number }[] {
   const activePlayers = state.players.filter(p => !p.isFolded)
-  
-  if (state.communityCards.length === 0) {
-    // Preflop - simplified equity based on starting hands
-    // In reality, we'd use Monte Carlo simulation
-    return activePlayers.map(p => ({
-      agentId: p.agentId,
-      winProbability: 1 / activePlayers.length
-    }))
-  }
-  
-  // With community cards, evaluate current hands
-  const evaluatedHands = activePlayers.map(p => ({
-    agentId: p.agentId,
-    hand: evaluateHand(p.holeCards, state.communityCards)
-  }))
-  
-  // Calculate relative strengths
-  const totalStrength = evaluatedHands.reduce(
-    (sum, e) => sum + e.hand.rankValue, 0
+  const foldedCards = state.players.filter(p => p.isFolded).flatMap(p => p.holeCards)
+
+  const equities = calculateEquity(
+    activePlayers.map(p => ({ playerId: p.agentId, holeCards: p.holeCards })),
+    state.communityCards,
+    { ...options, deadCards: [...foldedCards, ...(options.deadCards || [])], variant: state.variant }
   )
-  
-  return evaluatedHands.map(e => ({
-    agentId: e.agentId,
-    winProbability: e.hand.rankValue / totalStrength
+
+  return equities.map(e => ({
+    agentId: e.playerId,
+    winProbability: e.equity
   }))
 }
 
@@ -1,10 +1,17 @@
 /**
  * Poker Hand Evaluator
- * Evaluate and rank Texas Hold'em hands
- * 
+ * Evaluate and rank Texas Hold'em and Omaha hands
+ *
  * Created: Jan 5, 2026
+ * Updated: Oct 19, 2026 - Lookup-table rewrite for equity simulations and batch analytics
+ *                       - Cards are integers (rank * 4 + suit); a hand scores from precomputed
+ *                         tables (suit bitmask -> flush score, rank counts -> everything else)
+ *                       - Scores are plain numbers: higher wins, equal splits
+ *                       - Finds the highest straight (a 6-high beats the wheel) and straight
+ *                         flushes outside the top five suited cards
+ * Updated: Oct 19, 2026 - Omaha rule: exactly two hole cards with three board cards (scoreHand)
  * Reference: Standard poker hand rankings
- * 
+ *
  * Hand Rankings (low to high):
  * 1. High Card
  * 2. Pair
@@ -18,8 +25,8 @@
  * 10. Royal Flush
  */
 
-import { CardNotation, EvaluatedHand, HandRank, Rank, Suit } from '@/types/poker'
-import { notationToCard, getRankValue, sortByRank } from './deck'
+import { CardNotation, EvaluatedHand, GameVariant, HandRank, Rank, Suit } from '@/types/poker'
+import { createDeck, notationToCard } from './deck'
 
 // Hand rank values for comparison
 const HAND_RANK_VALUES: Record<HandRank, number> = {
@@ -35,6 +42,8 @@ const HAND_RANK_VALUES: Record<HandRank, number> = {
   'royal_flush': 10,
 }
 
+const HAND_RANKS = Object.keys(HAND_RANK_VALUES) as HandRank[]
+
 // Rank names for descriptions
 const RANK_NAMES: Record<Rank, string> = {
   '2': 'Twos', '3': 'Threes', '4': 'Fours', '5': 'Fives',
@@ -42,258 +51,370 @@ const RANK_NAMES: Record<Rank, string> = {
   'J': 'Jacks', 'Q': 'Queens', 'K': 'Kings', 'A': 'Aces'
 }
 
-interface CardAnalysis {
-  cards: CardNotation[]
-  ranks: Rank[]
-  suits: Suit[]
-  rankCounts: Map<Rank, number>
-  suitCounts: Map<Suit, number>
+const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A']
+const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades']
+
+// Score = hand rank value, then the five deciding card values (2-14), 4 bits each:
+// two pair, Kings and Fives with an Ace kicker = 3|13|13|5|5|14
+const KICKER_SLOTS = 5
+const SCORE_RANK_UNIT = 16 ** KICKER_SLOTS
+
+// A-5-4-3-2 as a rank bitmask
+const WHEEL_MASK = (1 << 12) | 0b1111
+
+// Base-5 digit per rank: a hand's rank counts sum to one table key
+const POW5 = RANKS.map((_, rank) => 5 ** rank)
+
+// Card tables are built for up to 7 cards (Hold'em); bigger sets are scored directly
+const TABLE_MAX_CARDS = 7
+
+// Omaha hands use exactly this many hole cards, plus up to three board cards
+const OMAHA_HOLE_CARDS_USED = 2
+const OMAHA_BOARD_CARDS_USED = 3
+
+const CARD_CODES = new Map(createDeck().map(card => [card, parseCard(card)]))
+
+interface EvaluatorTables {
+  flush: Int32Array // Suit bitmask (5+ bits) -> best flush / straight flush score
+  rankCounts: Map<number, number> // Rank-count key -> best non-flush score
+}
+
+let tables: EvaluatorTables | null = null
+
+function parseCard(card: CardNotation): number {
+  const { rank, suit } = notationToCard(card)
+  const rankIndex = RANKS.indexOf(rank)
+  const suitIndex = SUITS.indexOf(suit)
+  if (rankIndex < 0 || suitIndex < 0) {
+    throw new Error(`Invalid card: ${card}`)
+  }
+  return rankIndex * 4 + suitIndex
+}
+
+/**
+ * Integer code of a card: rank index (0 = '2' ... 12 = 'A') * 4 + suit index
+ */
+export function encodeCard(card: CardNotation): number {
+  return CARD_CODES.get(card) ?? parseCard(card)
+}
+
+function packScore(rankValue: number, cardValues: number[]): number {
+  let score = rankValue
+  for (let i = 0; i < KICKER_SLOTS; i++) {
+    score = score * 16 + (cardValues[i] ?? 0)
+  }
+  return score
+}
+
+function unpackScore(score: number): { rankValue: number; cardValues: number[] } {
+  const cardValues: number[] = []
+  for (let i = KICKER_SLOTS - 1; i >= 0; i--) {
+    const value = Math.floor(score / 16 ** i) % 16
+    if (value > 0) cardValues.push(value)
+  }
+  return { rankValue: Math.floor(score / SCORE_RANK_UNIT), cardValues }
 }
 
 /**
- * Analyze a set of cards for evaluation
+ * Rank index of the highest straight in a rank bitmask, -1 if none (wheel = 3, the Five)
  */
-function analyzeCards(cards: CardNotation[]): CardAnalysis {
-  const ranks: Rank[] = []
-  const suits: Suit[] = []
-  const rankCounts = new Map<Rank, number>()
-  const suitCounts = new Map<Suit, number>()
-
-  for (const notation of cards) {
-    const card = notationToCard(notation)
-    ranks.push(card.rank)
-    suits.push(card.suit)
-    
-    rankCounts.set(card.rank, (rankCounts.get(card.rank) || 0) + 1)
-    suitCounts.set(card.suit, (suitCounts.get(card.suit) || 0) + 1)
+function findStraightHigh(mask: number): number {
+  for (let high = 12; high >= 4; high--) {
+    const run = 0b11111 << (high - 4)
+    if ((mask & run) === run) return high
   }
+  return (mask & WHEEL_MASK) === WHEEL_MASK ? 3 : -1
+}
 
-  return { cards, ranks, suits, rankCounts, suitCounts }
+/**
+ * Card values of the straight to `high`, high to low (the wheel ends with the Ace)
+ */
+function straightValues(high: number): number[] {
+  return [0, 1, 2, 3, 4].map(i => (high - i + 13) % 13 + 2)
 }
 
 /**
- * Check if cards form a flush (5+ same suit)
+ * Best score of one suit's cards (5+ of them) as a flush or straight flush
  */
-function findFlush(analysis: CardAnalysis): CardNotation[] | null {
-  for (const [suit, count] of analysis.suitCounts) {
-    if (count >= 5) {
-      const flushCards = analysis.cards.filter(c => notationToCard(c).suit === suit)
-      return sortByRank(flushCards).slice(0, 5)
-    }
+function scoreFlushMask(mask: number): number {
+  const high = findStraightHigh(mask)
+  if (high >= 0) {
+    const rank = high === 12 ? 'royal_flush' : 'straight_flush'
+    return packScore(HAND_RANK_VALUES[rank], straightValues(high))
   }
-  return null
+
+  const values: number[] = []
+  for (let rank = 12; rank >= 0 && values.length < KICKER_SLOTS; rank--) {
+    if (mask & (1 << rank)) values.push(rank + 2)
+  }
+  return packScore(HAND_RANK_VALUES['flush'], values)
 }
 
 /**
- * Check if cards form a straight (5 consecutive ranks)
+ * Best score of a set of ranks ignoring suits
+ * counts[rank index] = cards of that rank
  */
-function findStraight(cards: CardNotation[]): CardNotation[] | null {
-  const sorted = sortByRank(cards)
-  const uniqueRanks = new Map<number, CardNotation>()
-  
-  // Get unique ranks
-  for (const card of sorted) {
-    const value = getRankValue(notationToCard(card).rank)
-    if (!uniqueRanks.has(value)) {
-      uniqueRanks.set(value, card)
+function scoreRankCounts(counts: number[]): number {
+  const quads: number[] = []
+  const trips: number[] = []
+  const pairs: number[] = []
+  const cardValues: number[] = [] // Every card, high to low
+  let mask = 0
+
+  for (let rank = 12; rank >= 0; rank--) {
+    const count = counts[rank]
+    if (count === 0) continue
+    mask |= 1 << rank
+    if (count >= 4) quads.push(rank + 2)
+    else if (count === 3) trips.push(rank + 2)
+    else if (count === 2) pairs.push(rank + 2)
+    for (let i = 0; i < count; i++) cardValues.push(rank + 2)
+  }
+
+  const kickers = (used: number[], count: number) =>
+    cardValues.filter(v => !used.includes(v)).slice(0, count)
+
+  if (quads.length > 0) {
+    const quad = quads[0]
+    return packScore(HAND_RANK_VALUES['four_of_a_kind'], [quad, quad, quad, quad, ...kickers([quad], 1)])
+  }
+
+  if (trips.length > 0 && (pairs.length > 0 || trips.length > 1)) {
+    const trip = trips[0]
+    const pair = Math.max(pairs[0] ?? 0, trips[1] ?? 0)
+    return packScore(HAND_RANK_VALUES['full_house'], [trip, trip, trip, pair, pair])
+  }
+
+  const straightHigh = findStraightHigh(mask)
+  if (straightHigh >= 0) {
+    return packScore(HAND_RANK_VALUES['straight'], straightValues(straightHigh))
+  }
+
+  if (trips.length > 0) {
+    const trip = trips[0]
+    return packScore(HAND_RANK_VALUES['three_of_a_kind'], [trip, trip, trip, ...kickers([trip], 2)])
+  }
+
+  if (pairs.length >= 2) {
+    const [high, low] = pairs
+    return packScore(HAND_RANK_VALUES['two_pair'], [high, high, low, low, ...kickers([high, low], 1)])
+  }
+
+  if (pairs.length === 1) {
+    const pair = pairs[0]
+    return packScore(HAND_RANK_VALUES['pair'], [pair, pair, ...kickers([pair], 3)])
+  }
+
+  return packScore(HAND_RANK_VALUES['high_card'], cardValues.slice(0, KICKER_SLOTS))
+}
+
+function decodeRankCounts(key: number): number[] {
+  return RANKS.map((_, rank) => Math.floor(key / POW5[rank]) % 5)
+}
+
+/**
+ * Build the lookup tables on first use (every suit bitmask, every rank multiset up to 7 cards)
+ */
+function getTables(): EvaluatorTables {
+  if (tables) return tables
+
+  const flush = new Int32Array(1 << RANKS.length)
+  for (let mask = 0; mask < flush.length; mask++) {
+    let bits = 0
+    for (let m = mask; m; m &= m - 1) bits++
+    if (bits >= 5) flush[mask] = scoreFlushMask(mask)
+  }
+
+  const rankCounts = new Map<number, number>()
+  const counts = new Array<number>(RANKS.length).fill(0)
+  const fill = (rank: number, key: number, total: number) => {
+    if (rank === RANKS.length) {
+      if (total > 0) rankCounts.set(key, scoreRankCounts(counts))
+      return
+    }
+    for (let count = 0; count <= Math.min(4, TABLE_MAX_CARDS - total); count++) {
+      counts[rank] = count
+      fill(rank + 1, key + count * POW5[rank], total + count)
     }
+    counts[rank] = 0
   }
-  
-  // Check for Ace-low straight (A-2-3-4-5)
-  if (uniqueRanks.has(14) && uniqueRanks.has(2) && uniqueRanks.has(3) && 
-      uniqueRanks.has(4) && uniqueRanks.has(5)) {
-    return [
-      uniqueRanks.get(5)!, uniqueRanks.get(4)!, uniqueRanks.get(3)!, 
-      uniqueRanks.get(2)!, uniqueRanks.get(14)!
-    ]
+  fill(0, 0, 0)
+
+  tables = { flush, rankCounts }
+  return tables
+}
+
+// Scratch space for scoreCards (avoids allocating per hand)
+const suitMasks = new Int32Array(4)
+const suitCounts = new Int32Array(4)
+
+/**
+ * Score of the best hand in a set of encoded cards (see encodeCard)
+ * Higher scores win; equal scores split. The fast path for simulations.
+ */
+export function scoreCards(cards: number[]): number {
+  const { flush, rankCounts } = getTables()
+  suitMasks.fill(0)
+  suitCounts.fill(0)
+
+  let key = 0
+  for (const card of cards) {
+    const rank = card >> 2
+    const suit = card & 3
+    key += POW5[rank]
+    suitMasks[suit] |= 1 << rank
+    suitCounts[suit]++
   }
-  
-  // Check for regular straights
-  const values = Array.from(uniqueRanks.keys()).sort((a, b) => b - a)
-  for (let i = 0; i <= values.length - 5; i++) {
-    if (values[i] - values[i + 4] === 4) {
-      return [
-        uniqueRanks.get(values[i])!,
-        uniqueRanks.get(values[i + 1])!,
-        uniqueRanks.get(values[i + 2])!,
-        uniqueRanks.get(values[i + 3])!,
-        uniqueRanks.get(values[i + 4])!,
-      ]
+
+  let score = rankCounts.get(key) ?? scoreRankCounts(decodeRankCounts(key))
+  for (let suit = 0; suit < 4; suit++) {
+    if (suitCounts[suit] >= 5) score = Math.max(score, flush[suitMasks[suit]])
+  }
+  return score
+}
+
+// Index combinations by "n:k", for Omaha's hole/board picks
+const indexCombinations = new Map<string, number[][]>()
+
+function getIndexCombinations(n: number, k: number): number[][] {
+  const key = `${n}:${k}`
+  let combos = indexCombinations.get(key)
+  if (!combos) {
+    combos = []
+    const combo: number[] = []
+    const recurse = (start: number) => {
+      if (combo.length === k) {
+        combos!.push([...combo])
+        return
+      }
+      for (let i = start; i <= n - (k - combo.length); i++) {
+        combo.push(i)
+        recurse(i + 1)
+        combo.pop()
+      }
     }
+    recurse(0)
+    indexCombinations.set(key, combos)
   }
-  
-  return null
+  return combos
 }
 
+const omahaScratch: number[] = []
+
 /**
- * Find n-of-a-kind (pairs, trips, quads)
+ * Best Omaha hand: two hole cards and three board cards (the whole board
+ * while fewer than three are dealt)
+ * @returns The score and the indices of the cards used in [...hole, ...board]
  */
-function findOfAKind(analysis: CardAnalysis, count: number): Rank[] {
-  const matches: Rank[] = []
-  for (const [rank, c] of analysis.rankCounts) {
-    if (c === count) {
-      matches.push(rank)
+function findBestOmaha(holeCodes: number[], boardCodes: number[]): { score: number; used: number[] } {
+  const holePicks = getIndexCombinations(holeCodes.length, Math.min(OMAHA_HOLE_CARDS_USED, holeCodes.length))
+  const boardPicks = getIndexCombinations(boardCodes.length, Math.min(OMAHA_BOARD_CARDS_USED, boardCodes.length))
+
+  let best = { score: -1, used: [] as number[] }
+  for (const holePick of holePicks) {
+    for (const boardPick of boardPicks) {
+      omahaScratch.length = 0
+      for (const i of holePick) omahaScratch.push(holeCodes[i])
+      for (const i of boardPick) omahaScratch.push(boardCodes[i])
+      const score = scoreCards(omahaScratch)
+      if (score > best.score) {
+        best = { score, used: [...holePick, ...boardPick.map(i => holeCodes.length + i)] }
+      }
     }
   }
-  // Sort by rank value (high to low)
-  return matches.sort((a, b) => getRankValue(b) - getRankValue(a))
+  return best
 }
 
 /**
- * Get cards of a specific rank
+ * Score of a player's best hand under the variant's rules (encoded cards)
+ * Hold'em plays any five of hole + board; Omaha exactly two hole cards
  */
-function getCardsOfRank(cards: CardNotation[], rank: Rank): CardNotation[] {
-  return cards.filter(c => notationToCard(c).rank === rank)
+export function scoreHand(holeCodes: number[], boardCodes: number[], variant: GameVariant = 'holdem'): number {
+  return variant === 'omaha'
+    ? findBestOmaha(holeCodes, boardCodes).score
+    : scoreCards([...holeCodes, ...boardCodes])
+}
+
+/**
+ * Description of a scored hand, e.g. "Full House, Kings over Fives"
+ */
+function describeHand(rank: HandRank, cardValues: number[]): string {
+  const first = RANKS[cardValues[0] - 2]
+  const name = (value: number) => RANK_NAMES[RANKS[value - 2]]
+
+  switch (rank) {
+    case 'royal_flush':
+      return 'Royal Flush!'
+    case 'straight_flush':
+      return `Straight Flush, ${first} high`
+    case 'four_of_a_kind':
+      return `Four of a Kind, ${name(cardValues[0])}`
+    case 'full_house':
+      return `Full House, ${name(cardValues[0])} over ${name(cardValues[3])}`
+    case 'flush':
+      return `Flush, ${first} high`
+    case 'straight':
+      return `Straight, ${first} high`
+    case 'three_of_a_kind':
+      return `Three of a Kind, ${name(cardValues[0])}`
+    case 'two_pair':
+      return `Two Pair, ${name(cardValues[0])} and ${name(cardValues[2])}`
+    case 'pair':
+      return `Pair of ${name(cardValues[0])}`
+    case 'high_card':
+      return `High Card, ${first}`
+  }
 }
 
 /**
- * Get kickers (cards not used in the made hand)
+ * Expand a score into the full EvaluatedHand, picking the actual cards that make it
+ * (for equal ranks, the first in the order given)
  */
-function getKickers(cards: CardNotation[], usedRanks: Rank[], count: number): CardNotation[] {
-  const kickers = cards.filter(c => !usedRanks.includes(notationToCard(c).rank))
-  return sortByRank(kickers).slice(0, count)
+function toEvaluatedHand(cards: CardNotation[], codes: number[], score: number): EvaluatedHand {
+  const { rankValue, cardValues } = unpackScore(score)
+  const rank = HAND_RANKS[rankValue - 1]
+
+  const isFlush = rank === 'flush' || rank === 'straight_flush' || rank === 'royal_flush'
+  const flushSuit = isFlush
+    ? [0, 1, 2, 3].find(suit => codes.filter(code => (code & 3) === suit).length >= 5)
+    : undefined
+
+  const used = new Set<number>()
+  const bestCards = cardValues.map(value => {
+    const index = codes.findIndex((code, i) =>
+      !used.has(i) && (code >> 2) + 2 === value && (flushSuit === undefined || (code & 3) === flushSuit)
+    )
+    used.add(index)
+    return cards[index]
+  })
+
+  return {
+    rank,
+    rankValue,
+    score,
+    cards: bestCards,
+    description: describeHand(rank, cardValues),
+  }
 }
 
 /**
  * Evaluate the best 5-card hand from available cards
- * @param holeCards Player's 2 hole cards
+ * @param holeCards Player's hole cards (2 for Hold'em, 4 for Omaha)
  * @param communityCards The 5 community cards (or fewer if not all dealt)
+ * @param variant Omaha hands must use exactly two hole cards
  */
 export function evaluateHand(
-  holeCards: CardNotation[], 
-  communityCards: CardNotation[]
+  holeCards: CardNotation[],
+  communityCards: CardNotation[],
+  variant: GameVariant = 'holdem'
 ): EvaluatedHand {
   const allCards = [...holeCards, ...communityCards]
-  const analysis = analyzeCards(allCards)
-  
-  // Check for flush first (needed for straight flush check)
-  const flushCards = findFlush(analysis)
-  
-  // Check for straight flush / royal flush
-  if (flushCards) {
-    const straightFlush = findStraight(flushCards)
-    if (straightFlush) {
-      const highCard = notationToCard(straightFlush[0])
-      if (highCard.rank === 'A') {
-        return {
-          rank: 'royal_flush',
-          rankValue: HAND_RANK_VALUES['royal_flush'],
-          cards: straightFlush,
-          description: 'Royal Flush!'
-        }
-      }
-      return {
-        rank: 'straight_flush',
-        rankValue: HAND_RANK_VALUES['straight_flush'],
-        cards: straightFlush,
-        description: `Straight Flush, ${highCard.rank} high`
-      }
-    }
-  }
-  
-  // Four of a kind
-  const quads = findOfAKind(analysis, 4)
-  if (quads.length > 0) {
-    const quadRank = quads[0]
-    const quadCards = getCardsOfRank(allCards, quadRank)
-    const kicker = getKickers(allCards, [quadRank], 1)
-    return {
-      rank: 'four_of_a_kind',
-      rankValue: HAND_RANK_VALUES['four_of_a_kind'],
-      cards: [...quadCards, ...kicker],
-      description: `Four of a Kind, ${RANK_NAMES[quadRank]}`
-    }
-  }
-  
-  // Full house
-  const trips = findOfAKind(analysis, 3)
-  const pairs = findOfAKind(analysis, 2)
-  if (trips.length > 0 && (pairs.length > 0 || trips.length > 1)) {
-    const tripRank = trips[0]
-    const pairRank = pairs.length > 0 ? pairs[0] : trips[1]
-    const tripCards = getCardsOfRank(allCards, tripRank).slice(0, 3)
-    const pairCards = getCardsOfRank(allCards, pairRank).slice(0, 2)
-    return {
-      rank: 'full_house',
-      rankValue: HAND_RANK_VALUES['full_house'],
-      cards: [...tripCards, ...pairCards],
-      description: `Full House, ${RANK_NAMES[tripRank]} over ${RANK_NAMES[pairRank]}`
-    }
-  }
-  
-  // Flush
-  if (flushCards) {
-    const highCard = notationToCard(flushCards[0])
-    return {
-      rank: 'flush',
-      rankValue: HAND_RANK_VALUES['flush'],
-      cards: flushCards,
-      description: `Flush, ${highCard.rank} high`
-    }
-  }
-  
-  // Straight
-  const straight = findStraight(allCards)
-  if (straight) {
-    const highCard = notationToCard(straight[0])
-    return {
-      rank: 'straight',
-      rankValue: HAND_RANK_VALUES['straight'],
-      cards: straight,
-      description: `Straight, ${highCard.rank} high`
-    }
-  }
-  
-  // Three of a kind
-  if (trips.length > 0) {
-    const tripRank = trips[0]
-    const tripCards = getCardsOfRank(allCards, tripRank)
-    const kickers = getKickers(allCards, [tripRank], 2)
-    return {
-      rank: 'three_of_a_kind',
-      rankValue: HAND_RANK_VALUES['three_of_a_kind'],
-      cards: [...tripCards, ...kickers],
-      description: `Three of a Kind, ${RANK_NAMES[tripRank]}`
-    }
-  }
-  
-  // Two pair
-  if (pairs.length >= 2) {
-    const highPair = pairs[0]
-    const lowPair = pairs[1]
-    const highPairCards = getCardsOfRank(allCards, highPair)
-    const lowPairCards = getCardsOfRank(allCards, lowPair)
-    const kicker = getKickers(allCards, [highPair, lowPair], 1)
-    return {
-      rank: 'two_pair',
-      rankValue: HAND_RANK_VALUES['two_pair'],
-      cards: [...highPairCards, ...lowPairCards, ...kicker],
-      description: `Two Pair, ${RANK_NAMES[highPair]} and ${RANK_NAMES[lowPair]}`
-    }
-  }
-  
-  // One pair
-  if (pairs.length === 1) {
-    const pairRank = pairs[0]
-    const pairCards = getCardsOfRank(allCards, pairRank)
-    const kickers = getKickers(allCards, [pairRank], 3)
-    return {
-      rank: 'pair',
-      rankValue: HAND_RANK_VALUES['pair'],
-      cards: [...pairCards, ...kickers],
-      description: `Pair of ${RANK_NAMES[pairRank]}`
-    }
-  }
-  
-  // High card
-  const highCards = sortByRank(allCards).slice(0, 5)
-  const highCard = notationToCard(highCards[0])
-  return {
-    rank: 'high_card',
-    rankValue: HAND_RANK_VALUES['high_card'],
-    cards: highCards,
-    description: `High Card, ${highCard.rank}`
+  const codes = allCards.map(encodeCard)
+  if (variant === 'omaha') {
+    const { score, used } = findBestOmaha(codes.slice(0, holeCards.length), codes.slice(holeCards.length))
+    return toEvaluatedHand(used.map(i => allCards[i]), used.map(i => codes[i]), score)
   }
+  return toEvaluatedHand(allCards, codes, scoreCards(codes))
 }
 
 /**
@@ -301,21 +422,7 @@ export function evaluateHand(
  * Returns: positive if hand1 wins, negative if hand2 wins, 0 if tie
  */
 export function compareHands(hand1: EvaluatedHand, hand2: EvaluatedHand): number {
-  // Compare hand ranks first
-  if (hand1.rankValue !== hand2.rankValue) {
-    return hand1.rankValue - hand2.rankValue
-  }
-  
-  // Same hand rank - compare card values
-  for (let i = 0; i < Math.min(hand1.cards.length, hand2.cards.length); i++) {
-    const value1 = getRankValue(notationToCard(hand1.cards[i]).rank)
-    const value2 = getRankValue(notationToCard(hand2.cards[i]).rank)
-    if (value1 !== value2) {
-      return value1 - value2
-    }
-  }
-  
-  return 0 // Perfect tie
+  return hand1.score - hand2.score
 }
 
 /**
@@ -324,24 +431,24 @@ export function compareHands(hand1: EvaluatedHand, hand2: EvaluatedHand): number
  */
 export function determineWinners(
   playerHands: { holeCards: CardNotation[]; playerId: string }[],
-  communityCards: CardNotation[]
+  communityCards: CardNotation[],
+  variant: GameVariant = 'holdem'
 ): { playerId: string; hand: EvaluatedHand }[] {
-  // Evaluate all hands
-  const evaluated = playerHands.map(p => ({
-    playerId: p.playerId,
-    hand: evaluateHand(p.holeCards, communityCards)
+  // Score every hand, then expand only the winners
+  const board = communityCards.map(encodeCard)
+  const scored = playerHands.map(p => ({
+    player: p,
+    score: scoreHand(p.holeCards.map(encodeCard), board, variant),
   }))
-  
-  // Find the best hand
-  let bestHand = evaluated[0].hand
-  for (const e of evaluated) {
-    if (compareHands(e.hand, bestHand) > 0) {
-      bestHand = e.hand
-    }
-  }
-  
+  const best = Math.max(...scored.map(s => s.score))
+
   // Return all players with the best hand (could be multiple for split pot)
-  return evaluated.filter(e => compareHands(e.hand, bestHand) === 0)
+  return scored
+    .filter(s => s.score === best)
+    .map(s => ({
+      playerId: s.player.playerId,
+      hand: evaluateHand(s.player.holeCards, communityCards, variant),
+    }))
 }
 
 /**
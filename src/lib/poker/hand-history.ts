@@ -0,0 +1,146 @@
+/**
+ * Hand History
+ * Structured export schema for a completed hand
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Records the hand's betting structure
+ * Updated: Oct 19, 2026 - Records the game variant (Hold'em / Omaha)
+ * Updated: Oct 19, 2026 - Records the real button seat and a dead small blind
+ * Purpose: Live hands are spread across hands, hand_agents and agent_actions;
+ *          simulated hands live in memory. Both are rebuilt into one schema
+ *          (seats, blinds, actions per street, board, showdown, pot awards)
+ *          from the final engine state plus the ordered action log, so the
+ *          JSON and PokerStars text exports (./pokerstars) share one source.
+ */
+
+import type { ActionType, AnteType, BettingStructure, CardNotation, GameState, GameVariant, PotAward, Round } from '@/types/poker'
+import { evaluateHand } from './hand-evaluator'
+import { NO_LIMIT } from './betting'
+
+const ROUNDS: Round[] = ['preflop', 'flop', 'turn', 'river']
+
+// Board size once each street is dealt
+const BOARD_SIZE: Record<Round, number> = { preflop: 0, flop: 3, turn: 4, river: 5 }
+
+export interface HandHistoryAction {
+  agentId: string
+  type: ActionType | 'blind' // Blinds and antes are both 'blind' (antes are logged first)
+  amount?: number // blind = chips posted, call = chips added, raise/all_in = total bet for the street
+  reasoning?: string
+  fallbackReason?: string
+}
+
+// An action from the hand's log, in order
+export interface RecordedAction extends HandHistoryAction {
+  round: Round
+}
+
+export interface HandHistoryStreet {
+  round: Round
+  board: CardNotation[] // Full board once this street is dealt
+  actions: HandHistoryAction[]
+}
+
+export interface HandHistorySeat {
+  seat: number
+  agentId: string
+  name: string
+  startingChips: number
+  holeCards: CardNotation[]
+}
+
+export interface HandHistoryShowdown {
+  agentId: string
+  holeCards: CardNotation[]
+  handDescription: string
+}
+
+export interface HandHistory {
+  handId: string
+  handNumber: number
+  gameId: string | null
+  gameNumber: number | null
+  playedAt: string | null // ISO8601
+  buttonSeat: number // May be an empty seat (dead button)
+  deadSmallBlind: boolean // Only the big blind was posted
+  smallBlind: number
+  bigBlind: number
+  ante: number
+  anteType: AnteType
+  bettingStructure: BettingStructure
+  variant: GameVariant
+  seats: HandHistorySeat[]
+  streets: HandHistoryStreet[]
+  board: CardNotation[]
+  showdown: HandHistoryShowdown[] // Empty when the hand was won uncontested
+  potAwards: PotAward[] // Main pot first, then side pots
+  winnings: Record<string, number>
+  endingChips: Record<string, number>
+}
+
+export interface HandHistoryMeta {
+  handNumber: number
+  gameId?: string | null
+  gameNumber?: number | null
+  playedAt?: string | null
+}
+
+/**
+ * Build the hand history of a completed hand
+ *
+ * @param state - Final engine state (isComplete)
+ * @param actions - Every action of the hand in order, blinds and antes included
+ */
+export function buildHandHistory(state: GameState, actions: RecordedAction[], meta: HandHistoryMeta): HandHistory {
+  if (!state.isComplete) {
+    throw new Error(`Hand ${state.handId} is not complete`)
+  }
+
+  const winnings = state.winnings || {}
+  const lastRound = ROUNDS.findLast(round =>
+    BOARD_SIZE[round] <= state.communityCards.length || actions.some(a => a.round === round)
+  ) ?? 'preflop'
+  const contenders = state.players.filter(p => !p.isFolded)
+
+  return {
+    handId: state.handId,
+    handNumber: meta.handNumber,
+    gameId: meta.gameId ?? null,
+    gameNumber: meta.gameNumber ?? null,
+    playedAt: meta.playedAt ?? null,
+    buttonSeat: state.buttonSeat ?? state.players[state.dealerIndex]?.seatPosition ?? 0,
+    deadSmallBlind: state.deadSmallBlind ?? false,
+    smallBlind: state.smallBlind,
+    bigBlind: state.bigBlind,
+    ante: state.ante ?? 0,
+    anteType: state.anteType ?? 'none',
+    bettingStructure: state.bettingStructure ?? NO_LIMIT,
+    variant: state.variant ?? 'holdem',
+    seats: state.players.map(p => ({
+      seat: p.seatPosition,
+      agentId: p.agentId,
+      name: p.name,
+      // Final stack, minus what was won, plus what went in (uncalled bets are already refunded)
+      startingChips: p.chipCount - (winnings[p.agentId] || 0) + p.totalContributed,
+      holeCards: p.holeCards,
+    })),
+    streets: ROUNDS.slice(0, ROUNDS.indexOf(lastRound) + 1).map(round => ({
+      round,
+      board: state.communityCards.slice(0, BOARD_SIZE[round]),
+      actions: actions
+        .filter(a => a.round === round)
+        .map(a => ({ agentId: a.agentId, type: a.type, amount: a.amount, reasoning: a.reasoning, fallbackReason: a.fallbackReason })),
+    })),
+    board: state.communityCards,
+    showdown: contenders.length > 1
+      ? contenders.map(p => ({
+          agentId: p.agentId,
+          holeCards: p.holeCards,
+          handDescription: evaluateHand(p.holeCards, state.communityCards, state.variant).description,
+        }))
+      : [],
+    potAwards: state.potAwards || [],
+    winnings,
+    endingChips: Object.fromEntries(state.players.map(p => [p.agentId, p.chipCount])),
+  }
+}
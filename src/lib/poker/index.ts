@@ -3,6 +3,19 @@
  * Export all poker logic modules
  * 
  * Created: Jan 5, 2026
+ * Updated: Oct 19, 2026 - Export equity calculator
+ * Updated: Oct 19, 2026 - Export hand reducer API
+ * Updated: Oct 19, 2026 - Export pot engine
+ * Updated: Oct 19, 2026 - Export blind schedule
+ * Updated: Oct 19, 2026 - Export table positions
+ * Updated: Oct 19, 2026 - Export opponent stats
+ * Updated: Oct 19, 2026 - Export dealer rotation
+ * Updated: Oct 19, 2026 - Export hand history schema and PokerStars formatter
+ * Updated: Oct 19, 2026 - Export hand replay frames
+ * Updated: Oct 19, 2026 - Export encoded-card scoring (encodeCard, scoreCards)
+ * Updated: Oct 19, 2026 - Export betting structures
+ * Updated: Oct 19, 2026 - Export game variants and variant-aware scoring (scoreHand)
+ * Updated: Oct 19, 2026 - Export the seat manager (dead/moving button)
  */
 
 // Deck management
@@ -27,16 +40,135 @@ export {
   compareHands,
   determineWinners,
   getHandStrengthPercent,
+  encodeCard,
+  scoreCards,
+  scoreHand,
 } from './hand-evaluator'
 
+// Equity
+export {
+  calculateEquity,
+  type EquityPlayer,
+  type EquityOptions,
+  type EquityResult,
+} from './equity'
+
+// Pots
+export {
+  calculatePots,
+  awardPots,
+  getOddChipOrder,
+  sumPotAwards,
+  type PotContribution,
+} from './pots'
+
+// Blind schedule
+export {
+  createBlindStructure,
+  getBlindLevel,
+  getNextBlindLevel,
+  FLAT_BLIND_STRUCTURE,
+  BASE_SMALL_BLIND,
+  BASE_BIG_BLIND,
+} from './blinds'
+
+// Betting structures
+export {
+  parseBettingStructure,
+  getFixedBetSize,
+  isBettingLimit,
+  BETTING_LIMITS,
+  BETTING_LIMIT_LABELS,
+  DEFAULT_RAISE_CAP,
+  NO_LIMIT,
+} from './betting'
+
+// Game variants
+export {
+  parseGameVariant,
+  isGameVariant,
+  GAME_VARIANTS,
+  GAME_VARIANT_LABELS,
+  HOLE_CARD_COUNT,
+  DEFAULT_BETTING_STRUCTURE,
+} from './variants'
+
+// Table positions
+export {
+  getPositionLabels,
+  getPositionLabel,
+  getTablePosition,
+  getNextDealerSeat,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  type TablePosition,
+} from './positions'
+
+// Seat manager
+export {
+  getNextButtonPositions,
+  getDealerIndex,
+  getHandSeating,
+  DEFAULT_BUTTON_RULE,
+  type ButtonRule,
+  type ButtonPositions,
+  type PreviousButton,
+} from './seats'
+
+// Opponent stats
+export {
+  countHand,
+  countHands,
+  addCounters,
+  toObservedStyle,
+  EMPTY_COUNTERS,
+  type StatsAction,
+  type StyleCounters,
+} from './opponent-stats'
+
+// Hand history export
+export {
+  buildHandHistory,
+  type HandHistory,
+  type HandHistoryAction,
+  type HandHistoryMeta,
+  type HandHistorySeat,
+  type HandHistoryShowdown,
+  type HandHistoryStreet,
+  type RecordedAction,
+} from './hand-history'
+export {
+  formatPokerStarsHand,
+  formatPokerStarsHands,
+  type PokerStarsOptions,
+} from './pokerstars'
+export {
+  buildReplay,
+  type ReplayEvent,
+  type ReplayFrame,
+} from './replay'
+
 // Game engine
 export {
   initializeHand,
   getValidActions,
   applyAction,
+  reduceHand,
+  normalizeAction,
+  getNextStep,
+  isAllInRunout,
+  getBlindIndices,
+  getMinRaiseTotal,
+  getMaxRaiseTotal,
+  getRunout,
   getGameStatus,
   calculateOdds,
   probabilityToOdds,
   type GameConfig,
+  type HandPlayer,
+  type HandCommand,
+  type HandStep,
+  type HandTransition,
+  type HandButton,
 } from './game-engine'
 
@@ -0,0 +1,152 @@
+/**
+ * Opponent Stats
+ * VPIP, PFR, aggression, fold-to-c-bet and showdown history from action logs
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Showdown wins only count contested pots (getShowdownWinnerIds)
+ * Purpose: Agents get each opponent's tendencies in their prompt. Stats are kept
+ *          as additive counters per hand so lifetime totals can be stored and
+ *          bumped after every hand, while per-game stats are recounted from
+ *          the game's own actions.
+ */
+
+import type { ObservedStyle, StyleCounters } from '@/types/agents'
+import type { ActionType, PotAward, Round } from '@/types/poker'
+
+export type { StyleCounters }
+
+// One recorded action (agent_actions row), in the order it happened
+export interface StatsAction {
+  agentId: string
+  type: ActionType | 'blind'
+  round: Round
+}
+
+export const EMPTY_COUNTERS: StyleCounters = {
+  hands: 0,
+  vpipHands: 0,
+  pfrHands: 0,
+  raises: 0,
+  calls: 0,
+  cbetsFaced: 0,
+  cbetFolds: 0,
+  showdowns: 0,
+  showdownWins: 0,
+  bluffsCaught: 0,
+}
+
+const isAggressive = (type: StatsAction['type']) => type === 'raise' || type === 'all_in'
+
+/**
+ * Agents that won a pot at showdown
+ * A pot with one eligible player (an uncalled bet, or a side pot nobody else
+ * could match) was never contested, so winning it isn't a showdown win.
+ */
+export function getShowdownWinnerIds(potAwards: PotAward[]): string[] {
+  const ids = potAwards
+    .filter(award => award.eligiblePlayerIds.length > 1)
+    .flatMap(award => award.winners.map(w => w.playerId))
+  return [...new Set(ids)]
+}
+
+/**
+ * Count one resolved hand for every agent that took part
+ *
+ * @param actions - The hand's actions in order (blinds/antes included)
+ * @param winnerIds - Agents that won a contested pot (getShowdownWinnerIds)
+ */
+export function countHand(actions: StatsAction[], winnerIds: string[]): Record<string, StyleCounters> {
+  const counters: Record<string, StyleCounters> = {}
+  for (const action of actions) {
+    counters[action.agentId] ??= { ...EMPTY_COUNTERS, hands: 1 }
+  }
+
+  const preflop = actions.filter(a => a.round === 'preflop')
+  for (const action of preflop) {
+    const c = counters[action.agentId]
+    if (action.type === 'call' || isAggressive(action.type)) c.vpipHands = 1
+    if (isAggressive(action.type)) c.pfrHands = 1
+  }
+
+  for (const action of actions) {
+    if (action.round === 'preflop') continue
+    if (isAggressive(action.type)) counters[action.agentId].raises++
+    if (action.type === 'call') counters[action.agentId].calls++
+  }
+
+  // C-bet: the preflop aggressor makes the first bet on the flop
+  const preflopAggressor = [...preflop].reverse().find(a => isAggressive(a.type))?.agentId
+  const flop = actions.filter(a => a.round === 'flop')
+  const firstBet = flop.findIndex(a => isAggressive(a.type))
+  const isCbet = firstBet >= 0
+    && flop[firstBet].agentId === preflopAggressor
+    && flop.findIndex(a => a.agentId === preflopAggressor) === firstBet
+  if (isCbet) {
+    const responded = new Set<string>()
+    for (const action of flop.slice(firstBet + 1)) {
+      if (action.agentId === preflopAggressor || responded.has(action.agentId)) continue
+      responded.add(action.agentId)
+      counters[action.agentId].cbetsFaced++
+      if (action.type === 'fold') counters[action.agentId].cbetFolds++
+    }
+  }
+
+  // Showdown: two or more players never folded
+  const folded = new Set(actions.filter(a => a.type === 'fold').map(a => a.agentId))
+  const live = Object.keys(counters).filter(id => !folded.has(id))
+  if (live.length >= 2) {
+    const lastRaiser = [...actions].reverse().find(a => isAggressive(a.type))?.agentId
+    for (const id of live) {
+      const won = winnerIds.includes(id)
+      counters[id].showdowns++
+      if (won) counters[id].showdownWins++
+      if (!won && id === lastRaiser) counters[id].bluffsCaught++
+    }
+  }
+
+  return counters
+}
+
+/**
+ * Sum two sets of counters
+ */
+export function addCounters(a: StyleCounters, b: StyleCounters): StyleCounters {
+  const sum = { ...a }
+  for (const key of Object.keys(EMPTY_COUNTERS) as (keyof StyleCounters)[]) {
+    sum[key] = (a[key] ?? 0) + (b[key] ?? 0)
+  }
+  return sum
+}
+
+/**
+ * Count several hands and total the counters per agent
+ */
+export function countHands(
+  hands: { actions: StatsAction[]; winnerIds: string[] }[]
+): Record<string, StyleCounters> {
+  const totals: Record<string, StyleCounters> = {}
+  for (const hand of hands) {
+    for (const [agentId, counters] of Object.entries(countHand(hand.actions, hand.winnerIds))) {
+      totals[agentId] = addCounters(totals[agentId] ?? EMPTY_COUNTERS, counters)
+    }
+  }
+  return totals
+}
+
+/**
+ * Turn raw counters into the rates agents see
+ * Aggression with no postflop calls is just the raise count (AF over 1 call)
+ */
+export function toObservedStyle(counters: StyleCounters): ObservedStyle {
+  const rate = (count: number, total: number) => (total > 0 ? count / total : 0)
+  return {
+    handsObserved: counters.hands,
+    vpip: rate(counters.vpipHands, counters.hands),
+    pfr: rate(counters.pfrHands, counters.hands),
+    aggressionScore: counters.raises / Math.max(1, counters.calls),
+    foldToCbet: counters.cbetsFaced > 0 ? counters.cbetFolds / counters.cbetsFaced : null,
+    showdownHands: counters.showdowns,
+    showdownWins: counters.showdownWins,
+    bluffCaughtCount: counters.bluffsCaught,
+  }
+}
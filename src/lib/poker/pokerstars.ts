@@ -0,0 +1,222 @@
+/**
+ * PokerStars Hand History Format
+ * Renders hand histories (./hand-history) as PokerStars play-money text
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Game line names the betting structure (fixed-limit shows small/big bet)
+ * Updated: Oct 19, 2026 - Omaha hands are labelled Omaha
+ * Updated: Oct 19, 2026 - Dead small blinds (only the big blind is posted)
+ * Purpose: Analysts load games into standard tools (PokerTracker, HM3,
+ *          hand replayers) that import PokerStars text. Amounts are chips with
+ *          no currency, like PokerStars play-money tables. Every player's hole
+ *          cards are dealt face up ("Dealt to" per seat) since the games are
+ *          public once resolved.
+ */
+
+import type { CardNotation, Round } from '@/types/poker'
+import type { HandHistory, HandHistoryAction } from './hand-history'
+import { getFixedBetSize } from './betting'
+import { MAX_PLAYERS } from './positions'
+
+const STREET_NAMES: Record<Round, string> = { preflop: 'Pre-Flop', flop: 'Flop', turn: 'Turn', river: 'River' }
+
+// Hands from different games need distinct numeric ids: game 12, hand 7 → #12007
+const HANDS_PER_GAME_ID = 1000
+
+/**
+ * Game and stakes, e.g. "Hold'em No Limit (10/20)" or "Omaha Pot Limit (10/20)"
+ */
+function formatGame(history: HandHistory): string {
+  // Older histories predate variants and betting structures (all no-limit Hold'em)
+  const game = history.variant === 'omaha' ? 'Omaha' : "Hold'em"
+  switch (history.bettingStructure?.limit ?? 'no_limit') {
+    case 'no_limit':
+      return `${game} No Limit (${history.smallBlind}/${history.bigBlind})`
+    case 'pot_limit':
+      return `${game} Pot Limit (${history.smallBlind}/${history.bigBlind})`
+    case 'fixed_limit':
+      return `${game} Limit (${getFixedBetSize(history.bigBlind, 'flop')}/${getFixedBetSize(history.bigBlind, 'river')})`
+  }
+}
+
+export interface PokerStarsOptions {
+  tableName?: string // Defaults to "Agent All In <game number>"
+}
+
+const toStarsCard = (card: CardNotation) => card.replace(/^10/, 'T')
+const cardList = (cards: CardNotation[]) => `[${cards.map(toStarsCard).join(' ')}]`
+
+/**
+ * "2026/10/19 14:03:07 UTC"
+ */
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`
+}
+
+/**
+ * Name of pot `index` of `count` as PokerStars writes it
+ */
+function potName(index: number, count: number): string {
+  if (count === 1) return 'pot'
+  return index === 0 ? 'main pot' : `side pot-${index}`
+}
+
+/**
+ * Render one hand as PokerStars text
+ */
+export function formatPokerStarsHand(history: HandHistory, options: PokerStarsOptions = {}): string {
+  const lines: string[] = []
+  const name = (agentId: string) => history.seats.find(s => s.agentId === agentId)?.name ?? agentId
+  const stacks = Object.fromEntries(history.seats.map(s => [s.agentId, s.startingChips]))
+  const foldedOn: Record<string, Round> = {}
+  const allIn = (agentId: string) => (stacks[agentId] <= 0 ? ' and is all-in' : '')
+
+  const handId = (history.gameNumber ?? 0) * HANDS_PER_GAME_ID + history.handNumber
+  const tableName = options.tableName ?? `Agent All In ${history.gameNumber ?? 'Sim'}`
+  lines.push(`PokerStars Hand #${handId}:  ${formatGame(history)} - ${formatTimestamp(history.playedAt ?? new Date().toISOString())}`)
+  lines.push(`Table '${tableName}' ${MAX_PLAYERS}-max (Play Money) Seat #${history.buttonSeat + 1} is the button`)
+  for (const seat of history.seats) {
+    lines.push(`Seat ${seat.seat + 1}: ${seat.name} (${seat.startingChips} in chips)`)
+  }
+
+  // Blinds are the last two forced bets (just the big blind when the small blind is dead);
+  // anything logged before them is an ante
+  const forced = history.streets[0]?.actions.filter(a => a.type === 'blind') ?? []
+  const [smallBlind, bigBlind] = history.deadSmallBlind ? [undefined, forced.at(-1)] : forced.slice(-2)
+  const roles: Record<string, string[]> = {}
+  const addRole = (agentId: string, role: string) => (roles[agentId] ??= []).push(role)
+  addRole(history.seats.find(s => s.seat === history.buttonSeat)?.agentId ?? '', 'button')
+
+  const dealHoleCards = () => {
+    lines.push('*** HOLE CARDS ***')
+    for (const seat of history.seats) lines.push(`Dealt to ${seat.name} ${cardList(seat.holeCards)}`)
+  }
+  if (!bigBlind) dealHoleCards()
+
+  for (const street of history.streets) {
+    const committed: Record<string, number> = {}
+    let tableBet = 0
+    const put = (agentId: string, chips: number) => {
+      committed[agentId] = (committed[agentId] ?? 0) + chips
+      stacks[agentId] -= chips
+    }
+
+    if (street.round === 'flop') lines.push(`*** FLOP *** ${cardList(street.board)}`)
+    if (street.round === 'turn') lines.push(`*** TURN *** ${cardList(street.board.slice(0, 3))} ${cardList(street.board.slice(3))}`)
+    if (street.round === 'river') lines.push(`*** RIVER *** ${cardList(street.board.slice(0, 4))} ${cardList(street.board.slice(4))}`)
+
+    for (const action of street.actions) {
+      const who = name(action.agentId)
+      const amount = action.amount ?? 0
+
+      if (action.type === 'blind') {
+        if (action === smallBlind || action === bigBlind) {
+          const blind = action === smallBlind ? 'small blind' : 'big blind'
+          addRole(action.agentId, blind)
+          put(action.agentId, amount)
+          tableBet = Math.max(tableBet, committed[action.agentId])
+          lines.push(`${who}: posts ${blind} ${amount}${allIn(action.agentId)}`)
+        } else {
+          stacks[action.agentId] -= amount
+          lines.push(`${who}: posts the ante ${amount}${allIn(action.agentId)}`)
+        }
+        if (action === bigBlind) dealHoleCards()
+        continue
+      }
+
+      lines.push(formatAction(action, who, committed[action.agentId] ?? 0, tableBet, put, allIn))
+      if (action.type === 'fold') foldedOn[action.agentId] = street.round
+      tableBet = Math.max(tableBet, committed[action.agentId] ?? 0)
+    }
+
+    // The part of the top bet nobody matched goes back, as in the engine
+    const bets = Object.entries(committed).sort((a, b) => b[1] - a[1])
+    const excess = (bets[0]?.[1] ?? 0) - (bets[1]?.[1] ?? 0)
+    if (excess > 0 && !foldedOn[bets[0][0]]) {
+      lines.push(`Uncalled bet (${excess}) returned to ${name(bets[0][0])}`)
+    }
+  }
+
+  // Showdown and collection
+  const awards = history.potAwards
+  if (history.showdown.length > 0) {
+    lines.push('*** SHOW DOWN ***')
+    for (const shown of history.showdown) {
+      lines.push(`${name(shown.agentId)}: shows ${cardList(shown.holeCards)} (${shown.handDescription})`)
+    }
+  }
+  awards.forEach((award, index) => {
+    for (const winner of award.winners) {
+      lines.push(`${name(winner.playerId)} collected ${winner.amount} from ${potName(index, awards.length)}`)
+    }
+  })
+
+  // Summary
+  const total = awards.reduce((sum, award) => sum + award.amount, 0)
+  const breakdown = awards.length > 1
+    ? ` ${awards.map((award, i) => `${i === 0 ? 'Main pot' : `Side pot-${i}`} ${award.amount}.`).join(' ')}`
+    : ''
+  lines.push('*** SUMMARY ***')
+  lines.push(`Total pot ${total}${breakdown} | Rake 0`)
+  if (history.board.length > 0) lines.push(`Board ${cardList(history.board)}`)
+
+  for (const seat of history.seats) {
+    const label = `Seat ${seat.seat + 1}: ${seat.name}${(roles[seat.agentId] ?? []).map(r => ` (${r})`).join('')}`
+    const won = history.winnings[seat.agentId] ?? 0
+    const shown = history.showdown.find(s => s.agentId === seat.agentId)
+    const folded = foldedOn[seat.agentId]
+
+    if (folded) {
+      lines.push(`${label} folded ${folded === 'preflop' ? 'before Flop' : `on the ${STREET_NAMES[folded]}`}`)
+    } else if (shown) {
+      lines.push(`${label} showed ${cardList(shown.holeCards)} and ${won > 0 ? `won (${won})` : 'lost'} with ${shown.handDescription}`)
+    } else {
+      lines.push(`${label} collected (${won})`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * One voluntary action line, updating the chips committed this street
+ */
+function formatAction(
+  action: HandHistoryAction,
+  who: string,
+  committed: number,
+  tableBet: number,
+  put: (agentId: string, chips: number) => void,
+  allIn: (agentId: string) => string
+): string {
+  const amount = action.amount ?? 0
+
+  switch (action.type) {
+    case 'fold':
+      return `${who}: folds`
+    case 'check':
+      return `${who}: checks`
+    case 'call':
+      put(action.agentId, amount)
+      return `${who}: calls ${amount}${allIn(action.agentId)}`
+    case 'raise':
+    case 'all_in': {
+      put(action.agentId, amount - committed)
+      if (amount <= tableBet) return `${who}: calls ${amount - committed}${allIn(action.agentId)}`
+      if (tableBet === 0) return `${who}: bets ${amount}${allIn(action.agentId)}`
+      return `${who}: raises ${amount - tableBet} to ${amount}${allIn(action.agentId)}`
+    }
+    default:
+      return `${who}: ${action.type}`
+  }
+}
+
+/**
+ * Render several hands as one PokerStars file (hands separated by blank lines)
+ */
+export function formatPokerStarsHands(histories: HandHistory[], options: PokerStarsOptions = {}): string {
+  return histories.map(history => formatPokerStarsHand(history, options)).join('\n\n\n') + '\n'
+}
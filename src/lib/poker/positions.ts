@@ -0,0 +1,78 @@
+/**
+ * Table Positions
+ * Position labels and categories generated from the number of seats dealt in
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - getNextDealerSeat (shared by the orchestrator and the simulator)
+ * Updated: Oct 19, 2026 - Labels skip a dead small blind's seat
+ * Purpose: Tables run anywhere from heads-up to 9-handed, so positions are
+ *          derived from each player's offset from the button instead of a
+ *          fixed four-seat map. Heads-up the button is also the small blind.
+ */
+
+import type { DecisionContext } from '@/types/agents'
+
+export const MIN_PLAYERS = 2
+export const MAX_PLAYERS = 9
+
+export type TablePosition = DecisionContext['position']
+
+// Seats between the big blind and the button, named from the button backwards
+const LATE_LABELS = ['LJ', 'HJ', 'CO']
+
+/**
+ * Position labels in seat order starting at the button
+ * e.g. 6-max: BTN, SB, BB, UTG, HJ, CO
+ */
+export function getPositionLabels(playerCount: number): string[] {
+  if (playerCount < MIN_PLAYERS) return playerCount === 1 ? ['BTN'] : []
+  if (playerCount === 2) return ['BTN/SB', 'BB']
+
+  const middleCount = playerCount - 3
+  const lateCount = Math.min(LATE_LABELS.length, Math.max(0, middleCount - 1))
+  const earlyCount = middleCount - lateCount
+  const early = Array.from({ length: earlyCount }, (_, i) => (i === 0 ? 'UTG' : `UTG+${i}`))
+  const late = LATE_LABELS.slice(LATE_LABELS.length - lateCount)
+
+  return ['BTN', 'SB', 'BB', ...early, ...late]
+}
+
+/**
+ * Label for the player `offset` seats clockwise from the button
+ * A dead small blind keeps its place, so the players after it are labelled
+ * as if it were dealt in (the big blind stays BB)
+ */
+export function getPositionLabel(offset: number, playerCount: number, deadSmallBlind = false): string {
+  const seat = ((offset % playerCount) + playerCount) % playerCount
+  if (deadSmallBlind && playerCount > 2) {
+    return getPositionLabels(playerCount + 1)[seat === 0 ? 0 : seat + 1] ?? ''
+  }
+  return getPositionLabels(playerCount)[seat] ?? ''
+}
+
+/**
+ * Broad position category (used in agent prompts) for the player `offset`
+ * seats clockwise from the button
+ */
+export function getTablePosition(offset: number, playerCount: number, deadSmallBlind = false): TablePosition {
+  const label = getPositionLabel(offset, playerCount, deadSmallBlind)
+  if (label === 'BTN' || label === 'BTN/SB') return 'button'
+  if (label === 'SB') return 'small_blind'
+  if (label === 'BB') return 'big_blind'
+  if (label === 'CO') return 'late'
+  if (label === 'LJ' || label === 'HJ') return 'middle'
+  return 'early'
+}
+
+/**
+ * Seat of the next dealer: the first active seat after the last dealer's seat,
+ * wrapping around (the first active seat deals the first hand)
+ *
+ * @param activeSeats - Seat numbers of players with chips
+ * @param lastDealerSeat - Dealer seat of the previous hand, if any
+ */
+export function getNextDealerSeat(activeSeats: number[], lastDealerSeat?: number | null): number {
+  const seats = [...activeSeats].sort((a, b) => a - b)
+  if (lastDealerSeat === undefined || lastDealerSeat === null) return seats[0]
+  return seats.find(seat => seat > lastDealerSeat) ?? seats[0]
+}
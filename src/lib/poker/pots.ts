@@ -0,0 +1,141 @@
+/**
+ * Poker Pot Engine
+ * Build main/side pots from contributions and award them at showdown
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Showdowns follow the game variant (Omaha uses exactly two hole cards)
+ * Updated: Oct 19, 2026 - Antes are dead money in the main pot (contribution.dead)
+ * Purpose: One place for pot math. Handles any number of all-in layers,
+ *          dead money from folded players, split pots between tied hands,
+ *          and deterministic odd-chip assignment (first winner left of the dealer).
+ */
+
+import { CardNotation, GameVariant, Pot, PotAward } from '@/types/poker'
+import { determineWinners } from './hand-evaluator'
+
+export interface PotContribution {
+  playerId: string
+  amount: number // Total put in over the whole hand
+  dead?: number // Part of amount posted as an ante - main pot money that sets no pot level
+  isFolded: boolean
+}
+
+/**
+ * Split contributions into pots
+ * Each distinct live (non-folded) contribution level closes a pot; folded
+ * players' chips count toward the pots they reached but they can't win them.
+ * Dead money above the largest live contribution goes to the last pot.
+ * Antes go to the main pot, which every live player can win.
+ */
+export function calculatePots(allContributions: PotContribution[]): Pot[] {
+  const contributions = allContributions.map(c => ({ ...c, amount: c.amount - (c.dead ?? 0) }))
+  const levels = [...new Set(
+    contributions.filter(c => !c.isFolded).map(c => c.amount)
+  )].sort((a, b) => a - b)
+
+  const pots: Pot[] = []
+  let previousLevel = 0
+
+  for (const level of levels) {
+    const amount = contributions.reduce(
+      (sum, c) => sum + Math.max(0, Math.min(c.amount, level) - previousLevel), 0
+    )
+    if (amount > 0) {
+      pots.push({
+        amount,
+        eligiblePlayerIds: contributions
+          .filter(c => !c.isFolded && c.amount >= level)
+          .map(c => c.playerId),
+      })
+    }
+    previousLevel = level
+  }
+
+  const deadMoney = contributions.reduce(
+    (sum, c) => sum + Math.max(0, c.amount - previousLevel), 0
+  )
+  if (deadMoney > 0 && pots.length > 0) {
+    pots[pots.length - 1].amount += deadMoney
+  }
+
+  const antes = allContributions.reduce((sum, c) => sum + (c.dead ?? 0), 0)
+  if (antes > 0) {
+    const live = contributions.filter(c => !c.isFolded).map(c => c.playerId)
+    if (pots.length > 0 && pots[0].eligiblePlayerIds.length === live.length) {
+      pots[0].amount += antes
+    } else {
+      // A player all-in on the ante alone only contends for the antes
+      pots.unshift({ amount: antes, eligiblePlayerIds: live })
+    }
+  }
+
+  return pots
+}
+
+/**
+ * Player ids in odd-chip priority: clockwise starting left of the dealer
+ *
+ * @param players - Players in seat order
+ * @param dealerIndex - Index of the dealer within `players`
+ */
+export function getOddChipOrder(players: { playerId: string }[], dealerIndex: number): string[] {
+  return players.map((_, i) => players[(dealerIndex + 1 + i) % players.length].playerId)
+}
+
+/**
+ * Award each pot to the best eligible hand(s)
+ * Ties split evenly; leftover chips go one at a time to the tied winners in
+ * `oddChipOrder`. A pot with a single eligible player is awarded uncontested
+ * (no hand evaluation, so the board may be incomplete).
+ */
+export function awardPots(
+  pots: Pot[],
+  hands: { playerId: string; holeCards: CardNotation[] }[],
+  communityCards: CardNotation[],
+  oddChipOrder: string[],
+  variant: GameVariant = 'holdem'
+): PotAward[] {
+  const priority = (playerId: string) => {
+    const index = oddChipOrder.indexOf(playerId)
+    return index === -1 ? oddChipOrder.length : index
+  }
+
+  return pots.map(pot => {
+    const contenders = hands.filter(h => pot.eligiblePlayerIds.includes(h.playerId))
+
+    if (contenders.length <= 1) {
+      return {
+        ...pot,
+        winners: contenders.map(c => ({ playerId: c.playerId, amount: pot.amount })),
+        winningHand: null,
+      }
+    }
+
+    const potWinners = determineWinners(contenders, communityCards, variant)
+      .sort((a, b) => priority(a.playerId) - priority(b.playerId))
+    const share = Math.floor(pot.amount / potWinners.length)
+    const remainder = pot.amount % potWinners.length
+
+    return {
+      ...pot,
+      winners: potWinners.map((w, i) => ({
+        playerId: w.playerId,
+        amount: share + (i < remainder ? 1 : 0),
+      })),
+      winningHand: potWinners[0].hand.description,
+    }
+  })
+}
+
+/**
+ * Total chips won per player across all pot awards
+ */
+export function sumPotAwards(awards: PotAward[]): Record<string, number> {
+  const totals: Record<string, number> = {}
+  for (const award of awards) {
+    for (const winner of award.winners) {
+      totals[winner.playerId] = (totals[winner.playerId] || 0) + winner.amount
+    }
+  }
+  return totals
+}
@@ -0,0 +1,153 @@
+/**
+ * Hand Replay
+ * Rebuilds a hand history (./hand-history) into a frame per step of the hand
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - checkResult option, so verifiers can report how a replay diverged
+ * Updated: Oct 19, 2026 - Action events carry the action the engine applied (normalizeAction),
+ *                        so verifiers can spot recorded actions that weren't legal as recorded
+ * Purpose: The replay viewer steps through finished hands action by action.
+ *          Frames come from running the recorded actions back through the
+ *          engine, so every table state (stacks, bets, pot, board) is one the
+ *          engine actually produced. Finished games reveal their salt, so the
+ *          real deck can be used; otherwise the deck is rebuilt from the
+ *          recorded hole cards and board.
+ */
+
+import type { CardNotation, GameState, PlayerAction, Round } from '@/types/poker'
+import type { HandHistory, RecordedAction } from './hand-history'
+import { createDeck } from './deck'
+import { getNextStep, initializeHand, reduceHand } from './game-engine'
+import { getDealerIndex } from './seats'
+
+export type ReplayEvent =
+  | { type: 'start' }
+  | { type: 'action'; agentId: string; action: PlayerAction; applied: PlayerAction; fallbackReason?: string }
+  | { type: 'deal'; round: Round; cards: CardNotation[] }
+  | { type: 'showdown' }
+
+export interface ReplayFrame {
+  state: GameState
+  event: ReplayEvent
+  lastActions: Record<string, RecordedAction> // Latest action per agent so far, blinds included
+}
+
+/**
+ * A deck that deals the recorded cards: hole cards in seat order, then a burn
+ * before each street, then every unused card
+ */
+function rebuildDeck(history: HandHistory): CardNotation[] {
+  const known = new Set([...history.seats.flatMap(s => s.holeCards), ...history.board])
+  const spare = createDeck().filter(card => !known.has(card))
+  const burn = () => spare.shift()!
+
+  const deck = history.seats.flatMap(s => s.holeCards)
+  const [flop, turn, river] = [history.board.slice(0, 3), history.board.slice(3, 4), history.board.slice(4, 5)]
+  for (const street of [flop, turn, river]) {
+    if (street.length === 0) break
+    deck.push(burn(), ...street)
+  }
+  return [...deck, ...spare]
+}
+
+export interface ReplayOptions {
+  checkResult?: boolean // Throw if the replay ends on a different board or stacks (default true)
+}
+
+/**
+ * Every step of a hand as table states, from the deal to the showdown
+ *
+ * @param deck - The hand's revealed deck (getDeckForHand); rebuilt from the
+ *               recorded cards when omitted
+ * @throws If the recorded actions, deck or result don't fit together
+ */
+export function buildReplay(
+  history: HandHistory,
+  deck?: CardNotation[],
+  { checkResult = true }: ReplayOptions = {}
+): ReplayFrame[] {
+  const dealerIndex = getDealerIndex(history.seats.map(s => s.seat), history.buttonSeat)
+  let state = initializeHand(
+    history.handId,
+    history.seats.map(s => ({ id: s.agentId, name: s.name, chipCount: s.startingChips, seatPosition: s.seat })),
+    dealerIndex,
+    {
+      smallBlind: history.smallBlind,
+      bigBlind: history.bigBlind,
+      startingChips: 0,
+      bettingWindowSeconds: 0,
+      ante: history.ante,
+      anteType: history.anteType,
+      bettingStructure: history.bettingStructure,
+      variant: history.variant,
+    },
+    deck ?? rebuildDeck(history),
+    { buttonSeat: history.buttonSeat, deadSmallBlind: history.deadSmallBlind }
+  )
+
+  if (state.players.some((p, i) => p.holeCards.join() !== history.seats[i].holeCards.join())) {
+    throw new Error(`Deck does not match the hole cards of hand ${history.handNumber}`)
+  }
+
+  const recorded: RecordedAction[] = history.streets.flatMap(street =>
+    street.actions.map(action => ({ ...action, round: street.round }))
+  )
+  const lastActions: Record<string, RecordedAction> = {}
+  for (const blind of recorded.filter(a => a.type === 'blind')) {
+    lastActions[blind.agentId] = blind
+  }
+
+  const frames: ReplayFrame[] = [{ state, event: { type: 'start' }, lastActions: { ...lastActions } }]
+  const push = (next: GameState, event: ReplayEvent) => {
+    state = next
+    frames.push({ state, event, lastActions: { ...lastActions } })
+  }
+  const dealPendingStreets = () => {
+    while (getNextStep(state) === 'deal') {
+      const { newState } = reduceHand(state, { type: 'DEAL_NEXT_STREET' })
+      push(newState, {
+        type: 'deal',
+        round: newState.round,
+        cards: newState.communityCards.slice(state.communityCards.length),
+      })
+    }
+  }
+
+  for (const action of recorded.filter(a => a.type !== 'blind')) {
+    dealPendingStreets()
+    const actor = state.players[state.activePlayerIndex]
+    if (getNextStep(state) !== 'action' || actor.agentId !== action.agentId) {
+      throw new Error(`Hand ${history.handNumber}: ${action.agentId} is not due to act`)
+    }
+
+    const playerAction: PlayerAction = {
+      type: action.type as PlayerAction['type'],
+      amount: action.amount,
+      reasoning: action.reasoning,
+    }
+    lastActions[action.agentId] = action
+    const { newState, events } = reduceHand(state, { type: 'PLAYER_ACTION', action: playerAction })
+    const applied = events.find(e => e.type === 'PLAYER_ACTION')
+    push(newState, {
+      type: 'action',
+      agentId: action.agentId,
+      action: playerAction,
+      applied: applied?.type === 'PLAYER_ACTION' ? applied.action : playerAction,
+      fallbackReason: action.fallbackReason,
+    })
+  }
+
+  dealPendingStreets()
+  if (getNextStep(state) === 'showdown') {
+    push(reduceHand(state, { type: 'SHOWDOWN' }).newState, { type: 'showdown' })
+  }
+
+  const diverged = checkResult && (!state.isComplete ||
+    state.communityCards.join() !== history.board.join() ||
+    state.players.some(p => p.chipCount !== history.endingChips[p.agentId]))
+  if (diverged) {
+    throw new Error(`Replay of hand ${history.handNumber} does not match its recorded result`)
+  }
+
+  return frames
+}
@@ -0,0 +1,105 @@
+/**
+ * Seat Manager
+ * Button and blind seats from hand to hand as players are eliminated
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Seats are fixed and busted players leave gaps. Under the dead-button
+ *          rule (the default, as in tournaments) the big blind moves on to the
+ *          next active player every hand, the small blind goes to the previous
+ *          big blind's seat and the button to the previous small blind's seat,
+ *          even when those seats are now empty. Nobody skips the big blind or
+ *          posts it twice in a row, at the cost of an occasional dead small
+ *          blind or dead button. The moving-button rule passes the button to
+ *          the next active player and posts the blinds behind it. Heads-up the
+ *          button always posts the small blind.
+ */
+
+import { getNextDealerSeat, MIN_PLAYERS } from './positions'
+import type { HandButton } from './game-engine'
+
+export type ButtonRule = 'dead_button' | 'moving_button'
+
+export const DEFAULT_BUTTON_RULE: ButtonRule = 'dead_button'
+
+// Button and blind seats of a hand (seat numbers, not player indices)
+export interface ButtonPositions {
+  buttonSeat: number // An empty seat under a dead button
+  smallBlindSeat: number // An empty seat under a dead small blind
+  bigBlindSeat: number
+}
+
+// The previous hand's seats - hands recorded before blind seats were stored only know the button
+export interface PreviousButton {
+  buttonSeat: number
+  smallBlindSeat?: number | null
+  bigBlindSeat?: number | null
+}
+
+/**
+ * First seat after `after` in ascending `seats`, wrapping around
+ */
+function getSeatAfter(seats: number[], after: number): number {
+  return seats.find(seat => seat > after) ?? seats[0]
+}
+
+/**
+ * Button and blind seats for the next hand
+ * Without the previous hand's blind seats, the button just moves on
+ *
+ * @param activeSeats - Seat numbers of players with chips
+ * @param previous - The previous hand's seats, if any
+ */
+export function getNextButtonPositions(
+  activeSeats: number[],
+  previous?: PreviousButton | null,
+  rule: ButtonRule = DEFAULT_BUTTON_RULE
+): ButtonPositions {
+  if (activeSeats.length < MIN_PLAYERS) {
+    throw new Error(`A hand needs at least ${MIN_PLAYERS} active seats, got ${activeSeats.length}`)
+  }
+  const seats = [...activeSeats].sort((a, b) => a - b)
+  const headsUp = seats.length === 2
+
+  if (rule === 'moving_button' || previous?.smallBlindSeat == null || previous.bigBlindSeat == null) {
+    const buttonSeat = getNextDealerSeat(seats, previous?.buttonSeat)
+    const smallBlindSeat = headsUp ? buttonSeat : getSeatAfter(seats, buttonSeat)
+    return { buttonSeat, smallBlindSeat, bigBlindSeat: getSeatAfter(seats, smallBlindSeat) }
+  }
+
+  // The big blind always moves on to the next active player
+  const bigBlindSeat = getSeatAfter(seats, previous.bigBlindSeat)
+  if (headsUp) {
+    const buttonSeat = seats.find(seat => seat !== bigBlindSeat)!
+    return { buttonSeat, smallBlindSeat: buttonSeat, bigBlindSeat }
+  }
+  return { buttonSeat: previous.smallBlindSeat, smallBlindSeat: previous.bigBlindSeat, bigBlindSeat }
+}
+
+/**
+ * Index of the player on the button, or the closest one before it when the
+ * button is dead - they act last after the flop
+ *
+ * @param seats - Seats of the players dealt in, ascending (the engine's player order)
+ */
+export function getDealerIndex(seats: number[], buttonSeat: number): number {
+  const index = seats.findLastIndex(seat => seat <= buttonSeat)
+  return index === -1 ? seats.length - 1 : index
+}
+
+/**
+ * Dealer index and button for initializeHand
+ *
+ * @param seats - Seats of the players dealt in, ascending (the engine's player order)
+ */
+export function getHandSeating(
+  seats: number[],
+  positions: ButtonPositions
+): { dealerIndex: number; button: HandButton } {
+  return {
+    dealerIndex: getDealerIndex(seats, positions.buttonSeat),
+    button: {
+      buttonSeat: positions.buttonSeat,
+      deadSmallBlind: !seats.includes(positions.smallBlindSeat),
+    },
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Game Variants
+ * Texas Hold'em and Omaha rules that differ between the two
+ *
+ * Created: Oct 19, 2026
+ * Purpose: A lobby picks its variant and each game keeps the one it was
+ *          created with. Omaha deals four hole cards and a hand must use
+ *          exactly two of them with three board cards (hand-evaluator); it is
+ *          played pot-limit unless the game says otherwise.
+ */
+
+import type { BettingStructure, GameVariant } from '@/types/poker'
+
+export const GAME_VARIANTS: GameVariant[] = ['holdem', 'omaha']
+
+export const GAME_VARIANT_LABELS: Record<GameVariant, string> = {
+  holdem: "Texas Hold'em",
+  omaha: 'Omaha',
+}
+
+export const HOLE_CARD_COUNT: Record<GameVariant, number> = {
+  holdem: 2,
+  omaha: 4,
+}
+
+// Betting structure for games that don't ask for one
+export const DEFAULT_BETTING_STRUCTURE: Record<GameVariant, BettingStructure> = {
+  holdem: { limit: 'no_limit' },
+  omaha: { limit: 'pot_limit' },
+}
+
+export function isGameVariant(value: unknown): value is GameVariant {
+  return GAME_VARIANTS.includes(value as GameVariant)
+}
+
+/**
+ * Variant from a stored/requested value
+ * Anything missing or unrecognised plays Hold'em
+ */
+export function parseGameVariant(value: unknown): GameVariant {
+  return isGameVariant(value) ? value : 'holdem'
+}
@@ -4,20 +4,48 @@
  * Implements cryptographic verification for fair game outcomes.
  * 
  * Created: January 20, 2026
+ * Updated: Oct 19, 2026 - Versioned shuffles: HMAC-SHA256 counter-mode stream (v2), mulberry32 kept for v1 games
+ * Updated: Oct 19, 2026 - Hand seeds mix in public entropy fixed after the commitment (games.public_entropy)
+ * Updated: Oct 19, 2026 - Action log entries form a SHA-256 hash chain; each hand publishes its
+ *                         running digest (hands.action_log_digest)
+ * Updated: Oct 19, 2026 - verifyEntropyTiming: the entropy block must come after the block the
+ *                         chain was at once the commitment was stored
+ * Updated: Oct 19, 2026 - verifyEntropyBlockHash: the public entropy must be the chain's hash of
+ *                         the entropy block; documented what still rests on trusting the server
  * 
  * Flow:
  * 1. Before game: Generate random master salt → compute commitment = hash(salt)
- * 2. Publish commitment hash (players can see it before betting)
- * 3. During game: Each hand's deck = seededShuffle(salt + hand_number)
- * 4. After game: Reveal salt, anyone can recompute all shuffles and verify
+ * 2. Publish commitment hash (players can see it before betting) and record the
+ *    chain head at that point (games.commitment_block)
+ * 3. Public entropy is fixed after the commitment (the block hash of the
+ *    on-chain game creation, a later block) and stored with the game
+ * 4. During game: Each hand's deck = seededShuffle(salt + public entropy + hand_number),
+ *    using the game's shuffle version
+ * 5. After game: Reveal salt, anyone can recompute all shuffles and verify
+ * 
+ * Actions are appended to a hash chain (each entry hashes the previous one),
+ * and the chain head after every action is published on the hand row. A log
+ * rewritten after the fact no longer chains, or no longer ends each hand on
+ * the digest spectators saw.
  * 
  * Security: SHA-256 hash is computationally infeasible to reverse.
- * The master salt determines all shuffles deterministically.
+ * The master salt and public entropy determine all shuffles deterministically.
+ * The salt is committed before the entropy exists, so the server can't grind
+ * salts for a favourable deck. Games without public entropy (no on-chain game,
+ * or created before it was added) are seeded from the salt alone.
+ *
+ * Trust assumption: the public entropy can be checked against the chain
+ * (verifyEntropyBlockHash), but the commitment and commitment_block are only
+ * published by our server (games.deck_commitment, the public API and realtime
+ * feed) - nothing anchors them on-chain before the creation tx is mined. A
+ * server that withheld the commitment until after the entropy block and
+ * recorded an earlier commitment_block could still grind salts; only someone
+ * who saw the commitment before the entropy block was mined can rule that out.
  */
 
 import { createHash, randomBytes } from 'crypto';
 import type { CardNotation } from '@/types/poker';
-import { createSeededDeck } from './deck';
+import { createDeck, shuffleDeckHmac, shuffleDeckSeeded } from './deck';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -41,6 +69,28 @@ export interface VerificationResult {
   error?: string;
 }
 
+export interface EntropyBlockResult {
+  /** Whether the public entropy is the chain's hash of the entropy block */
+  valid: boolean;
+  /** Block whose hash is the public entropy */
+  entropyBlock: number | null;
+  /** The block's hash according to the chain */
+  chainBlockHash: string | null;
+  /** Error message if invalid */
+  error?: string;
+}
+
+export interface EntropyTimingResult {
+  /** Whether the entropy block was mined after the commitment was stored */
+  valid: boolean;
+  /** Chain head once the commitment was stored */
+  commitmentBlock: number | null;
+  /** Block whose hash is the public entropy */
+  entropyBlock: number | null;
+  /** Error message if invalid */
+  error?: string;
+}
+
 export interface ActionLogEntry {
   /** Hand number (1-25) */
   hand: number;
@@ -54,6 +104,50 @@ export interface ActionLogEntry {
   round: string;
   /** ISO8601 timestamp */
   timestamp: string;
+  /** Hash of the previous entry (ACTION_LOG_GENESIS_HASH for the first); absent on pre-chain logs */
+  prevHash?: string;
+  /** computeActionLogHash of this entry; absent on pre-chain logs */
+  hash?: string;
+}
+
+export interface ActionLogDivergence {
+  /** Index of the first entry that doesn't verify */
+  index: number;
+  /** The entry itself (absent when the log is missing a hand's actions) */
+  entry?: ActionLogEntry;
+  error: string;
+}
+
+export interface ActionLogVerification {
+  /** Whether the whole chain and every published hand digest check out */
+  valid: boolean;
+  /** Entries verified before the first divergence */
+  entriesVerified: number;
+  entriesTotal: number;
+  firstDivergence?: ActionLogDivergence;
+}
+
+/**
+ * Shuffle algorithm a game's decks were dealt with (games.shuffle_version).
+ * 1: mulberry32 seeded from 32 bits of SHA-256(seed) - games before versioning
+ * 2: Fisher-Yates over an HMAC-SHA256 counter-mode stream with rejection sampling
+ */
+export type ShuffleVersion = 1 | 2;
+
+export const LEGACY_SHUFFLE_VERSION: ShuffleVersion = 1;
+export const CURRENT_SHUFFLE_VERSION: ShuffleVersion = 2;
+
+const SHUFFLES: Record<ShuffleVersion, (deck: CardNotation[], seed: string) => CardNotation[]> = {
+  1: shuffleDeckSeeded,
+  2: shuffleDeckHmac,
+};
+
+/**
+ * Shuffle version from a stored value.
+ * Games without one predate versioning and use the legacy shuffle.
+ */
+export function parseShuffleVersion(value: unknown): ShuffleVersion {
+  return value === 2 ? 2 : LEGACY_SHUFFLE_VERSION;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -77,19 +171,31 @@ export function computeCommitmentHash(salt: string): string {
 
 /**
  * Generate the seed for a specific hand's shuffle.
- * Combines master salt with hand number for deterministic shuffle.
+ * Combines master salt, public entropy (if the game has any) and hand number
+ * for deterministic shuffle.
  */
-export function getHandSeed(masterSalt: string, handNumber: number): string {
-  return `${masterSalt}:hand:${handNumber}`;
+export function getHandSeed(
+  masterSalt: string,
+  handNumber: number,
+  publicEntropy?: string | null
+): string {
+  if (!publicEntropy) return `${masterSalt}:hand:${handNumber}`;
+  return `${masterSalt}:${publicEntropy}:hand:${handNumber}`;
 }
 
 /**
  * Get the deterministic deck for a specific hand.
- * Given the same salt and hand number, always produces the same shuffle.
+ * Given the same salt, public entropy, hand number and shuffle version, always
+ * produces the same shuffle.
  */
-export function getDeckForHand(masterSalt: string, handNumber: number): CardNotation[] {
-  const seed = getHandSeed(masterSalt, handNumber);
-  return createSeededDeck(seed);
+export function getDeckForHand(
+  masterSalt: string,
+  handNumber: number,
+  version: ShuffleVersion,
+  publicEntropy?: string | null
+): CardNotation[] {
+  const seed = getHandSeed(masterSalt, handNumber, publicEntropy);
+  return SHUFFLES[version](createDeck(), seed);
 }
 
 /**
@@ -161,6 +267,67 @@ export function verifyGameCommitment(
   };
 }
 
+/**
+ * Verify that the public entropy was fixed after the commitment.
+ * The chain head is read only once the commitment is stored, so any later
+ * block has a hash that couldn't be known when the salt was committed to.
+ */
+export function verifyEntropyTiming(
+  commitmentBlock: number | null | undefined,
+  entropyBlock: number | null | undefined
+): EntropyTimingResult {
+  const result = { commitmentBlock: commitmentBlock ?? null, entropyBlock: entropyBlock ?? null };
+
+  if (result.commitmentBlock === null || result.entropyBlock === null) {
+    return {
+      valid: false,
+      ...result,
+      error: 'No record of the block the commitment was stored at, or of the entropy block',
+    };
+  }
+
+  if (result.entropyBlock <= result.commitmentBlock) {
+    return {
+      valid: false,
+      ...result,
+      error: `Entropy block ${result.entropyBlock} is not after block ${result.commitmentBlock}, when the commitment was stored`,
+    };
+  }
+
+  return { valid: true, ...result };
+}
+
+/**
+ * Verify that the public entropy is the hash of the entropy block on-chain.
+ * The block hash comes from the caller (an RPC node of the game's chain), so
+ * a stored entropy that no block produced is caught.
+ *
+ * @param chainBlockHash - Hash of block `entropyBlock` as reported by the chain (null if it couldn't be fetched)
+ */
+export function verifyEntropyBlockHash(
+  publicEntropy: string,
+  entropyBlock: number | null | undefined,
+  chainBlockHash: string | null
+): EntropyBlockResult {
+  const result = { entropyBlock: entropyBlock ?? null, chainBlockHash };
+
+  if (result.entropyBlock === null) {
+    return { valid: false, ...result, error: 'No record of the entropy block' };
+  }
+  if (!chainBlockHash) {
+    return { valid: false, ...result, error: `Could not fetch block ${result.entropyBlock} from the chain` };
+  }
+  if (chainBlockHash.toLowerCase() !== publicEntropy.toLowerCase()) {
+    return {
+      valid: false,
+      ...result,
+      error: `Public entropy is not the hash of block ${result.entropyBlock} (${chainBlockHash})`,
+    };
+  }
+
+  return { valid: true, ...result };
+}
+
 /**
  * Verify that cards dealt in a hand match the expected deck.
  * 
@@ -168,22 +335,26 @@ export function verifyGameCommitment(
  * @param handNumber - The hand number (1-25)
  * @param holeCards - 2D array of hole cards [player0: [card1, card2], ...]
  * @param communityCards - Array of community cards [flop1, flop2, flop3, turn, river]
+ * @param version - The game's shuffle version
+ * @param publicEntropy - The game's public entropy, if it has any
  * @returns Whether all dealt cards match the seeded deck
  */
 export function verifyHandCards(
   salt: string,
   handNumber: number,
   holeCards: CardNotation[][],
-  communityCards: CardNotation[]
+  communityCards: CardNotation[],
+  version: ShuffleVersion,
+  publicEntropy?: string | null
 ): { valid: boolean; error?: string; expectedDeck?: CardNotation[] } {
   // Get the deterministic deck for this hand
-  const expectedDeck = getDeckForHand(salt, handNumber);
+  const expectedDeck = getDeckForHand(salt, handNumber, version, publicEntropy);
   
   // Reconstruct dealt cards in order
-  // In Texas Hold'em: deal 2 cards to each player, then burn + 3 flop, burn + turn, burn + river
+  // Deal each player's hole cards (2 in Hold'em, 4 in Omaha), then burn + 3 flop, burn + turn, burn + river
   const dealtCards: CardNotation[] = [];
   
-  // Hole cards (2 per player)
+  // Hole cards (2 per player in Hold'em, 4 in Omaha)
   for (const playerCards of holeCards) {
     dealtCards.push(...playerCards);
   }
@@ -268,6 +439,87 @@ export function createActionLogEntry(
   };
 }
 
+/** Previous hash of the first entry in a game's action log */
+export const ACTION_LOG_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash of an action log entry.
+ * SHA-256 (hex) of the JSON array [prevHash, hand, agent, action, amount, round, timestamp],
+ * with a missing amount as null.
+ */
+export function computeActionLogHash(entry: ActionLogEntry, prevHash: string): string {
+  const fields = [prevHash, entry.hand, entry.agent, entry.action, entry.amount ?? null, entry.round, entry.timestamp];
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/**
+ * Link an entry onto the end of a log.
+ * The returned entry's hash is the log's new running digest.
+ */
+export function chainActionLogEntry(log: ActionLogEntry[], entry: ActionLogEntry): ActionLogEntry {
+  const prevHash = log.length > 0 ? log[log.length - 1].hash ?? ACTION_LOG_GENESIS_HASH : ACTION_LOG_GENESIS_HASH;
+  return { ...entry, prevHash, hash: computeActionLogHash(entry, prevHash) };
+}
+
+/**
+ * Verify an action log's hash chain end-to-end.
+ * Every entry must link to the one before it and hash correctly, and each
+ * hand's last entry must match the digest published for that hand.
+ *
+ * @param log - The game's action log
+ * @param handDigests - Published digest per hand number (hands.action_log_digest)
+ * @returns The first entry that doesn't verify, if any
+ */
+export function verifyActionLog(
+  log: ActionLogEntry[],
+  handDigests: Record<number, string> = {}
+): ActionLogVerification {
+  const fail = (index: number, error: string): ActionLogVerification => ({
+    valid: false,
+    entriesVerified: index,
+    entriesTotal: log.length,
+    firstDivergence: { index, entry: log[index], error },
+  });
+
+  let prevHash = ACTION_LOG_GENESIS_HASH;
+  let handStart = 0;
+
+  for (let i = 0; i < log.length; i++) {
+    const entry = log[i];
+    if (entry.prevHash !== prevHash) {
+      return fail(i, `Entry ${i} does not link to the previous entry`);
+    }
+    if (entry.hash !== computeActionLogHash(entry, prevHash)) {
+      return fail(i, `Entry ${i} does not match its hash (rewritten after it was logged)`);
+    }
+    prevHash = entry.hash;
+
+    // Last entry of a hand: the chain head must be the digest published for it
+    const handEnds = i === log.length - 1 || log[i + 1].hand !== entry.hand;
+    if (handEnds) {
+      const digest = handDigests[entry.hand];
+      if (digest && digest !== entry.hash) {
+        return fail(handStart, `Hand ${entry.hand} does not end on its published digest`);
+      }
+      handStart = i + 1;
+    }
+  }
+
+  // Published digests for hands with no logged actions
+  const logged = new Set(log.map(entry => entry.hand));
+  const missing = Object.keys(handDigests).map(Number).find(hand => !logged.has(hand));
+  if (missing !== undefined) {
+    return {
+      valid: false,
+      entriesVerified: log.length,
+      entriesTotal: log.length,
+      firstDivergence: { index: log.length, error: `Hand ${missing} has a published digest but no logged actions` },
+    };
+  }
+
+  return { valid: true, entriesVerified: log.length, entriesTotal: log.length };
+}
+
 /**
  * Parse action log from JSONB string.
  */
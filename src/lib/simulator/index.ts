@@ -0,0 +1,25 @@
+/**
+ * Simulator Module Index
+ * Headless games on the poker engine with pluggable agent policies
+ *
+ * Created: Oct 19, 2026
+ */
+
+export {
+  runSimulation,
+  runGame,
+  summarizeGames,
+  getSimulationSalt,
+  type SimulatedAgent,
+  type SimulationOptions,
+  type SimulationResult,
+  type SimulatedGame,
+  type GameStanding,
+  type AgentSummary,
+} from './simulator'
+
+export {
+  botPolicy,
+  modelPolicy,
+  type AgentPolicy,
+} from './policies'
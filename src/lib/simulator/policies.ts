@@ -0,0 +1,38 @@
+/**
+ * Simulator Policies
+ * Pluggable deciders for simulated seats
+ *
+ * Created: Oct 19, 2026
+ * Purpose: The simulator only needs "context in, decision out". A policy can
+ *          be a scripted bot, any registered model (same prompt and validation
+ *          as live games) or a custom function for experiments.
+ */
+
+import type { AgentDecision, DecisionContext } from '@/types/agents'
+import type { GameState } from '@/types/poker'
+import { getAgentDecision } from '@/lib/ai/agent-decision'
+import { getBotDecision, type BotStrategyId } from '@/lib/bots'
+
+export type AgentPolicy = (
+  context: DecisionContext,
+  state: GameState
+) => AgentDecision | Promise<AgentDecision>
+
+/**
+ * Scripted bot policy
+ *
+ * @param seed - Extra seed material so repeated runs of the random bot can differ
+ */
+export function botPolicy(strategyId: BotStrategyId, seed = ''): AgentPolicy {
+  return context => getBotDecision(strategyId, context, seed)
+}
+
+/**
+ * Registered model policy - decides exactly like a live agent
+ *
+ * @param agentSlug - Personality the model plays (see AGENT_PERSONALITIES)
+ * @param modelId - Model registry id (bot:* ids work too)
+ */
+export function modelPolicy(agentSlug: string, modelId?: string | null): AgentPolicy {
+  return context => getAgentDecision(context, agentSlug, modelId)
+}
@@ -0,0 +1,406 @@
+/**
+ * Headless Simulator
+ * Plays complete games in memory on the poker engine - no Supabase, no routes
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Hands are recorded in the shared hand-history schema (lib/poker/hand-history)
+ * Updated: Oct 19, 2026 - Betting structure option (no-limit, pot-limit, fixed-limit)
+ * Updated: Oct 19, 2026 - Variant option (Hold'em, Omaha)
+ * Updated: Oct 19, 2026 - Button and blinds from the seat manager (dead button by default)
+ * Updated: Oct 19, 2026 - Decks use the current shuffle version, recorded on each game
+ * Updated: Oct 19, 2026 - Opponent stats count showdown wins from contested pots only
+ * Purpose: Regression-test rules and benchmark strategies at scale. Each game
+ *          follows the live game loop (button and blinds from the seat manager,
+ *          escalating blinds, seeded decks from getDeckForHand, eliminations,
+ *          max hands) and agents get the same DecisionContext as live agents,
+ *          including opponent stats and per-game memory. Everything is
+ *          deterministic for a given seed and deterministic policies.
+ */
+
+import type { AgentMemory, DecisionContext, OpponentState, RecentAction, StyleCounters } from '@/types/agents'
+import type { ActionType, BettingStructure, BlindStructure, GameState, GameVariant } from '@/types/poker'
+import {
+  applyAction,
+  getBlindIndices,
+  getMinRaiseTotal,
+  getMaxRaiseTotal,
+  getNextStep,
+  getValidActions,
+  initializeHand,
+  reduceHand,
+  type GameConfig,
+} from '@/lib/poker/game-engine'
+import { createBlindStructure, getBlindLevel } from '@/lib/poker/blinds'
+import { NO_LIMIT } from '@/lib/poker/betting'
+import { DEFAULT_BETTING_STRUCTURE } from '@/lib/poker/variants'
+import { getTablePosition, MAX_PLAYERS, MIN_PLAYERS } from '@/lib/poker/positions'
+import { getHandSeating, getNextButtonPositions, type ButtonPositions, type ButtonRule } from '@/lib/poker/seats'
+import {
+  computeCommitmentHash,
+  CURRENT_SHUFFLE_VERSION,
+  getDeckForHand,
+  type ShuffleVersion,
+} from '@/lib/poker/verifiable'
+import { addCounters, countHand, getShowdownWinnerIds, toObservedStyle, EMPTY_COUNTERS, type StatsAction } from '@/lib/poker/opponent-stats'
+import { buildHandHistory, type HandHistory, type RecordedAction } from '@/lib/poker/hand-history'
+import { rememberHand } from '@/lib/ai/memory'
+import type { AgentPolicy } from './policies'
+
+// Same defaults as live games
+const DEFAULT_MAX_HANDS = 25
+const DEFAULT_STARTING_CHIPS = 1000
+
+// Actions of the current hand passed to decisions (the orchestrator reads the last 10)
+const RECENT_ACTIONS_SHOWN = 10
+
+export interface SimulatedAgent {
+  id: string
+  name: string
+  policy: AgentPolicy
+}
+
+export interface SimulationOptions {
+  games?: number // Defaults to 1
+  maxHands?: number // Defaults to 25
+  startingChips?: number // Defaults to 1000
+  seed?: string // Master seed - each game's salt is derived from it
+  blindStructure?: BlindStructure // Defaults to createBlindStructure(maxHands)
+  variant?: GameVariant // Defaults to Hold'em
+  bettingStructure?: BettingStructure // Defaults to the variant's (no-limit Hold'em, pot-limit Omaha)
+  buttonRule?: ButtonRule // Defaults to the dead button, as in live games
+  rotateSeats?: boolean // Shift seat order each game so no agent always deals first (default true)
+  onHand?: (gameNumber: number, hand: HandHistory) => void // Progress callback
+}
+
+export interface GameStanding {
+  agentId: string
+  name: string
+  place: number
+  chips: number
+  bustedOnHand: number | null
+}
+
+export interface SimulatedGame {
+  gameNumber: number
+  salt: string // Deck seed for getDeckForHand
+  commitment: string // computeCommitmentHash(salt), as a live game would publish
+  shuffleVersion: ShuffleVersion // Shuffle the decks were dealt with, as games.shuffle_version
+  handsPlayed: number
+  winnerId: string
+  standings: GameStanding[]
+  hands: HandHistory[]
+}
+
+export interface AgentSummary {
+  agentId: string
+  name: string
+  games: number
+  wins: number
+  busts: number
+  averagePlace: number
+  averageChips: number
+}
+
+export interface SimulationResult {
+  seed: string
+  maxHands: number
+  startingChips: number
+  games: SimulatedGame[]
+  summary: AgentSummary[]
+}
+
+// Per-agent state carried from hand to hand (and counters across games)
+interface Seat {
+  agent: SimulatedAgent
+  seat: number
+  chips: number
+  bustedOnHand: number | null
+}
+
+function getEngineConfig(
+  structure: BlindStructure,
+  bettingStructure: BettingStructure,
+  variant: GameVariant,
+  handNumber: number,
+  startingChips: number
+): GameConfig {
+  const level = getBlindLevel(structure, handNumber)
+  return {
+    smallBlind: level.smallBlind,
+    bigBlind: level.bigBlind,
+    ante: level.ante,
+    anteType: structure.anteType,
+    startingChips,
+    bettingWindowSeconds: 0,
+    bettingStructure,
+    variant,
+  }
+}
+
+/**
+ * Salt for one game of a run (64-char hex, like generateSalt())
+ */
+export function getSimulationSalt(seed: string, gameNumber: number): string {
+  return computeCommitmentHash(`${seed}:game:${gameNumber}`)
+}
+
+/**
+ * Blinds and antes as recorded actions - the live game logs them the same way
+ */
+function getForcedBets(state: GameState): RecordedAction[] {
+  const forced: RecordedAction[] = []
+  for (const player of state.players) {
+    const ante = player.totalContributed - player.currentBet
+    if (ante > 0) forced.push({ round: 'preflop', agentId: player.agentId, type: 'blind', amount: ante })
+  }
+  const { smallBlindIndex, bigBlindIndex } = getBlindIndices(state)
+  const blinds = smallBlindIndex === null ? [bigBlindIndex] : [smallBlindIndex, bigBlindIndex]
+  for (const player of blinds.map(index => state.players[index])) {
+    forced.push({ round: 'preflop', agentId: player.agentId, type: 'blind', amount: player.currentBet })
+  }
+  return forced
+}
+
+/**
+ * Decision context for the player to act, built like the orchestrator builds it
+ */
+function buildContext(
+  state: GameState,
+  actions: RecordedAction[],
+  gameCounters: Record<string, StyleCounters>,
+  lifetimeCounters: Record<string, StyleCounters>,
+  memories: Record<string, AgentMemory>
+): DecisionContext {
+  const actor = state.players[state.activePlayerIndex]
+  const nameOf = (agentId: string) => state.players.find(p => p.agentId === agentId)?.name || 'Unknown'
+
+  return {
+    agentId: actor.agentId,
+    variant: state.variant ?? 'holdem',
+    holeCards: actor.holeCards,
+    chipCount: actor.chipCount,
+    currentBet: actor.currentBet,
+    communityCards: state.communityCards,
+    pot: state.pot,
+    betToCall: state.currentBet - actor.currentBet,
+    minRaise: getMinRaiseTotal(state),
+    maxRaise: getMaxRaiseTotal(state),
+    bettingLimit: (state.bettingStructure ?? NO_LIMIT).limit,
+    validActions: getValidActions(state),
+    round: state.round,
+    position: getTablePosition(state.activePlayerIndex - state.dealerIndex, state.players.length, state.deadSmallBlind),
+    opponents: state.players
+      .filter(p => p.agentId !== actor.agentId)
+      .map((p): OpponentState => ({
+        name: p.name,
+        chipCount: p.chipCount,
+        currentBet: p.currentBet,
+        isFolded: p.isFolded,
+        isAllIn: p.isAllIn,
+        observedStyle: {
+          game: toObservedStyle(gameCounters[p.agentId] ?? EMPTY_COUNTERS),
+          lifetime: toObservedStyle(lifetimeCounters[p.agentId] ?? EMPTY_COUNTERS),
+        },
+      })),
+    recentActions: actions
+      .slice(-RECENT_ACTIONS_SHOWN)
+      .reverse()
+      .map((a): RecentAction => ({
+        agentName: nameOf(a.agentId),
+        action: { type: a.type as ActionType, amount: a.amount },
+        timestamp: new Date().toISOString(),
+      })),
+    memory: memories[actor.agentId],
+  }
+}
+
+/**
+ * Play one hand to completion
+ */
+async function playHand(
+  state: GameState,
+  seats: Seat[],
+  gameCounters: Record<string, StyleCounters>,
+  lifetimeCounters: Record<string, StyleCounters>,
+  memories: Record<string, AgentMemory>
+): Promise<{ state: GameState; actions: RecordedAction[] }> {
+  const actions = getForcedBets(state)
+
+  for (let step = getNextStep(state); step !== 'complete'; step = getNextStep(state)) {
+    if (step === 'deal') {
+      state = reduceHand(state, { type: 'DEAL_NEXT_STREET' }).newState
+      continue
+    }
+    if (step === 'showdown') {
+      state = reduceHand(state, { type: 'SHOWDOWN' }).newState
+      continue
+    }
+
+    const actor = state.players[state.activePlayerIndex]
+    const seat = seats.find(s => s.agent.id === actor.agentId)!
+    const context = buildContext(state, actions, gameCounters, lifetimeCounters, memories)
+    const decision = await seat.agent.policy(context, state)
+
+    const round = state.round
+    const { newState, events } = applyAction(state, decision.action)
+    for (const event of events) {
+      if (event.type !== 'PLAYER_ACTION') continue
+      actions.push({
+        round,
+        agentId: event.agentId,
+        type: event.action.type,
+        amount: event.action.amount,
+        reasoning: decision.internalThoughts,
+        fallbackReason: decision.fallbackReason,
+      })
+    }
+    state = newState
+  }
+
+  return { state, actions }
+}
+
+/**
+ * Play one complete game: until max hands or one player has chips
+ *
+ * @param lifetimeCounters - Opponent-stat counters carried across the run (updated in place)
+ */
+export async function runGame(
+  agents: SimulatedAgent[],
+  gameNumber: number,
+  options: SimulationOptions = {},
+  lifetimeCounters: Record<string, StyleCounters> = {}
+): Promise<SimulatedGame> {
+  if (agents.length < MIN_PLAYERS || agents.length > MAX_PLAYERS) {
+    throw new Error(`A game needs ${MIN_PLAYERS}-${MAX_PLAYERS} agents, got ${agents.length}`)
+  }
+
+  const maxHands = options.maxHands ?? DEFAULT_MAX_HANDS
+  const startingChips = options.startingChips ?? DEFAULT_STARTING_CHIPS
+  const structure = options.blindStructure ?? createBlindStructure(maxHands)
+  const variant = options.variant ?? 'holdem'
+  const bettingStructure = options.bettingStructure ?? DEFAULT_BETTING_STRUCTURE[variant]
+  const salt = getSimulationSalt(options.seed ?? '', gameNumber)
+
+  // Rotate who sits in seat 0 from game to game
+  const shift = options.rotateSeats === false ? 0 : (gameNumber - 1) % agents.length
+  const seats: Seat[] = [...agents.slice(shift), ...agents.slice(0, shift)].map((agent, seat) => ({
+    agent,
+    seat,
+    chips: startingChips,
+    bustedOnHand: null,
+  }))
+
+  const hands: HandHistory[] = []
+  const gameCounters: Record<string, StyleCounters> = {}
+  let memories: Record<string, AgentMemory> = {}
+  let positions: ButtonPositions | null = null
+
+  for (let handNumber = 1; handNumber <= maxHands; handNumber++) {
+    const active = seats.filter(s => s.chips > 0)
+    if (active.length < MIN_PLAYERS) break
+
+    positions = getNextButtonPositions(active.map(s => s.seat), positions, options.buttonRule)
+    const { dealerIndex, button } = getHandSeating(active.map(s => s.seat), positions)
+    const config = getEngineConfig(structure, bettingStructure, variant, handNumber, startingChips)
+    const handId = `game-${gameNumber}-hand-${handNumber}`
+    const initial = initializeHand(
+      handId,
+      active.map(s => ({ id: s.agent.id, name: s.agent.name, chipCount: s.chips, seatPosition: s.seat })),
+      dealerIndex,
+      config,
+      getDeckForHand(salt, handNumber, CURRENT_SHUFFLE_VERSION),
+      button
+    )
+
+    const { state, actions } = await playHand(initial, seats, gameCounters, lifetimeCounters, memories)
+
+    // Opponent stats and memory, exactly as resolveHand records them
+    const statsActions: StatsAction[] = actions.map(a => ({ agentId: a.agentId, type: a.type, round: a.round }))
+    const handCounters = countHand(statsActions, getShowdownWinnerIds(state.potAwards || []))
+    for (const [agentId, counters] of Object.entries(handCounters)) {
+      gameCounters[agentId] = addCounters(gameCounters[agentId] ?? EMPTY_COUNTERS, counters)
+      lifetimeCounters[agentId] = addCounters(lifetimeCounters[agentId] ?? EMPTY_COUNTERS, counters)
+    }
+    memories = rememberHand(memories, handNumber, state, handCounters)
+
+    for (const player of state.players) {
+      const seat = seats.find(s => s.agent.id === player.agentId)!
+      seat.chips = player.chipCount
+      if (seat.chips <= 0) seat.bustedOnHand = handNumber
+    }
+
+    const history = buildHandHistory(state, actions, { handNumber, gameNumber })
+    hands.push(history)
+    options.onHand?.(gameNumber, history)
+  }
+
+  // Chips first; among busted players, whoever lasted longer places higher
+  const standings = [...seats]
+    .sort((a, b) => b.chips - a.chips || (b.bustedOnHand ?? 0) - (a.bustedOnHand ?? 0))
+    .map((s, i): GameStanding => ({
+      agentId: s.agent.id,
+      name: s.agent.name,
+      place: i + 1,
+      chips: s.chips,
+      bustedOnHand: s.bustedOnHand,
+    }))
+
+  return {
+    gameNumber,
+    salt,
+    commitment: computeCommitmentHash(salt),
+    shuffleVersion: CURRENT_SHUFFLE_VERSION,
+    handsPlayed: hands.length,
+    winnerId: standings[0].agentId,
+    standings,
+    hands,
+  }
+}
+
+/**
+ * Per-agent totals over a run
+ */
+export function summarizeGames(agents: SimulatedAgent[], games: SimulatedGame[]): AgentSummary[] {
+  return agents.map(agent => {
+    const standings = games.flatMap(g => g.standings.filter(s => s.agentId === agent.id))
+    const count = standings.length || 1
+    return {
+      agentId: agent.id,
+      name: agent.name,
+      games: standings.length,
+      wins: games.filter(g => g.winnerId === agent.id).length,
+      busts: standings.filter(s => s.bustedOnHand !== null).length,
+      averagePlace: standings.reduce((sum, s) => sum + s.place, 0) / count,
+      averageChips: standings.reduce((sum, s) => sum + s.chips, 0) / count,
+    }
+  })
+}
+
+/**
+ * Run N complete games with the same agents
+ * Opponent lifetime stats carry over from game to game; memory is per game.
+ */
+export async function runSimulation(
+  agents: SimulatedAgent[],
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const ids = new Set(agents.map(a => a.id))
+  if (ids.size !== agents.length) {
+    throw new Error('Agent ids must be unique')
+  }
+
+  const lifetimeCounters: Record<string, StyleCounters> = {}
+  const games: SimulatedGame[] = []
+  for (let gameNumber = 1; gameNumber <= (options.games ?? 1); gameNumber++) {
+    games.push(await runGame(agents, gameNumber, options, lifetimeCounters))
+  }
+
+  return {
+    seed: options.seed ?? '',
+    maxHands: options.maxHands ?? DEFAULT_MAX_HANDS,
+    startingChips: options.startingChips ?? DEFAULT_STARTING_CHIPS,
+    games,
+    summary: summarizeGames(agents, games),
+  }
+}
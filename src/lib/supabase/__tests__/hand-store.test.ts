@@ -0,0 +1,91 @@
+/**
+ * Hand Store Tests
+ * Action log appends against an in-memory games table with SQL filter semantics
+ *
+ * Created: Oct 19, 2026
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createActionLogEntry, verifyActionLog } from '@/lib/poker/verifiable'
+import { appendToActionLog } from '../hand-store'
+
+type Row = Record<string, unknown>
+type SupabaseArg = Parameters<typeof appendToActionLog>[0]
+
+/**
+ * Just enough of the Supabase query builder for appendToActionLog
+ * `eq` never matches NULL, like `=` in SQL; `is(column, null)` does.
+ */
+function createGamesTable(rows: Row[], onQuery?: () => void) {
+  const from = () => {
+    onQuery?.()
+    const filters: ((row: Row) => boolean)[] = []
+    let patch: Row | null = null
+    const matching = () => rows.filter(row => filters.every(f => f(row)))
+
+    const query = {
+      select: () => query,
+      update: (values: Row) => {
+        patch = values
+        return query
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] !== null && row[column] === value)
+        return query
+      },
+      is: (column: string, value: null) => {
+        filters.push(row => row[column] === value)
+        return query
+      },
+      single: async () => ({ data: matching()[0] ?? null }),
+      then: (resolve: (result: { data: Row[] }) => void) => {
+        const matched = matching()
+        if (patch) for (const row of matched) Object.assign(row, patch)
+        resolve({ data: matched.map(row => ({ id: row.id })) })
+      },
+    }
+    return query
+  }
+  return { from } as unknown as SupabaseArg
+}
+
+const entry = (agent: string) => createActionLogEntry(1, agent, 'call', 'preflop', 20)
+
+test('appends to a game whose action_log_version is NULL', async () => {
+  const game: Row = { id: 'game-1', action_log: [], action_log_version: null }
+  const supabase = createGamesTable([game])
+
+  await appendToActionLog(supabase, 'game-1', entry('chamath'))
+  await appendToActionLog(supabase, 'game-1', entry('sacks'))
+
+  assert.equal(game.action_log_version, 2)
+  assert.equal((game.action_log as unknown[]).length, 2)
+  assert.equal(verifyActionLog(game.action_log as never[], {}).valid, true)
+})
+
+test('appends on the stored version and chains each entry onto the last', async () => {
+  const game: Row = { id: 'game-1', action_log: [], action_log_version: 0 }
+  const supabase = createGamesTable([game])
+
+  const first = await appendToActionLog(supabase, 'game-1', entry('chamath'))
+  const second = await appendToActionLog(supabase, 'game-1', entry('sacks'))
+
+  assert.equal(game.action_log_version, 2)
+  assert.equal(second?.prevHash, first?.hash)
+})
+
+test('gives up when the version never matches', async () => {
+  const game: Row = { id: 'game-1', action_log: [], action_log_version: 3 }
+  // Another writer bumps the version between every read and write
+  const supabase = createGamesTable([game], () => {
+    game.action_log_version = (game.action_log_version as number) + 1
+  })
+
+  await assert.rejects(appendToActionLog(supabase, 'game-1', entry('chamath')), /after 5 attempts/)
+  assert.deepEqual(game.action_log, [])
+})
+
+test('does nothing without a game', async () => {
+  assert.equal(await appendToActionLog(createGamesTable([]), null, entry('chamath')), null)
+})
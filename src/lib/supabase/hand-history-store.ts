@@ -0,0 +1,85 @@
+/**
+ * Hand History Store
+ * Rebuilds resolved hands from hands / agent_actions into HandHistory records
+ *
+ * Created: Oct 19, 2026
+ * Purpose: Source for the hand-history export (GET /api/v1/games/:id/hands).
+ *          The final engine state (hands.engine_state) has seats, cards and
+ *          pot awards; agent_actions has the ordered action log. Hands played
+ *          before the engine state was persisted can't be rebuilt and are skipped.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AgentAction, Hand } from '@/types/database'
+import type { GameState } from '@/types/poker'
+import { buildHandHistory, type HandHistory, type RecordedAction } from '@/lib/poker/hand-history'
+
+type HandRow = Pick<Hand, 'id' | 'hand_number' | 'engine_state' | 'created_at'>
+type ActionRow = Pick<AgentAction, 'hand_id' | 'agent_id' | 'action_type' | 'amount' | 'reasoning' | 'fallback_reason' | 'round'>
+
+export interface GameHandHistories {
+  gameId: string
+  gameNumber: number
+  hands: HandHistory[]
+}
+
+function toRecordedAction(row: ActionRow): RecordedAction {
+  return {
+    agentId: row.agent_id,
+    type: row.action_type,
+    amount: row.amount ?? undefined,
+    round: row.round,
+    reasoning: row.reasoning ?? undefined,
+    fallbackReason: row.fallback_reason ?? undefined,
+  }
+}
+
+/**
+ * Hand histories of a game's resolved hands, in hand order
+ * Returns null if the game doesn't exist
+ *
+ * @param handNumber - Only this hand (1-based), if given
+ */
+export async function loadHandHistories(
+  supabase: SupabaseClient,
+  gameId: string,
+  handNumber?: number
+): Promise<GameHandHistories | null> {
+  const { data: game } = await supabase
+    .from('games')
+    .select('id, game_number')
+    .eq('id', gameId)
+    .single()
+  if (!game) return null
+
+  let handsQuery = supabase
+    .from('hands')
+    .select('id, hand_number, engine_state, created_at')
+    .eq('game_id', gameId)
+    .eq('status', 'resolved')
+    .order('hand_number')
+  if (handNumber !== undefined) handsQuery = handsQuery.eq('hand_number', handNumber)
+
+  const { data: handRows } = await handsQuery
+  const hands = ((handRows || []) as HandRow[]).filter(h => h.engine_state)
+
+  let actions: ActionRow[] = []
+  if (hands.length > 0) {
+    const { data: actionRows } = await supabase
+      .from('agent_actions')
+      .select('hand_id, agent_id, action_type, amount, reasoning, fallback_reason, round')
+      .in('hand_id', hands.map(h => h.id))
+      .order('created_at')
+    actions = (actionRows || []) as ActionRow[]
+  }
+
+  return {
+    gameId: game.id,
+    gameNumber: game.game_number,
+    hands: hands.map(hand => buildHandHistory(
+      hand.engine_state as unknown as GameState,
+      actions.filter(a => a.hand_id === hand.id).map(toRecordedAction),
+      { handNumber: hand.hand_number, gameId: game.id, gameNumber: game.game_number, playedAt: hand.created_at }
+    )),
+  }
+}
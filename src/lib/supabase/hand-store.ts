@@ -0,0 +1,236 @@
+/**
+ * Hand Store
+ * Persistence layer for the poker engine's hand state
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - recordAction stores the decision's fallback reason
+ * Updated: Oct 19, 2026 - recordAction stores full decision telemetry
+ * Updated: Oct 19, 2026 - saveHandState clears the action deadline
+ * Updated: Oct 19, 2026 - The action log is hash-chained; recordAction publishes the running
+ *                        digest on the hand (hands.action_log_digest)
+ * Updated: Oct 19, 2026 - insertHandAgents stores each player's ante (hand_agents.ante_posted)
+ * Updated: Oct 19, 2026 - appendToActionLog is atomic (optimistic lock on games.action_log_version)
+ * Updated: Oct 19, 2026 - appendToActionLog treats a NULL action_log_version (rows from before
+ *                        the column) as version 0
+ * Purpose: Load/save the engine GameState for a hand and project it onto the
+ *          hands / hand_agents rows the UI subscribes to. No betting rules live
+ *          here - the orchestrator runs them through lib/poker/game-engine.
+ */
+
+import type { createServiceClient } from './server'
+import type { Agent, AgentAction, Hand, HandAgent, Json } from '@/types/database'
+import type { GameState, Round } from '@/types/poker'
+import { chainActionLogEntry, createActionLogEntry, type ActionLogEntry } from '@/lib/poker/verifiable'
+import type { ActionTelemetry } from '@/lib/ai/telemetry'
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+type HandUpdate = Partial<Hand>
+
+// Tries at appending to the action log before giving up (each re-reads the log)
+const ACTION_LOG_APPEND_ATTEMPTS = 5
+
+export type HandAgentWithAgent = HandAgent & { agents: Agent }
+
+export interface StoredHand {
+  hand: Hand
+  handAgents: HandAgentWithAgent[]
+  state: GameState
+}
+
+/**
+ * Load a hand, its seats and the engine state
+ * Returns null if the hand doesn't exist
+ */
+export async function loadHand(supabase: ServiceClient, handId: string): Promise<StoredHand | null> {
+  const handResult = await supabase
+    .from('hands')
+    .select('*')
+    .eq('id', handId)
+    .single()
+
+  const hand = handResult.data as Hand | null
+  if (!hand) return null
+
+  if (!hand.engine_state) {
+    throw new Error(`Hand ${handId} has no engine state`)
+  }
+
+  const handAgentsResult = await supabase
+    .from('hand_agents')
+    .select('*, agents(*)')
+    .eq('hand_id', handId)
+    .order('seat_position')
+
+  return {
+    hand,
+    handAgents: (handAgentsResult.data || []) as HandAgentWithAgent[],
+    state: hand.engine_state as unknown as GameState,
+  }
+}
+
+/**
+ * Create the hand_agents rows for a freshly initialized hand
+ */
+export async function insertHandAgents(supabase: ServiceClient, handId: string, state: GameState) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  return db.from('hand_agents').insert(state.players.map(p => ({
+    hand_id: handId,
+    agent_id: p.agentId,
+    seat_position: p.seatPosition,
+    hole_cards: p.holeCards,
+    chip_count: p.chipCount,
+    current_bet: p.currentBet,
+    total_contributed: p.totalContributed,
+    ante_posted: p.antePosted ?? 0,
+    is_folded: p.isFolded,
+    is_all_in: p.isAllIn,
+  })))
+}
+
+/**
+ * Persist a new engine state
+ * Writes the snapshot plus the denormalized columns the UI reads, and only
+ * touches hand_agents rows whose player state actually changed
+ */
+export async function saveHandState(
+  supabase: ServiceClient,
+  handId: string,
+  previous: GameState | null,
+  state: GameState,
+  fields: HandUpdate = {}
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  const activePlayer = state.activePlayerIndex >= 0 ? state.players[state.activePlayerIndex] : null
+
+  await db
+    .from('hands')
+    .update({
+      engine_state: state as unknown as Json,
+      pot_amount: state.pot,
+      current_round: state.round,
+      active_agent_id: activePlayer?.agentId ?? null,
+      action_deadline: null, // Set again when the next decision starts
+      ...fields,
+    })
+    .eq('id', handId)
+
+  for (const player of state.players) {
+    const before = previous?.players.find(p => p.agentId === player.agentId)
+    const changed = !before
+      || before.chipCount !== player.chipCount
+      || before.currentBet !== player.currentBet
+      || before.totalContributed !== player.totalContributed
+      || before.isFolded !== player.isFolded
+      || before.isAllIn !== player.isAllIn
+    if (!changed) continue
+
+    await db
+      .from('hand_agents')
+      .update({
+        chip_count: player.chipCount,
+        current_bet: player.currentBet,
+        total_contributed: player.totalContributed,
+        is_folded: player.isFolded,
+        is_all_in: player.isAllIn,
+      })
+      .eq('hand_id', handId)
+      .eq('agent_id', player.agentId)
+  }
+}
+
+/**
+ * Record an action to agent_actions and, for verifiable games, the game's action_log
+ * `telemetry` holds the model stats for agent decisions (none for blinds)
+ * The log's new running digest is published on the hand
+ */
+export async function recordAction(
+  supabase: ServiceClient,
+  hand: Hand,
+  agent: { id: string; slug: string },
+  action: { type: AgentAction['action_type']; amount?: number },
+  round: Round,
+  reasoning: string,
+  telemetry: Partial<ActionTelemetry> = {}
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  await db
+    .from('agent_actions')
+    .insert({
+      hand_id: hand.id,
+      agent_id: agent.id,
+      action_type: action.type,
+      amount: action.amount ?? null,
+      reasoning,
+      round,
+      ...telemetry,
+    })
+
+  const logged = await appendToActionLog(supabase, hand.game_id, createActionLogEntry(
+    hand.hand_number,
+    agent.slug,
+    action.type,
+    round,
+    action.amount
+  ))
+
+  if (logged) {
+    await db
+      .from('hands')
+      .update({ action_log_digest: logged.hash })
+      .eq('id', hand.id)
+  }
+}
+
+/**
+ * Append an action to the game's action_log for verifiable games
+ * Returns the entry as chained onto the log, or null without a game
+ *
+ * The write only lands if nobody appended since the read (action_log_version
+ * counts the entries); otherwise the log is re-read and the entry chained
+ * onto the new last one, so concurrent appends can't drop or fork entries.
+ * Games created before the version column have it NULL, which `= 0` never
+ * matches in SQL - those are locked on IS NULL and become version 1.
+ */
+export async function appendToActionLog(
+  supabase: ServiceClient,
+  gameId: string | null,
+  entry: ActionLogEntry
+): Promise<ActionLogEntry | null> {
+  if (!gameId) return null // No game to log to
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  for (let attempt = 1; attempt <= ACTION_LOG_APPEND_ATTEMPTS; attempt++) {
+    const { data: game } = await db
+      .from('games')
+      .select('action_log, action_log_version')
+      .eq('id', gameId)
+      .single()
+
+    const currentLog = (game?.action_log || []) as ActionLogEntry[]
+    const storedVersion: number | null = game?.action_log_version ?? null
+    const version = storedVersion ?? 0
+
+    // Append new entry, linked to the last one - unless the log moved on meanwhile
+    const chained = chainActionLogEntry(currentLog, entry)
+    const update = db
+      .from('games')
+      .update({ action_log: [...currentLog, chained], action_log_version: version + 1 })
+      .eq('id', gameId)
+    const { data: updated } = await (storedVersion === null
+      ? update.is('action_log_version', null)
+      : update.eq('action_log_version', version)
+    ).select('id')
+
+    if (updated?.length) return chained
+  }
+
+  throw new Error(`Could not append to game ${gameId}'s action log after ${ACTION_LOG_APPEND_ATTEMPTS} attempts`)
+}
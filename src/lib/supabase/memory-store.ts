@@ -0,0 +1,60 @@
+/**
+ * Memory Store
+ * Persists per-agent game memory (lib/ai/memory) on games.agent_memories
+ *
+ * Created: Oct 19, 2026
+ * Purpose: One jsonb map per game (agent id -> AgentMemory), rewritten after
+ *          each resolved hand and read when an agent needs to decide.
+ */
+
+import type { createServiceClient } from './server'
+import type { AgentMemory, StyleCounters } from '@/types/agents'
+import type { GameState } from '@/types/poker'
+import { rememberHand } from '@/lib/ai/memory'
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+async function loadMemories(supabase: ServiceClient, gameId: string): Promise<Record<string, AgentMemory>> {
+  const { data } = await supabase
+    .from('games')
+    .select('agent_memories')
+    .eq('id', gameId)
+    .single()
+
+  return ((data as { agent_memories: unknown } | null)?.agent_memories || {}) as Record<string, AgentMemory>
+}
+
+/**
+ * Memory of one agent for a game, or null before its first resolved hand
+ */
+export async function loadAgentMemory(
+  supabase: ServiceClient,
+  gameId: string | null,
+  agentId: string
+): Promise<AgentMemory | null> {
+  if (!gameId) return null
+  const memories = await loadMemories(supabase, gameId)
+  return memories[agentId] ?? null
+}
+
+/**
+ * Add a resolved hand to every seated agent's memory
+ */
+export async function recordHandMemories(
+  supabase: ServiceClient,
+  gameId: string | null,
+  handNumber: number,
+  state: GameState,
+  handCounters: Record<string, StyleCounters>
+) {
+  if (!gameId) return // Memory is per game
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  const memories = rememberHand(await loadMemories(supabase, gameId), handNumber, state, handCounters)
+  await db
+    .from('games')
+    .update({ agent_memories: memories })
+    .eq('id', gameId)
+}
@@ -0,0 +1,133 @@
+/**
+ * Opponent Store
+ * Loads and updates the action-history stats behind DecisionContext.observedStyle
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - recordHandStats returns the hand's counters (used for agent memory)
+ * Updated: Oct 19, 2026 - Showdown wins only count contested pots
+ * Purpose: Lifetime counters live on agents.style_counters and are bumped once
+ *          per resolved hand; current-game stats are recounted from the game's
+ *          resolved hands (25 at most) when an agent needs to decide.
+ */
+
+import type { createServiceClient } from './server'
+import type { AgentAction, Hand, Json } from '@/types/database'
+import type { ObservedStyle } from '@/types/agents'
+import type { PotAward } from '@/types/poker'
+import {
+  addCounters,
+  countHand,
+  countHands,
+  getShowdownWinnerIds,
+  toObservedStyle,
+  EMPTY_COUNTERS,
+  type StatsAction,
+  type StyleCounters,
+} from '@/lib/poker/opponent-stats'
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+type ActionRow = Pick<AgentAction, 'hand_id' | 'agent_id' | 'action_type' | 'round'>
+
+export interface OpponentStyles {
+  game: ObservedStyle
+  lifetime: ObservedStyle
+}
+
+function toStatsAction(row: ActionRow): StatsAction {
+  return { agentId: row.agent_id, type: row.action_type, round: row.round }
+}
+
+/**
+ * Agents that won a contested pot in a resolved hand
+ */
+function getWinnerIds(hand: Pick<Hand, 'pot_awards'>): string[] {
+  return getShowdownWinnerIds((hand.pot_awards || []) as unknown as PotAward[])
+}
+
+/**
+ * Add a just-resolved hand to each player's lifetime counters
+ * Returns the hand's own counters per agent
+ */
+export async function recordHandStats(
+  supabase: ServiceClient,
+  handId: string,
+  winnerIds: string[]
+): Promise<Record<string, StyleCounters>> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  const { data: rows } = await db
+    .from('agent_actions')
+    .select('hand_id, agent_id, action_type, round')
+    .eq('hand_id', handId)
+    .order('created_at')
+
+  const counters = countHand(((rows || []) as ActionRow[]).map(toStatsAction), winnerIds)
+  const agentIds = Object.keys(counters)
+  if (agentIds.length === 0) return counters
+
+  const { data: agents } = await db
+    .from('agents')
+    .select('id, style_counters')
+    .in('id', agentIds)
+
+  for (const agent of (agents || []) as { id: string; style_counters: Json | null }[]) {
+    const lifetime = (agent.style_counters as unknown as StyleCounters | null) ?? EMPTY_COUNTERS
+    await db
+      .from('agents')
+      .update({ style_counters: addCounters(lifetime, counters[agent.id]) })
+      .eq('id', agent.id)
+  }
+
+  return counters
+}
+
+/**
+ * Current-game and lifetime styles for a set of agents
+ * The hand in progress isn't counted - agents see it through recentActions.
+ */
+export async function loadOpponentStyles(
+  supabase: ServiceClient,
+  gameId: string | null,
+  agentIds: string[]
+): Promise<Record<string, OpponentStyles>> {
+  const agentsResult = await supabase
+    .from('agents')
+    .select('id, style_counters')
+    .in('id', agentIds)
+  const agents = (agentsResult.data || []) as { id: string; style_counters: Json | null }[]
+
+  let gameCounters: Record<string, StyleCounters> = {}
+  if (gameId) {
+    const handsResult = await supabase
+      .from('hands')
+      .select('id, pot_awards')
+      .eq('game_id', gameId)
+      .eq('status', 'resolved')
+    const hands = (handsResult.data || []) as Pick<Hand, 'id' | 'pot_awards'>[]
+
+    if (hands.length > 0) {
+      const actionsResult = await supabase
+        .from('agent_actions')
+        .select('hand_id, agent_id, action_type, round')
+        .in('hand_id', hands.map(h => h.id))
+        .order('created_at')
+      const rows = (actionsResult.data || []) as ActionRow[]
+
+      gameCounters = countHands(hands.map(hand => ({
+        actions: rows.filter(r => r.hand_id === hand.id).map(toStatsAction),
+        winnerIds: getWinnerIds(hand),
+      })))
+    }
+  }
+
+  const styles: Record<string, OpponentStyles> = {}
+  for (const agentId of agentIds) {
+    const lifetime = agents.find(a => a.id === agentId)?.style_counters as unknown as StyleCounters | null
+    styles[agentId] = {
+      game: toObservedStyle(gameCounters[agentId] ?? EMPTY_COUNTERS),
+      lifetime: toObservedStyle(lifetime ?? EMPTY_COUNTERS),
+    }
+  }
+  return styles
+}
@@ -0,0 +1,58 @@
+/**
+ * Time Bank Store
+ * Persists each agent's decision time bank (lib/ai/time-bank) on games.time_banks
+ *
+ * Created: Oct 19, 2026
+ * Purpose: One jsonb map per game (agent id -> milliseconds left), read before
+ *          a decision and rewritten when the decision dipped into the bank.
+ *          Agents without an entry still have the full bank.
+ */
+
+import type { createServiceClient } from './server'
+import { TIME_BANK_MS } from '@/lib/ai/time-bank'
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+async function loadTimeBanks(supabase: ServiceClient, gameId: string): Promise<Record<string, number>> {
+  const { data } = await supabase
+    .from('games')
+    .select('time_banks')
+    .eq('id', gameId)
+    .single()
+
+  return ((data as { time_banks: unknown } | null)?.time_banks || {}) as Record<string, number>
+}
+
+/**
+ * Time bank an agent has left this game (the full bank outside a game)
+ */
+export async function loadTimeBank(
+  supabase: ServiceClient,
+  gameId: string | null,
+  agentId: string
+): Promise<number> {
+  if (!gameId) return TIME_BANK_MS
+  const banks = await loadTimeBanks(supabase, gameId)
+  return banks[agentId] ?? TIME_BANK_MS
+}
+
+/**
+ * Store what's left of an agent's time bank
+ */
+export async function saveTimeBank(
+  supabase: ServiceClient,
+  gameId: string | null,
+  agentId: string,
+  timeBankMs: number
+) {
+  if (!gameId) return // Time banks are per game
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const db = supabase as any
+
+  const banks = await loadTimeBanks(supabase, gameId)
+  await db
+    .from('games')
+    .update({ time_banks: { ...banks, [agentId]: timeBankMs } })
+    .eq('id', gameId)
+}
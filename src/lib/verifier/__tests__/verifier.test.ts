@@ -0,0 +1,135 @@
+/**
+ * Verifier Tests
+ * A simulated game verifies untouched and fails once its history is tampered with
+ *
+ * Created: Oct 19, 2026
+ *
+ * fixtures/game.json is `npm run simulate -- --hands 4 --seed verifier-fixture`;
+ * every tampered game is built from it here.
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'child_process'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { HandHistory } from '@/lib/poker/hand-history'
+import { verifyEntropyBlockHash } from '@/lib/poker/verifiable'
+import { verifyGame, type GameVerificationInput } from '..'
+
+const FIXTURE = join(__dirname, 'fixtures', 'game.json')
+
+interface SimulationFile {
+  startingChips: number
+  games: GameVerificationInput[]
+}
+
+const FILE = JSON.parse(readFileSync(FIXTURE, 'utf8')) as SimulationFile
+const GAME: GameVerificationInput = { ...FILE.games[0], startingChips: FILE.startingChips }
+
+function withHands(edit: (hands: HandHistory[]) => void): GameVerificationInput {
+  const game = structuredClone(GAME)
+  edit(game.hands)
+  return game
+}
+
+// 500 chips for pot-odds from hand 4 on: consistent within the hand, not with hand 3
+const CHIPS_ADDED = 500
+const addChips = (hands: HandHistory[]) => {
+  const hand = hands.find(h => h.handNumber === 4)!
+  hand.seats.find(s => s.agentId === 'pot-odds')!.startingChips += CHIPS_ADDED
+  hand.endingChips['pot-odds'] += CHIPS_ADDED
+}
+const CHIPS_AFTER_HAND_3 = GAME.hands.find(h => h.handNumber === 3)!.endingChips['pot-odds']
+const ADDED_CHIPS_ERROR = `Hand 4: pot-odds starts with ${CHIPS_AFTER_HAND_3 + CHIPS_ADDED}, but ended hand 3 with ${CHIPS_AFTER_HAND_3}`
+
+function runCli(path: string) {
+  return spawnSync('npm', ['run', '-s', 'verify', '--', path], { encoding: 'utf8' })
+}
+
+test('the untouched game verifies', () => {
+  const report = verifyGame(GAME)
+  assert.equal(report.valid, true)
+  assert.equal(report.handsVerified, GAME.hands.length)
+  assert.deepEqual(report.continuity, { valid: true, errors: [] })
+})
+
+test('chips added between hands fail continuity, though every hand replays', () => {
+  const report = verifyGame(withHands(addChips))
+  assert.equal(report.valid, false)
+  assert.equal(report.handsVerified, report.handsTotal)
+  assert.deepEqual(report.continuity.errors, [ADDED_CHIPS_ERROR])
+})
+
+test('a starting stack other than the game\'s fails hand 1', () => {
+  const report = verifyGame({ ...GAME, startingChips: 1500 })
+  assert.equal(report.valid, false)
+  assert.equal(report.continuity.errors.length, GAME.hands[0].seats.length)
+  assert.match(report.continuity.errors[0], /^Hand 1: .+ starts with 1000, not the starting stack of 1500$/)
+})
+
+test('a missing hand fails', () => {
+  const report = verifyGame(withHands(hands => hands.splice(1, 1)))
+  assert.equal(report.valid, false)
+  assert.equal(report.continuity.errors[0], 'Hand 2 is missing')
+})
+
+test('a repeated hand fails', () => {
+  const report = verifyGame(withHands(hands => hands.splice(2, 0, structuredClone(hands[2]))))
+  assert.equal(report.valid, false)
+  assert.deepEqual(report.continuity.errors, ['Hand 3 appears more than once'])
+})
+
+test('a recorded action the engine would change fails the hand', () => {
+  let handNumber = 0
+  const report = verifyGame(withHands(hands => {
+    for (const hand of hands) {
+      const call = hand.streets.flatMap(s => s.actions).find(a => a.type === 'call')
+      if (!call) continue
+      call.type = 'check'
+      delete call.amount
+      handNumber = hand.handNumber
+      return
+    }
+  }))
+  assert.ok(handNumber > 0, 'the fixture has no call to tamper with')
+  assert.equal(report.valid, false)
+  const hand = report.hands.find(h => h.handNumber === handNumber)!
+  assert.equal(hand.valid, false)
+  assert.match(hand.errors[0], /'s check on the \w+ is not legal - the engine plays it as call \d+$/)
+})
+
+test('the CLI passes the untouched game and fails the tampered fixture', () => {
+  const clean = runCli(FIXTURE)
+  assert.equal(clean.status, 0, clean.stdout + clean.stderr)
+  assert.match(clean.stdout, /Game 1: VERIFIED/)
+
+  const dir = mkdtempSync(join(tmpdir(), 'verifier-'))
+  try {
+    const tamperedFile = join(dir, 'tampered-chips.json')
+    const game = structuredClone(FILE.games[0])
+    addChips(game.hands)
+    writeFileSync(tamperedFile, JSON.stringify({ ...FILE, games: [game] }))
+
+    const tampered = runCli(tamperedFile)
+    assert.equal(tampered.status, 1)
+    assert.match(tampered.stdout, /Game 1: FAILED/)
+    assert.ok(tampered.stdout.includes(`Continuity: FAILED\n    ${ADDED_CHIPS_ERROR}`), tampered.stdout)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+test('public entropy must be the chain\'s hash of the entropy block', () => {
+  const hash = '0x' + 'ab'.repeat(32)
+  assert.equal(verifyEntropyBlockHash(hash, 120, hash.toUpperCase().replace('0X', '0x')).valid, true)
+  assert.match(verifyEntropyBlockHash(hash, 120, '0x' + 'cd'.repeat(32)).error!, /not the hash of block 120/)
+  assert.match(verifyEntropyBlockHash(hash, 120, null).error!, /Could not fetch block 120/)
+  assert.equal(verifyEntropyBlockHash(hash, null, hash).valid, false)
+
+  // Only checked when the caller fetched the block's hash
+  const game = { ...GAME, publicEntropy: hash, commitmentBlock: 100, publicEntropyBlock: 120 }
+  assert.equal(verifyGame(game).entropyBlock, undefined)
+  assert.equal(verifyGame({ ...game, entropyBlockHash: '0x' + 'cd'.repeat(32) }).entropyBlock?.valid, false)
+})
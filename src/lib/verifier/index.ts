@@ -0,0 +1,21 @@
+/**
+ * Verifier Module Index
+ * Offline fairness checks for finished games (no Supabase, no Next.js)
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - Export verifyHandPlay and verifyGameWinner
+ * Updated: Oct 19, 2026 - Export verifyChipContinuity
+ */
+
+export {
+  verifyGame,
+  verifyHand,
+  verifyHandPlay,
+  verifyGameWinner,
+  verifyChipContinuity,
+  type ContinuityCheck,
+  type GameVerificationInput,
+  type GameVerificationReport,
+  type HandCheck,
+  type WinnerCheck,
+} from './verifier'
@@ -0,0 +1,333 @@
+/**
+ * Offline Game Verifier
+ * Checks a finished game from its published data alone
+ *
+ * Created: Oct 19, 2026
+ * Updated: Oct 19, 2026 - verifyHandPlay re-evaluates showdowns (determineWinners), recomputes
+ *                        side pots and stacks and reports each discrepancy; the declared game
+ *                        winner is checked against the chip leader
+ * Updated: Oct 19, 2026 - Games with public entropy must show the entropy block came after the
+ *                        commitment was stored (verifyEntropyTiming)
+ * Updated: Oct 19, 2026 - Recorded actions must be legal as recorded (not just after the engine
+ *                        normalizes them); stacks must carry over from hand to hand and hand
+ *                        numbers run 1..n without gaps (verifyChipContinuity)
+ * Updated: Oct 19, 2026 - Checks the public entropy against the entropy block's hash when the
+ *                        caller fetched it from the chain (entropyBlockHash)
+ * Purpose: GET /api/games/:id/verify runs on our own server, so it can't be
+ *          the only proof that a game was fair. This module takes what any
+ *          spectator can hold - the commitment published before the game, the
+ *          salt revealed after it and the exported hand histories
+ *          (GET /api/v1/games/:id/hands, or the simulator's output) - and
+ *          recomputes every hand independently: the seeded deck, hole cards
+ *          and board, then every action through the engine rules up to the
+ *          showdown winners and final stacks. It only depends on lib/poker
+ *          (no Supabase, no Next.js) and backs the `npm run verify` CLI.
+ */
+
+import type { CardNotation, GameState } from '@/types/poker'
+import type { HandHistory } from '@/lib/poker/hand-history'
+import { determineWinners } from '@/lib/poker/hand-evaluator'
+import { calculatePots } from '@/lib/poker/pots'
+import { buildReplay, type ReplayFrame } from '@/lib/poker/replay'
+import {
+  getDeckForHand,
+  parseShuffleVersion,
+  verifyActionLog,
+  verifyEntropyBlockHash,
+  verifyEntropyTiming,
+  verifyGameCommitment,
+  verifyHandCards,
+  type ActionLogEntry,
+  type ActionLogVerification,
+  type EntropyBlockResult,
+  type EntropyTimingResult,
+  type VerificationResult,
+} from '@/lib/poker/verifiable'
+
+export interface GameVerificationInput {
+  commitment: string // Published before the game
+  salt: string // Revealed after the game
+  shuffleVersion?: number | null // games.shuffle_version - missing means the legacy shuffle
+  publicEntropy?: string | null // games.public_entropy, if the game has any
+  commitmentBlock?: number | null // games.commitment_block - chain head once the commitment was stored
+  publicEntropyBlock?: number | null // games.public_entropy_block - the block hashed into publicEntropy
+  entropyBlockHash?: string | null // That block's hash as fetched from the chain (this module has no network access)
+  hands: HandHistory[]
+  actionLog?: ActionLogEntry[] // games.action_log, to check its hash chain
+  handDigests?: Record<number, string> // Published action log digest per hand number
+  winnerId?: string | null // Declared game winner (games.winner_agent_id)
+  startingChips?: number | null // Every player's stack for hand 1 - without it, they only have to be equal
+}
+
+export interface HandCheck {
+  handNumber: number
+  valid: boolean
+  errors: string[]
+  winners: string[] // Agents the recomputed hand paid, in seat order
+  winnerId: string | null // The recomputed hand's headline winner (hands.winner_agent_id)
+  endingChips: Record<string, number> // Recomputed stacks after the hand
+}
+
+export interface WinnerCheck {
+  valid: boolean
+  declared: string | null
+  chipLeaders: string[] // Everyone tied for the most chips after the last hand
+}
+
+export interface ContinuityCheck {
+  valid: boolean
+  errors: string[] // Missing or repeated hand numbers, stacks that don't carry over
+}
+
+export interface GameVerificationReport {
+  valid: boolean
+  commitment: VerificationResult
+  entropyTiming?: EntropyTimingResult // Games with public entropy only
+  entropyBlock?: EntropyBlockResult // Games with public entropy, when entropyBlockHash was given
+  handsVerified: number
+  handsTotal: number
+  hands: HandCheck[]
+  continuity: ContinuityCheck
+  winner?: WinnerCheck
+  actionLog?: ActionLogVerification
+}
+
+const sameIds = (a: string[], b: string[]) => [...a].sort().join() === [...b].sort().join()
+
+const formatAction = (action: { type: string; amount?: number | null }) =>
+  action.amount != null ? `${action.type} ${action.amount}` : action.type
+
+/**
+ * Replay a hand's recorded actions from its deck and compare every result
+ * Every recorded action must be exactly what the engine applies (an illegal
+ * one would otherwise be quietly normalized into a legal one); showdowns are
+ * re-evaluated with determineWinners and side pots rebuilt from the replayed
+ * contributions, independently of the recorded pot awards. Returns one
+ * message per discrepancy (empty when the hand checks out) and the
+ * recomputed result.
+ */
+export function verifyHandPlay(
+  hand: HandHistory,
+  deck: CardNotation[]
+): Omit<HandCheck, 'handNumber' | 'valid'> {
+  const errors: string[] = []
+
+  let frames: ReplayFrame[]
+  try {
+    frames = buildReplay(hand, deck, { checkResult: false })
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : 'Hand cannot be replayed')
+    return { errors, winners: [], winnerId: null, endingChips: {} }
+  }
+  const final: GameState = frames[frames.length - 1].state
+
+  // The first recorded action the engine had to change
+  const changed = frames.findIndex(({ event }) => event.type === 'action' && (
+    event.action.type !== event.applied.type || (event.action.amount ?? 0) !== (event.applied.amount ?? 0)
+  ))
+  if (changed > 0) {
+    const { event } = frames[changed]
+    if (event.type === 'action') {
+      errors.push(`${event.agentId}'s ${formatAction(event.action)} on the ${frames[changed - 1].state.round} is not legal - the engine plays it as ${formatAction(event.applied)}`)
+    }
+  }
+
+  if (!final.isComplete) {
+    errors.push('The recorded actions end before the hand does')
+  }
+  if (final.communityCards.join() !== hand.board.join()) {
+    errors.push(`Board is ${hand.board.join(' ') || 'empty'}, the deck deals ${final.communityCards.join(' ') || 'nothing'}`)
+  }
+
+  // Side pots from what each player put in
+  const pots = calculatePots(final.players.map(p => ({
+    playerId: p.agentId,
+    amount: p.totalContributed,
+    dead: p.antePosted,
+    isFolded: p.isFolded,
+  })))
+  const recordedPots = hand.potAwards
+  if (
+    pots.length !== recordedPots.length ||
+    pots.some((pot, i) => pot.amount !== recordedPots[i].amount || !sameIds(pot.eligiblePlayerIds, recordedPots[i].eligiblePlayerIds))
+  ) {
+    errors.push(`Pots are ${recordedPots.map(p => p.amount).join(' / ') || 'none'}, the contributions make ${pots.map(p => p.amount).join(' / ')}`)
+  }
+
+  // Each contested pot goes to the best eligible hand(s)
+  recordedPots.forEach((pot, i) => {
+    if (pot.eligiblePlayerIds.length < 2) return
+    const contenders = final.players
+      .filter(p => pot.eligiblePlayerIds.includes(p.agentId))
+      .map(p => ({ playerId: p.agentId, holeCards: p.holeCards }))
+    const best = determineWinners(contenders, final.communityCards, final.variant).map(w => w.playerId)
+    const recorded = pot.winners.map(w => w.playerId)
+    if (!sameIds(best, recorded)) {
+      errors.push(`${i === 0 ? 'Main pot' : `Side pot ${i}`} went to ${recorded.join(', ')}, the showdown gives it to ${best.join(', ')}`)
+    }
+  })
+
+  const winnings = final.winnings ?? {}
+  for (const { agentId } of hand.seats) {
+    const recomputed = winnings[agentId] ?? 0
+    const recorded = hand.winnings[agentId] ?? 0
+    if (recomputed !== recorded) {
+      errors.push(`${agentId} was paid ${recorded}, the showdown pays ${recomputed}`)
+    }
+  }
+
+  const endingChips: Record<string, number> = {}
+  for (const p of final.players) {
+    endingChips[p.agentId] = p.chipCount
+    const recorded = hand.endingChips[p.agentId]
+    if (recorded !== p.chipCount) {
+      errors.push(`${p.agentId} ended with ${recorded}, the replay leaves ${p.chipCount}`)
+    }
+  }
+
+  return {
+    errors,
+    winners: hand.seats.filter(s => (winnings[s.agentId] ?? 0) > 0).map(s => s.agentId),
+    winnerId: final.winnerId ?? null,
+    endingChips,
+  }
+}
+
+/**
+ * Recompute one hand from the salt and its recorded actions
+ * Cards must match the seeded deck; replaying the actions through the engine
+ * must reach the recorded board, pay the recorded winnings and leave the
+ * recorded stacks.
+ */
+export function verifyHand(
+  hand: HandHistory,
+  salt: string,
+  shuffleVersion?: number | null,
+  publicEntropy?: string | null
+): HandCheck {
+  const version = parseShuffleVersion(shuffleVersion)
+  const cards = verifyHandCards(
+    salt,
+    hand.handNumber,
+    hand.seats.map(s => s.holeCards),
+    hand.board,
+    version,
+    publicEntropy
+  )
+  if (!cards.valid) {
+    return {
+      handNumber: hand.handNumber,
+      valid: false,
+      errors: [cards.error ?? 'Dealt cards do not match the seeded deck'],
+      winners: [],
+      winnerId: null,
+      endingChips: {},
+    }
+  }
+
+  const play = verifyHandPlay(hand, cards.expectedDeck ?? getDeckForHand(salt, hand.handNumber, version, publicEntropy))
+  return { handNumber: hand.handNumber, valid: play.errors.length === 0, ...play }
+}
+
+/**
+ * Whether the hands form one unbroken game
+ * Hand numbers run 1..n with none missing or repeated, hand 1 starts everyone
+ * on the starting stack, and every later hand starts each player on their
+ * stack after the previous hand - nobody gains or loses chips between hands.
+ */
+export function verifyChipContinuity(hands: HandHistory[], startingChips?: number | null): ContinuityCheck {
+  const errors: string[] = []
+  const sorted = [...hands].sort((a, b) => a.handNumber - b.handNumber)
+
+  let expected = 1
+  for (const { handNumber } of sorted) {
+    if (handNumber < expected) {
+      errors.push(`Hand ${handNumber} appears more than once`)
+      continue
+    }
+    if (handNumber > expected) {
+      errors.push(handNumber === expected + 1 ? `Hand ${expected} is missing` : `Hands ${expected}-${handNumber - 1} are missing`)
+    }
+    expected = handNumber + 1
+  }
+  if (errors.length > 0) return { valid: false, errors }
+
+  sorted.forEach((hand, i) => {
+    const previous = sorted[i - 1]
+    if (!previous) {
+      const stack = startingChips ?? hand.seats[0]?.startingChips
+      for (const seat of hand.seats) {
+        if (seat.startingChips !== stack) {
+          errors.push(`Hand 1: ${seat.agentId} starts with ${seat.startingChips}, not the starting stack of ${stack}`)
+        }
+      }
+      return
+    }
+
+    for (const seat of hand.seats) {
+      const carried = previous.endingChips[seat.agentId]
+      if (carried === undefined) {
+        errors.push(`Hand ${hand.handNumber}: ${seat.agentId} was not in hand ${previous.handNumber}`)
+      } else if (seat.startingChips !== carried) {
+        errors.push(`Hand ${hand.handNumber}: ${seat.agentId} starts with ${seat.startingChips}, but ended hand ${previous.handNumber} with ${carried}`)
+      }
+    }
+    for (const [agentId, chips] of Object.entries(previous.endingChips)) {
+      if (chips > 0 && !hand.seats.some(s => s.agentId === agentId)) {
+        errors.push(`Hand ${hand.handNumber}: ${agentId} ended hand ${previous.handNumber} with ${chips} but is not dealt in`)
+      }
+    }
+  })
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Whether the declared game winner has the most chips after the last hand
+ * Players who sat out the last hand (busted) count with no chips.
+ */
+export function verifyGameWinner(hands: HandCheck[], declared: string | null): WinnerCheck {
+  const last = hands[hands.length - 1]
+  const stacks = Object.entries(last?.endingChips ?? {})
+  const most = Math.max(...stacks.map(([, chips]) => chips))
+  const chipLeaders = stacks.filter(([, chips]) => chips === most).map(([agentId]) => agentId)
+  return { valid: declared !== null && chipLeaders.includes(declared), declared, chipLeaders }
+}
+
+/**
+ * Verify a whole game: the salt against the commitment, the entropy coming
+ * after it, every hand, the stacks carrying over between hands, and the
+ * entropy block's chain hash, declared winner and action log chain when
+ * they're given
+ */
+export function verifyGame(input: GameVerificationInput): GameVerificationReport {
+  const commitment = verifyGameCommitment(input.commitment, input.salt)
+  const entropyTiming = input.publicEntropy
+    ? verifyEntropyTiming(input.commitmentBlock, input.publicEntropyBlock)
+    : undefined
+  const entropyBlock = input.publicEntropy && input.entropyBlockHash !== undefined
+    ? verifyEntropyBlockHash(input.publicEntropy, input.publicEntropyBlock, input.entropyBlockHash)
+    : undefined
+  const hands = [...input.hands]
+    .sort((a, b) => a.handNumber - b.handNumber)
+    .map(hand => verifyHand(hand, input.salt, input.shuffleVersion, input.publicEntropy))
+  const continuity = verifyChipContinuity(input.hands, input.startingChips)
+  const winner = input.winnerId !== undefined ? verifyGameWinner(hands, input.winnerId) : undefined
+  const actionLog = input.actionLog ? verifyActionLog(input.actionLog, input.handDigests) : undefined
+  const handsVerified = hands.filter(h => h.valid).length
+
+  return {
+    valid: commitment.valid && (entropyTiming?.valid ?? true) && (entropyBlock?.valid ?? true) &&
+      handsVerified === hands.length &&
+      continuity.valid && (winner?.valid ?? true) && (actionLog?.valid ?? true),
+    commitment,
+    entropyTiming,
+    entropyBlock,
+    handsVerified,
+    handsTotal: hands.length,
+    hands,
+    continuity,
+    winner,
+    actionLog,
+  }
+}
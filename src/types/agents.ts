@@ -3,10 +3,17 @@
  * Type definitions for LLM-powered poker agents
  * 
  * Created: Jan 5, 2026
+ * Updated: Oct 19, 2026 - Legal actions in DecisionContext, fallback reason codes on AgentDecision
+ * Updated: Oct 19, 2026 - Per-decision telemetry (model, latency, tokens, cost)
+ * Updated: Oct 19, 2026 - ObservedStyle opponent stats (this game and lifetime)
+ * Updated: Oct 19, 2026 - AgentMemory of earlier hands in the game
+ * Updated: Oct 19, 2026 - Betting limit and maximum raise in DecisionContext
+ * Updated: Oct 19, 2026 - Game variant in DecisionContext
+ * Updated: Oct 19, 2026 - 'timeout' fallback reason (decision time and time bank used up)
  * Purpose: Agent configuration and decision-making types
  */
 
-import { PlayerAction, CardNotation, Round } from './poker'
+import { PlayerAction, CardNotation, Round, ActionType, BettingLimit, GameVariant } from './poker'
 
 // Agent personality configuration
 export interface AgentConfig {
@@ -31,7 +38,8 @@ export interface PlayStyle {
 export interface DecisionContext {
   // Agent's own state
   agentId: string
-  holeCards: CardNotation[]
+  variant: GameVariant
+  holeCards: CardNotation[]  // 2 in Hold'em, 4 in Omaha
   chipCount: number
   currentBet: number
   
@@ -39,7 +47,10 @@ export interface DecisionContext {
   communityCards: CardNotation[]
   pot: number
   betToCall: number
-  minRaise: number
+  minRaise: number  // Smallest legal total bet for a raise (current bet + the last full raise)
+  maxRaise: number  // Largest legal total bet (stack, pot limit or fixed-limit size)
+  bettingLimit: BettingLimit
+  validActions: ActionType[]  // Legal actions from the engine (getValidActions)
   round: Round
   position: 'early' | 'middle' | 'late' | 'button' | 'small_blind' | 'big_blind'
   
@@ -48,6 +59,9 @@ export interface DecisionContext {
   
   // Recent history (last few actions)
   recentActions: RecentAction[]
+
+  // What the agent remembers from earlier hands this game
+  memory?: AgentMemory
 }
 
 export interface OpponentState {
@@ -58,27 +72,85 @@ export interface OpponentState {
   isAllIn: boolean
   // Observed tendencies (updated over time)
   observedStyle?: {
-    showdownHands: number  // Hands seen at showdown
-    aggressionScore: number
-    bluffCaughtCount: number
+    game: ObservedStyle      // Resolved hands of the current game
+    lifetime: ObservedStyle  // Every resolved hand on record
   }
 }
 
+// Per-agent, per-game memory built after each resolved hand (lib/ai/memory)
+export interface AgentMemory {
+  chipHistory: { handNumber: number; chips: number }[]  // Stack after each hand
+  notes: MemoryNote[]                                    // Oldest first
+  self: StyleCounters                                    // Own play this game, for table image
+}
+
+export interface MemoryNote {
+  handNumber: number
+  kind: 'showdown' | 'bluff' | 'uncontested'
+  text: string
+}
+
+// Opponent tendencies computed from action history (lib/poker/opponent-stats)
+export interface ObservedStyle {
+  handsObserved: number
+  vpip: number               // 0-1: Voluntarily put chips in preflop
+  pfr: number                // 0-1: Raised preflop
+  aggressionScore: number    // Postflop aggression factor: raises / calls
+  foldToCbet: number | null  // 0-1, null until they've faced a c-bet
+  showdownHands: number      // Hands seen at showdown
+  showdownWins: number
+  bluffCaughtCount: number   // Lost a showdown after making the last raise
+}
+
+// Raw counts behind an ObservedStyle
+export interface StyleCounters {
+  hands: number
+  vpipHands: number
+  pfrHands: number
+  raises: number        // Postflop raises/bets (incl. all-ins)
+  calls: number         // Postflop calls
+  cbetsFaced: number
+  cbetFolds: number
+  showdowns: number
+  showdownWins: number
+  bluffsCaught: number
+}
+
 export interface RecentAction {
   agentName: string
   action: PlayerAction
   timestamp: string
 }
 
+// Why a decision came from the fallback heuristic instead of the model
+export type DecisionFallbackReason =
+  | 'model_error'           // Provider call failed
+  | 'invalid_output'        // Response never matched the decision schema
+  | 'illegal_action'        // Model kept choosing an action that isn't legal
+  | 'invalid_raise_amount'  // Model kept raising outside the legal range
+  | 'timeout'               // No decision before the time budget and time bank ran out
+
+// Model usage for one decision, summed over all attempts
+export interface DecisionTelemetry {
+  modelId: string
+  latencyMs: number     // Wall time including re-prompts
+  inputTokens: number
+  outputTokens: number
+  costUsd: number       // Estimated from the model's pricing
+}
+
 // LLM response for agent decision
 export interface AgentDecision {
   action: PlayerAction
   confidence: number    // 0-1: How confident the agent is
   internalThoughts: string  // What the agent is "thinking" (for display)
+  attempts?: number     // Model calls made (including re-prompts)
+  fallbackReason?: DecisionFallbackReason  // Set when the action is a forced fallback
+  telemetry?: DecisionTelemetry
 }
 
 // Base poker instruction prompt (used for all agents)
-export const POKER_BASE_PROMPT = `You are a professional poker player in a Texas Hold'em cash game. Play to win.
+export const POKER_BASE_PROMPT = `You are a professional poker player in a cash game (the game and its betting rules are given with each decision). Play to win.
 
 Respond ONLY with valid JSON.`
 
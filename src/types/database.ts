@@ -4,6 +4,25 @@
  * 
  * Created: Jan 5, 2026
  * Updated: Jan 10, 2026 - Added games table for 25-hand game sessions
+ * Updated: Oct 19, 2026 - Added hands.engine_state and hand_agents.total_contributed
+ * Updated: Oct 19, 2026 - Added hands.pot_awards
+ * Updated: Oct 19, 2026 - Added games.blind_structure
+ * Updated: Oct 19, 2026 - Added games.betting_structure
+ * Updated: Oct 19, 2026 - Added lobbies.variant and games.variant
+ * Updated: Oct 19, 2026 - Added agents.model_id
+ * Updated: Oct 19, 2026 - Added agent_actions.fallback_reason
+ * Updated: Oct 19, 2026 - Added agent_actions decision telemetry (model_id, latency_ms, tokens, cost_usd, attempts)
+ * Updated: Oct 19, 2026 - Added agents.style_counters
+ * Updated: Oct 19, 2026 - Added games.agent_memories
+ * Updated: Oct 19, 2026 - Added hands.small_blind_position and hands.big_blind_position
+ * Updated: Oct 19, 2026 - Added games.time_banks, hands.action_deadline and the 'timeout' fallback reason
+ * Updated: Oct 19, 2026 - Added games.shuffle_version
+ * Updated: Oct 19, 2026 - Added games.public_entropy
+ * Updated: Oct 19, 2026 - Added hands.action_log_digest
+ * Updated: Oct 19, 2026 - Added hand_agents.ante_posted
+ * Updated: Oct 19, 2026 - Added games.action_log_version
+ * Updated: Oct 19, 2026 - games.action_log_version is NULL on rows from before the column
+ * Updated: Oct 19, 2026 - Added games.commitment_block and games.public_entropy_block
  * Purpose: Type definitions for all database tables
  */
 
@@ -28,6 +47,9 @@ export interface Database {
           wallet_address: string
           chip_count: number
           seat_position: number
+          model_id: string | null
+          // Lifetime StyleCounters (lib/poker/opponent-stats), bumped after each hand
+          style_counters: Json | null
           created_at: string
         }
         Insert: {
@@ -39,6 +61,8 @@ export interface Database {
           wallet_address: string
           chip_count?: number
           seat_position?: number
+          model_id?: string | null
+          style_counters?: Json | null
           created_at?: string
         }
         Update: {
@@ -50,6 +74,8 @@ export interface Database {
           wallet_address?: string
           chip_count?: number
           seat_position?: number
+          model_id?: string | null
+          style_counters?: Json | null
           created_at?: string
         }
       }
@@ -58,18 +84,21 @@ export interface Database {
           id: string
           name: string
           status: 'active' | 'paused'
+          variant: 'holdem' | 'omaha' // GameVariant for new games in this lobby
           created_at: string
         }
         Insert: {
           id?: string
           name: string
           status?: 'active' | 'paused'
+          variant?: 'holdem' | 'omaha'
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
           status?: 'active' | 'paused'
+          variant?: 'holdem' | 'omaha'
           created_at?: string
         }
       }
@@ -90,6 +119,23 @@ export interface Database {
           created_at: string
           on_chain_game_id: number | null // Smart contract game ID on Base network
           chain_id: number // Chain ID (8453 = Base Mainnet, 84532 = Base Sepolia)
+          // BlindStructure (lib/poker/blinds) - null for flat 10/20 games
+          blind_structure: Json | null
+          // BettingStructure (lib/poker/betting) - null for no-limit games
+          betting_structure: Json | null
+          // GameVariant, copied from the lobby when the game is created
+          variant: 'holdem' | 'omaha'
+          // agent id -> AgentMemory (lib/ai/memory), rewritten after each hand
+          agent_memories: Json | null
+          // Decision time bank left per agent (agent id -> ms), lib/ai/time-bank
+          time_banks: Json | null
+          shuffle_version: number | null
+          public_entropy: string | null
+          // Chain head once the commitment was stored, and the block whose hash is public_entropy
+          commitment_block: number | null
+          public_entropy_block: number | null
+          // Entries in games.action_log - appends only land on the version they read
+          action_log_version: number | null
         }
         Insert: {
           id?: string
@@ -107,6 +153,16 @@ export interface Database {
           created_at?: string
           on_chain_game_id?: number | null
           chain_id: number
+          blind_structure?: Json | null
+          betting_structure?: Json | null
+          variant?: 'holdem' | 'omaha'
+          agent_memories?: Json | null
+          time_banks?: Json | null
+          shuffle_version?: number | null
+          public_entropy?: string | null
+          commitment_block?: number | null
+          public_entropy_block?: number | null
+          action_log_version?: number
         }
         Update: {
           id?: string
@@ -124,6 +180,16 @@ export interface Database {
           created_at?: string
           on_chain_game_id?: number | null
           chain_id?: number
+          blind_structure?: Json | null
+          betting_structure?: Json | null
+          variant?: 'holdem' | 'omaha'
+          agent_memories?: Json | null
+          time_banks?: Json | null
+          shuffle_version?: number | null
+          public_entropy?: string | null
+          commitment_block?: number | null
+          public_entropy_block?: number | null
+          action_log_version?: number
         }
       }
       hands: {
@@ -143,7 +209,17 @@ export interface Database {
           // Added for proper poker flow
           current_round: 'preflop' | 'flop' | 'turn' | 'river' | null
           dealer_position: number | null
+          // Blind seats of the hand (the SB seat is empty under a dead small blind)
+          small_blind_position: number | null
+          big_blind_position: number | null
           active_agent_id: string | null
+          // When the active agent's decision time (budget + time bank) runs out
+          action_deadline: string | null
+          action_log_digest: string | null
+          // Serialized engine GameState (lib/poker/game-engine) - source of truth mid-hand
+          engine_state: Json | null
+          // PotAward[] from the showdown (main pot first, then side pots)
+          pot_awards: Json | null
         }
         Insert: {
           id?: string
@@ -160,7 +236,13 @@ export interface Database {
           created_at?: string
           current_round?: 'preflop' | 'flop' | 'turn' | 'river' | null
           dealer_position?: number | null
+          small_blind_position?: number | null
+          big_blind_position?: number | null
           active_agent_id?: string | null
+          action_deadline?: string | null
+          action_log_digest?: string | null
+          engine_state?: Json | null
+          pot_awards?: Json | null
         }
         Update: {
           id?: string
@@ -177,7 +259,13 @@ export interface Database {
           created_at?: string
           current_round?: 'preflop' | 'flop' | 'turn' | 'river' | null
           dealer_position?: number | null
+          small_blind_position?: number | null
+          big_blind_position?: number | null
           active_agent_id?: string | null
+          action_deadline?: string | null
+          action_log_digest?: string | null
+          engine_state?: Json | null
+          pot_awards?: Json | null
         }
       }
       hand_agents: {
@@ -189,6 +277,8 @@ export interface Database {
           hole_cards: string[] | null
           chip_count: number
           current_bet: number
+          total_contributed: number
+          ante_posted: number
           is_folded: boolean
           is_all_in: boolean
         }
@@ -200,6 +290,8 @@ export interface Database {
           hole_cards?: string[] | null
           chip_count: number
           current_bet?: number
+          total_contributed?: number
+          ante_posted?: number
           is_folded?: boolean
           is_all_in?: boolean
         }
@@ -211,6 +303,8 @@ export interface Database {
           hole_cards?: string[] | null
           chip_count?: number
           current_bet?: number
+          total_contributed?: number
+          ante_posted?: number
           is_folded?: boolean
           is_all_in?: boolean
         }
@@ -224,6 +318,13 @@ export interface Database {
           amount: number | null
           reasoning: string | null
           tx_hash: string | null
+          fallback_reason: 'model_error' | 'invalid_output' | 'illegal_action' | 'invalid_raise_amount' | 'timeout' | null
+          model_id: string | null
+          latency_ms: number | null
+          input_tokens: number | null
+          output_tokens: number | null
+          cost_usd: number | null
+          attempts: number | null
           round: 'preflop' | 'flop' | 'turn' | 'river'
           created_at: string
         }
@@ -235,6 +336,13 @@ export interface Database {
           amount?: number | null
           reasoning?: string | null
           tx_hash?: string | null
+          fallback_reason?: 'model_error' | 'invalid_output' | 'illegal_action' | 'invalid_raise_amount' | 'timeout' | null
+          model_id?: string | null
+          latency_ms?: number | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          cost_usd?: number | null
+          attempts?: number | null
           round: 'preflop' | 'flop' | 'turn' | 'river'
           created_at?: string
         }
@@ -246,6 +354,13 @@ export interface Database {
           amount?: number | null
           reasoning?: string | null
           tx_hash?: string | null
+          fallback_reason?: 'model_error' | 'invalid_output' | 'illegal_action' | 'invalid_raise_amount' | 'timeout' | null
+          model_id?: string | null
+          latency_ms?: number | null
+          input_tokens?: number | null
+          output_tokens?: number | null
+          cost_usd?: number | null
+          attempts?: number | null
           round?: 'preflop' | 'flop' | 'turn' | 'river'
           created_at?: string
         }
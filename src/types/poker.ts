@@ -5,6 +5,15 @@
  * Created: Jan 5, 2026
  * Updated: Jan 10, 2026 - Added GameSession types for 25-hand games
  * Updated: Jan 12, 2026 - Added transaction hash fields to UserGameBet for on-chain tracking
+ * Updated: Oct 19, 2026 - GameState carries dealer, blinds, contributions and winnings for the reducer
+ * Updated: Oct 19, 2026 - Added Pot/PotAward for the pot engine
+ * Updated: Oct 19, 2026 - Added BlindLevel/BlindStructure and per-hand antes
+ * Updated: Oct 19, 2026 - EvaluatedHand carries the evaluator's comparable score
+ * Updated: Oct 19, 2026 - Added BettingStructure (no-limit, pot-limit, fixed-limit) per game
+ * Updated: Oct 19, 2026 - Added GameVariant (Hold'em, Omaha) per lobby/game
+ * Updated: Oct 19, 2026 - Last full raise size, last aggressor and per-player actedAtBet for min-raise/reopen rules
+ * Updated: Oct 19, 2026 - Button seat and dead small blind on GameState (dead-button rule)
+ * Updated: Oct 19, 2026 - PlayerState.antePosted (antes are dead money in the main pot)
  * Purpose: Card, hand, and game state types
  */
 
@@ -36,6 +45,7 @@ export type HandRank =
 export interface EvaluatedHand {
   rank: HandRank
   rankValue: number // Numeric value for comparison
+  score: number // Full strength, kickers included: higher wins, equal splits
   cards: CardNotation[] // The 5 cards that make the hand
   description: string // e.g., "Full House, Aces over Kings"
 }
@@ -53,17 +63,33 @@ export interface PlayerAction {
 }
 
 // Game state for a single hand
+// Plain JSON (no classes/Maps) so it can be persisted and replayed as-is
 export interface GameState {
   handId: string
   round: Round
   pot: number
   communityCards: CardNotation[]
   currentBet: number
-  activePlayerIndex: number
-  players: PlayerState[]
+  activePlayerIndex: number // -1 when no one is due to act (betting round closed)
+  dealerIndex: number // On the button, or the closest player before a dead button
+  buttonSeat?: number // Absent = the dealer's seat
+  deadSmallBlind?: boolean // Nobody posts the small blind this hand
+  smallBlind: number
+  bigBlind: number
+  ante?: number // Dead money posted before the deal (0 / absent = no ante)
+  anteType?: AnteType
+  bettingStructure?: BettingStructure // Absent = no-limit
+  raisesThisRound?: number // Full bets + raises this round (the big blind counts preflop)
+  lastRaiseSize?: number // Increment of the last full bet/raise this round (the big blind preflop)
+  lastAggressorId?: string // Last player to bet or raise this round
+  variant?: GameVariant // Absent = Hold'em
+  players: PlayerState[] // Ordered by seat
   deck: CardNotation[]
   isComplete: boolean
   winnerId?: string
+  winningHand?: string
+  winnings?: Record<string, number> // agentId -> chips awarded at showdown
+  potAwards?: PotAward[] // Per-pot breakdown of the showdown
 }
 
 export interface PlayerState {
@@ -72,10 +98,25 @@ export interface PlayerState {
   seatPosition: number
   holeCards: CardNotation[]
   chipCount: number
-  currentBet: number
+  currentBet: number // This betting round
+  totalContributed: number // Whole hand, antes included - used for side pots
+  antePosted?: number // Ante part of totalContributed - dead money for the main pot, not a pot level
   isFolded: boolean
   isAllIn: boolean
   hasActed: boolean
+  actedAtBet?: number // Table bet when the player last acted this round (absent = not yet)
+}
+
+// A main/side pot layer and the players who can win it
+export interface Pot {
+  amount: number
+  eligiblePlayerIds: string[]
+}
+
+// How a pot was paid out at showdown
+export interface PotAward extends Pot {
+  winners: { playerId: string; amount: number }[]
+  winningHand: string | null // null when uncontested
 }
 
 // Betting odds for spectators
@@ -85,6 +126,7 @@ export interface BettingOdds {
   odds: number // e.g., 2.1 means 2.1x payout
   totalBets: number // Total USDC bet on this agent
   betCount: number // Number of bettors
+  winProbability?: number // Current hand equity (0-1) from the visible board
 }
 
 // Spectator betting state
@@ -103,6 +145,7 @@ export type GameEvent =
   | { type: 'BETTING_CLOSED' }
   | { type: 'CARDS_DEALT'; round: Round; cards?: CardNotation[] }
   | { type: 'PLAYER_ACTION'; agentId: string; action: PlayerAction }
+  | { type: 'BET_RETURNED'; agentId: string; amount: number }
   | { type: 'HAND_COMPLETE'; winnerId: string; winningHand: string; pot: number }
   | { type: 'PAYOUTS_DISTRIBUTED'; payouts: { walletAddress: string; amount: number }[] }
 
@@ -125,8 +168,40 @@ export interface GameSession {
   createdAt: string
   onChainGameId: number | null // Smart contract game ID on Base network
   deckCommitment: string | null // Verifiable game commitment hash (Phase 2)
+  blindStructure: BlindStructure | null // Escalating blinds (null = flat 10/20 legacy games)
+  bettingStructure: BettingStructure // No-limit for games created before betting structures
+  variant: GameVariant // Hold'em for games created before variants
 }
 
+// Blind schedule for a game
+// per_player: everyone dealt in posts the ante; big_blind: the BB posts one ante for the table
+export type AnteType = 'none' | 'per_player' | 'big_blind'
+
+export interface BlindLevel {
+  fromHand: number // First hand number (1-based) this level applies to
+  smallBlind: number
+  bigBlind: number
+  ante: number
+}
+
+export interface BlindStructure {
+  levels: BlindLevel[] // Sorted by fromHand, first level starts at hand 1
+  anteType: AnteType
+}
+
+// Betting structure for a game
+// no_limit: raise up to the whole stack; pot_limit: up to the pot after calling;
+// fixed_limit: bets/raises of one big blind preflop and on the flop, two on the turn and river
+export type BettingLimit = 'no_limit' | 'pot_limit' | 'fixed_limit'
+
+export interface BettingStructure {
+  limit: BettingLimit
+  raiseCap?: number // fixed_limit: bets + raises allowed per round (defaults to 4)
+}
+
+// Hold'em: 2 hole cards, any five of seven; Omaha: 4 hole cards, exactly two with three from the board
+export type GameVariant = 'holdem' | 'omaha'
+
 // Agent standings during a game
 export interface AgentStanding {
   agentId: string